@@ -28,7 +28,9 @@ import {
 import { RocketBuilderForm } from './components/RocketBuilderForm';
 import { LaunchButton } from './components/LaunchButton';
 import { ResultPanel } from './components/ResultPanel';
-import { RocketConfig, SimulationResult, defaultRocketConfig } from './api/rocketApi';
+import { SweepPanel } from './components/SweepPanel';
+import { ComparisonPanel } from './components/ComparisonPanel';
+import { RocketConfig, SimulationResult, TrajectoryPoint, defaultRocketConfig } from './api/rocketApi';
 
 // Create Material-UI theme
 const theme = createTheme({
@@ -109,6 +111,7 @@ function App() {
   const [simulationResult, setSimulationResult] = useState<SimulationResult | null>(null);
   const [isLaunching, setIsLaunching] = useState(false);
   const [launchError, setLaunchError] = useState<string | null>(null);
+  const [liveTelemetry, setLiveTelemetry] = useState<TrajectoryPoint[]>([]);
 
   const isMobile = useMediaQuery(theme.breakpoints.down('md'));
 
@@ -117,6 +120,16 @@ function App() {
     // Keep previous results visible - let user decide when to run new simulation
   };
 
+  const handleLaunchStart = () => {
+    setIsLaunching(true);
+    setLaunchError(null);
+    setLiveTelemetry([]);
+  };
+
+  const handleTelemetry = (points: TrajectoryPoint[]) => {
+    setLiveTelemetry(previous => [...previous, ...points]);
+  };
+
   const handleLaunchSuccess = (result: SimulationResult) => {
     setSimulationResult(result);
     setIsLaunching(false);
@@ -188,6 +201,8 @@ function App() {
                 rocketConfig={rocketConfig}
                 onLaunchSuccess={handleLaunchSuccess}
                 onLaunchError={handleLaunchError}
+                onLaunchStart={handleLaunchStart}
+                onTelemetry={handleTelemetry}
                 disabled={isLaunching}
                 size={isMobile ? 'medium' : 'large'}
               />
@@ -208,7 +223,10 @@ function App() {
               <ResultPanel 
                 result={simulationResult}
                 loading={isLaunching}
+                liveTelemetry={liveTelemetry}
               />
+              <ComparisonPanel result={simulationResult} />
+              <SweepPanel rocketId={simulationResult?.rocketId} />
             </Box>
           </Grid>
         </Grid>
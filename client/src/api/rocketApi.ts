@@ -53,6 +53,10 @@ export interface RocketConfig {
     windSpeed?: number;
     windDirection?: number;
   };
+  aerodynamics?: {
+    dragMultiplier: number; // scales the modeled Cd
+    calibration?: { flights: number; residual: number; calibratedAt: string };
+  };
 }
 
 export interface CreateRocketRequest {
@@ -89,6 +93,54 @@ export interface RocketDesign {
   updatedAt: string;
 }
 
+export interface RocketRevision {
+  id: string;
+  rocketId: string;
+  version: number;
+  userId: string;
+  name: string;
+  description?: string;
+  config: RocketConfig;
+  restoredFrom?: number; // version copied by a restore
+  createdAt: string;
+}
+
+export interface ConfigChange {
+  path: string; // e.g. 'fins.span'
+  type: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface RevisionDiff {
+  rocketId: string;
+  from: number;
+  to: number;
+  changes: ConfigChange[];
+}
+
+export interface FieldConflict {
+  path: string; // 'name', 'description' or e.g. 'config.fins.span'
+  base?: unknown;
+  yours?: unknown; // absent when your edit removed it
+  theirs?: unknown; // absent when it was removed since
+}
+
+export interface RocketUpdateConflict {
+  current: RocketDesign;
+  baseVersion: number;
+  merged: { name: string; description: string; config: RocketConfig }; // conflicts take your side
+  conflicts: FieldConflict[];
+}
+
+// Thrown by updateRocket when the rocket was saved since the given version
+export class RocketConflictError extends Error {
+  constructor(public readonly conflict: RocketUpdateConflict) {
+    super(`Rocket has been saved since version ${conflict.baseVersion}`);
+    this.name = 'RocketConflictError';
+  }
+}
+
 export interface FlightResults {
   maxAltitude: number;
   maxVelocity: number;
@@ -99,9 +151,15 @@ export interface FlightResults {
   apogeeTime: number;
   recoveryTime: number;
   landingDistance: number;
+  railExitVelocity?: number;
+  railExitTime?: number;
   maxMachNumber: number;
   maxDynamicPressure: number;
   stabilityMargin: number;
+  deploymentVelocity?: number;
+  drogueDescentRate?: number;
+  descentRate?: number;
+  driftDistance?: number;
   successful: boolean;
   issues: Array<{
     type: string;
@@ -126,13 +184,25 @@ export interface TrajectoryPoint {
   phase: string;
 }
 
+export interface FlightEvent {
+  type: 'ignition' | 'launch_rod_clearance' | 'burnout' | 'stage_separation' | 'apogee' | 'ejection' | 'deployment' | 'ground_hit';
+  time: number;
+  altitude: number;
+  velocity: number;
+  position: { x: number; y: number; z: number };
+  stage?: number;
+  device?: 'drogue' | 'main';
+}
+
 export interface SimulationResult {
   id: string;
   rocketId: string;
   userId: string;
   config: RocketConfig;
+  rocketVersion?: number; // design version flown
   results: FlightResults;
   telemetry: TrajectoryPoint[];
+  events: FlightEvent[];
   weather: {
     temperature: number;
     pressure: number;
@@ -140,9 +210,48 @@ export interface SimulationResult {
     windSpeed: number;
     windDirection: number;
   };
+  launchOptions?: LaunchOptions;
+  seed?: number;
+  engineVersion?: string;
+  inputHash?: string;
   createdAt: string;
 }
 
+export interface SimulationReplay {
+  simulationId: string;
+  reproduced: boolean;
+  inputHash: string;
+  inputHashMatches: boolean;
+  engineVersion: { stored?: string; current: string };
+  differences: Array<{
+    field: string;
+    stored: number | boolean | string | null;
+    replayed: number | boolean | string | null;
+  }>;
+  results: FlightResults;
+}
+
+export interface SimulationProgress {
+  fraction: number; // 0-1
+  time: number;
+  phase: string;
+  altitude: number;
+  telemetry: TrajectoryPoint[]; // points since the previous report
+}
+
+export interface SimulationJob {
+  id: string;
+  rocketId: string;
+  userId: string;
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  progress?: Omit<SimulationProgress, 'telemetry'>;
+  simulationId?: string;
+  error?: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
 export interface LaunchOptions {
   weather?: {
     temperature?: number;
@@ -154,6 +263,225 @@ export interface LaunchOptions {
   timeStep?: number;
   maxFlightTime?: number;
   detailedTelemetry?: boolean;
+  seed?: number;
+}
+
+export type TelemetryExportFormat = 'csv' | 'jsonl' | 'ork-csv';
+
+export interface TelemetryExportOptions {
+  format: TelemetryExportFormat;
+  columns?: string[];
+  decimate?: number; // keep every nth point
+}
+
+export type FlightLogFormat = 'auto' | 'jolly-logic' | 'perfectflite' | 'eggtimer' | 'csv';
+
+export interface FlightLog {
+  id: string;
+  rocketId: string;
+  userId: string;
+  name: string;
+  format: FlightLogFormat;
+  flownAt?: string;
+  samples: Array<{ time: number; altitude: number; velocity?: number }>; // empty in lists
+  velocitySource: 'logged' | 'derived';
+  apogee: number;
+  apogeeTime: number;
+  maxVelocity: number;
+  createdAt: string;
+}
+
+export interface FlightMetricComparison {
+  actual: number;
+  simulated: number;
+  difference: number; // simulated - actual
+  percentDifference: number;
+}
+
+export interface FlightComparison {
+  flightLogId: string;
+  simulationId: string;
+  timeOffset: number;
+  apogee: FlightMetricComparison;
+  apogeeTime: FlightMetricComparison;
+  maxVelocity: FlightMetricComparison;
+  rmsAltitudeError: number;
+  maxAltitudeError: { value: number; time: number };
+  samplesCompared: number;
+  overlay: Array<{ time: number; actualAltitude: number; simulatedAltitude: number }>;
+}
+
+export interface ApogeeObservation {
+  apogee?: number; // meters AGL
+  apogeeTime?: number; // seconds
+  flightLogId?: string; // use the apogee of an imported log
+  weather?: LaunchOptions['weather'];
+  launchAngle?: number;
+}
+
+export interface DragCalibration {
+  dragMultiplier: number;
+  previousMultiplier: number;
+  residual: number; // RMS relative error after fitting
+  flights: Array<{
+    observed: { apogee?: number; apogeeTime?: number };
+    before: { apogee: number; apogeeTime: number };
+    after: { apogee: number; apogeeTime: number };
+  }>;
+}
+
+export interface DragCalibrationResult {
+  rocket: RocketDesign;
+  calibration: DragCalibration;
+}
+
+export type OptimizationObjective = 'target_apogee' | 'max_altitude' | 'min_drift';
+
+export type OptimizationParameter =
+  | 'fins.span'
+  | 'fins.rootChord'
+  | 'body.length'
+  | 'noseCone.length'
+  | 'noseCone.ballastMass'
+  | 'recovery.parachuteDiameter';
+
+export interface OptimizationRequest {
+  objective: OptimizationObjective;
+  targetApogee?: number; // meters, for target_apogee
+  variables?: Array<{ parameter: OptimizationParameter; min: number; max: number }>;
+  engineTypes?: string[]; // impulse classes to try
+  minStabilityMargin?: number; // calibers (default 1.5)
+  maxEvaluations?: number;
+  results?: number;
+  options?: LaunchOptions;
+}
+
+export interface OptimizationCandidate {
+  config: RocketConfig;
+  values: Partial<Record<OptimizationParameter, number>>;
+  motor: string;
+  apogee: number;
+  stabilityMargin: number;
+  landingDistance: number;
+  objectiveValue: number;
+}
+
+export interface OptimizationResult {
+  objective: OptimizationObjective;
+  targetApogee?: number;
+  minStabilityMargin: number;
+  evaluations: number;
+  candidates: OptimizationCandidate[]; // best first
+}
+
+export interface OptimizationProgress {
+  evaluations: number;
+  maxEvaluations: number;
+  fraction: number;
+  motor: string;
+  bestObjectiveValue?: number;
+}
+
+export interface OptimizationJob {
+  id: string;
+  rocketId: string;
+  userId: string;
+  status: SimulationJob['status'];
+  progress?: OptimizationProgress;
+  result?: OptimizationResult;
+  error?: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export type ComparisonAxis = 'time' | 'altitude';
+
+export interface ComparedSimulation {
+  id: string;
+  rocketId: string;
+  createdAt: string;
+  results: FlightResults;
+}
+
+export interface SimulationMetricDelta {
+  metric: keyof FlightResults;
+  values: Array<number | null>; // one per simulation
+  differences: Array<number | null>; // from the first simulation
+  percentDifferences: Array<number | null>;
+}
+
+export interface ComparisonPoint {
+  x: number; // seconds, or meters on the altitude axis
+  time: Array<number | null>; // one per simulation, null where its flight has no value
+  altitude: Array<number | null>;
+  velocity: Array<number | null>; // m/s speed
+  acceleration: Array<number | null>; // m/s²
+}
+
+export interface SimulationComparison {
+  axis: ComparisonAxis;
+  simulations: ComparedSimulation[]; // the first is the baseline
+  metrics: SimulationMetricDelta[];
+  points: ComparisonPoint[];
+}
+
+export type SweepMode = 'full' | 'fast';
+
+export type SweepMetric =
+  | 'maxAltitude'
+  | 'maxVelocity'
+  | 'maxAcceleration'
+  | 'apogeeTime'
+  | 'flightTime'
+  | 'landingDistance'
+  | 'stabilityMargin'
+  | 'maxMachNumber'
+  | 'railExitVelocity'
+  | 'descentRate'
+  | 'score'
+  | 'estimatedAltitude'
+  | 'estimatedVelocity'
+  | 'thrustToWeight';
+
+export interface SweepAxis {
+  path: string; // dotted config path, e.g. 'fins.span'
+  from: number;
+  to: number;
+  steps: number;
+}
+
+export interface SweepRequest {
+  axes: SweepAxis[]; // one for a table, two for a grid
+  mode?: SweepMode;
+  options?: LaunchOptions;
+}
+
+export interface SweepPoint {
+  values: number[]; // one per axis
+  metrics: Partial<Record<SweepMetric, number>>;
+  successful: boolean;
+  error?: string;
+}
+
+export interface SweepResult {
+  mode: SweepMode;
+  axes: (SweepAxis & { values: number[] })[];
+  metrics: SweepMetric[];
+  points: SweepPoint[]; // every combination, the last axis varying fastest
+}
+
+export type DesignFileFormat = 'ork' | 'rkt';
+
+export interface DesignImportNote {
+  component: string;
+  action: 'approximated' | 'dropped';
+  detail: string;
+}
+
+export interface DesignImportResult {
+  rocket: RocketDesign;
+  notes: DesignImportNote[];
 }
 
 export interface PerformanceEstimate {
@@ -161,6 +489,13 @@ export interface PerformanceEstimate {
   estimatedVelocity: number;
   thrustToWeight: number;
   stabilityMargin: number;
+  railExit: {
+    rodLength: number;
+    velocity: number;
+    time?: number;
+    requiredVelocity: number;
+    suggestedRodLength?: number;
+  };
   recommendations: string[];
 }
 
@@ -183,6 +518,87 @@ apiClient.interceptors.request.use((config) => {
   return config;
 });
 
+// Read a job's server-sent events until it completes or fails; undefined when
+// the stream ends first. EventSource cannot send the auth header, so the
+// stream is read through fetch.
+async function readJobEvents<TResult, TProgress>(
+  path: string,
+  onProgress?: (progress: TProgress) => void
+): Promise<TResult | undefined> {
+  const token = localStorage.getItem('authToken');
+  const response = await fetch(`${API_BASE_URL}${path}`, {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to follow job (${response.status})`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary;
+    while ((boundary = buffer.indexOf('\n\n')) >= 0) {
+      const message = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      const event = message.match(/^event: (.*)$/m)?.[1];
+      const data = JSON.parse(message.match(/^data: (.*)$/m)?.[1] ?? 'null');
+
+      if (event === 'progress') {
+        onProgress?.(data);
+      } else if (event === 'completed') {
+        reader.cancel();
+        return data;
+      } else if (event === 'failed') {
+        reader.cancel();
+        throw new Error(data.message);
+      }
+    }
+  }
+
+  return undefined;
+}
+
+// Follow a queued launch to its simulation
+async function followJob(
+  jobId: string,
+  onProgress?: (progress: SimulationProgress) => void
+): Promise<SimulationResult> {
+  const result = await readJobEvents<SimulationResult, SimulationProgress>(`/jobs/${jobId}/events`, onProgress);
+  if (result) return result;
+
+  // The stream ended without a result (the job finished before it opened)
+  const job = await rocketApi.getJob(jobId);
+  if (job.status === 'completed' && job.simulationId) {
+    return rocketApi.getSimulation(job.simulationId);
+  }
+  throw new Error(job.error ?? 'Launch job ended without a result');
+}
+
+// Follow a queued optimization to its candidates
+async function followOptimization(
+  jobId: string,
+  onProgress?: (progress: OptimizationProgress) => void
+): Promise<OptimizationResult> {
+  const result = await readJobEvents<OptimizationResult, OptimizationProgress>(
+    `/optimizations/${jobId}/events`,
+    onProgress
+  );
+  if (result) return result;
+
+  const job = await rocketApi.getOptimizationJob(jobId);
+  if (job.status === 'completed' && job.result) {
+    return job.result;
+  }
+  throw new Error(job.error ?? 'Optimization ended without a result');
+}
+
 export const rocketApi = {
   // Create a new rocket
   async createRocket(data: CreateRocketRequest): Promise<RocketDesign> {
@@ -196,9 +612,37 @@ export const rocketApi = {
     return response.data.data;
   },
 
-  // Update rocket
-  async updateRocket(id: string, data: Partial<CreateRocketRequest>): Promise<RocketDesign> {
-    const response = await apiClient.put(`/rockets/${id}`, data);
+  // Update rocket; given the version the edit started from, a save made
+  // since rejects with a RocketConflictError to merge from
+  async updateRocket(id: string, data: Partial<CreateRocketRequest>, version?: number): Promise<RocketDesign> {
+    try {
+      const response = await apiClient.put(`/rockets/${id}`, data, {
+        headers: version !== undefined ? { 'If-Match': `"${version}"` } : {},
+      });
+      return response.data.data;
+    } catch (error: any) {
+      if (error.response?.status === 409 && error.response.data?.code === 'VERSION_CONFLICT') {
+        throw new RocketConflictError(error.response.data.data);
+      }
+      throw error;
+    }
+  },
+
+  // List a rocket's saved versions, newest first
+  async getRocketVersions(id: string): Promise<RocketRevision[]> {
+    const response = await apiClient.get(`/rockets/${id}/versions`);
+    return response.data.data;
+  },
+
+  // Config changes between two saved versions
+  async diffRocketVersions(id: string, from: number, to: number): Promise<RevisionDiff> {
+    const response = await apiClient.get(`/rockets/${id}/versions/diff`, { params: { from, to } });
+    return response.data.data;
+  },
+
+  // Save an earlier version again as the newest one
+  async restoreRocketVersion(id: string, version: number): Promise<RocketDesign> {
+    const response = await apiClient.post(`/rockets/${id}/versions/${version}/restore`);
     return response.data.data;
   },
 
@@ -207,12 +651,191 @@ export const rocketApi = {
     await apiClient.delete(`/rockets/${id}`);
   },
 
-  // Launch rocket simulation
-  async launchRocket(id: string, options?: LaunchOptions): Promise<SimulationResult> {
+  // Queue a rocket simulation
+  async queueLaunch(id: string, options?: LaunchOptions): Promise<SimulationJob> {
     const response = await apiClient.post(`/rockets/${id}/launch`, { options });
     return response.data.data;
   },
 
+  // Launch rocket simulation and follow the queued job until it finishes
+  async launchRocket(
+    id: string,
+    options?: LaunchOptions,
+    onProgress?: (progress: SimulationProgress) => void
+  ): Promise<SimulationResult> {
+    const job = await rocketApi.queueLaunch(id, options);
+    return followJob(job.id, onProgress);
+  },
+
+  // Play a queued launch's telemetry at flight pace (`speed` times faster),
+  // resolving with the simulation once playback ends
+  watchLaunch(
+    jobId: string,
+    onTelemetry: (points: TrajectoryPoint[]) => void,
+    speed: number = 1
+  ): Promise<SimulationResult> {
+    const token = localStorage.getItem('authToken') ?? '';
+    const url = `${API_BASE_URL.replace(/^http/, 'ws')}/jobs/${jobId}/telemetry` +
+      `?token=${encodeURIComponent(token)}&speed=${speed}`;
+
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(url);
+      let settled = false;
+
+      socket.onmessage = (message) => {
+        const { type, payload } = JSON.parse(message.data);
+        if (type === 'telemetry') {
+          onTelemetry(payload);
+        } else if (type === 'completed') {
+          settled = true;
+          resolve(payload);
+        } else if (type === 'failed') {
+          settled = true;
+          reject(new Error(payload.message));
+        }
+      };
+      socket.onclose = () => {
+        if (!settled) reject(new Error('Telemetry connection closed'));
+      };
+    });
+  },
+
+  // Get a queued launch's status
+  async getJob(id: string): Promise<SimulationJob> {
+    const response = await apiClient.get(`/jobs/${id}`);
+    return response.data.data;
+  },
+
+  // Get a stored simulation
+  async getSimulation(id: string): Promise<SimulationResult> {
+    const response = await apiClient.get(`/simulations/${id}`);
+    return response.data.data;
+  },
+
+  // Download a simulation's telemetry as a file
+  async downloadTelemetry(id: string, options: TelemetryExportOptions): Promise<void> {
+    const response = await apiClient.get(`/simulations/${id}/export`, {
+      params: {
+        format: options.format,
+        columns: options.columns?.join(','),
+        decimate: options.decimate,
+      },
+      responseType: 'blob',
+    });
+    const filename = response.headers['content-disposition']?.match(/filename="(.+)"/)?.[1]
+      ?? `simulation-${id}.${options.format === 'jsonl' ? 'jsonl' : 'csv'}`;
+
+    const url = URL.createObjectURL(response.data);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  },
+
+  // Attach an altimeter CSV log of a real flight to a rocket
+  async importFlightLog(rocketId: string, file: File, format: FlightLogFormat = 'auto'): Promise<FlightLog> {
+    const response = await apiClient.post(`/rockets/${rocketId}/flights`, {
+      content: await file.text(),
+      format,
+      name: file.name.replace(/\.[^.]+$/, '') || undefined,
+    });
+    return response.data.data;
+  },
+
+  // List a rocket's flight logs
+  async getRocketFlightLogs(rocketId: string): Promise<FlightLog[]> {
+    const response = await apiClient.get(`/rockets/${rocketId}/flights`);
+    return response.data.data;
+  },
+
+  // Compare a flight log with a simulation (the rocket's latest by default)
+  async compareFlightLog(id: string, simulationId?: string): Promise<FlightComparison> {
+    const response = await apiClient.get(`/flights/${id}/compare`, { params: { simulationId } });
+    return response.data.data;
+  },
+
+  // Delete a flight log
+  async deleteFlightLog(id: string): Promise<void> {
+    await apiClient.delete(`/flights/${id}`);
+  },
+
+  // Fit the rocket's drag multiplier to observed flights and save it
+  async calibrateDrag(rocketId: string, observations: ApogeeObservation[]): Promise<DragCalibrationResult> {
+    const response = await apiClient.post(`/rockets/${rocketId}/calibrate`, { observations });
+    return response.data.data;
+  },
+
+  // Queue a search of the design's dimensions and motors
+  async queueOptimization(rocketId: string, request: OptimizationRequest): Promise<OptimizationJob> {
+    const response = await apiClient.post(`/rockets/${rocketId}/optimize`, request);
+    return response.data.data;
+  },
+
+  // Optimize a design and follow the queued job until it finishes
+  async optimizeRocket(
+    rocketId: string,
+    request: OptimizationRequest,
+    onProgress?: (progress: OptimizationProgress) => void
+  ): Promise<OptimizationResult> {
+    const job = await rocketApi.queueOptimization(rocketId, request);
+    return followOptimization(job.id, onProgress);
+  },
+
+  // Get a queued optimization's status
+  async getOptimizationJob(id: string): Promise<OptimizationJob> {
+    const response = await apiClient.get(`/optimizations/${id}`);
+    return response.data.data;
+  },
+
+  // Vary one or two config fields and get the flight metrics at each point
+  async sweepRocket(rocketId: string, request: SweepRequest): Promise<SweepResult> {
+    const response = await apiClient.post(`/rockets/${rocketId}/sweep`, request);
+    return response.data.data;
+  },
+
+  // Create a rocket from an OpenRocket (.ork) or RockSim (.rkt) file
+  async importRocket(file: File, name?: string): Promise<DesignImportResult> {
+    const format = file.name.toLowerCase().endsWith('.rkt') ? 'rkt' : 'ork';
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+
+    const response = await apiClient.post('/rockets/import', { content: btoa(binary), format, name });
+    return response.data.data;
+  },
+
+  // Download a rocket as an OpenRocket or RockSim file
+  async exportRocket(id: string, format: DesignFileFormat): Promise<void> {
+    const response = await apiClient.get(`/rockets/${id}/export`, {
+      params: { format },
+      responseType: 'blob',
+    });
+    const filename = response.headers['content-disposition']?.match(/filename="(.+)"/)?.[1]
+      ?? `rocket-${id}.${format}`;
+
+    const url = URL.createObjectURL(response.data);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  },
+
+  // Overlay simulations and get their metric differences from the first
+  async compareSimulations(ids: string[], axis: ComparisonAxis = 'time'): Promise<SimulationComparison> {
+    const response = await apiClient.get('/simulations/compare', { params: { ids: ids.join(','), axis } });
+    return response.data.data;
+  },
+
+  // Re-run a simulation and compare it with the stored results
+  async replaySimulation(id: string): Promise<SimulationReplay> {
+    const response = await apiClient.post(`/simulations/${id}/replay`);
+    return response.data.data;
+  },
+
   // Get performance estimate
   async estimatePerformance(config: RocketConfig): Promise<PerformanceEstimate> {
     const response = await apiClient.post('/rockets/estimate', config);
@@ -0,0 +1,299 @@
+/**
+ * Comparison Panel Component
+ *
+ * Overlays the current flight with earlier simulations of the same rocket,
+ * so design changes can be judged at a glance ("run 3 vs run 4").
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  Typography,
+  Grid,
+  Box,
+  Chip,
+  Alert,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  ToggleButton,
+  ToggleButtonGroup,
+  LinearProgress,
+  useTheme,
+  useMediaQuery
+} from '@mui/material';
+import { CompareArrows as CompareIcon } from '@mui/icons-material';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import {
+  SimulationResult,
+  SimulationComparison,
+  ComparisonAxis,
+  FlightResults,
+  rocketApi
+} from '../api/rocketApi';
+
+type Quantity = 'time' | 'altitude' | 'velocity' | 'acceleration';
+
+const MAX_OTHERS = 5; // the server compares up to six simulations
+
+const quantityLabels: Record<Quantity, string> = {
+  time: 'Time (s)',
+  altitude: 'Altitude (m)',
+  velocity: 'Velocity (m/s)',
+  acceleration: 'Acceleration (G)'
+};
+
+const metricLabels: Partial<Record<keyof FlightResults, string>> = {
+  maxAltitude: 'Apogee (m)',
+  maxVelocity: 'Max velocity (m/s)',
+  maxAcceleration: 'Max acceleration (m/s²)',
+  burnoutAltitude: 'Burnout altitude (m)',
+  apogeeTime: 'Time to apogee (s)',
+  flightTime: 'Flight time (s)',
+  landingDistance: 'Landing distance (m)',
+  stabilityMargin: 'Stability margin (cal)',
+  maxMachNumber: 'Max Mach',
+  railExitVelocity: 'Rail exit velocity (m/s)',
+  descentRate: 'Descent rate (m/s)',
+  score: 'Score'
+};
+
+interface ComparisonPanelProps {
+  result: SimulationResult | null;
+}
+
+const formatNumber = (value: number, decimals: number = 1) => value.toFixed(decimals);
+
+export const ComparisonPanel: React.FC<ComparisonPanelProps> = ({ result }) => {
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('md'));
+  const colors = [
+    theme.palette.primary.main,
+    theme.palette.secondary.main,
+    theme.palette.success.main,
+    theme.palette.warning.main,
+    theme.palette.info.main,
+    theme.palette.error.main
+  ];
+
+  const [history, setHistory] = useState<SimulationResult[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [axis, setAxis] = useState<ComparisonAxis>('time');
+  const [quantity, setQuantity] = useState<Quantity>('altitude');
+  const [comparison, setComparison] = useState<SimulationComparison | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Earlier runs of the same rocket, oldest first so run numbers stay put
+  useEffect(() => {
+    setSelected([]);
+    setComparison(null);
+    setError(null);
+    if (!result) {
+      setHistory([]);
+      return;
+    }
+
+    rocketApi.getRocketSimulations(result.rocketId)
+      .then(simulations => setHistory(
+        simulations.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+      ))
+      .catch(() => setHistory([]));
+  }, [result?.id]);
+
+  useEffect(() => {
+    if (!result || selected.length === 0) {
+      setComparison(null);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    rocketApi.compareSimulations([result.id, ...selected], axis)
+      .then(data => !cancelled && setComparison(data))
+      .catch((err: any) => !cancelled && setError(err.response?.data?.message || err.message || 'Comparison failed'))
+      .finally(() => !cancelled && setLoading(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [result?.id, selected, axis]);
+
+  const others = history.filter(simulation => simulation.id !== result?.id);
+  if (!result || others.length === 0) {
+    return null;
+  }
+
+  const runLabel = (id: string) => {
+    if (id === result.id) return 'This flight';
+    return `Run ${history.findIndex(simulation => simulation.id === id) + 1}`;
+  };
+
+  const toggle = (id: string) => {
+    setSelected(previous => previous.includes(id)
+      ? previous.filter(other => other !== id)
+      : [...previous, id].slice(-MAX_OTHERS));
+  };
+
+  const changeAxis = (next: ComparisonAxis) => {
+    setAxis(next);
+    // Altitude against altitude says nothing; show how long each took instead
+    if (next === 'altitude' && quantity === 'altitude') setQuantity('time');
+    if (next === 'time' && quantity === 'time') setQuantity('altitude');
+  };
+
+  const quantities: Quantity[] = axis === 'time'
+    ? ['altitude', 'velocity', 'acceleration']
+    : ['time', 'velocity', 'acceleration'];
+
+  const chartData = comparison?.points.map(point => {
+    const row: Record<string, number | null> = { x: point.x };
+    point[quantity].forEach((value, index) => {
+      row[`s${index}`] = value === null || quantity !== 'acceleration' ? value : value / 9.81;
+    });
+    return row;
+  }) ?? [];
+
+  return (
+    <Card elevation={3} sx={{ mt: 3 }}>
+      <CardHeader
+        avatar={<CompareIcon color="primary" />}
+        title="Compare Flights"
+        subheader="Pick earlier runs of this rocket to overlay"
+      />
+      <CardContent>
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+          {others.map(simulation => (
+            <Chip
+              key={simulation.id}
+              label={`${runLabel(simulation.id)} • ${formatNumber(simulation.results.maxAltitude, 0)}m`}
+              color={selected.includes(simulation.id) ? 'primary' : 'default'}
+              variant={selected.includes(simulation.id) ? 'filled' : 'outlined'}
+              onClick={() => toggle(simulation.id)}
+              size="small"
+            />
+          ))}
+        </Box>
+
+        {loading && <LinearProgress sx={{ mb: 2 }} />}
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        {comparison && (
+          <>
+            <Grid container spacing={1} alignItems="center" sx={{ mb: 2 }}>
+              {quantities.map(option => (
+                <Grid item key={option}>
+                  <Chip
+                    label={quantityLabels[option].replace(/ \(.*\)$/, '')}
+                    color={quantity === option ? 'primary' : 'default'}
+                    onClick={() => setQuantity(option)}
+                    size="small"
+                  />
+                </Grid>
+              ))}
+              <Grid item sx={{ ml: 'auto' }}>
+                <ToggleButtonGroup
+                  size="small"
+                  exclusive
+                  value={axis}
+                  onChange={(_, next: ComparisonAxis | null) => next && changeAxis(next)}
+                >
+                  <ToggleButton value="time">By time</ToggleButton>
+                  <ToggleButton value="altitude">By altitude</ToggleButton>
+                </ToggleButtonGroup>
+              </Grid>
+            </Grid>
+
+            <Box sx={{ height: isMobile ? 260 : 340, width: '100%', mb: 2 }}>
+              <ResponsiveContainer>
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis
+                    dataKey="x"
+                    type="number"
+                    domain={[0, 'dataMax']}
+                    tickFormatter={(x: number) => formatNumber(x, 0)}
+                    label={{
+                      value: axis === 'time' ? 'Time (s)' : 'Altitude (m)',
+                      position: 'insideBottom',
+                      offset: -5
+                    }}
+                  />
+                  <YAxis label={{ value: quantityLabels[quantity], angle: -90, position: 'insideLeft' }} />
+                  <Tooltip
+                    formatter={(value: number) => formatNumber(value, 2)}
+                    labelFormatter={(x: number) => (axis === 'time' ? `Time: ${formatNumber(x, 2)}s` : `Altitude: ${formatNumber(x, 0)}m`)}
+                  />
+                  <Legend />
+                  {comparison.simulations.map((simulation, index) => (
+                    <Line
+                      key={simulation.id}
+                      type="monotone"
+                      dataKey={`s${index}`}
+                      name={runLabel(simulation.id)}
+                      stroke={colors[index % colors.length]}
+                      strokeWidth={index === 0 ? 3 : 2}
+                      dot={false}
+                      connectNulls={false}
+                      isAnimationActive={false}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </Box>
+
+            {/* Differences from this flight */}
+            <Box sx={{ overflowX: 'auto' }}>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell />
+                    {comparison.simulations.map(simulation => (
+                      <TableCell key={simulation.id} align="right">{runLabel(simulation.id)}</TableCell>
+                    ))}
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {comparison.metrics
+                    .filter(metric => metric.values.some(value => value !== null))
+                    .map(metric => (
+                      <TableRow key={metric.metric}>
+                        <TableCell>{metricLabels[metric.metric] ?? metric.metric}</TableCell>
+                        {metric.values.map((value, index) => {
+                          const difference = metric.differences[index];
+                          return (
+                            <TableCell key={index} align="right">
+                              {value === null ? '—' : formatNumber(value)}
+                              {index > 0 && difference !== null && difference !== 0 && (
+                                <Typography
+                                  component="span"
+                                  variant="caption"
+                                  color="text.secondary"
+                                  sx={{ ml: 0.5 }}
+                                >
+                                  ({difference > 0 ? '+' : ''}{formatNumber(difference)})
+                                </Typography>
+                              )}
+                            </TableCell>
+                          );
+                        })}
+                      </TableRow>
+                    ))}
+                </TableBody>
+              </Table>
+            </Box>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -16,6 +16,7 @@ import {
   Grid,
   Typography,
   CircularProgress,
+  LinearProgress,
   Alert,
   Box,
   InputAdornment,
@@ -35,6 +36,8 @@ import {
   RocketConfig,
   SimulationResult,
   LaunchOptions,
+  SimulationProgress,
+  TrajectoryPoint,
   rocketApi
 } from '../api/rocketApi';
 
@@ -43,6 +46,10 @@ interface LaunchButtonProps {
   rocketId?: string;
   onLaunchSuccess: (result: SimulationResult) => void;
   onLaunchError?: (error: string) => void;
+  onLaunchStart?: () => void;
+  // When set, the flight is played back live instead of waiting for the result
+  onTelemetry?: (points: TrajectoryPoint[]) => void;
+  playbackSpeed?: number;
   disabled?: boolean;
   size?: 'small' | 'medium' | 'large';
   variant?: 'contained' | 'outlined' | 'text';
@@ -83,6 +90,9 @@ export const LaunchButton: React.FC<LaunchButtonProps> = ({
   rocketId,
   onLaunchSuccess,
   onLaunchError,
+  onLaunchStart,
+  onTelemetry,
+  playbackSpeed = 1,
   disabled = false,
   size = 'large',
   variant = 'contained'
@@ -94,6 +104,7 @@ export const LaunchButton: React.FC<LaunchButtonProps> = ({
   const [showOptions, setShowOptions] = useState(false);
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<SimulationProgress | null>(null);
 
   const { control, handleSubmit, watch, reset } = useForm<LaunchFormData>({
     defaultValues: defaultLaunchOptions
@@ -113,6 +124,16 @@ export const LaunchButton: React.FC<LaunchButtonProps> = ({
 
     setIsLaunching(true);
     setError(null);
+    setProgress(null);
+    onLaunchStart?.();
+
+    const launch = async (id: string, launchOptions: LaunchOptions) => {
+      if (!onTelemetry) {
+        return rocketApi.launchRocket(id, launchOptions, setProgress);
+      }
+      const job = await rocketApi.queueLaunch(id, launchOptions);
+      return rocketApi.watchLaunch(job.id, onTelemetry, playbackSpeed);
+    };
 
     try {
       let result: SimulationResult;
@@ -126,7 +147,7 @@ export const LaunchButton: React.FC<LaunchButtonProps> = ({
           detailedTelemetry: formData.simulation.detailedTelemetry
         };
 
-        result = await rocketApi.launchRocket(rocketId, launchOptions);
+        result = await launch(rocketId, launchOptions);
       } else {
         // For new rockets, we need to create them first
         // This is a simplified version - in a real app you'd want to save the rocket first
@@ -148,7 +169,7 @@ export const LaunchButton: React.FC<LaunchButtonProps> = ({
           detailedTelemetry: formData.simulation.detailedTelemetry
         };
 
-        result = await rocketApi.launchRocket(tempRocket.id, launchOptions);
+        result = await launch(tempRocket.id, launchOptions);
       }
 
       onLaunchSuccess(result);
@@ -160,6 +181,7 @@ export const LaunchButton: React.FC<LaunchButtonProps> = ({
       onLaunchError?.(errorMessage);
     } finally {
       setIsLaunching(false);
+      setProgress(null);
     }
   };
 
@@ -183,7 +205,9 @@ export const LaunchButton: React.FC<LaunchButtonProps> = ({
             height: size === 'large' ? 56 : size === 'medium' ? 42 : 36
           }}
         >
-          {isLaunching ? 'Launching...' : 'Quick Launch'}
+          {isLaunching
+            ? progress ? `Simulating ${Math.round(progress.fraction * 100)}%` : 'Launching...'
+            : 'Quick Launch'}
         </Button>
 
         {/* Advanced Launch Button */}
@@ -202,6 +226,20 @@ export const LaunchButton: React.FC<LaunchButtonProps> = ({
         </Button>
       </Box>
 
+      {isLaunching && (
+        <Box sx={{ mt: 2 }}>
+          <LinearProgress
+            variant={progress ? 'determinate' : 'indeterminate'}
+            value={(progress?.fraction ?? 0) * 100}
+          />
+          {progress && (
+            <Typography variant="caption" color="text.secondary">
+              T+{progress.time.toFixed(1)} s · {progress.phase} · {progress.altitude.toFixed(0)} m
+            </Typography>
+          )}
+        </Box>
+      )}
+
       {error && (
         <Alert severity="error" sx={{ mt: 2 }} onClose={() => setError(null)}>
           {error}
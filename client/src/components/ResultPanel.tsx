@@ -5,7 +5,7 @@
  * Mobile responsive with collapsible sections.
  */
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   Card,
   CardContent,
@@ -23,6 +23,11 @@ import {
   TableCell,
   TableRow,
   LinearProgress,
+  CircularProgress,
+  Button,
+  Menu,
+  MenuItem,
+  Divider,
   useTheme,
   useMediaQuery
 } from '@mui/material';
@@ -38,24 +43,133 @@ import {
   Info as InfoIcon,
   FlightTakeoff as FlightIcon,
   FlightLand as ParachuteIcon,
-  Timeline as TimelineIcon
+  Timeline as TimelineIcon,
+  Download as DownloadIcon,
+  UploadFile as UploadIcon
 } from '@mui/icons-material';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
-import { SimulationResult } from '../api/rocketApi';
+import {
+  SimulationResult,
+  TrajectoryPoint,
+  TelemetryExportFormat,
+  DesignFileFormat,
+  FlightComparison,
+  DragCalibration,
+  rocketApi
+} from '../api/rocketApi';
+
+const exportFormats: Array<{ format: TelemetryExportFormat; label: string }> = [
+  { format: 'csv', label: 'Spreadsheet (CSV)' },
+  { format: 'ork-csv', label: 'OpenRocket CSV' },
+  { format: 'jsonl', label: 'JSON Lines' }
+];
+
+const designFormats: Array<{ format: DesignFileFormat; label: string }> = [
+  { format: 'ork', label: 'Rocket design (OpenRocket)' },
+  { format: 'rkt', label: 'Rocket design (RockSim)' }
+];
 
 interface ResultPanelProps {
   result: SimulationResult | null;
   loading?: boolean;
+  liveTelemetry?: TrajectoryPoint[]; // points played back so far during a launch
 }
 
 export const ResultPanel: React.FC<ResultPanelProps> = ({
   result,
-  loading = false
+  loading = false,
+  liveTelemetry = []
 }) => {
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('md'));
   
   const [selectedChart, setSelectedChart] = useState<'altitude' | 'velocity' | 'acceleration'>('altitude');
+  const [exportAnchor, setExportAnchor] = useState<HTMLElement | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [comparison, setComparison] = useState<FlightComparison | null>(null);
+  const [comparisonError, setComparisonError] = useState<string | null>(null);
+  const [calibration, setCalibration] = useState<DragCalibration | null>(null);
+
+  // A flight log is compared with one simulation; drop it when the result changes
+  useEffect(() => {
+    setComparison(null);
+    setComparisonError(null);
+    setCalibration(null);
+  }, [result?.id]);
+
+  if (loading && liveTelemetry.length > 0) {
+    const current = liveTelemetry[liveTelemetry.length - 1];
+    const peak = Math.max(...liveTelemetry.map(point => point.altitude), 1);
+    const speed = Math.sqrt(current.velocity.x ** 2 + current.velocity.y ** 2 + current.velocity.z ** 2);
+
+    return (
+      <Card elevation={3}>
+        <CardHeader
+          avatar={<FlightIcon color="primary" />}
+          title="Flight in Progress"
+          subheader={`T+${current.time.toFixed(1)}s`}
+          action={<Chip label={current.phase} color="primary" size="small" sx={{ mt: 1, mr: 1 }} />}
+        />
+        <CardContent>
+          <Grid container spacing={2} alignItems="center" sx={{ mb: 2 }}>
+            <Grid item xs={6} sx={{ textAlign: 'center' }}>
+              {/* Altitude gauge, full at the highest point reached so far */}
+              <Box sx={{ position: 'relative', display: 'inline-flex' }}>
+                <CircularProgress
+                  variant="determinate"
+                  value={(Math.max(current.altitude, 0) / peak) * 100}
+                  size={isMobile ? 100 : 140}
+                  thickness={5}
+                />
+                <Box
+                  sx={{
+                    position: 'absolute',
+                    inset: 0,
+                    display: 'flex',
+                    flexDirection: 'column',
+                    alignItems: 'center',
+                    justifyContent: 'center'
+                  }}
+                >
+                  <Typography variant="h5" color="primary">
+                    {current.altitude.toFixed(0)}m
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    Altitude
+                  </Typography>
+                </Box>
+              </Box>
+            </Grid>
+            <Grid item xs={6} sx={{ textAlign: 'center' }}>
+              <SpeedIcon color="primary" sx={{ fontSize: 32, mb: 1 }} />
+              <Typography variant="h5">{speed.toFixed(0)} m/s</Typography>
+              <Typography variant="caption" color="text.secondary">
+                Highest so far: {peak.toFixed(0)}m
+              </Typography>
+            </Grid>
+          </Grid>
+
+          <Box sx={{ height: isMobile ? 200 : 260, width: '100%' }}>
+            <ResponsiveContainer>
+              <LineChart data={liveTelemetry}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="time" type="number" domain={[0, 'auto']} tickFormatter={(time: number) => `${time.toFixed(0)}s`} />
+                <YAxis />
+                <Line
+                  type="monotone"
+                  dataKey="altitude"
+                  stroke={theme.palette.primary.main}
+                  strokeWidth={2}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </Box>
+        </CardContent>
+      </Card>
+    );
+  }
 
   if (loading) {
     return (
@@ -108,6 +222,54 @@ export const ResultPanel: React.FC<ResultPanelProps> = ({
   const burnoutPoint = telemetry.find(p => p.thrust === 0 && p.time > 0);
   const apogeePoint = telemetry.reduce((max, p) => p.altitude > max.altitude ? p : max, telemetry[0]);
 
+  const handleExport = async (format: TelemetryExportFormat) => {
+    setExportAnchor(null);
+    setExportError(null);
+    try {
+      await rocketApi.downloadTelemetry(result.id, { format });
+    } catch (err: any) {
+      setExportError(err.message || 'Download failed');
+    }
+  };
+
+  const handleDesignExport = async (format: DesignFileFormat) => {
+    setExportAnchor(null);
+    setExportError(null);
+    try {
+      await rocketApi.exportRocket(result.rocketId, format);
+    } catch (err: any) {
+      setExportError(err.message || 'Download failed');
+    }
+  };
+
+  const handleFlightLog = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setComparisonError(null);
+    try {
+      const flightLog = await rocketApi.importFlightLog(result.rocketId, file);
+      setComparison(await rocketApi.compareFlightLog(flightLog.id, result.id));
+      setSelectedChart('altitude');
+    } catch (err: any) {
+      setComparisonError(err.response?.data?.message || err.message || 'Flight log import failed');
+    }
+  };
+
+  // Fit the design's drag to the compared flight; later launches fly with it
+  const handleCalibrate = async () => {
+    if (!comparison) return;
+
+    setComparisonError(null);
+    try {
+      const calibrated = await rocketApi.calibrateDrag(result.rocketId, [{ flightLogId: comparison.flightLogId }]);
+      setCalibration(calibrated.calibration);
+    } catch (err: any) {
+      setComparisonError(err.response?.data?.message || err.message || 'Drag calibration failed');
+    }
+  };
+
   const getScoreColor = (score: number) => {
     if (score >= 80) return 'success';
     if (score >= 60) return 'warning';
@@ -155,9 +317,42 @@ export const ResultPanel: React.FC<ResultPanelProps> = ({
           </Box>
         }
         subheader={`Flight completed in ${formatTime(results.flightTime)}`}
+        action={
+          <Button
+            size="small"
+            startIcon={<DownloadIcon />}
+            onClick={(event) => setExportAnchor(event.currentTarget)}
+            sx={{ mt: 1 }}
+          >
+            Data
+          </Button>
+        }
       />
+      <Menu
+        anchorEl={exportAnchor}
+        open={Boolean(exportAnchor)}
+        onClose={() => setExportAnchor(null)}
+      >
+        {exportFormats.map(({ format, label }) => (
+          <MenuItem key={format} onClick={() => handleExport(format)}>
+            {label}
+          </MenuItem>
+        ))}
+        <Divider />
+        {designFormats.map(({ format, label }) => (
+          <MenuItem key={format} onClick={() => handleDesignExport(format)}>
+            {label}
+          </MenuItem>
+        ))}
+      </Menu>
 
       <CardContent>
+        {exportError && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setExportError(null)}>
+            {exportError}
+          </Alert>
+        )}
+
         {/* Key Metrics */}
         <Grid container spacing={3} sx={{ mb: 3 }}>
           <Grid item xs={6} sm={3}>
@@ -263,15 +458,54 @@ export const ResultPanel: React.FC<ResultPanelProps> = ({
                     size="small"
                   />
                 </Grid>
+                <Grid item sx={{ ml: 'auto' }}>
+                  <Button component="label" size="small" startIcon={<UploadIcon />}>
+                    Actual flight
+                    <input type="file" accept=".csv,.txt" hidden onChange={handleFlightLog} />
+                  </Button>
+                </Grid>
               </Grid>
             </Box>
 
+            {comparisonError && (
+              <Alert severity="error" sx={{ mb: 2 }} onClose={() => setComparisonError(null)}>
+                {comparisonError}
+              </Alert>
+            )}
+
+            {comparison && (
+              <Alert
+                severity="info"
+                sx={{ mb: 2 }}
+                action={
+                  <Button color="inherit" size="small" onClick={handleCalibrate}>
+                    Calibrate drag
+                  </Button>
+                }
+              >
+                Logged apogee {formatNumber(comparison.apogee.actual)}m, simulated{' '}
+                {formatNumber(comparison.apogee.simulated)}m ({comparison.apogee.difference >= 0 ? '+' : ''}
+                {formatNumber(comparison.apogee.percentDifference)}%) | RMS altitude error{' '}
+                {formatNumber(comparison.rmsAltitudeError)}m | Max velocity {formatNumber(comparison.maxVelocity.actual)} vs{' '}
+                {formatNumber(comparison.maxVelocity.simulated)} m/s
+              </Alert>
+            )}
+
+            {calibration && (
+              <Alert severity="success" sx={{ mb: 2 }} onClose={() => setCalibration(null)}>
+                Drag multiplier set to {calibration.dragMultiplier} (was {calibration.previousMultiplier}).
+                Launch again to fly with it.
+              </Alert>
+            )}
+
             <Box sx={{ height: isMobile ? 300 : 400, width: '100%' }}>
               <ResponsiveContainer>
                 <LineChart data={chartData}>
                   <CartesianGrid strokeDasharray="3 3" />
                   <XAxis 
                     dataKey="time" 
+                    type="number"
+                    domain={[0, 'auto']}
                     label={{ value: 'Time (s)', position: 'insideBottom', offset: -5 }}
                   />
                   <YAxis 
@@ -284,8 +518,9 @@ export const ResultPanel: React.FC<ResultPanelProps> = ({
                     }}
                   />
                   <Tooltip 
-                    formatter={(value: number) => [
+                    formatter={(value: number, name: string) => [
                       formatNumber(value, 2),
+                      name === 'actualAltitude' ? 'Logged altitude (m)' :
                       selectedChart === 'altitude' ? 'Altitude (m)' : 
                       selectedChart === 'velocity' ? 'Velocity (m/s)' : 
                       'Acceleration (G)'
@@ -299,6 +534,17 @@ export const ResultPanel: React.FC<ResultPanelProps> = ({
                     strokeWidth={2}
                     dot={false}
                   />
+                  {/* Altimeter log of the real flight */}
+                  {comparison && selectedChart === 'altitude' && (
+                    <Line
+                      data={comparison.overlay}
+                      type="monotone"
+                      dataKey="actualAltitude"
+                      stroke={theme.palette.secondary.main}
+                      strokeWidth={2}
+                      dot={false}
+                    />
+                  )}
                   {/* Mark burnout */}
                   {burnoutPoint && (
                     <ReferenceLine 
@@ -357,6 +603,18 @@ export const ResultPanel: React.FC<ResultPanelProps> = ({
                       <TableCell>Landing Distance</TableCell>
                       <TableCell align="right">{formatNumber(results.landingDistance)}m</TableCell>
                     </TableRow>
+                    {results.descentRate !== undefined && (
+                      <TableRow>
+                        <TableCell>Descent Rate</TableCell>
+                        <TableCell align="right">{formatNumber(results.descentRate)}m/s</TableCell>
+                      </TableRow>
+                    )}
+                    {results.driftDistance !== undefined && (
+                      <TableRow>
+                        <TableCell>Drift Distance</TableCell>
+                        <TableCell align="right">{formatNumber(results.driftDistance)}m</TableCell>
+                      </TableRow>
+                    )}
                   </TableBody>
                 </Table>
               </Grid>
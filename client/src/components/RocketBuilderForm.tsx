@@ -2,7 +2,8 @@
  * Rocket Builder Form Component
  * 
  * A comprehensive form for designing rockets with controlled inputs.
- * Mobile responsive with Material-UI components.
+ * Mobile responsive with Material-UI components. Given a saved rocket it can
+ * save the design, offering a merge when someone saved it in the meantime.
  */
 
 import React, { useState, useEffect } from 'react';
@@ -23,7 +24,20 @@ import {
   AccordionDetails,
   InputAdornment,
   Chip,
-  Alert
+  Alert,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  ToggleButton,
+  ToggleButtonGroup
 } from '@mui/material';
 import {
   ExpandMore as ExpandMoreIcon,
@@ -31,12 +45,18 @@ import {
   Speed as SpeedIcon,
   Engineering as EngineeringIcon,
   FlightTakeoff as FlightIcon,
-  FlightLand as ParachuteIcon
+  FlightLand as ParachuteIcon,
+  UploadFile as UploadIcon,
+  Save as SaveIcon
 } from '@mui/icons-material';
 import { useForm, Controller } from 'react-hook-form';
 import {
   RocketConfig,
+  RocketDesign,
+  RocketUpdateConflict,
+  RocketConflictError,
   PerformanceEstimate,
+  DesignImportNote,
   defaultRocketConfig,
   materialOptions,
   noseConeTypes,
@@ -49,21 +69,54 @@ interface RocketBuilderFormProps {
   onConfigChange: (config: RocketConfig) => void;
   initialConfig?: RocketConfig;
   disabled?: boolean;
+  rocket?: RocketDesign; // saved design being edited, enables saving
+  onSaved?: (rocket: RocketDesign) => void;
 }
 
+type Side = 'yours' | 'theirs';
+
+const formatConflictValue = (value: unknown) => {
+  if (value === undefined) return '(removed)';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+// Set (or, for undefined, remove) a dotted path such as 'config.fins.span'
+const setPath = (target: any, path: string, value: unknown) => {
+  const keys = path.split('.');
+  const last = keys.pop()!;
+  const parent = keys.reduce((object, key) => object[key], target);
+  if (value !== undefined) parent[last] = value;
+  else if (Array.isArray(parent)) parent.splice(Number(last), 1);
+  else delete parent[last];
+};
+
 export const RocketBuilderForm: React.FC<RocketBuilderFormProps> = ({
   onConfigChange,
   initialConfig = defaultRocketConfig,
-  disabled = false
+  disabled = false,
+  rocket,
+  onSaved
 }) => {
   const [estimate, setEstimate] = useState<PerformanceEstimate | null>(null);
   const [estimateError, setEstimateError] = useState<string | null>(null);
+  const [importNotes, setImportNotes] = useState<DesignImportNote[] | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [saved, setSaved] = useState<RocketDesign | undefined>(rocket);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [conflict, setConflict] = useState<RocketUpdateConflict | null>(null);
+  const [choices, setChoices] = useState<Record<string, Side>>({});
 
-  const { control, watch, formState: { errors } } = useForm<RocketConfig>({
-    defaultValues: initialConfig,
+  const { control, watch, reset, formState: { errors } } = useForm<RocketConfig>({
+    defaultValues: rocket?.config ?? initialConfig,
     mode: 'onChange'
   });
 
+  useEffect(() => {
+    setSaved(rocket);
+    if (rocket) reset(rocket.config);
+  }, [rocket?.id]);
+
   const watchedConfig = watch();
 
   // Update parent component when config changes
@@ -89,6 +142,68 @@ export const RocketBuilderForm: React.FC<RocketBuilderFormProps> = ({
     return () => clearTimeout(timeoutId);
   }, [watchedConfig, disabled]);
 
+  // Load an OpenRocket or RockSim file into the form
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setImportError(null);
+    setImportNotes(null);
+    try {
+      const { rocket, notes } = await rocketApi.importRocket(file);
+      reset(rocket.config);
+      setImportNotes(notes);
+    } catch (error: any) {
+      setImportError(error.response?.data?.message || error.message || 'Import failed');
+    }
+  };
+
+  // Save the design, checked against the version it was loaded or last saved at
+  const save = async (data: Partial<RocketUpdateConflict['merged']>, version: number) => {
+    if (!saved) return;
+
+    setSaving(true);
+    setSaveError(null);
+    try {
+      const updated = await rocketApi.updateRocket(saved.id, data, version);
+      setSaved(updated);
+      setConflict(null);
+      reset(updated.config);
+      onSaved?.(updated);
+    } catch (error: any) {
+      if (error instanceof RocketConflictError) {
+        setConflict(error.conflict);
+        setChoices(Object.fromEntries(error.conflict.conflicts.map(field => [field.path, 'yours' as Side])));
+      } else {
+        setSaveError(error.response?.data?.message || error.message || 'Save failed');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // The server's merge, with the fields picked from the other save put back
+  const saveMerged = () => {
+    if (!conflict) return;
+
+    const merged = JSON.parse(JSON.stringify(conflict.merged));
+    conflict.conflicts
+      .filter(field => choices[field.path] === 'theirs')
+      .sort((a, b) => b.path.localeCompare(a.path, undefined, { numeric: true }))
+      .forEach(field => setPath(merged, field.path, field.theirs));
+    save(merged, conflict.current.version);
+  };
+
+  // Drop this edit and carry on from the other save
+  const takeTheirs = () => {
+    if (!conflict) return;
+
+    setSaved(conflict.current);
+    reset(conflict.current.config);
+    setConflict(null);
+  };
+
   return (
     <Box sx={{ width: '100%', maxWidth: 1200, mx: 'auto', p: 2 }}>
       <Card elevation={3}>
@@ -96,9 +211,62 @@ export const RocketBuilderForm: React.FC<RocketBuilderFormProps> = ({
           avatar={<RocketIcon color="primary" />}
           title="Rocket Designer"
           subheader="Design your custom model rocket"
+          action={
+            <>
+              <Button
+                component="label"
+                size="small"
+                startIcon={<UploadIcon />}
+                disabled={disabled}
+                sx={{ mt: 1 }}
+              >
+                Import
+                <input type="file" accept=".ork,.rkt" hidden onChange={handleImport} />
+              </Button>
+              {saved && (
+                <Button
+                  size="small"
+                  startIcon={<SaveIcon />}
+                  disabled={disabled || saving}
+                  onClick={() => save({ config: watchedConfig }, saved.version)}
+                  sx={{ mt: 1 }}
+                >
+                  Save
+                </Button>
+              )}
+            </>
+          }
           sx={{ pb: 1 }}
         />
         <CardContent>
+          {importError && (
+            <Alert severity="error" sx={{ mb: 3 }} onClose={() => setImportError(null)}>
+              {importError}
+            </Alert>
+          )}
+
+          {saveError && (
+            <Alert severity="error" sx={{ mb: 3 }} onClose={() => setSaveError(null)}>
+              {saveError}
+            </Alert>
+          )}
+
+          {importNotes && (
+            <Alert
+              severity={importNotes.length > 0 ? 'warning' : 'success'}
+              sx={{ mb: 3 }}
+              onClose={() => setImportNotes(null)}
+            >
+              {importNotes.length === 0
+                ? 'Design imported exactly.'
+                : importNotes.map((note, index) => (
+                    <Typography key={index} variant="body2">
+                      <strong>{note.component}</strong> {note.action}: {note.detail}
+                    </Typography>
+                  ))}
+            </Alert>
+          )}
+
           {/* Performance Estimate */}
           {estimate && (
             <Alert 
@@ -111,7 +279,8 @@ export const RocketBuilderForm: React.FC<RocketBuilderFormProps> = ({
                 Altitude: {estimate.estimatedAltitude.toFixed(1)}m | 
                 Velocity: {estimate.estimatedVelocity.toFixed(1)}m/s | 
                 T/W: {estimate.thrustToWeight.toFixed(1)} | 
-                Stability: {estimate.stabilityMargin.toFixed(1)} cal
+                Stability: {estimate.stabilityMargin.toFixed(1)} cal | 
+                Rail exit: {estimate.railExit.velocity.toFixed(1)}m/s
               </Typography>
               {estimate.recommendations.length > 0 && (
                 <Box sx={{ mt: 1 }}>
@@ -644,6 +813,55 @@ export const RocketBuilderForm: React.FC<RocketBuilderFormProps> = ({
           </Accordion>
         </CardContent>
       </Card>
+
+      {/* Merge prompt for a save that crossed another one */}
+      <Dialog open={!!conflict} onClose={() => setConflict(null)} maxWidth="md" fullWidth>
+        <DialogTitle>This rocket was saved elsewhere</DialogTitle>
+        <DialogContent>
+          <DialogContentText sx={{ mb: 2 }}>
+            {`Version ${conflict?.current.version} was saved after you opened version ${conflict?.baseVersion}. `}
+            {conflict?.conflicts.length
+              ? 'Changes that do not overlap are combined; pick which side to keep for each field below.'
+              : 'None of the changes overlap, so both can be kept.'}
+          </DialogContentText>
+          {conflict && conflict.conflicts.length > 0 && (
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Field</TableCell>
+                  <TableCell>Yours</TableCell>
+                  <TableCell>Saved</TableCell>
+                  <TableCell align="right">Keep</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {conflict.conflicts.map(field => (
+                  <TableRow key={field.path}>
+                    <TableCell>{field.path.replace(/^config\./, '')}</TableCell>
+                    <TableCell>{formatConflictValue(field.yours)}</TableCell>
+                    <TableCell>{formatConflictValue(field.theirs)}</TableCell>
+                    <TableCell align="right">
+                      <ToggleButtonGroup
+                        size="small"
+                        exclusive
+                        value={choices[field.path]}
+                        onChange={(_, side: Side | null) => side && setChoices(previous => ({ ...previous, [field.path]: side }))}
+                      >
+                        <ToggleButton value="yours">Mine</ToggleButton>
+                        <ToggleButton value="theirs">Saved</ToggleButton>
+                      </ToggleButtonGroup>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={takeTheirs} disabled={saving}>Discard mine</Button>
+          <Button onClick={saveMerged} variant="contained" disabled={saving}>Save merged</Button>
+        </DialogActions>
+      </Dialog>
     </Box>
   );
 };
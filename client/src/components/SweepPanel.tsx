@@ -0,0 +1,331 @@
+/**
+ * Sweep Panel Component
+ *
+ * Varies one or two design fields and charts a flight metric across them:
+ * a line for one field, a heatmap for two.
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  Typography,
+  Grid,
+  Box,
+  Alert,
+  Button,
+  TextField,
+  Select,
+  MenuItem,
+  FormControl,
+  InputLabel,
+  FormControlLabel,
+  Switch,
+  LinearProgress,
+  Tooltip as MuiTooltip,
+  useTheme,
+  useMediaQuery
+} from '@mui/material';
+import { GridOn as SweepIcon } from '@mui/icons-material';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { SweepAxis, SweepMetric, SweepResult, rocketApi } from '../api/rocketApi';
+
+const sweepPaths: Array<{ path: string; label: string; from: number; to: number }> = [
+  { path: 'fins.span', label: 'Fin span (m)', from: 0.03, to: 0.08 },
+  { path: 'fins.rootChord', label: 'Fin root chord (m)', from: 0.04, to: 0.1 },
+  { path: 'fins.sweepAngle', label: 'Fin sweep (°)', from: 0, to: 60 },
+  { path: 'body.length', label: 'Body length (m)', from: 0.3, to: 0.8 },
+  { path: 'body.mass', label: 'Body mass (kg)', from: 0.03, to: 0.15 },
+  { path: 'noseCone.ballastMass', label: 'Nose ballast (kg)', from: 0, to: 0.03 },
+  { path: 'recovery.parachuteDiameter', label: 'Parachute diameter (m)', from: 0.2, to: 0.6 },
+  { path: 'launch.launchAngle', label: 'Launch angle (°)', from: 0, to: 20 }
+];
+
+const metricLabels: Record<SweepMetric, string> = {
+  maxAltitude: 'Apogee (m)',
+  maxVelocity: 'Max velocity (m/s)',
+  maxAcceleration: 'Max acceleration (m/s²)',
+  apogeeTime: 'Time to apogee (s)',
+  flightTime: 'Flight time (s)',
+  landingDistance: 'Landing distance (m)',
+  stabilityMargin: 'Stability margin (cal)',
+  maxMachNumber: 'Max Mach',
+  railExitVelocity: 'Rail exit velocity (m/s)',
+  descentRate: 'Descent rate (m/s)',
+  score: 'Score',
+  estimatedAltitude: 'Estimated apogee (m)',
+  estimatedVelocity: 'Estimated velocity (m/s)',
+  thrustToWeight: 'Thrust to weight'
+};
+
+interface SweepPanelProps {
+  rocketId?: string; // the launched design, which must be saved to sweep it
+}
+
+const formatValue = (value: number) => Number(value.toPrecision(3)).toString();
+
+// Blue (low) through yellow to red (high)
+const heatColor = (fraction: number) => `hsl(${240 - 240 * fraction}, 75%, 55%)`;
+
+export const SweepPanel: React.FC<SweepPanelProps> = ({ rocketId }) => {
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('md'));
+
+  const [axes, setAxes] = useState<SweepAxis[]>([{ ...sweepPaths[0], steps: 10 }]);
+  const [fast, setFast] = useState(false);
+  const [metric, setMetric] = useState<SweepMetric>('maxAltitude');
+  const [sweep, setSweep] = useState<SweepResult | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A sweep belongs to one design
+  useEffect(() => {
+    setSweep(null);
+    setError(null);
+  }, [rocketId]);
+
+  if (!rocketId) {
+    return null;
+  }
+
+  const updateAxis = (index: number, change: Partial<SweepAxis>) => {
+    setAxes(previous => previous.map((axis, i) => (i === index ? { ...axis, ...change } : axis)));
+  };
+
+  const selectPath = (index: number, path: string) => {
+    const preset = sweepPaths.find(option => option.path === path)!;
+    updateAxis(index, { path, from: preset.from, to: preset.to });
+  };
+
+  const handleRun = async () => {
+    setRunning(true);
+    setError(null);
+    try {
+      const result = await rocketApi.sweepRocket(rocketId, { axes, mode: fast ? 'fast' : 'full' });
+      setSweep(result);
+      if (!result.metrics.includes(metric)) {
+        setMetric(result.metrics[0]);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.message || err.message || 'Sweep failed');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const labelOf = (path: string) => sweepPaths.find(option => option.path === path)?.label ?? path;
+  const values = sweep?.points
+    .map(point => point.metrics[metric])
+    .filter((value): value is number => value !== undefined) ?? [];
+  const low = Math.min(...values);
+  const high = Math.max(...values);
+
+  const renderLine = (result: SweepResult) => (
+    <Box sx={{ height: isMobile ? 240 : 300, width: '100%' }}>
+      <ResponsiveContainer>
+        <LineChart data={result.points.map(point => ({ x: point.values[0], y: point.metrics[metric] }))}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis
+            dataKey="x"
+            type="number"
+            domain={['dataMin', 'dataMax']}
+            tickFormatter={formatValue}
+            label={{ value: labelOf(result.axes[0].path), position: 'insideBottom', offset: -5 }}
+          />
+          <YAxis tickFormatter={formatValue} />
+          <Tooltip
+            formatter={(value: number) => [formatValue(value), metricLabels[metric]]}
+            labelFormatter={(x: number) => `${labelOf(result.axes[0].path)}: ${formatValue(x)}`}
+          />
+          <Line type="monotone" dataKey="y" stroke={theme.palette.primary.main} strokeWidth={2} connectNulls={false} />
+        </LineChart>
+      </ResponsiveContainer>
+    </Box>
+  );
+
+  // Rows follow the first axis and columns the second, as the points are ordered
+  const renderHeatmap = (result: SweepResult) => {
+    const [rows, columns] = result.axes;
+    return (
+      <Box sx={{ overflowX: 'auto' }}>
+        <Typography variant="caption" color="text.secondary">
+          Rows: {labelOf(rows.path)} • Columns: {labelOf(columns.path)}
+        </Typography>
+        <Box
+          sx={{
+            display: 'grid',
+            gridTemplateColumns: `auto repeat(${columns.values.length}, minmax(24px, 1fr))`,
+            gap: '2px',
+            mt: 1
+          }}
+        >
+          <Box />
+          {columns.values.map(value => (
+            <Typography key={value} variant="caption" sx={{ textAlign: 'center' }}>
+              {formatValue(value)}
+            </Typography>
+          ))}
+          {rows.values.map((rowValue, row) => (
+            <React.Fragment key={rowValue}>
+              <Typography variant="caption" sx={{ pr: 1, textAlign: 'right' }}>
+                {formatValue(rowValue)}
+              </Typography>
+              {columns.values.map((columnValue, column) => {
+                const point = result.points[row * columns.values.length + column];
+                const value = point.metrics[metric];
+                return (
+                  <MuiTooltip
+                    key={columnValue}
+                    title={value === undefined
+                      ? point.error || 'No result'
+                      : `${metricLabels[metric]}: ${formatValue(value)}${point.successful ? '' : ' (failed)'}`}
+                  >
+                    <Box
+                      sx={{
+                        height: 24,
+                        borderRadius: 0.5,
+                        bgcolor: value === undefined
+                          ? theme.palette.action.disabledBackground
+                          : heatColor(high > low ? (value - low) / (high - low) : 0.5),
+                        outline: point.successful ? 'none' : `2px solid ${theme.palette.error.main}`,
+                        outlineOffset: '-2px'
+                      }}
+                    />
+                  </MuiTooltip>
+                );
+              })}
+            </React.Fragment>
+          ))}
+        </Box>
+        {values.length > 0 && (
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 1 }}>
+            <Typography variant="caption">{formatValue(low)}</Typography>
+            <Box
+              sx={{
+                flexGrow: 1,
+                height: 8,
+                borderRadius: 1,
+                background: `linear-gradient(to right, ${heatColor(0)}, ${heatColor(0.5)}, ${heatColor(1)})`
+              }}
+            />
+            <Typography variant="caption">{formatValue(high)}</Typography>
+          </Box>
+        )}
+      </Box>
+    );
+  };
+
+  return (
+    <Card elevation={3} sx={{ mt: 3 }}>
+      <CardHeader
+        avatar={<SweepIcon color="primary" />}
+        title="Parameter Sweep"
+        subheader="See how changing one or two parts changes the flight"
+      />
+      <CardContent>
+        {axes.map((axis, index) => (
+          <Grid container spacing={2} key={index} sx={{ mb: 2 }}>
+            <Grid item xs={12} sm={5}>
+              <FormControl fullWidth size="small" disabled={running}>
+                <InputLabel>{index === 0 ? 'Vary' : 'And'}</InputLabel>
+                <Select
+                  value={axis.path}
+                  label={index === 0 ? 'Vary' : 'And'}
+                  onChange={event => selectPath(index, event.target.value)}
+                >
+                  {sweepPaths
+                    .filter(option => option.path === axis.path || !axes.some(other => other.path === option.path))
+                    .map(option => (
+                      <MenuItem key={option.path} value={option.path}>{option.label}</MenuItem>
+                    ))}
+                </Select>
+              </FormControl>
+            </Grid>
+            <Grid item xs={4} sm={2}>
+              <TextField
+                label="From"
+                type="number"
+                size="small"
+                fullWidth
+                disabled={running}
+                value={axis.from}
+                onChange={event => updateAxis(index, { from: Number(event.target.value) })}
+              />
+            </Grid>
+            <Grid item xs={4} sm={2}>
+              <TextField
+                label="To"
+                type="number"
+                size="small"
+                fullWidth
+                disabled={running}
+                value={axis.to}
+                onChange={event => updateAxis(index, { to: Number(event.target.value) })}
+              />
+            </Grid>
+            <Grid item xs={4} sm={3}>
+              <TextField
+                label="Steps"
+                type="number"
+                size="small"
+                fullWidth
+                disabled={running}
+                value={axis.steps}
+                inputProps={{ min: 2, max: 50 }}
+                onChange={event => updateAxis(index, { steps: Number(event.target.value) })}
+              />
+            </Grid>
+          </Grid>
+        ))}
+
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 2, mb: 2 }}>
+          {axes.length === 1 ? (
+            <Button
+              size="small"
+              disabled={running}
+              onClick={() => {
+                const next = sweepPaths.find(option => option.path !== axes[0].path)!;
+                setAxes([...axes, { ...next, steps: 10 }]);
+              }}
+            >
+              Add a second field
+            </Button>
+          ) : (
+            <Button size="small" disabled={running} onClick={() => setAxes(axes.slice(0, 1))}>
+              Remove second field
+            </Button>
+          )}
+          <FormControlLabel
+            control={<Switch checked={fast} disabled={running} onChange={event => setFast(event.target.checked)} />}
+            label="Quick estimate"
+          />
+          <Button variant="contained" onClick={handleRun} disabled={running}>
+            Run sweep
+          </Button>
+        </Box>
+
+        {running && <LinearProgress sx={{ mb: 2 }} />}
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        {sweep && (
+          <>
+            <FormControl size="small" sx={{ mb: 2, minWidth: 220 }}>
+              <InputLabel>Show</InputLabel>
+              <Select value={metric} label="Show" onChange={event => setMetric(event.target.value as SweepMetric)}>
+                {sweep.metrics.map(option => (
+                  <MenuItem key={option} value={option}>{metricLabels[option]}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            {sweep.axes.length === 1 ? renderLine(sweep) : renderHeatmap(sweep)}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,82 @@
+/**
+ * Atmosphere Model Tests
+ * 
+ * Unit tests for the US Standard Atmosphere 1976 model and its weather corrections.
+ */
+
+import { AtmosphereModel, geopotentialAltitude, standardTemperature } from '../services/atmosphere.model';
+import { WeatherConditions } from '../../../shared/types/rocket';
+
+describe('Atmosphere model', () => {
+  const standardDay: WeatherConditions = {
+    temperature: 15,
+    pressure: 101325,
+    humidity: 0,
+    windSpeed: 0,
+    windDirection: 0
+  };
+
+  it('should match the standard atmosphere tables', () => {
+    // Arrange
+    const atmosphere = new AtmosphereModel(standardDay);
+
+    // Act
+    const seaLevel = atmosphere.at(0);
+    const tropopause = atmosphere.at(11000);
+    const stratosphere = atmosphere.at(20000);
+
+    // Assert
+    expect(seaLevel.density).toBeCloseTo(1.225, 3);
+    expect(seaLevel.speedOfSound).toBeCloseTo(340.3, 1);
+    expect(atmosphere.at(1000).pressure).toBeCloseTo(89876, -1);
+    expect(tropopause.temperature).toBeCloseTo(216.77, 1);
+    expect(tropopause.pressure).toBeCloseTo(22700, -1);
+    expect(stratosphere.temperature).toBeCloseTo(216.65, 1);
+    expect(stratosphere.density).toBeCloseTo(0.0889, 3);
+  });
+
+  it('should layer lapse rates by geopotential altitude', () => {
+    // Act & Assert
+    expect(standardTemperature(0)).toBe(288.15);
+    expect(standardTemperature(11000)).toBeCloseTo(216.65, 9);
+    expect(standardTemperature(15000)).toBeCloseTo(216.65, 9);
+    expect(standardTemperature(25000)).toBeCloseTo(221.65, 9);
+    expect(geopotentialAltitude(10000)).toBeCloseTo(9984.3, 1);
+  });
+
+  it('should offset altitudes by the launch site elevation', () => {
+    // Arrange
+    const seaLevelSite = new AtmosphereModel(standardDay);
+    const highSite = new AtmosphereModel({ ...standardDay, temperature: 15 - 0.0065 * 1500 }, 1500);
+
+    // Act
+    const ground = highSite.at(0);
+
+    // Assert - a standard day at 1500 m matches the sea-level model 1500 m up
+    expect(ground.density).toBeCloseTo(seaLevelSite.at(1500).density, 3);
+    expect(ground.pressure).toBeCloseTo(84560, -2);
+    expect(highSite.at(500).density).toBeCloseTo(seaLevelSite.at(2000).density, 3);
+  });
+
+  it('should match the observed site temperature and pressure', () => {
+    // Arrange
+    const hot = new AtmosphereModel({ ...standardDay, temperature: 35 }, 1500);
+    const highPressure = new AtmosphereModel({ ...standardDay, pressure: 103000 });
+
+    // Act & Assert
+    expect(hot.at(0).temperature).toBeCloseTo(308.15, 9);
+    expect(hot.at(1000).temperature).toBeCloseTo(301.65, 1);
+    expect(highPressure.at(0).pressure).toBe(103000);
+    expect(highPressure.at(0).density).toBeGreaterThan(new AtmosphereModel(standardDay).at(0).density);
+  });
+
+  it('should make humid air lighter with a faster speed of sound', () => {
+    // Arrange
+    const dry = new AtmosphereModel({ ...standardDay, temperature: 30 });
+    const humid = new AtmosphereModel({ ...standardDay, temperature: 30, humidity: 100 });
+
+    // Act & Assert
+    expect(humid.at(0).density).toBeLessThan(dry.at(0).density * 0.99);
+    expect(humid.at(0).speedOfSound).toBeGreaterThan(dry.at(0).speedOfSound);
+  });
+});
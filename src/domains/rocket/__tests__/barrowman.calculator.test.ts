@@ -0,0 +1,110 @@
+/**
+ * Barrowman Calculator Tests
+ * 
+ * Unit tests for the center of pressure and normal force calculations.
+ */
+
+import {
+  calculateCenterOfPressure,
+  noseConeAerodynamics,
+  finSetAerodynamics
+} from '../services/barrowman.calculator';
+import {
+  RocketConfig,
+  RocketMaterial,
+  NoseConeType,
+  EngineType,
+  RecoveryType
+} from '../../../shared/types/rocket';
+
+describe('Barrowman calculator', () => {
+  // 100 mm body with square, unswept fins one body diameter in span
+  const referenceConfig: RocketConfig = {
+    body: { length: 0.8, diameter: 0.1, mass: 0.3, material: RocketMaterial.CARDBOARD, fineness: 8 },
+    noseCone: { type: NoseConeType.OGIVE, length: 0.3, mass: 0.1, material: RocketMaterial.PLASTIC },
+    fins: {
+      count: 4,
+      span: 0.1,
+      rootChord: 0.1,
+      tipChord: 0.1,
+      sweepAngle: 0,
+      thickness: 0.003,
+      material: RocketMaterial.BALSA,
+      mass: 0.05
+    },
+    engine: {
+      type: EngineType.F,
+      thrust: 50,
+      burnTime: 1.5,
+      specificImpulse: 180,
+      propellantMass: 0.04,
+      totalMass: 0.09
+    },
+    recovery: { type: RecoveryType.PARACHUTE, deploymentAltitude: 200, parachuteDiameter: 0.9, mass: 0.05 },
+    launch: { launchAngle: 0, launchRodLength: 1.5 }
+  };
+
+  describe('nose cone', () => {
+    it('should place the CP according to the nose shape', () => {
+      const cpFor = (type: NoseConeType) =>
+        noseConeAerodynamics({ ...referenceConfig, noseCone: { ...referenceConfig.noseCone, type } }).centerOfPressure;
+
+      expect(cpFor(NoseConeType.CONICAL)).toBeCloseTo(0.2, 6);
+      expect(cpFor(NoseConeType.OGIVE)).toBeCloseTo(0.1398, 6);
+      expect(cpFor(NoseConeType.PARABOLIC)).toBeCloseTo(0.15, 6);
+      expect(cpFor(NoseConeType.ELLIPTICAL)).toBeCloseTo(0.0999, 6);
+    });
+
+    it('should have a normal force slope of 2', () => {
+      expect(noseConeAerodynamics(referenceConfig).normalForceSlope).toBe(2);
+    });
+  });
+
+  describe('fins', () => {
+    it('should match the Barrowman equations for a square fin', () => {
+      // Act
+      const fins = finSetAerodynamics(referenceConfig);
+
+      // Assert - 4N(s/d)² / (1 + √2) with a (1 + R/(s+R)) interference factor
+      expect(fins.normalForceSlope).toBeCloseTo((16 / (1 + Math.SQRT2)) * (4 / 3), 6);
+      expect(fins.centerOfPressure).toBeCloseTo(1.0 + 0.025, 6);
+    });
+
+    it('should move the CP aft with leading-edge sweep', () => {
+      const swept = finSetAerodynamics({ ...referenceConfig, fins: { ...referenceConfig.fins, sweepAngle: 45 } });
+      expect(swept.centerOfPressure).toBeGreaterThan(finSetAerodynamics(referenceConfig).centerOfPressure);
+    });
+
+    it('should scale with fin count, with interference above four fins', () => {
+      const slopeFor = (count: number) =>
+        finSetAerodynamics({ ...referenceConfig, fins: { ...referenceConfig.fins, count } }).normalForceSlope;
+
+      expect(slopeFor(3) / slopeFor(4)).toBeCloseTo(0.75, 6);
+      expect(slopeFor(6) / slopeFor(4)).toBeCloseTo(1.5 * 0.913, 6);
+      expect(slopeFor(8) / slopeFor(4)).toBeCloseTo(2 * 0.81, 6);
+    });
+  });
+
+  describe('calculateCenterOfPressure', () => {
+    it('should combine components weighted by normal force', () => {
+      // Act
+      const analysis = calculateCenterOfPressure(referenceConfig);
+
+      // Assert
+      expect(analysis.components.map(component => component.name)).toEqual(['nose_cone', 'body', 'fins']);
+      const [nose, body, fins] = analysis.components;
+      expect(body.normalForceSlope).toBe(0);
+      expect(analysis.normalForceSlope).toBeCloseTo(nose.normalForceSlope + fins.normalForceSlope, 6);
+      expect(analysis.centerOfPressure).toBeCloseTo(
+        (nose.normalForceSlope * nose.centerOfPressure + fins.normalForceSlope * fins.centerOfPressure) /
+          analysis.normalForceSlope,
+        6
+      );
+    });
+
+    it('should move the CP forward when fins shrink', () => {
+      const small = calculateCenterOfPressure({ ...referenceConfig, fins: { ...referenceConfig.fins, span: 0.03 } });
+      expect(small.centerOfPressure).toBeLessThan(calculateCenterOfPressure(referenceConfig).centerOfPressure);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Config Diff Tests
+ *
+ * Unit tests for field-level differences between rocket configs.
+ */
+
+import { diffConfigs } from '../services/config.diff';
+import {
+  RocketConfig,
+  RocketMaterial,
+  EngineType,
+  RecoveryType,
+  ConfigChangeType
+} from '../../../shared/types/rocket';
+import { testRocketConfig } from './fixtures/rocket.config';
+
+describe('Config Diff', () => {
+  it('should find nothing between identical configs', () => {
+    // Act & Assert
+    expect(diffConfigs(testRocketConfig, JSON.parse(JSON.stringify(testRocketConfig)))).toEqual([]);
+  });
+
+  it('should report each changed value at its own path', () => {
+    // Arrange
+    const changed: RocketConfig = {
+      ...testRocketConfig,
+      fins: { ...testRocketConfig.fins, span: 0.05, material: RocketMaterial.PLYWOOD },
+      recovery: { ...testRocketConfig.recovery, type: RecoveryType.STREAMER }
+    };
+
+    // Act
+    const changes = diffConfigs(testRocketConfig, changed);
+
+    // Assert
+    expect(changes).toEqual([
+      { path: 'fins.span', type: ConfigChangeType.CHANGED, before: 0.08, after: 0.05 },
+      { path: 'fins.material', type: ConfigChangeType.CHANGED, before: RocketMaterial.BALSA, after: RocketMaterial.PLYWOOD },
+      { path: 'recovery.type', type: ConfigChangeType.CHANGED, before: RecoveryType.PARACHUTE, after: RecoveryType.STREAMER }
+    ]);
+  });
+
+  it('should report added and removed parts whole', () => {
+    // Arrange
+    const booster = {
+      body: { length: 0.3, mass: 0.05, material: RocketMaterial.CARDBOARD },
+      motors: [testRocketConfig.engine]
+    };
+    const staged: RocketConfig = {
+      ...testRocketConfig,
+      noseCone: { ...testRocketConfig.noseCone, ballastMass: 0.005 },
+      stages: [booster]
+    };
+    const { parachuteDiameter, ...recovery } = testRocketConfig.recovery;
+
+    // Act
+    const added = diffConfigs(testRocketConfig, staged);
+    const removed = diffConfigs(testRocketConfig, { ...testRocketConfig, recovery });
+
+    // Assert
+    expect(added).toEqual([
+      { path: 'noseCone.ballastMass', type: ConfigChangeType.ADDED, after: 0.005 },
+      { path: 'stages', type: ConfigChangeType.ADDED, after: [booster] }
+    ]);
+    expect(removed).toEqual([
+      { path: 'recovery.parachuteDiameter', type: ConfigChangeType.REMOVED, before: parachuteDiameter }
+    ]);
+  });
+
+  it('should match array items by position', () => {
+    // Arrange
+    const booster = {
+      body: { length: 0.3, mass: 0.05, material: RocketMaterial.CARDBOARD },
+      motors: [testRocketConfig.engine]
+    };
+    const before: RocketConfig = { ...testRocketConfig, stages: [booster] };
+    const after: RocketConfig = {
+      ...testRocketConfig,
+      stages: [{ ...booster, motors: [testRocketConfig.engine, { ...testRocketConfig.engine, type: EngineType.D }] }]
+    };
+
+    // Act
+    const changes = diffConfigs(before, after);
+
+    // Assert
+    expect(changes).toEqual([
+      { path: 'stages.0.motors.1', type: ConfigChangeType.ADDED, after: { ...testRocketConfig.engine, type: EngineType.D } }
+    ]);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Design Interchange Tests
+ *
+ * Unit tests for importing and exporting OpenRocket and RockSim designs.
+ */
+
+import { importDesign, exportDesign } from '../services/design.interchange';
+import { MotorDatabase } from '../services/motor.database';
+import { isZip } from '../services/zip.archive';
+import {
+  RocketDesign,
+  RocketConfig,
+  RocketMaterial,
+  NoseConeType,
+  RecoveryType,
+  SurfaceFinish,
+  DesignFileFormat
+} from '../../../shared/types/rocket';
+
+describe('Design Interchange', () => {
+  const motorDatabase = new MotorDatabase();
+
+  const config = {
+    body: {
+      length: 0.5,
+      diameter: 0.041,
+      mass: 0.12,
+      material: RocketMaterial.CARDBOARD,
+      fineness: 0.5 / 0.041,
+      surfaceFinish: SurfaceFinish.SMOOTH_PAINT
+    },
+    noseCone: { type: NoseConeType.OGIVE, length: 0.12, mass: 0.03, material: RocketMaterial.PLASTIC, ballastMass: 0.01 },
+    fins: {
+      count: 3,
+      span: 0.06,
+      rootChord: 0.08,
+      tipChord: 0.04,
+      sweepAngle: 30,
+      thickness: 0.003,
+      material: RocketMaterial.BALSA,
+      mass: 0.015
+    },
+    engine: { designation: 'D12-5' },
+    recovery: {
+      type: RecoveryType.DUAL_DEPLOY,
+      deploymentAltitude: 120,
+      parachuteDiameter: 0.6,
+      drogueDiameter: 0.2,
+      mass: 0.05
+    },
+    stages: [{
+      name: 'Booster',
+      body: { length: 0.15, mass: 0.04, material: RocketMaterial.CARDBOARD },
+      motors: [{ designation: 'D12-0' }],
+      separationDelay: 0.5
+    }],
+    launch: { launchAngle: 5, launchRodLength: 1.5, windSpeed: 3, windDirection: 270 }
+  } as RocketConfig;
+
+  const rocket = {
+    id: 'rocket-1',
+    name: 'Test Bird',
+    description: 'Two stages & a <dual> deploy',
+    config: motorDatabase.resolveConfig(config)
+  } as RocketDesign;
+
+  it('should round-trip a design through a zipped OpenRocket file', () => {
+    // Act
+    const file = exportDesign(rocket, DesignFileFormat.ORK);
+    const imported = importDesign(file.content, DesignFileFormat.ORK, motorDatabase);
+
+    // Assert
+    expect(file.filename).toBe('Test-Bird.ork');
+    expect(isZip(file.content)).toBe(true);
+    expect(imported.notes).toEqual([]);
+    expect(imported.name).toBe('Test Bird');
+    expect(imported.description).toBe('Two stages & a <dual> deploy');
+    expect(imported.config.body).toEqual(config.body);
+    expect(imported.config.noseCone).toEqual(config.noseCone);
+    expect(imported.config.fins.sweepAngle).toBeCloseTo(30, 6);
+    expect(imported.config.recovery).toEqual(config.recovery);
+    expect(imported.config.launch).toEqual(config.launch);
+    expect(imported.config.engine).toMatchObject({ designation: 'D12', ejectionDelay: 5, thrust: expect.any(Number) });
+    expect(imported.config.stages).toHaveLength(1);
+    expect(imported.config.stages![0]).toMatchObject({
+      name: 'Booster',
+      body: config.stages![0].body,
+      separationDelay: 0.5,
+      motors: [{ designation: 'D12', ejectionDelay: 0 }]
+    });
+  });
+
+  it('should round-trip through RockSim, noting the dual deploy it cannot hold', () => {
+    // Act
+    const file = exportDesign(rocket, DesignFileFormat.RKT);
+    const imported = importDesign(file.content, DesignFileFormat.RKT, motorDatabase);
+
+    // Assert
+    expect(file.content.toString('utf8')).toContain('<RockSimDocument>');
+    expect(imported.config.body).toEqual(config.body);
+    expect(imported.config.noseCone).toEqual(config.noseCone);
+    expect(imported.config.engine.designation).toBe('D12-5');
+    expect(imported.config.stages![0]).toMatchObject({ name: 'Booster', body: config.stages![0].body });
+    expect(imported.config.recovery).toMatchObject({ type: RecoveryType.PARACHUTE, chuteCount: 2, mass: 0.05 });
+    expect(imported.notes).toEqual([
+      expect.objectContaining({ component: 'Drogue, Main', action: 'approximated' })
+    ]);
+  });
+
+  it('should estimate masses and report approximated and dropped parts', () => {
+    // Arrange
+    const ork = `<?xml version="1.0" encoding="utf-8"?>
+      <openrocket version="1.9" creator="OpenRocket 23.09">
+        <rocket><name>Alpha</name><subcomponents><stage><name>Sustainer</name><subcomponents>
+          <nosecone>
+            <name>Nose cone</name>
+            <material type="bulk" density="1050.0">Polystyrene PS</material>
+            <length>0.07</length><thickness>0.0016</thickness><shape>haack</shape><aftradius>auto</aftradius>
+          </nosecone>
+          <bodytube>
+            <name>Body tube</name>
+            <material type="bulk" density="680.0">Cardboard</material>
+            <length>0.2</length><thickness>0.0005</thickness><radius>0.0125</radius>
+            <subcomponents>
+              <freeformfinset>
+                <name>Fins</name>
+                <material type="bulk" density="1200">Unobtainium</material>
+                <fincount>3</fincount><thickness>0.002</thickness>
+                <finpoints><point x="0" y="0"/><point x="0.02" y="0.04"/><point x="0.05" y="0.04"/><point x="0.06" y="0"/></finpoints>
+              </freeformfinset>
+              <innertube>
+                <name>Motor tube</name>
+                <material type="bulk" density="680.0">Cardboard</material>
+                <length>0.07</length><outerradius>0.0095</outerradius><thickness>0.0005</thickness>
+                <motormount><motor configid="a"><designation>C11</designation><diameter>0.024</diameter><delay>3</delay></motor></motormount>
+              </innertube>
+              <parachute><name>Chute</name><diameter>0.3</diameter><deployevent>ejection</deployevent></parachute>
+              <railbutton><name>Rail button</name></railbutton>
+              <podset><name>Pods</name></podset>
+            </subcomponents>
+          </bodytube>
+        </subcomponents></stage></subcomponents></rocket>
+        <simulations><simulation><conditions>
+          <launchrodlength>0.9</launchrodlength><launchrodangle>2</launchrodangle><windaverage>2</windaverage>
+        </conditions></simulation></simulations>
+      </openrocket>`;
+
+    // Act
+    const imported = importDesign(Buffer.from(ork), DesignFileFormat.ORK, motorDatabase);
+
+    // Assert
+    expect(imported.config.noseCone).toMatchObject({ type: NoseConeType.OGIVE, material: RocketMaterial.PLASTIC });
+    expect(imported.config.body).toMatchObject({ length: 0.2, diameter: 0.025 });
+    expect(imported.config.body.mass).toBeGreaterThan(0.005);
+    expect(imported.config.fins).toMatchObject({ rootChord: 0.06, tipChord: 0.03, span: 0.04 });
+    expect(imported.config.engine).toMatchObject({ designation: 'C6', ejectionDelay: 3 });
+    expect(imported.config.launch).toEqual({ launchAngle: 2, launchRodLength: 0.9, windSpeed: 2 });
+    expect(imported.notes).toEqual([
+      { component: 'Nose cone', action: 'approximated', detail: 'haack nose cone treated as ogive' },
+      { component: 'Fins', action: 'approximated', detail: 'freeform fins as a trapezoid of the same area' },
+      { component: 'Fins', action: 'approximated', detail: "'Unobtainium' (1200 kg/m³) treated as plastic" },
+      { component: 'Rail button', action: 'dropped', detail: 'no mass or size in the file' },
+      { component: 'Pods', action: 'dropped', detail: 'podset is not modeled' },
+      { component: 'Sustainer motor', action: 'approximated', detail: 'C11 is not in the motor database; using C6' }
+    ]);
+  });
+
+  it('should reject files that are not designs it can use', () => {
+    // Arrange
+    const finless = exportDesign(rocket, DesignFileFormat.RKT).content.toString('utf8')
+      .replace(/<FinSet>[\s\S]*?<\/FinSet>/, '');
+
+    // Act & Assert
+    expect(() => importDesign(Buffer.from('<rocket/>'), DesignFileFormat.ORK, motorDatabase))
+      .toThrow('Not an OpenRocket design');
+    expect(() => importDesign(Buffer.from(finless), DesignFileFormat.RKT, motorDatabase))
+      .toThrow('The design has no fins');
+    expect(() => exportDesign(rocket, 'step' as DesignFileFormat))
+      .toThrow("Unsupported design format 'step'");
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Design Optimizer Tests
+ *
+ * Unit tests for searching design dimensions and motors, flown by a stand-in
+ * simulation whose results follow simple formulas.
+ */
+
+import { optimizeDesign, applyValues } from '../services/design.optimizer';
+import { SimulationRunner } from '../services/simulation.runner';
+import {
+  RocketConfig,
+  FlightResults,
+  EngineType,
+  OptimizationObjective,
+  OptimizationParameter,
+  OptimizationProgress,
+  DEFAULT_WEATHER
+} from '../../../shared/types/rocket';
+import { testRocketConfig } from './fixtures/rocket.config';
+
+describe('Design Optimizer', () => {
+  // A lighter rocket on a C6, so flights stay short
+  const config: RocketConfig = {
+    ...testRocketConfig,
+    body: { ...testRocketConfig.body, length: 0.35, diameter: 0.025, mass: 0.03, fineness: 14 },
+    noseCone: { ...testRocketConfig.noseCone, mass: 0.008 },
+    fins: { ...testRocketConfig.fins, span: 0.05, mass: 0.005 },
+    engine: {
+      ...testRocketConfig.engine,
+      designation: 'C6',
+      thrust: 10,
+      burnTime: 1.8,
+      specificImpulse: 100,
+      propellantMass: 0.0108,
+      totalMass: 0.024
+    },
+    recovery: { ...testRocketConfig.recovery, mass: 0.01 }
+  };
+
+  // Flights follow the fin span: larger fins fly lower but are more stable
+  const runnerFor = (
+    apogee: (config: RocketConfig) => number,
+    stabilityMargin: (config: RocketConfig) => number = config => 30 * config.fins.span
+  ): jest.MockedFunction<SimulationRunner> => jest.fn(async ({ config }) => ({
+    results: {
+      maxAltitude: apogee(config),
+      stabilityMargin: stabilityMargin(config),
+      landingDistance: 40,
+      successful: true
+    } as FlightResults,
+    telemetry: [],
+    events: []
+  }));
+
+  const finSpan = [{ parameter: OptimizationParameter.FIN_SPAN, min: 0.02, max: 0.1 }];
+
+  it('should find the fin span that reaches a target apogee', async () => {
+    // Arrange
+    const runner = runnerFor(config => 2000 * config.fins.span);
+
+    // Act
+    const result = await optimizeDesign(config, DEFAULT_WEATHER, {
+      objective: OptimizationObjective.TARGET_APOGEE,
+      targetApogee: 150,
+      variables: finSpan
+    }, [], runner);
+
+    // Assert
+    const [best] = result.candidates;
+    expect(best.values[OptimizationParameter.FIN_SPAN]).toBeCloseTo(0.075, 3);
+    expect(best.objectiveValue).toBeLessThan(1);
+    expect(best.motor).toBe('C6');
+    expect(result.evaluations).toBe(runner.mock.calls.length);
+    expect(result.evaluations).toBeLessThanOrEqual(150);
+  });
+
+  it('should keep the stability margin while maximizing altitude', async () => {
+    // Arrange
+    const runner = runnerFor(config => 300 - 1000 * config.fins.span);
+    const progress: OptimizationProgress[] = [];
+
+    // Act
+    const result = await optimizeDesign(config, DEFAULT_WEATHER, {
+      objective: OptimizationObjective.MAX_ALTITUDE,
+      variables: finSpan,
+      maxEvaluations: 60,
+      results: 3
+    }, [], runner, report => progress.push(report));
+
+    // Assert
+    expect(result.minStabilityMargin).toBe(1.5);
+    expect(result.candidates[0].values[OptimizationParameter.FIN_SPAN]).toBeCloseTo(0.05, 3);
+    expect(result.candidates[0].apogee).toBeCloseTo(250, 0);
+    expect(result.candidates.length).toBeLessThanOrEqual(3);
+    result.candidates.forEach(candidate => expect(candidate.stabilityMargin).toBeGreaterThanOrEqual(1.5));
+    expect(progress).toHaveLength(result.evaluations);
+    expect(progress[progress.length - 1]).toMatchObject({
+      evaluations: result.evaluations,
+      maxEvaluations: 60,
+      bestObjectiveValue: result.candidates[0].apogee
+    });
+  });
+
+  it('should search each motor and rank them together', async () => {
+    // Arrange
+    const runner = runnerFor(config => (config.engine.type === EngineType.D ? 200 : 100));
+    const motors = [
+      { ...config.engine, designation: 'B6', type: EngineType.B },
+      { ...config.engine, designation: 'D12', type: EngineType.D }
+    ];
+
+    // Act
+    const result = await optimizeDesign(config, DEFAULT_WEATHER, {
+      objective: OptimizationObjective.MAX_ALTITUDE,
+      engineTypes: [EngineType.B, EngineType.D]
+    }, motors, runner);
+
+    // Assert
+    expect(result.evaluations).toBe(2);
+    expect(result.candidates.map(candidate => candidate.motor)).toEqual(['D12', 'B6']);
+    expect(result.candidates[0].config.engine.designation).toBe('D12');
+  });
+
+  it('should scale part masses with their size', () => {
+    // Act
+    const changed = applyValues(config, {
+      [OptimizationParameter.BODY_LENGTH]: 0.7,
+      [OptimizationParameter.FIN_SPAN]: 0.1,
+      [OptimizationParameter.NOSE_BALLAST]: 0.01
+    });
+
+    // Assert
+    expect(changed.body).toMatchObject({ length: 0.7, mass: 0.06, fineness: expect.closeTo(28, 6) });
+    expect(changed.fins).toMatchObject({ span: 0.1, mass: expect.closeTo(0.01, 6) });
+    expect(changed.noseCone).toMatchObject({ mass: 0.008, ballastMass: 0.01 });
+    expect(config.body.length).toBe(0.35);
+  });
+
+  it('should fail when no candidate is stable enough', async () => {
+    // Arrange
+    const runner = runnerFor(() => 150, () => 1);
+
+    // Act & Assert
+    await expect(optimizeDesign(config, DEFAULT_WEATHER, {
+      objective: OptimizationObjective.MAX_ALTITUDE,
+      variables: finSpan,
+      maxEvaluations: 20
+    }, [], runner)).rejects.toThrow('No candidate flew successfully with a stability margin of 1.5 calibers');
+  });
+});
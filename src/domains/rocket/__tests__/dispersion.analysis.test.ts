@@ -0,0 +1,174 @@
+/**
+ * Dispersion Analysis Tests
+ *
+ * Unit tests for Monte Carlo dispersion runs and landing ellipse statistics.
+ */
+
+import {
+  runDispersionAnalysis,
+  perturbConfig,
+  calculateStatistics,
+  calculateLandingEllipse,
+  DEFAULT_DISPERSION_TOLERANCES
+} from '../services/dispersion.analysis';
+import { createRandom } from '../services/random';
+import { runSimulation, SimulationInput } from '../services/simulation.runner';
+import {
+  RocketConfig,
+  DEFAULT_WEATHER
+} from '../../../shared/types/rocket';
+import { testRocketConfig } from './fixtures/rocket.config';
+
+describe('Dispersion analysis', () => {
+  const testConfig: RocketConfig = { ...testRocketConfig, launch: { ...testRocketConfig.launch, launchAngle: 5 } };
+
+  const noTolerances = { windSpeed: 0, windDirection: 0, motorImpulse: 0, launchAngle: 0, mass: 0 };
+
+  it('should compute sample statistics', () => {
+    // Act
+    const stats = calculateStatistics([2, 4, 4, 4, 5, 5, 7, 9]);
+
+    // Assert
+    expect(stats.mean).toBe(5);
+    expect(stats.standardDeviation).toBeCloseTo(Math.sqrt(32 / 7), 9);
+    expect(stats.min).toBe(2);
+    expect(stats.max).toBe(9);
+  });
+
+  it('should align the landing ellipse with the scatter', () => {
+    // Arrange - points spread 3× further along the NE diagonal than across it
+    const points = [];
+    for (const along of [-3, 3]) {
+      for (const across of [-1, 1]) {
+        points.push({
+          x: 100 + (along - across) / Math.SQRT2,
+          z: 50 + (along + across) / Math.SQRT2
+        });
+      }
+    }
+
+    // Act
+    const oneSigma = calculateLandingEllipse(points, 1);
+    const threeSigma = calculateLandingEllipse(points, 3);
+
+    // Assert
+    expect(oneSigma.center.x).toBeCloseTo(100, 9);
+    expect(oneSigma.center.z).toBeCloseTo(50, 9);
+    expect(oneSigma.orientation).toBeCloseTo(45, 6);
+    expect(oneSigma.semiMajorAxis / oneSigma.semiMinorAxis).toBeCloseTo(3, 6);
+    expect(threeSigma.semiMajorAxis).toBeCloseTo(3 * oneSigma.semiMajorAxis, 9);
+    expect(oneSigma.probability).toBeCloseTo(0.393, 3);
+    expect(threeSigma.probability).toBeCloseTo(0.989, 3);
+  });
+
+  it('should vary mass and impulse without touching the nominal config', () => {
+    // Act
+    const perturbed = perturbConfig(testConfig, { ...noTolerances, motorImpulse: 0.1, mass: 0.1 }, createRandom(1));
+
+    // Assert
+    expect(perturbed.engine.thrust).not.toBe(testConfig.engine.thrust);
+    expect(perturbed.body.mass / testConfig.body.mass).toBeCloseTo(perturbed.fins.mass / testConfig.fins.mass, 9);
+    expect(perturbed.engine.burnTime).toBe(testConfig.engine.burnTime);
+    expect(testConfig.engine.thrust).toBe(12);
+  });
+
+  it('should tilt the rod every way around the nominal', () => {
+    // Arrange
+    const random = createRandom(3);
+    const vertical: RocketConfig = { ...testConfig, launch: { ...testConfig.launch, launchAngle: 0 } };
+
+    // Act
+    const launches = Array.from({ length: 40 }, () =>
+      perturbConfig(vertical, { ...noTolerances, launchAngle: 1 }, random).launch
+    );
+
+    // Assert - eastward and westward tilts, northward and southward too
+    const east = launches.map(launch => Math.sin((launch.launchDirection! * Math.PI) / 180));
+    const north = launches.map(launch => Math.cos((launch.launchDirection! * Math.PI) / 180));
+    expect(east.some(value => value > 0.5)).toBe(true);
+    expect(east.some(value => value < -0.5)).toBe(true);
+    expect(north.some(value => value > 0.5)).toBe(true);
+    expect(north.some(value => value < -0.5)).toBe(true);
+    launches.forEach(launch => expect(launch.launchAngle).toBeGreaterThanOrEqual(0));
+  });
+
+  it('should leave runs that never land out of the apogee statistics', async () => {
+    // Arrange - the first run is cut off in flight far above the others
+    let calls = 0;
+    const runner = jest.fn(async (input: SimulationInput) => {
+      const output = await runSimulation(input);
+      if (calls++ > 0) return output;
+      return {
+        ...output,
+        results: { ...output.results, maxAltitude: 10000 },
+        telemetry: output.telemetry.slice(0, 2)
+      };
+    });
+
+    // Act
+    const summary = await runDispersionAnalysis(testConfig, DEFAULT_WEATHER, {
+      runs: 3,
+      seed: 7,
+      tolerances: noTolerances
+    }, runner);
+
+    // Assert
+    expect(summary.failedRuns).toBe(1);
+    expect(summary.landingPoints).toHaveLength(2);
+    expect(summary.apogee.max).toBeLessThan(10000);
+    expect(summary.apogee.standardDeviation).toBeCloseTo(0, 6);
+  });
+
+  it('should land every run in the same place without tolerances', async () => {
+    // Act
+    const summary = await runDispersionAnalysis(testConfig, DEFAULT_WEATHER, {
+      runs: 3,
+      seed: 7,
+      tolerances: noTolerances
+    });
+
+    // Assert
+    expect(summary.failedRuns).toBe(0);
+    expect(summary.landingPoints).toHaveLength(3);
+    expect(summary.apogee.standardDeviation).toBeCloseTo(0, 6);
+    expect(summary.landingEllipses.map(ellipse => ellipse.sigma)).toEqual([1, 2, 3]);
+    expect(summary.landingEllipses[2].semiMajorAxis).toBeCloseTo(0, 6);
+  });
+
+  it('should reproduce the same scatter from the same seed', async () => {
+    // Arrange
+    const request = { runs: 5, seed: 42, fieldRadius: 50 };
+
+    // Act
+    const first = await runDispersionAnalysis(testConfig, DEFAULT_WEATHER, request);
+    const second = await runDispersionAnalysis(testConfig, DEFAULT_WEATHER, request);
+
+    // Assert
+    expect(second.landingPoints).toEqual(first.landingPoints);
+    expect(first.tolerances).toEqual(DEFAULT_DISPERSION_TOLERANCES);
+    expect(first.apogee.standardDeviation).toBeGreaterThan(0);
+    expect(first.landingEllipses[0].semiMajorAxis).toBeGreaterThan(0);
+    expect(first.landingsOutsideField).toBe(
+      first.landingPoints.filter(point => Math.hypot(point.x, point.z) > 50).length
+    );
+  });
+
+  it('should give the same scatter when the runner finishes runs out of order', async () => {
+    // Arrange - later runs come back first
+    const request = { runs: 4, seed: 42 };
+    let remaining = request.runs;
+    const runner = jest.fn(async (input: SimulationInput) => {
+      const output = await runSimulation(input);
+      await new Promise(resolve => setTimeout(resolve, 5 * remaining--));
+      return output;
+    });
+
+    // Act
+    const onThread = await runDispersionAnalysis(testConfig, DEFAULT_WEATHER, request);
+    const pooled = await runDispersionAnalysis(testConfig, DEFAULT_WEATHER, request, runner);
+
+    // Assert
+    expect(runner).toHaveBeenCalledTimes(4);
+    expect(pooled.landingPoints).toEqual(onThread.landingPoints);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Drag Calibration Tests
+ *
+ * Unit tests for fitting the drag multiplier to observed flights.
+ */
+
+import { calibrateDragMultiplier } from '../services/drag.calibration';
+import { calculateDragCoefficient } from '../services/drag.model';
+import { SimulationEngine } from '../services/simulation.engine';
+import { runSimulation } from '../services/simulation.runner';
+import { DEFAULT_WEATHER } from '../../../shared/types/rocket';
+import { testRocketConfig } from './fixtures/rocket.config';
+
+describe('Drag Calibration', () => {
+  // The flight the design would fly with the given multiplier
+  const flyWith = async (dragMultiplier: number) => {
+    const options = { timeStep: 0.05, seed: 1, detailedTelemetry: false };
+    const { results } = await new SimulationEngine(options)
+      .simulate({ ...testRocketConfig, aerodynamics: { dragMultiplier } }, DEFAULT_WEATHER, options);
+    return results;
+  };
+
+  it('should scale the drag coefficient by the multiplier', () => {
+    // Act
+    const nominal = calculateDragCoefficient(testRocketConfig, { mach: 0.3 });
+    const calibrated = calculateDragCoefficient({ ...testRocketConfig, aerodynamics: { dragMultiplier: 1.4 } }, { mach: 0.3 });
+
+    // Assert
+    expect(calibrated).toBeCloseTo(nominal * 1.4, 10);
+  });
+
+  it('should recover the multiplier behind an observed flight', async () => {
+    // Arrange
+    const observed = await flyWith(1.25);
+
+    // Act
+    const calibration = await calibrateDragMultiplier(testRocketConfig, [
+      { apogee: observed.maxAltitude, apogeeTime: observed.apogeeTime }
+    ]);
+
+    // Assert
+    expect(calibration.previousMultiplier).toBe(1);
+    expect(calibration.dragMultiplier).toBeCloseTo(1.25, 1);
+    expect(calibration.residual).toBeLessThan(0.01);
+    expect(calibration.flights).toHaveLength(1);
+    expect(calibration.flights[0].before.apogee).toBeGreaterThan(observed.maxAltitude);
+    expect(calibration.flights[0].after.apogee).toBeCloseTo(observed.maxAltitude, 0);
+  });
+
+  it('should fly every simulation through the given runner', async () => {
+    // Arrange
+    const observed = await flyWith(0.8);
+    const runner = jest.fn(runSimulation);
+
+    // Act
+    const calibration = await calibrateDragMultiplier(testRocketConfig, [{ apogee: observed.maxAltitude }], {}, runner);
+
+    // Assert
+    expect(calibration.dragMultiplier).toBeCloseTo(0.8, 1);
+    expect(runner.mock.calls.length).toBeGreaterThan(10);
+    runner.mock.calls.forEach(([input]) => {
+      expect(input.launchOptions).toMatchObject({ seed: 1, detailedTelemetry: false });
+    });
+  });
+
+  it('should reject observations it cannot fit', async () => {
+    // Act & Assert
+    await expect(calibrateDragMultiplier(testRocketConfig, [])).rejects.toThrow('At least one observed flight is needed');
+    await expect(calibrateDragMultiplier(testRocketConfig, [{ launchAngle: 5 }]))
+      .rejects.toThrow('Each observation needs an apogee or a time to apogee');
+    await expect(calibrateDragMultiplier(testRocketConfig, [{ apogee: 5000 }]))
+      .rejects.toThrow('check the motor and masses before blaming drag');
+  });
+});
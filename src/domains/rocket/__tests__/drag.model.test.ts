@@ -0,0 +1,93 @@
+/**
+ * Drag Model Tests
+ * 
+ * Unit tests for the component drag buildup and Cd(Mach) curve.
+ */
+
+import { calculateDragBreakdown, calculateDragCoefficient, calculateDragCurve } from '../services/drag.model';
+import {
+  RocketConfig,
+  NoseConeType,
+  SurfaceFinish
+} from '../../../shared/types/rocket';
+import { testRocketConfig } from './fixtures/rocket.config';
+
+describe('Drag model', () => {
+  const withNose = (type: NoseConeType): RocketConfig => ({
+    ...testRocketConfig,
+    noseCone: { ...testRocketConfig.noseCone, type }
+  });
+
+  it('should sum the component contributions', () => {
+    // Act
+    const breakdown = calculateDragBreakdown(testRocketConfig, { mach: 0.3 });
+
+    // Assert
+    const sum = breakdown.friction + breakdown.nosePressure + breakdown.finPressure + breakdown.base + breakdown.wave;
+    expect(breakdown.total).toBeCloseTo(sum, 12);
+    expect(breakdown.friction).toBeGreaterThan(0);
+    expect(breakdown.wave).toBe(0);
+  });
+
+  it('should give blunt noses more pressure drag than streamlined ones', () => {
+    // Act
+    const ogive = calculateDragBreakdown(withNose(NoseConeType.OGIVE), { mach: 0.3 });
+    const conical = calculateDragBreakdown(withNose(NoseConeType.CONICAL), { mach: 0.3 });
+    const blunt = calculateDragBreakdown(withNose(NoseConeType.BLUNT), { mach: 0.3 });
+
+    // Assert
+    expect(ogive.nosePressure).toBe(0);
+    expect(conical.nosePressure).toBeGreaterThan(0);
+    expect(blunt.nosePressure).toBeGreaterThan(conical.nosePressure);
+  });
+
+  it('should reduce base drag while the motor is firing', () => {
+    // Act
+    const coasting = calculateDragBreakdown(testRocketConfig, { mach: 0.3 });
+    const thrusting = calculateDragBreakdown(testRocketConfig, { mach: 0.3, thrusting: true });
+
+    // Assert - default motor is 80% of the body diameter
+    expect(thrusting.base).toBeCloseTo(coasting.base * (1 - 0.8 ** 2), 12);
+    expect(thrusting.total).toBeLessThan(coasting.total);
+  });
+
+  it('should add more friction drag for rougher finishes', () => {
+    // Arrange
+    const withFinish = (surfaceFinish: SurfaceFinish): RocketConfig => ({
+      ...testRocketConfig,
+      body: { ...testRocketConfig.body, surfaceFinish }
+    });
+
+    // Act
+    const polished = calculateDragCoefficient(withFinish(SurfaceFinish.POLISHED), { mach: 0.3 });
+    const regular = calculateDragCoefficient(testRocketConfig, { mach: 0.3 });
+    const rough = calculateDragCoefficient(withFinish(SurfaceFinish.ROUGH), { mach: 0.3 });
+
+    // Assert
+    expect(polished).toBeLessThan(regular);
+    expect(regular).toBeLessThan(rough);
+  });
+
+  it('should rise through the transonic region', () => {
+    // Act
+    const subsonic = calculateDragBreakdown(testRocketConfig, { mach: 0.5 });
+    const transonic = calculateDragBreakdown(testRocketConfig, { mach: 1.05 });
+    const supersonic = calculateDragBreakdown(testRocketConfig, { mach: 2 });
+
+    // Assert - wave drag peaks just above Mach 1 and decays afterwards
+    expect(transonic.total).toBeGreaterThan(subsonic.total);
+    expect(transonic.wave).toBeGreaterThan(supersonic.wave);
+    expect(supersonic.wave).toBeGreaterThan(0);
+  });
+
+  it('should build a Cd(Mach) curve from 0 to Mach 2', () => {
+    // Act
+    const curve = calculateDragCurve(testRocketConfig);
+
+    // Assert
+    expect(curve).toHaveLength(41);
+    expect(curve[20].mach).toBe(1);
+    expect(curve[20].dragCoefficient).toBeCloseTo(calculateDragCoefficient(testRocketConfig, { mach: 1 }), 12);
+    expect(curve.every(point => point.poweredDragCoefficient < point.dragCoefficient)).toBe(true);
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Event Detection Tests
+ *
+ * Unit tests for locating events between integrator steps.
+ */
+
+import { eventOccurs, findEventTime } from '../services/event.detection';
+
+describe('Event detection', () => {
+  // Vertical flight without drag: [altitude, vertical velocity]
+  const gravity = 9.80665;
+  const flight = (time: number) => [30 * time - 0.5 * gravity * time ** 2, 30 - gravity * time];
+  const apogee = (state: number[]) => -state[1];
+  const groundHit = (state: number[]) => -state[0];
+
+  it('should only report sign changes into the event', () => {
+    // Assert
+    expect(eventOccurs(apogee, flight(2), flight(4))).toBe(true);
+    expect(eventOccurs(apogee, flight(4), flight(5))).toBe(false);
+    expect(eventOccurs(groundHit, flight(0), flight(1))).toBe(false);
+  });
+
+  it('should find the apogee time within tolerance', () => {
+    // Act
+    const root = findEventTime(apogee, flight, 2, flight(2), 4, flight(4));
+
+    // Assert
+    expect(Math.abs(root.time - 30 / gravity)).toBeLessThan(1e-6);
+    expect(apogee(root.state)).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should converge on curved event functions', () => {
+    // Act - altitude is quadratic in time, so plain regula falsi would stall
+    const root = findEventTime(groundHit, flight, 5, flight(5), 7, flight(7), 1e-9);
+
+    // Assert
+    expect(root.time).toBeCloseTo(60 / gravity, 8);
+    expect(root.state[0]).toBeLessThanOrEqual(0);
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Rocket Config Fixture
+ *
+ * The single-stage rocket the rocket tests fly: a C motor in a 24 mm
+ * cardboard body with an ogive nose, four balsa fins and a 30 cm parachute.
+ * Tests spread it and override only the parts they are about.
+ */
+
+import {
+  RocketConfig,
+  RocketMaterial,
+  NoseConeType,
+  EngineType,
+  RecoveryType
+} from '../../../../shared/types/rocket';
+
+export const testRocketConfig: RocketConfig = {
+  body: { length: 0.6, diameter: 0.024, mass: 0.1, material: RocketMaterial.CARDBOARD, fineness: 25 },
+  noseCone: { type: NoseConeType.OGIVE, length: 0.1, mass: 0.02, material: RocketMaterial.BALSA },
+  fins: {
+    count: 4,
+    span: 0.08,
+    rootChord: 0.06,
+    tipChord: 0.03,
+    sweepAngle: 30,
+    thickness: 0.003,
+    material: RocketMaterial.BALSA,
+    mass: 0.01
+  },
+  engine: {
+    type: EngineType.C,
+    thrust: 12,
+    burnTime: 2.5,
+    specificImpulse: 180,
+    propellantMass: 0.024,
+    totalMass: 0.038
+  },
+  recovery: { type: RecoveryType.PARACHUTE, deploymentAltitude: 150, parachuteDiameter: 0.3, mass: 0.02 },
+  launch: { launchAngle: 0, launchRodLength: 1.2 }
+};
@@ -0,0 +1,142 @@
+/**
+ * Flight Log Tests
+ *
+ * Unit tests for reading altimeter logs and comparing them with simulations.
+ */
+
+import { parseFlightLog, compareFlight } from '../services/flight.log';
+import {
+  SimulationResult,
+  TrajectoryPoint,
+  FlightPhase,
+  FlightLogFormat
+} from '../../../shared/types/rocket';
+
+describe('Flight Log', () => {
+  const FEET = 0.3048;
+
+  // A 100 m flight lasting 10 s
+  const altitudeAt = (time: number) => Math.max(0, 100 - 4 * (time - 5) ** 2);
+
+  const point = (time: number): TrajectoryPoint => ({
+    time,
+    position: { x: 0, y: altitudeAt(time), z: 0 },
+    velocity: { x: 0, y: -8 * (time - 5), z: 0 },
+    acceleration: { x: 0, y: -8, z: 0 },
+    mass: 0.15,
+    thrust: 0,
+    drag: 0,
+    machNumber: 0.1,
+    altitude: altitudeAt(time),
+    phase: FlightPhase.COAST
+  });
+
+  const simulation = {
+    id: 'sim-1',
+    telemetry: Array.from({ length: 201 }, (_, i) => point(i * 0.05))
+  } as SimulationResult;
+
+  // The same flight in feet at 20 Hz, on a clock that started 2 s before liftoff
+  const loggedFeet = (scale: number) => Array.from({ length: 240 }, (_, i) => {
+    const time = i * 0.05;
+    return [time.toFixed(2), (altitudeAt(time - 2) * scale / FEET).toFixed(2)];
+  });
+
+  it('should read an Eggtimer log, preferring the filtered columns', () => {
+    // Arrange
+    const csv = [
+      'Eggtimer Quantum flight 3',
+      'T,Alt,FAlt,Veloc,FVeloc,Temp',
+      '0.00,1,0,0,0,70',
+      '0.05,12,10,180,200,70',
+      'Apogee',
+      '0.10,34,33,400,410,70',
+      '0.15,60,55,420,440,70'
+    ].join('\n');
+
+    // Act
+    const log = parseFlightLog(csv);
+
+    // Assert
+    expect(log.format).toBe(FlightLogFormat.EGGTIMER);
+    expect(log.velocitySource).toBe('logged');
+    expect(log.samples).toHaveLength(4);
+    expect(log.samples[1].altitude).toBeCloseTo(10 * FEET, 6);
+    expect(log.samples[1].velocity).toBeCloseTo(200 * FEET, 6);
+    expect(log.apogee).toBeCloseTo(55 * FEET, 6);
+    expect(log.apogeeTime).toBe(0.15);
+    expect(log.maxVelocity).toBeCloseTo(440 * FEET, 6);
+  });
+
+  it('should take units from the header and derive missing velocities', () => {
+    // Arrange
+    const csv = [
+      '"Time (ms)";"Altitude (m)"',
+      ...Array.from({ length: 21 }, (_, i) => `${i * 50};${(10 * i * 0.05).toFixed(2)}`)
+    ].join('\r\n');
+
+    // Act
+    const log = parseFlightLog(csv, FlightLogFormat.CSV);
+
+    // Assert
+    expect(log.format).toBe(FlightLogFormat.CSV);
+    expect(log.samples[20]).toMatchObject({ time: 1, altitude: 10 });
+    expect(log.velocitySource).toBe('derived');
+    expect(log.samples[10].velocity).toBeCloseTo(10, 6);
+    expect(log.maxVelocity).toBeCloseTo(10, 6);
+  });
+
+  it('should detect PerfectFlite logs by name and assume feet', () => {
+    // Arrange
+    const csv = ['PerfectFlite StratoLoggerCF', 'Time,Altitude', ...loggedFeet(1).map(row => row.join(','))].join('\n');
+
+    // Act
+    const log = parseFlightLog(csv);
+
+    // Assert
+    expect(log.format).toBe(FlightLogFormat.PERFECTFLITE);
+    expect(log.apogee).toBeCloseTo(100, 1);
+    expect(log.apogeeTime).toBeCloseTo(7, 6);
+  });
+
+  it('should reject logs without usable samples', () => {
+    // Act & Assert
+    expect(() => parseFlightLog('Pressure,Temperature\n1013,20')).toThrow('No time and altitude columns found in the log');
+    expect(() => parseFlightLog('Time,Altitude\n0,0\n0.1,5')).toThrow('The log has fewer than 3 altitude samples');
+  });
+
+  it('should line the log up with the simulation and report the errors', () => {
+    // Arrange
+    const csv = (scale: number) => ['Time,Altitude', ...loggedFeet(scale).map(row => row.join(','))].join('\n');
+    const exact = { id: 'log-1', ...parseFlightLog(csv(1), FlightLogFormat.PERFECTFLITE) };
+    const low = { id: 'log-2', ...parseFlightLog(csv(0.9), FlightLogFormat.PERFECTFLITE) };
+
+    // Act
+    const matching = compareFlight(exact, simulation);
+    const short = compareFlight(low, simulation);
+
+    // Assert
+    expect(matching.timeOffset).toBeCloseTo(-2, 2);
+    expect(matching.apogee.difference).toBeCloseTo(0, 1);
+    expect(matching.apogeeTime.actual).toBeCloseTo(5, 2);
+    expect(matching.rmsAltitudeError).toBeLessThan(0.1);
+    expect(matching.samplesCompared).toBeGreaterThanOrEqual(200);
+    expect(matching.overlay[0]).toMatchObject({ time: expect.closeTo(0, 2), simulatedAltitude: expect.closeTo(0, 2) });
+
+    expect(short.flightLogId).toBe('log-2');
+    expect(short.simulationId).toBe('sim-1');
+    expect(short.apogee.actual).toBeCloseTo(90, 1);
+    expect(short.apogee.difference).toBeCloseTo(10, 1);
+    expect(short.apogee.percentDifference).toBeCloseTo(11.1, 1);
+    expect(short.rmsAltitudeError).toBeGreaterThan(3);
+    expect(short.maxAltitudeError.value).toBeGreaterThan(9);
+  });
+
+  it('should refuse to compare a flight that never left the pad', () => {
+    // Arrange
+    const log = { id: 'log-3', ...parseFlightLog('Time,Altitude\n0,0\n1,2\n2,0') };
+
+    // Act & Assert
+    expect(() => compareFlight(log, simulation)).toThrow('The logged flight never climbs above 10 m');
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Integrator Tests
+ * 
+ * Unit tests for the numerical integrators used by the SimulationEngine.
+ */
+
+import {
+  EulerIntegrator,
+  RungeKutta4Integrator,
+  DormandPrinceIntegrator,
+  DerivativeFunction,
+  createIntegrator
+} from '../services/integrator';
+import { IntegratorType } from '../../../shared/types/rocket';
+
+describe('Integrators', () => {
+  // Harmonic oscillator: x'' = -x, exact solution x = cos(t), v = -sin(t)
+  const oscillator: DerivativeFunction = (_time, [x, v]) => [v, -x];
+
+  const integrate = (integrator: any, step: number, endTime: number): number[] => {
+    let state = [1, 0];
+    let time = 0;
+    while (time < endTime - 1e-12) {
+      const next = Math.min(endTime, time + step);
+      state = integrator.advance(oscillator, time, state, next).state;
+      time = next;
+    }
+    return state;
+  };
+
+  describe('EulerIntegrator', () => {
+    it('should be first-order accurate', () => {
+      // Act
+      const coarseError = Math.abs(integrate(new EulerIntegrator(), 0.01, 1)[0] - Math.cos(1));
+      const fineError = Math.abs(integrate(new EulerIntegrator(), 0.005, 1)[0] - Math.cos(1));
+
+      // Assert - halving the step roughly halves the error
+      expect(coarseError / fineError).toBeCloseTo(2, 0);
+    });
+  });
+
+  describe('RungeKutta4Integrator', () => {
+    it('should be fourth-order accurate', () => {
+      // Act
+      const coarseError = Math.abs(integrate(new RungeKutta4Integrator(), 0.1, 1)[0] - Math.cos(1));
+      const fineError = Math.abs(integrate(new RungeKutta4Integrator(), 0.05, 1)[0] - Math.cos(1));
+
+      // Assert - halving the step reduces the error ~16x
+      expect(coarseError / fineError).toBeGreaterThan(12);
+      expect(fineError).toBeLessThan(1e-6);
+    });
+  });
+
+  describe('DormandPrinceIntegrator', () => {
+    it('should meet the requested tolerance over a long interval', () => {
+      // Arrange
+      const integrator = new DormandPrinceIntegrator({ relativeTolerance: 1e-8, absoluteTolerance: 1e-8 });
+
+      // Act
+      const result = integrator.advance(oscillator, 0, [1, 0], 10);
+
+      // Assert
+      expect(result.state[0]).toBeCloseTo(Math.cos(10), 6);
+      expect(result.state[1]).toBeCloseTo(-Math.sin(10), 6);
+      expect(result.steps).toBeGreaterThan(1);
+    });
+
+    it('should take fewer steps with a looser tolerance', () => {
+      // Act
+      const tight = new DormandPrinceIntegrator({ relativeTolerance: 1e-10, absoluteTolerance: 1e-10 })
+        .advance(oscillator, 0, [1, 0], 10);
+      const loose = new DormandPrinceIntegrator({ relativeTolerance: 1e-4, absoluteTolerance: 1e-4 })
+        .advance(oscillator, 0, [1, 0], 10);
+
+      // Assert
+      expect(loose.steps).toBeLessThan(tight.steps);
+    });
+
+    it('should respect the maximum step size', () => {
+      // Arrange
+      const integrator = new DormandPrinceIntegrator({ maxStep: 0.5 });
+
+      // Act
+      const result = integrator.advance(oscillator, 0, [1, 0], 5);
+
+      // Assert
+      expect(result.steps).toBeGreaterThanOrEqual(10);
+    });
+
+    it('should land exactly on the requested end time', () => {
+      // Arrange
+      const linear: DerivativeFunction = () => [1];
+      const integrator = new DormandPrinceIntegrator();
+
+      // Act
+      const result = integrator.advance(linear, 0, [0], 0.37);
+
+      // Assert
+      expect(result.state[0]).toBeCloseTo(0.37, 12);
+    });
+  });
+
+  describe('createIntegrator', () => {
+    it('should create integrators by type', () => {
+      expect(createIntegrator(IntegratorType.EULER)).toBeInstanceOf(EulerIntegrator);
+      expect(createIntegrator(IntegratorType.RK4)).toBeInstanceOf(RungeKutta4Integrator);
+      expect(createIntegrator(IntegratorType.RK45)).toBeInstanceOf(DormandPrinceIntegrator);
+    });
+
+    it('should throw for unknown types', () => {
+      expect(() => createIntegrator('midpoint' as IntegratorType)).toThrow('Unknown integrator type');
+    });
+  });
+});
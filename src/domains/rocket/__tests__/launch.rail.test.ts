@@ -0,0 +1,49 @@
+/**
+ * Launch Rail Tests
+ *
+ * Unit tests for the rail exit speed and the rod length needed to fly safely.
+ */
+
+import {
+  estimateRailExit,
+  minimumRodLength,
+  requiredRailExitVelocity,
+  DEFAULT_MIN_RAIL_EXIT_VELOCITY,
+  RAIL_EXIT_WIND_RATIO
+} from '../services/launch.rail';
+import { calculateMassProperties } from '../services/mass.properties';
+import { testRocketConfig } from './fixtures/rocket.config';
+
+describe('Launch rail', () => {
+  it('should require a faster exit in stronger wind', () => {
+    // Act & Assert
+    expect(requiredRailExitVelocity(0)).toBe(DEFAULT_MIN_RAIL_EXIT_VELOCITY);
+    expect(requiredRailExitVelocity(2, 12)).toBe(12);
+    expect(requiredRailExitVelocity(6)).toBe(6 * RAIL_EXIT_WIND_RATIO);
+  });
+
+  it('should match constant acceleration along the rod', () => {
+    // Arrange - the propellant burned in a fraction of a second barely changes the mass
+    const mass = calculateMassProperties(testRocketConfig).mass;
+    const acceleration = testRocketConfig.engine.thrust / mass - 9.80665;
+
+    // Act
+    const exit = estimateRailExit(testRocketConfig, 1.2)!;
+
+    // Assert
+    expect(exit.distance).toBeCloseTo(1.2, 6);
+    expect(exit.velocity).toBeCloseTo(Math.sqrt(2 * acceleration * 1.2), 1);
+    expect(exit.velocity).toBeGreaterThan(Math.sqrt(2 * acceleration * 1.2));
+    expect(exit.time).toBeCloseTo(exit.velocity / acceleration, 2);
+  });
+
+  it('should suggest the rod length that reaches the required speed', () => {
+    // Act
+    const rodLength = minimumRodLength(testRocketConfig, 15)!;
+
+    // Assert
+    expect(rodLength).toBeGreaterThan(1.2);
+    expect(estimateRailExit(testRocketConfig, rodLength)!.velocity).toBeCloseTo(15, 3);
+    expect(minimumRodLength({ ...testRocketConfig, engine: { ...testRocketConfig.engine, thrust: 1 } }, 15)).toBeUndefined();
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Mass Properties Tests
+ * 
+ * Unit tests for the component-based CG and inertia calculator.
+ */
+
+import { calculateMassProperties, isSolidNoseCone } from '../services/mass.properties';
+import { RocketMaterial } from '../../../shared/types/rocket';
+import { testRocketConfig } from './fixtures/rocket.config';
+
+describe('Mass properties', () => {
+  it('should sum component masses', () => {
+    // Act
+    const properties = calculateMassProperties(testRocketConfig);
+
+    // Assert
+    expect(properties.mass).toBeCloseTo(0.188, 6);
+    expect(properties.components.map(component => component.name))
+      .toEqual(['nose_cone', 'body', 'fins', 'motor', 'recovery']);
+  });
+
+  it('should place the CG at the mass-weighted component average', () => {
+    // Act
+    const properties = calculateMassProperties(testRocketConfig);
+
+    // Assert
+    const moment = properties.components.reduce((sum, part) => sum + part.mass * part.centerOfGravity, 0);
+    expect(properties.centerOfGravity).toBeCloseTo(moment / properties.mass, 9);
+    expect(properties.centerOfGravity).toBeGreaterThan(testRocketConfig.noseCone.length);
+    expect(properties.centerOfGravity).toBeLessThan(testRocketConfig.noseCone.length + testRocketConfig.body.length);
+  });
+
+  it('should place the motor flush with the aft end', () => {
+    // Arrange
+    const config = { ...testRocketConfig, engine: { ...testRocketConfig.engine, length: 0.1 } };
+
+    // Act
+    const motor = calculateMassProperties(config).components.find(part => part.name === 'motor')!;
+
+    // Assert
+    expect(motor.centerOfGravity).toBeCloseTo(0.7 - 0.05, 9);
+  });
+
+  it('should move the CG forward when nose weight is added', () => {
+    // Arrange
+    const ballasted = { ...testRocketConfig, noseCone: { ...testRocketConfig.noseCone, ballastMass: 0.01 } };
+
+    // Act
+    const before = calculateMassProperties(testRocketConfig);
+    const after = calculateMassProperties(ballasted);
+
+    // Assert
+    expect(after.mass).toBeCloseTo(before.mass + 0.01, 9);
+    expect(after.centerOfGravity).toBeLessThan(before.centerOfGravity);
+  });
+
+  it('should move the CG forward and lose mass as propellant burns', () => {
+    // Act
+    const launch = calculateMassProperties(testRocketConfig);
+    const burnout = calculateMassProperties(testRocketConfig, 0);
+
+    // Assert
+    expect(launch.mass - burnout.mass).toBeCloseTo(testRocketConfig.engine.propellantMass, 9);
+    expect(burnout.centerOfGravity).toBeLessThan(launch.centerOfGravity);
+    expect(burnout.transverseInertia).toBeLessThan(launch.transverseInertia);
+  });
+
+  it('should include parallel-axis terms in the pitch inertia', () => {
+    // Act
+    const properties = calculateMassProperties(testRocketConfig);
+
+    // Assert - at least the point-mass contribution of each part about the CG
+    const pointMassInertia = properties.components.reduce(
+      (sum, part) => sum + part.mass * (part.centerOfGravity - properties.centerOfGravity) ** 2,
+      0
+    );
+    expect(properties.transverseInertia).toBeGreaterThan(pointMassInertia);
+    expect(properties.longitudinalInertia).toBeLessThan(properties.transverseInertia);
+  });
+
+  it('should treat light nose cones as hollow shells', () => {
+    // Arrange - a 20 g balsa nose is solid, a 5 g plastic nose of the same size is hollow
+    const plasticNose = {
+      ...testRocketConfig,
+      noseCone: { ...testRocketConfig.noseCone, material: RocketMaterial.PLASTIC, mass: 0.005 }
+    };
+
+    // Assert
+    expect(isSolidNoseCone(testRocketConfig)).toBe(true);
+    expect(isSolidNoseCone(plasticNose)).toBe(false);
+
+    const solidCg = calculateMassProperties(testRocketConfig).components[0].centerOfGravity;
+    const hollowCg = calculateMassProperties(plasticNose).components[0].centerOfGravity;
+    expect(hollowCg).toBeLessThan(solidCg);
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Motor Database Tests
+ * 
+ * Unit tests for thrust curve parsing, interpolation and motor lookup.
+ */
+
+import { MotorDatabase } from '../services/motor.database';
+import { parseEngFile, parseRseFile } from '../services/motor.parser';
+import { thrustAt, impulseUpTo, classifyImpulse } from '../services/thrust.curve';
+import { EngineType, MotorFileFormat, RocketConfig } from '../../../shared/types/rocket';
+
+describe('MotorDatabase', () => {
+  const engFile = `
+; Test motor
+F20 29 98 4-7 0.0300 0.0800 TestCo
+0.05 30.0
+0.10 25.0
+1.90 20.0
+2.00 0.0
+`;
+
+  const rseFile = `<engine-database>
+  <engine-list>
+    <engine code="G40" mfg="Aerotech" dia="29." len="124." delays="4,7,10" propWt="62.5" initWt="123.2" Type="reloadable">
+      <comments>Test motor</comments>
+      <data>
+        <eng-data t="0." f="0." m="62.5" cg="62."/>
+        <eng-data t="0.1" f="50." m="60.0" cg="62."/>
+        <eng-data t="2.9" f="40." m="1.0" cg="62."/>
+        <eng-data t="3.0" f="0." m="0." cg="62."/>
+      </data>
+    </engine>
+  </engine-list>
+</engine-database>`;
+
+  describe('thrust curves', () => {
+    const curve = [
+      { time: 0, thrust: 0 },
+      { time: 0.1, thrust: 10 },
+      { time: 1.1, thrust: 10 },
+      { time: 1.2, thrust: 0 }
+    ];
+
+    it('should interpolate thrust between points', () => {
+      expect(thrustAt(curve, 0.05)).toBeCloseTo(5);
+      expect(thrustAt(curve, 0.5)).toBeCloseTo(10);
+      expect(thrustAt(curve, 1.15)).toBeCloseTo(5);
+      expect(thrustAt(curve, 2)).toBe(0);
+    });
+
+    it('should integrate impulse over time', () => {
+      expect(impulseUpTo(curve, 0.1)).toBeCloseTo(0.5);
+      expect(impulseUpTo(curve, 1.2)).toBeCloseTo(11);
+    });
+
+    it('should classify total impulse by letter', () => {
+      expect(classifyImpulse(2)).toBe(EngineType.A);
+      expect(classifyImpulse(8.8)).toBe(EngineType.C);
+      expect(classifyImpulse(10.01)).toBe(EngineType.D);
+      expect(classifyImpulse(600)).toBe(EngineType.I);
+      expect(classifyImpulse(700)).toBe(EngineType.J);
+      expect(classifyImpulse(50000)).toBe(EngineType.CUSTOM);
+    });
+  });
+
+  describe('parseEngFile', () => {
+    it('should parse header and thrust curve', () => {
+      // Act
+      const [motor] = parseEngFile(engFile);
+
+      // Assert
+      expect(motor.designation).toBe('F20');
+      expect(motor.manufacturer).toBe('TestCo');
+      expect(motor.diameter).toBe(29);
+      expect(motor.delays).toEqual([4, 7]);
+      expect(motor.thrustCurve[0]).toEqual({ time: 0, thrust: 0 });
+      expect(motor.burnTime).toBe(2);
+      expect(motor.peakThrust).toBe(30);
+      expect(motor.impulseClass).toBe(EngineType.F);
+      expect(motor.specificImpulse).toBeCloseTo(motor.totalImpulse / (0.03 * 9.80665));
+    });
+
+    it('should parse several motors from one file', () => {
+      // Act
+      const motors = parseEngFile(engFile + engFile.replace('F20', 'F21'));
+
+      // Assert
+      expect(motors.map(motor => motor.designation)).toEqual(['F20', 'F21']);
+    });
+
+    it('should reject malformed files', () => {
+      expect(() => parseEngFile('; nothing here')).toThrow('no motors found');
+      expect(() => parseEngFile('F20 29 98')).toThrow('Invalid .eng header');
+      expect(() => parseEngFile('F20 29 98 4 0.03 0.08 TestCo\n0.5 abc')).toThrow('Invalid .eng data point');
+    });
+  });
+
+  describe('parseRseFile', () => {
+    it('should parse engines with masses in grams', () => {
+      // Act
+      const [motor] = parseRseFile(rseFile);
+
+      // Assert
+      expect(motor.designation).toBe('G40');
+      expect(motor.manufacturer).toBe('Aerotech');
+      expect(motor.delays).toEqual([4, 7, 10]);
+      expect(motor.propellantMass).toBeCloseTo(0.0625);
+      expect(motor.totalMass).toBeCloseTo(0.1232);
+      expect(motor.thrustCurve).toHaveLength(4);
+      expect(motor.impulseClass).toBe(EngineType.G);
+    });
+
+    it('should reject files without engines', () => {
+      expect(() => parseRseFile('<engine-database></engine-database>')).toThrow('no engines found');
+    });
+  });
+
+  describe('catalog', () => {
+    let motorDatabase: MotorDatabase;
+
+    beforeEach(() => {
+      motorDatabase = new MotorDatabase();
+    });
+
+    it('should include built-in motors with impulse in class range', () => {
+      // Act
+      const motors = motorDatabase.list();
+
+      // Assert
+      expect(motors.length).toBeGreaterThanOrEqual(5);
+      const c6 = motorDatabase.find('C6')!;
+      expect(c6.impulseClass).toBe(EngineType.C);
+      expect(c6.totalImpulse).toBeGreaterThan(5);
+      expect(c6.totalImpulse).toBeLessThanOrEqual(10);
+    });
+
+    it('should find motors ignoring case and delay suffix', () => {
+      expect(motorDatabase.find('c6-5')?.designation).toBe('C6');
+      expect(motorDatabase.find('Z99')).toBeNull();
+    });
+
+    it('should filter by impulse class', () => {
+      const motors = motorDatabase.list({ impulseClass: EngineType.D });
+      expect(motors.every(motor => motor.impulseClass === EngineType.D)).toBe(true);
+    });
+
+    it('should import motors', () => {
+      // Act
+      const imported = motorDatabase.import(rseFile, MotorFileFormat.RSE);
+
+      // Assert
+      expect(imported).toHaveLength(1);
+      expect(motorDatabase.find('G40')).toBeDefined();
+    });
+
+    it('should refuse a file replacing a built-in motor', () => {
+      // Arrange
+      const builtIn = `${engFile}
+C6 18 70 0-3-5-7 0.0108 0.0231 Fake
+0.10 40.0
+1.00 0.0
+`;
+      const c6 = motorDatabase.find('C6');
+
+      // Act & Assert
+      expect(() => motorDatabase.import(builtIn, MotorFileFormat.ENG))
+        .toThrow('C6 is a built-in motor and cannot be replaced');
+      expect(motorDatabase.find('C6')).toBe(c6);
+      expect(motorDatabase.find('F20')).toBeNull();
+    });
+
+    it('should keep imported motors to the catalog they were added to', () => {
+      // Arrange
+      const [f20] = parseEngFile(engFile);
+
+      // Act
+      const userCatalog = motorDatabase.withImported([f20]);
+
+      // Assert
+      expect(userCatalog.find('F20-4')?.designation).toBe('F20');
+      expect(userCatalog.find('C6')?.manufacturer).toBe('Estes');
+      expect(motorDatabase.find('F20')).toBeNull();
+    });
+
+    it('should fill in engine fields from a designation', () => {
+      // Arrange
+      const config = { engine: { designation: 'D12-5' } } as unknown as RocketConfig;
+
+      // Act
+      const resolved = motorDatabase.resolveConfig(config);
+
+      // Assert
+      const d12 = motorDatabase.find('D12')!;
+      expect(resolved.engine.type).toBe(EngineType.D);
+      expect(resolved.engine.thrust).toBeCloseTo(d12.averageThrust);
+      expect(resolved.engine.burnTime).toBe(d12.burnTime);
+      expect(resolved.engine.thrustCurve).toBe(d12.thrustCurve);
+    });
+
+    it('should fill in booster stage motors', () => {
+      // Arrange
+      const config = {
+        engine: { designation: 'C6-5' },
+        stages: [{ motors: [{ designation: 'D12-0', count: 2 }] }]
+      } as unknown as RocketConfig;
+
+      // Act
+      const resolved = motorDatabase.resolveConfig(config);
+
+      // Assert
+      expect(resolved.engine.type).toBe(EngineType.C);
+      expect(resolved.stages![0].motors[0].type).toBe(EngineType.D);
+      expect(resolved.stages![0].motors[0].count).toBe(2);
+    });
+
+    it('should reject unknown designations', () => {
+      const config = { engine: { designation: 'Z99' } } as unknown as RocketConfig;
+      expect(() => motorDatabase.resolveConfig(config)).toThrow('Motor not found: Z99');
+    });
+  });
+});
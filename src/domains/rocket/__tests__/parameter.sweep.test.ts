@@ -0,0 +1,116 @@
+/**
+ * Parameter Sweep Tests
+ *
+ * Unit tests for varying config fields over a table or grid of points.
+ */
+
+import { runParameterSweep, setConfigValue, sweepValues } from '../services/parameter.sweep';
+import { SimulationRunner } from '../services/simulation.runner';
+import {
+  RocketConfig,
+  FlightResults,
+  SweepMode,
+  DEFAULT_WEATHER
+} from '../../../shared/types/rocket';
+import { testRocketConfig } from './fixtures/rocket.config';
+
+describe('Parameter Sweep', () => {
+  // A lighter rocket on a C6, so flights stay short
+  const config: RocketConfig = {
+    ...testRocketConfig,
+    body: { ...testRocketConfig.body, length: 0.35, diameter: 0.025, mass: 0.03, fineness: 14 },
+    noseCone: { ...testRocketConfig.noseCone, mass: 0.008 },
+    fins: { ...testRocketConfig.fins, span: 0.05, mass: 0.005 },
+    engine: {
+      ...testRocketConfig.engine,
+      designation: 'C6',
+      thrust: 10,
+      burnTime: 1.8,
+      specificImpulse: 100,
+      propellantMass: 0.0108,
+      totalMass: 0.024
+    },
+    recovery: { ...testRocketConfig.recovery, mass: 0.01 }
+  };
+
+  it('should space values evenly with both ends included', () => {
+    // Act
+    const values = sweepValues({ path: 'fins.span', from: 0.03, to: 0.08, steps: 6 });
+
+    // Assert
+    expect(values).toHaveLength(6);
+    expect(values[0]).toBe(0.03);
+    expect(values[5]).toBeCloseTo(0.08, 10);
+    expect(values[1]).toBeCloseTo(0.04, 10);
+  });
+
+  it('should set a config number without touching the original', () => {
+    // Act
+    const longer = setConfigValue(config, 'body.length', 0.7);
+    const ballasted = setConfigValue(config, 'noseCone.ballastMass', 0.01);
+
+    // Assert
+    expect(longer.body).toMatchObject({ length: 0.7, mass: 0.03, fineness: expect.closeTo(28, 6) });
+    expect(ballasted.noseCone.ballastMass).toBe(0.01);
+    expect(config.body.length).toBe(0.35);
+    expect(config.noseCone.ballastMass).toBeUndefined();
+  });
+
+  it('should reject paths that do not lead to a number', () => {
+    // Act & Assert
+    expect(() => setConfigValue(config, 'wings.span', 1)).toThrow("Unknown config path 'wings.span'");
+    expect(() => setConfigValue(config, 'fins.reach', 1)).toThrow("Unknown config path 'fins.reach'");
+    expect(() => setConfigValue(config, 'stages.0.body.length', 1)).toThrow('Unknown config path');
+    expect(() => setConfigValue(config, '__proto__.polluted', 1)).toThrow('Unknown config path');
+    expect(() => setConfigValue(config, 'fins.material', 1)).toThrow("Config path 'fins.material' is not a number");
+  });
+
+  it('should estimate a grid with the last axis varying fastest', async () => {
+    // Act
+    const sweep = await runParameterSweep(config, DEFAULT_WEATHER, {
+      mode: SweepMode.FAST,
+      axes: [
+        { path: 'fins.span', from: 0.03, to: 0.08, steps: 3 },
+        { path: 'noseCone.ballastMass', from: 0, to: 0.02, steps: 4 }
+      ]
+    });
+
+    // Assert
+    expect(sweep.mode).toBe(SweepMode.FAST);
+    expect(sweep.axes.map(axis => axis.values.length)).toEqual([3, 4]);
+    expect(sweep.points).toHaveLength(12);
+    expect(sweep.points[1].values).toEqual([0.03, sweep.axes[1].values[1]]);
+    expect(sweep.points[4].values).toEqual([sweep.axes[0].values[1], 0]);
+    expect(sweep.metrics).toContain('estimatedAltitude');
+
+    // Ballast lowers the estimate at every fin span
+    const row = sweep.points.slice(0, 4).map(point => point.metrics.estimatedAltitude!);
+    expect(row[3]).toBeLessThan(row[0]);
+  });
+
+  it('should simulate each point and keep failed ones in the table', async () => {
+    // Arrange
+    const runner: jest.MockedFunction<SimulationRunner> = jest.fn(async ({ config }) => {
+      if (config.fins.span > 0.07) {
+        throw new Error('Fins too large');
+      }
+      return {
+        results: { maxAltitude: 2000 * config.fins.span, stabilityMargin: 2, successful: true } as FlightResults,
+        telemetry: [],
+        events: []
+      };
+    });
+
+    // Act
+    const sweep = await runParameterSweep(config, DEFAULT_WEATHER, {
+      axes: [{ path: 'fins.span', from: 0.04, to: 0.08, steps: 3 }]
+    }, runner);
+
+    // Assert
+    expect(runner).toHaveBeenCalledTimes(3);
+    expect(runner.mock.calls[0][0].launchOptions).toMatchObject({ seed: 1, detailedTelemetry: false });
+    expect(sweep.mode).toBe(SweepMode.FULL);
+    expect(sweep.points[0]).toMatchObject({ successful: true, metrics: { maxAltitude: 80, stabilityMargin: 2 } });
+    expect(sweep.points[2]).toMatchObject({ successful: false, metrics: {}, error: 'Fins too large' });
+  });
+});
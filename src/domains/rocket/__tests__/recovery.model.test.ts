@@ -0,0 +1,97 @@
+/**
+ * Recovery Model Tests
+ * 
+ * Unit tests for recovery device drag and deployment timing helpers.
+ */
+
+import {
+  ejectionDelay,
+  ejectionTime,
+  inflationFraction,
+  recoveryDragArea,
+  terminalDescentRate,
+  PARACHUTE_INFLATION_TIME
+} from '../services/recovery.model';
+import {
+  RocketConfig,
+  RecoveryType
+} from '../../../shared/types/rocket';
+import { testRocketConfig } from './fixtures/rocket.config';
+
+describe('Recovery model', () => {
+  const withRecovery = (recovery: Partial<RocketConfig['recovery']>): RocketConfig => ({
+    ...testRocketConfig,
+    recovery: { ...testRocketConfig.recovery, ...recovery }
+  });
+
+  it('should scale parachute drag area with canopy size and count', () => {
+    // Act
+    const single = recoveryDragArea(testRocketConfig);
+    const cluster = recoveryDragArea(withRecovery({ chuteCount: 2 }));
+    const larger = recoveryDragArea(withRecovery({ parachuteDiameter: 0.6 }));
+
+    // Assert
+    expect(single).toBeCloseTo(0.8 * Math.PI * 0.15 ** 2, 9);
+    expect(cluster).toBeCloseTo(2 * single, 9);
+    expect(larger).toBeCloseTo(4 * single, 9);
+  });
+
+  it('should give streamers and tumbling less drag than a parachute', () => {
+    // Act
+    const parachute = recoveryDragArea(testRocketConfig);
+    const streamer = recoveryDragArea(withRecovery({ type: RecoveryType.STREAMER }));
+    const tumble = recoveryDragArea(withRecovery({ type: RecoveryType.TUMBLE }));
+
+    // Assert
+    expect(streamer).toBeGreaterThan(0);
+    expect(tumble).toBeGreaterThan(0);
+    expect(streamer).toBeLessThan(parachute);
+    expect(tumble).toBeLessThan(parachute);
+  });
+
+  it('should use separate drogue and main areas for dual deploy', () => {
+    // Arrange
+    const dualDeploy = withRecovery({ type: RecoveryType.DUAL_DEPLOY, drogueDiameter: 0.1 });
+
+    // Act
+    const drogue = recoveryDragArea(dualDeploy, 'drogue');
+    const main = recoveryDragArea(dualDeploy, 'main');
+
+    // Assert
+    expect(main).toBeCloseTo(recoveryDragArea(testRocketConfig), 9);
+    expect(drogue).toBeCloseTo(main / 9, 9);
+  });
+
+  it('should take the ejection delay from the motor designation', () => {
+    // Arrange
+    const designated = { ...testRocketConfig, engine: { ...testRocketConfig.engine, designation: 'C6-5' } };
+    const plugged = { ...testRocketConfig, engine: { ...testRocketConfig.engine, designation: 'C6-P' } };
+    const explicit = { ...testRocketConfig, engine: { ...testRocketConfig.engine, designation: 'C6-5', ejectionDelay: 3 } };
+
+    // Assert
+    expect(ejectionDelay(designated)).toBe(5);
+    expect(ejectionTime(designated)).toBeCloseTo(7.5, 9);
+    expect(ejectionDelay(plugged)).toBeUndefined();
+    expect(ejectionDelay(testRocketConfig)).toBeUndefined();
+    expect(ejectionDelay(explicit)).toBe(3);
+  });
+
+  it('should inflate parachutes gradually but open streamers at once', () => {
+    // Arrange
+    const streamer = withRecovery({ type: RecoveryType.STREAMER });
+
+    // Assert
+    expect(inflationFraction(testRocketConfig, 'main', PARACHUTE_INFLATION_TIME / 2)).toBeCloseTo(0.5, 9);
+    expect(inflationFraction(testRocketConfig, 'main', PARACHUTE_INFLATION_TIME * 2)).toBe(1);
+    expect(inflationFraction(streamer, 'main', 0)).toBe(1);
+  });
+
+  it('should calculate terminal descent rate', () => {
+    // Act
+    const descentRate = terminalDescentRate(0.2, 0.1);
+
+    // Assert - drag balances weight
+    expect(0.5 * 1.225 * descentRate ** 2 * 0.1).toBeCloseTo(0.2 * 9.81, 9);
+    expect(terminalDescentRate(0.2, 0)).toBe(Infinity);
+  });
+});
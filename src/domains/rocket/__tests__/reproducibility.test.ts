@@ -0,0 +1,65 @@
+/**
+ * Reproducibility Tests
+ *
+ * Unit tests for resolved launch options, input hashes and result comparison.
+ */
+
+import {
+  resolveLaunchOptions,
+  canonicalJson,
+  simulationInputHash,
+  compareResults
+} from '../services/reproducibility';
+import { SimulationEngine, DEFAULT_LAUNCH_OPTIONS } from '../services/simulation.engine';
+import {
+  RocketConfig,
+  DEFAULT_WEATHER
+} from '../../../shared/types/rocket';
+import { testRocketConfig } from './fixtures/rocket.config';
+
+describe('Reproducibility', () => {
+  const testConfig: RocketConfig = { ...testRocketConfig, launch: { ...testRocketConfig.launch, launchAngle: 5 } };
+
+  it('should write out every default and draw a seed', () => {
+    // Act
+    const options = resolveLaunchOptions({ timeStep: 0.02 });
+
+    // Assert
+    expect(options).toMatchObject({ ...DEFAULT_LAUNCH_OPTIONS, timeStep: 0.02 });
+    expect(Number.isInteger(options.seed)).toBe(true);
+    expect(resolveLaunchOptions({ seed: 7 }).seed).toBe(7);
+  });
+
+  it('should hash equal inputs the same regardless of key order', () => {
+    // Arrange
+    const options = resolveLaunchOptions({ seed: 1 });
+    const reordered = Object.fromEntries(Object.entries(testConfig).reverse()) as RocketConfig;
+    const weatherReordered = Object.fromEntries(Object.entries(DEFAULT_WEATHER).reverse()) as typeof DEFAULT_WEATHER;
+
+    // Act
+    const hash = simulationInputHash(testConfig, DEFAULT_WEATHER, options);
+
+    // Assert
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(simulationInputHash(reordered, weatherReordered, { ...options, launchSite: undefined })).toBe(hash);
+    expect(simulationInputHash(testConfig, DEFAULT_WEATHER, { ...options, seed: 2 })).not.toBe(hash);
+    expect(canonicalJson({ b: 1, a: [2, { d: 3, c: undefined }] })).toBe('{"a":[2,{"d":3}],"b":1}');
+  });
+
+  it('should reproduce a seeded flight and report changed results', async () => {
+    // Arrange
+    const options = resolveLaunchOptions({ seed: 42 });
+    const weather = { ...DEFAULT_WEATHER, windGustSpeed: 8 };
+    const stored = await new SimulationEngine(options).simulate(testConfig, weather, options);
+
+    // Act
+    const replayed = await new SimulationEngine(options).simulate(testConfig, weather, options);
+    const differences = compareResults(JSON.parse(JSON.stringify(stored.results)), replayed.results);
+    const changed = compareResults({ ...stored.results, maxAltitude: stored.results.maxAltitude + 1, issues: [] }, replayed.results);
+
+    // Assert
+    expect(differences).toEqual([]);
+    expect(changed.map(difference => difference.field)).toEqual(['maxAltitude', 'issues']);
+    expect(changed[0].stored).toBe(stored.results.maxAltitude + 1);
+  });
+});
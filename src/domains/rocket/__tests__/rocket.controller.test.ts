@@ -10,12 +10,10 @@ import { RocketService } from '../services/rocket.service';
 import { 
   RocketDesign, 
   CreateRocketRequest, 
-  ComplexityLevel,
-  RocketMaterial,
-  NoseConeType,
-  EngineType,
-  RecoveryType
+  ComplexityLevel
 } from '../../../shared/types/rocket';
+import { testRocketConfig } from './fixtures/rocket.config';
+import { JobStatus } from '../../../shared/types/common';
 
 // Mock the RocketService
 jest.mock('../services/rocket.service');
@@ -38,50 +36,9 @@ describe('RocketController', () => {
     description: 'A test rocket design',
     version: 1,
     config: {
-      body: {
-        length: 0.6,
-        diameter: 0.024,
-        mass: 0.1,
-        material: RocketMaterial.CARDBOARD,
-        fineness: 25
-      },
-      noseCone: {
-        type: NoseConeType.OGIVE,
-        length: 0.1,
-        mass: 0.02,
-        material: RocketMaterial.BALSA
-      },
-      fins: {
-        count: 4,
-        span: 0.08,
-        rootChord: 0.06,
-        tipChord: 0.03,
-        sweepAngle: 30,
-        thickness: 0.003,
-        material: RocketMaterial.BALSA,
-        mass: 0.01
-      },
-      engine: {
-        type: EngineType.C,
-        thrust: 12,
-        burnTime: 2.5,
-        specificImpulse: 180,
-        propellantMass: 0.024,
-        totalMass: 0.038
-      },
-      recovery: {
-        type: RecoveryType.PARACHUTE,
-        deploymentAltitude: 150,
-        parachuteDiameter: 0.3,
-        chuteCount: 1,
-        mass: 0.02
-      },
-      launch: {
-        launchAngle: 0,
-        launchRodLength: 1.2,
-        windSpeed: 5,
-        windDirection: 0
-      }
+      ...testRocketConfig,
+      recovery: { ...testRocketConfig.recovery, chuteCount: 1 },
+      launch: { ...testRocketConfig.launch, windSpeed: 5, windDirection: 0 }
     },
     metadata: {
       thumbnail: undefined,
@@ -441,6 +398,7 @@ describe('RocketController', () => {
         score: 87
       },
       telemetry: [],
+      events: [],
       weather: {
         temperature: 20,
         pressure: 101325,
@@ -451,26 +409,36 @@ describe('RocketController', () => {
       createdAt: new Date()
     };
 
-    it('should launch rocket successfully', async () => {
+    it('should queue the launch and return the job', async () => {
       // Arrange
+      const mockJob = {
+        id: 'job-789',
+        rocketId: mockRocketId,
+        userId: mockUserId,
+        status: JobStatus.QUEUED,
+        createdAt: new Date()
+      };
+      const mockLocation = jest.fn().mockReturnValue({ json: mockJson });
+      mockStatus.mockReturnValue({ location: mockLocation, json: mockJson });
       mockRequest.params = { id: mockRocketId };
       mockRequest.body = { options: { weather: { temperature: 25 } } };
-      mockRocketService.launchRocket.mockResolvedValue(mockSimulationResult);
+      mockRocketService.queueLaunch.mockResolvedValue(mockJob);
 
       // Act
       await rocketController.launchRocket(mockRequest as Request, mockResponse as Response);
 
       // Assert
-      expect(mockRocketService.launchRocket).toHaveBeenCalledWith(
+      expect(mockRocketService.queueLaunch).toHaveBeenCalledWith(
         mockRocketId,
         mockUserId,
         { options: { weather: { temperature: 25 } } }
       );
-      expect(mockStatus).toHaveBeenCalledWith(201);
+      expect(mockStatus).toHaveBeenCalledWith(202);
+      expect(mockLocation).toHaveBeenCalledWith('/api/v1/jobs/job-789');
       expect(mockJson).toHaveBeenCalledWith({
         success: true,
-        message: 'Rocket launched successfully',
-        data: mockSimulationResult
+        message: 'Launch queued',
+        data: mockJob
       });
     });
 
@@ -484,14 +452,14 @@ describe('RocketController', () => {
 
       // Assert
       expect(mockStatus).toHaveBeenCalledWith(401);
-      expect(mockRocketService.launchRocket).not.toHaveBeenCalled();
+      expect(mockRocketService.queueLaunch).not.toHaveBeenCalled();
     });
 
     it('should return 404 if rocket not found', async () => {
       // Arrange
       mockRequest.params = { id: mockRocketId };
       mockRequest.body = {};
-      mockRocketService.launchRocket.mockRejectedValue(new Error('Rocket not found'));
+      mockRocketService.queueLaunch.mockRejectedValue(new Error('Rocket not found'));
 
       // Act
       await rocketController.launchRocket(mockRequest as Request, mockResponse as Response);
@@ -509,7 +477,7 @@ describe('RocketController', () => {
       // Arrange
       mockRequest.params = { id: mockRocketId };
       mockRequest.body = {};
-      mockRocketService.launchRocket.mockRejectedValue(new Error('Cannot launch rocket you do not own'));
+      mockRocketService.queueLaunch.mockRejectedValue(new Error('Cannot launch rocket you do not own'));
 
       // Act
       await rocketController.launchRocket(mockRequest as Request, mockResponse as Response);
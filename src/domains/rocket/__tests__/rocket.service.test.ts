@@ -9,17 +9,31 @@ import { RocketService } from '../services/rocket.service';
 import { RocketRepository } from '../repositories/rocket.repository';
 import { SimulationRepository } from '../repositories/simulation.repository';
 import { ValidationService } from '../services/validation.service';
+import { MotorDatabase } from '../services/motor.database';
+import { exportDesign } from '../services/design.interchange';
+import { parseEngFile } from '../services/motor.parser';
 import { CacheService } from '../../../infrastructure/cache/cache.service';
+import { SimulationEngine, ENGINE_VERSION } from '../services/simulation.engine';
+import { resolveLaunchOptions, simulationInputHash } from '../services/reproducibility';
+import { SimulationInput, SimulationOutput, runSimulation } from '../services/simulation.runner';
 import { 
   RocketDesign, 
   CreateRocketRequest, 
   RocketConfig,
-  RocketMaterial,
-  NoseConeType,
   EngineType,
-  RecoveryType,
-  ComplexityLevel
+  ComplexityLevel,
+  FlightPhase,
+  SimulationProgress,
+  DesignFileFormat,
+  MotorFileFormat,
+  OptimizationObjective,
+  OptimizationParameter,
+  SweepRequest,
+  ConfigChangeType,
+  DEFAULT_WEATHER
 } from '../../../shared/types/rocket';
+import { testRocketConfig } from './fixtures/rocket.config';
+import { JobStatus } from '../../../shared/types/common';
 
 // Mock dependencies
 jest.mock('../repositories/rocket.repository');
@@ -39,50 +53,9 @@ describe('RocketService', () => {
   const mockRocketId = 'rocket-456';
 
   const mockRocketConfig: RocketConfig = {
-    body: {
-      length: 0.6,
-      diameter: 0.024,
-      mass: 0.1,
-      material: RocketMaterial.CARDBOARD,
-      fineness: 25
-    },
-    noseCone: {
-      type: NoseConeType.OGIVE,
-      length: 0.1,
-      mass: 0.02,
-      material: RocketMaterial.BALSA
-    },
-    fins: {
-      count: 4,
-      span: 0.08,
-      rootChord: 0.06,
-      tipChord: 0.03,
-      sweepAngle: 30,
-      thickness: 0.003,
-      material: RocketMaterial.BALSA,
-      mass: 0.01
-    },
-    engine: {
-      type: EngineType.C,
-      thrust: 12,
-      burnTime: 2.5,
-      specificImpulse: 180,
-      propellantMass: 0.024,
-      totalMass: 0.038
-    },
-    recovery: {
-      type: RecoveryType.PARACHUTE,
-      deploymentAltitude: 150,
-      parachuteDiameter: 0.3,
-      chuteCount: 1,
-      mass: 0.02
-    },
-    launch: {
-      launchAngle: 0,
-      launchRodLength: 1.2,
-      windSpeed: 5,
-      windDirection: 0
-    }
+    ...testRocketConfig,
+    recovery: { ...testRocketConfig.recovery, chuteCount: 1 },
+    launch: { ...testRocketConfig.launch, windSpeed: 5, windDirection: 0 }
   };
 
   const mockCreateRocketRequest: CreateRocketRequest = {
@@ -98,6 +71,17 @@ describe('RocketService', () => {
     }
   };
 
+  // An F motor, above every built-in class, that the test user has imported
+  const importedMotorFile = `
+F20 29 98 4-7 0.0300 0.0800 TestCo
+0.05 30.0
+1.90 20.0
+2.00 0.0
+`;
+  const withImportedMotor = () => mockRocketRepository.findImportedMotors.mockImplementation(async userId =>
+    userId === mockUserId ? parseEngFile(importedMotorFile) : []
+  );
+
   const mockRocketDesign: RocketDesign = {
     id: mockRocketId,
     userId: mockUserId,
@@ -136,6 +120,7 @@ describe('RocketService', () => {
 
     // Reset all mocks
     jest.clearAllMocks();
+    mockRocketRepository.findImportedMotors.mockResolvedValue([]);
   });
 
   describe('createRocket', () => {
@@ -155,7 +140,7 @@ describe('RocketService', () => {
 
       mockRocketRepository.create.mockResolvedValue(mockRocketDesign);
       mockCacheService.set.mockResolvedValue(undefined);
-      mockCacheService.del.mockResolvedValue(undefined);
+      mockCacheService.delete.mockResolvedValue(undefined);
 
       // Act
       const result = await rocketService.createRocket(mockUserId, mockCreateRocketRequest);
@@ -163,10 +148,10 @@ describe('RocketService', () => {
       // Assert
       expect(result).toEqual(mockRocketDesign);
       expect(mockValidationService.validateCreateRocket).toHaveBeenCalledWith(mockCreateRocketRequest);
-      expect(mockValidationService.validateRocketConfig).toHaveBeenCalledWith(mockCreateRocketRequest.config);
+      expect(mockValidationService.validateRocketConfig).toHaveBeenCalledWith(mockCreateRocketRequest.config, expect.any(MotorDatabase));
       expect(mockRocketRepository.create).toHaveBeenCalledWith(mockUserId, mockCreateRocketRequest);
       expect(mockCacheService.set).toHaveBeenCalledWith(`rocket:${mockRocketId}`, mockRocketDesign, 3600);
-      expect(mockCacheService.del).toHaveBeenCalledWith(`user_rockets:${mockUserId}`);
+      expect(mockCacheService.delete).toHaveBeenCalledWith(`user_rockets:${mockUserId}`);
     });
 
     it('should throw error for invalid rocket data', async () => {
@@ -285,7 +270,7 @@ describe('RocketService', () => {
 
       mockRocketRepository.update.mockResolvedValue(updatedRocket);
       mockCacheService.set.mockResolvedValue(undefined);
-      mockCacheService.del.mockResolvedValue(undefined);
+      mockCacheService.delete.mockResolvedValue(undefined);
 
       // Act
       const result = await rocketService.updateRocket(mockRocketId, mockUserId, updateData);
@@ -295,7 +280,7 @@ describe('RocketService', () => {
       expect(mockValidationService.validateUpdateRocket).toHaveBeenCalledWith(updateData);
       expect(mockRocketRepository.update).toHaveBeenCalledWith(mockRocketId, mockUserId, updateData);
       expect(mockCacheService.set).toHaveBeenCalledWith(`rocket:${mockRocketId}`, updatedRocket, 3600);
-      expect(mockCacheService.del).toHaveBeenCalledWith(`user_rockets:${mockUserId}`);
+      expect(mockCacheService.delete).toHaveBeenCalledWith(`user_rockets:${mockUserId}`);
     });
 
     it('should validate config if provided in update', async () => {
@@ -320,7 +305,7 @@ describe('RocketService', () => {
       await rocketService.updateRocket(mockRocketId, mockUserId, updateWithConfig);
 
       // Assert
-      expect(mockValidationService.validateRocketConfig).toHaveBeenCalledWith(mockRocketConfig);
+      expect(mockValidationService.validateRocketConfig).toHaveBeenCalledWith(mockRocketConfig, expect.any(MotorDatabase));
     });
   });
 
@@ -328,7 +313,7 @@ describe('RocketService', () => {
     it('should delete rocket successfully', async () => {
       // Arrange
       mockRocketRepository.delete.mockResolvedValue(true);
-      mockCacheService.del.mockResolvedValue(undefined);
+      mockCacheService.delete.mockResolvedValue(undefined);
 
       // Act
       const result = await rocketService.deleteRocket(mockRocketId, mockUserId);
@@ -336,10 +321,10 @@ describe('RocketService', () => {
       // Assert
       expect(result).toBe(true);
       expect(mockRocketRepository.delete).toHaveBeenCalledWith(mockRocketId, mockUserId);
-      expect(mockCacheService.del).toHaveBeenCalledTimes(3);
-      expect(mockCacheService.del).toHaveBeenCalledWith(`rocket:${mockRocketId}`);
-      expect(mockCacheService.del).toHaveBeenCalledWith(`user_rockets:${mockUserId}`);
-      expect(mockCacheService.del).toHaveBeenCalledWith(`rocket_simulations:${mockRocketId}`);
+      expect(mockCacheService.delete).toHaveBeenCalledTimes(3);
+      expect(mockCacheService.delete).toHaveBeenCalledWith(`rocket:${mockRocketId}`);
+      expect(mockCacheService.delete).toHaveBeenCalledWith(`user_rockets:${mockUserId}`);
+      expect(mockCacheService.delete).toHaveBeenCalledWith(`rocket_simulations:${mockRocketId}`);
     });
 
     it('should return false if rocket not found', async () => {
@@ -351,7 +336,7 @@ describe('RocketService', () => {
 
       // Assert
       expect(result).toBe(false);
-      expect(mockCacheService.del).not.toHaveBeenCalled();
+      expect(mockCacheService.delete).not.toHaveBeenCalled();
     });
   });
 
@@ -432,6 +417,7 @@ describe('RocketService', () => {
         score: 87
       },
       telemetry: [],
+      events: [],
       weather: {
         temperature: 20,
         pressure: 101325,
@@ -446,7 +432,7 @@ describe('RocketService', () => {
       // Arrange
       mockRocketRepository.findById.mockResolvedValue(mockRocketDesign);
       mockSimulationRepository.create.mockResolvedValue(mockSimulationResult);
-      mockCacheService.del.mockResolvedValue(undefined);
+      mockCacheService.delete.mockResolvedValue(undefined);
 
       // Act
       const result = await rocketService.launchRocket(mockRocketId, mockUserId, {});
@@ -455,7 +441,7 @@ describe('RocketService', () => {
       expect(result).toEqual(mockSimulationResult);
       expect(mockRocketRepository.findById).toHaveBeenCalledWith(mockRocketId, mockUserId);
       expect(mockSimulationRepository.create).toHaveBeenCalled();
-      expect(mockCacheService.del).toHaveBeenCalledWith(`rocket_simulations:${mockRocketId}`);
+      expect(mockCacheService.delete).toHaveBeenCalledWith(`rocket_simulations:${mockRocketId}`);
     });
 
     it('should throw error if rocket not found', async () => {
@@ -480,6 +466,169 @@ describe('RocketService', () => {
     });
   });
 
+  describe('queueLaunch', () => {
+    const progress = {
+      fraction: 0.25,
+      time: 1,
+      phase: FlightPhase.BOOST,
+      altitude: 12,
+      telemetry: []
+    };
+
+    // A runner that reports once and never finishes keeps the job running
+    const stalledRunner = jest.fn((input: SimulationInput, onProgress?: (p: SimulationProgress) => void) => {
+      onProgress?.(progress);
+      return new Promise<SimulationOutput>(() => {});
+    });
+
+    beforeEach(() => {
+      rocketService = new RocketService(
+        mockRocketRepository,
+        mockSimulationRepository,
+        mockValidationService,
+        mockCacheService,
+        undefined,
+        stalledRunner
+      );
+    });
+
+    it('should queue a launch that only its owner can see', async () => {
+      // Arrange
+      mockRocketRepository.findById.mockResolvedValue(mockRocketDesign);
+
+      // Act
+      const job = await rocketService.queueLaunch(mockRocketId, mockUserId, {});
+
+      // Assert
+      expect(job).toMatchObject({ rocketId: mockRocketId, userId: mockUserId, status: JobStatus.QUEUED });
+      expect(await rocketService.getLaunchJob(job.id, 'other-user')).toBeNull();
+      expect(await rocketService.getLaunchJob('missing-job', mockUserId)).toBeNull();
+    });
+
+    it('should report progress while the simulation runs', async () => {
+      // Arrange
+      mockRocketRepository.findById.mockResolvedValue(mockRocketDesign);
+      const job = await rocketService.queueLaunch(mockRocketId, mockUserId, {});
+      const listener = jest.fn();
+      await rocketService.watchLaunchJob(job.id, mockUserId, listener);
+
+      // Act
+      await new Promise(resolve => setImmediate(resolve));
+      const running = await rocketService.getLaunchJob(job.id, mockUserId);
+
+      // Assert
+      expect(stalledRunner).toHaveBeenCalled();
+      expect(listener).toHaveBeenCalledWith({ type: 'progress', progress });
+      expect(running?.status).toBe(JobStatus.RUNNING);
+      expect(running?.progress).toEqual({ fraction: 0.25, time: 1, phase: FlightPhase.BOOST, altitude: 12 });
+    });
+
+    it('should not queue a rocket the user cannot launch', async () => {
+      // Arrange
+      mockRocketRepository.findById.mockResolvedValue({ ...mockRocketDesign, userId: 'other-user' });
+
+      // Act & Assert
+      await expect(
+        rocketService.queueLaunch(mockRocketId, mockUserId, {})
+      ).rejects.toThrow('Cannot launch rocket you do not own');
+      expect(stalledRunner).not.toHaveBeenCalled();
+    });
+
+    it('should complete a launch with the id of the stored simulation', async () => {
+      // Arrange
+      const output = await runSimulation({ config: mockRocketConfig, weather: DEFAULT_WEATHER, launchOptions: { seed: 1 } });
+      rocketService = new RocketService(
+        mockRocketRepository,
+        mockSimulationRepository,
+        mockValidationService,
+        mockCacheService,
+        undefined,
+        async () => output
+      );
+      mockRocketRepository.findById.mockResolvedValue(mockRocketDesign);
+      mockSimulationRepository.create.mockImplementation(async data => ({ id: 'sim-123', ...data, events: data.events ?? [], createdAt: new Date() }));
+      const job = await rocketService.queueLaunch(mockRocketId, mockUserId, {});
+      const listener = jest.fn();
+      await rocketService.watchLaunchJob(job.id, mockUserId, listener);
+
+      // Act
+      await new Promise(resolve => setImmediate(resolve));
+      const finished = await rocketService.getLaunchJob(job.id, mockUserId);
+
+      // Assert
+      expect(finished).toMatchObject({ status: JobStatus.COMPLETED, simulationId: 'sim-123' });
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ type: 'completed' }));
+      expect(mockCacheService.delete).toHaveBeenCalledWith(`rocket_simulations:${mockRocketId}`);
+    });
+  });
+
+  describe('replaySimulation', () => {
+    const launchOptions = resolveLaunchOptions({ seed: 3 });
+
+    const storedSimulation = async () => {
+      const { results, events } = await new SimulationEngine(launchOptions)
+        .simulate(mockRocketConfig, DEFAULT_WEATHER, launchOptions);
+
+      return {
+        id: 'sim-123',
+        rocketId: mockRocketId,
+        userId: mockUserId,
+        config: mockRocketConfig,
+        results,
+        telemetry: [],
+        events,
+        weather: DEFAULT_WEATHER,
+        launchOptions,
+        seed: 3,
+        engineVersion: ENGINE_VERSION,
+        inputHash: simulationInputHash(mockRocketConfig, DEFAULT_WEATHER, launchOptions),
+        createdAt: new Date()
+      };
+    };
+
+    it('should reproduce a stored simulation', async () => {
+      // Arrange
+      mockSimulationRepository.findById.mockResolvedValue(await storedSimulation());
+
+      // Act
+      const replay = await rocketService.replaySimulation('sim-123', mockUserId);
+
+      // Assert
+      expect(replay.reproduced).toBe(true);
+      expect(replay.inputHashMatches).toBe(true);
+      expect(replay.differences).toEqual([]);
+      expect(replay.engineVersion).toEqual({ stored: ENGINE_VERSION, current: ENGINE_VERSION });
+    });
+
+    it('should list results that no longer match', async () => {
+      // Arrange
+      const simulation = await storedSimulation();
+      simulation.results = { ...simulation.results, apogeeTime: simulation.results.apogeeTime - 0.5 };
+      mockSimulationRepository.findById.mockResolvedValue(simulation);
+
+      // Act
+      const replay = await rocketService.replaySimulation('sim-123', mockUserId);
+
+      // Assert
+      expect(replay.reproduced).toBe(false);
+      expect(replay.differences).toEqual([{
+        field: 'apogeeTime',
+        stored: simulation.results.apogeeTime,
+        replayed: replay.results.apogeeTime
+      }]);
+    });
+
+    it('should throw error if simulation not found', async () => {
+      // Arrange
+      mockSimulationRepository.findById.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        rocketService.replaySimulation('sim-123', mockUserId)
+      ).rejects.toThrow('Simulation not found');
+    });
+  });
+
   describe('estimatePerformance', () => {
     it('should return performance estimate for valid config', async () => {
       // Arrange
@@ -501,6 +650,22 @@ describe('RocketService', () => {
       expect(Array.isArray(result.recommendations)).toBe(true);
     });
 
+    it('should resolve motors the user imported', async () => {
+      // Arrange
+      withImportedMotor();
+      mockValidationService.validateRocketConfig.mockResolvedValue({ isValid: true, errors: [], warnings: [] });
+      const config = { ...mockRocketConfig, engine: { designation: 'F20-4' } } as RocketConfig;
+
+      // Act
+      const result = await rocketService.estimatePerformance(config, mockUserId);
+
+      // Assert
+      expect(result.thrustToWeight).toBeGreaterThan(0);
+      expect(mockValidationService.validateRocketConfig).toHaveBeenCalledWith(config, expect.any(MotorDatabase));
+      await expect(rocketService.estimatePerformance(config, 'user-2'))
+        .rejects.toThrow('Failed to estimate performance: Motor not found: F20-4');
+    });
+
     it('should throw error for invalid config', async () => {
       // Arrange
       mockValidationService.validateRocketConfig.mockResolvedValue({
@@ -522,14 +687,14 @@ describe('RocketService', () => {
       const publicRocket = { ...mockRocketDesign, userId: 'other-user', metadata: { ...mockRocketDesign.metadata, isPublic: true } };
       mockRocketRepository.findById.mockResolvedValue(publicRocket);
       mockRocketRepository.incrementLikes.mockResolvedValue(undefined);
-      mockCacheService.del.mockResolvedValue(undefined);
+      mockCacheService.delete.mockResolvedValue(undefined);
 
       // Act
       await rocketService.likeRocket(mockRocketId, mockUserId);
 
       // Assert
       expect(mockRocketRepository.incrementLikes).toHaveBeenCalledWith(mockRocketId);
-      expect(mockCacheService.del).toHaveBeenCalledWith(`rocket:${mockRocketId}`);
+      expect(mockCacheService.delete).toHaveBeenCalledWith(`rocket:${mockRocketId}`);
     });
 
     it('should throw error for private rocket', async () => {
@@ -612,4 +777,532 @@ describe('RocketService', () => {
       expect(mockRocketRepository.incrementDownloads).not.toHaveBeenCalled();
     });
   });
+
+  describe('importRocket', () => {
+    it('should reject unsupported formats and unreadable files', async () => {
+      // Act & Assert
+      await expect(
+        rocketService.importRocket(mockUserId, { content: '', format: 'step' as DesignFileFormat })
+      ).rejects.toThrow("Validation failed: unsupported design format 'step'");
+      await expect(
+        rocketService.importRocket(mockUserId, {
+          content: Buffer.from('<rocket/>').toString('base64'),
+          format: DesignFileFormat.ORK
+        })
+      ).rejects.toThrow('Validation failed: Not an OpenRocket design');
+
+      expect(mockRocketRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should create the imported rocket and clear the user rocket list', async () => {
+      // Arrange
+      const file = exportDesign(mockRocketDesign, DesignFileFormat.ORK);
+      mockValidationService.validateCreateRocket.mockResolvedValue({ isValid: true, errors: [] });
+      mockValidationService.validateRocketConfig.mockResolvedValue({ isValid: true, errors: [], warnings: [] });
+      mockRocketRepository.create.mockResolvedValue(mockRocketDesign);
+
+      // Act
+      const result = await rocketService.importRocket(mockUserId, {
+        content: file.content.toString('base64'),
+        format: DesignFileFormat.ORK
+      });
+
+      // Assert
+      expect(result.rocket).toBe(mockRocketDesign);
+      expect(Array.isArray(result.notes)).toBe(true);
+      expect(mockRocketRepository.create).toHaveBeenCalledWith(mockUserId, expect.objectContaining({ name: mockRocketDesign.name }));
+      expect(mockCacheService.delete).toHaveBeenCalledWith(`user_rockets:${mockUserId}`);
+    });
+  });
+
+  describe('importMotors', () => {
+    it('should save imported motors to the user and list them only for that user', async () => {
+      // Act
+      const motors = await rocketService.importMotors(mockUserId, importedMotorFile, MotorFileFormat.ENG);
+      mockRocketRepository.findImportedMotors.mockImplementation(async userId =>
+        userId === mockUserId ? motors : []
+      );
+
+      // Assert
+      expect(mockRocketRepository.saveImportedMotors).toHaveBeenCalledWith(mockUserId, motors);
+      expect((await rocketService.getMotor('F20-4', mockUserId))?.designation).toBe('F20');
+      expect(await rocketService.getMotor('F20', 'user-2')).toBeNull();
+      expect(await rocketService.getMotor('F20')).toBeNull();
+    });
+
+    it('should refuse to replace a built-in motor', async () => {
+      // Arrange
+      const c6 = importedMotorFile.replace('F20 29 98', 'C6 18 70');
+
+      // Act & Assert
+      await expect(rocketService.importMotors(mockUserId, c6, MotorFileFormat.ENG))
+        .rejects.toThrow('Validation failed: C6 is a built-in motor and cannot be replaced');
+      expect(mockRocketRepository.saveImportedMotors).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('exportRocket', () => {
+    it('should throw when the rocket is not visible to the user', async () => {
+      // Arrange
+      mockRocketRepository.findById.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        rocketService.exportRocket(mockRocketId, mockUserId, DesignFileFormat.RKT)
+      ).rejects.toThrow('Rocket not found');
+    });
+  });
+
+  describe('importFlightLog', () => {
+    const request = {
+      content: 'Time,Altitude\n0,0\n0.5,40\n1,60\n1.5,40',
+      flownAt: '2024-05-04'
+    };
+
+    beforeEach(() => {
+      mockValidationService.validateFlightLogImport.mockResolvedValue({
+        isValid: true,
+        errors: [],
+        sanitizedData: request
+      });
+    });
+
+    it('should store the parsed log against the rocket', async () => {
+      // Arrange
+      mockRocketRepository.findById.mockResolvedValue(mockRocketDesign);
+      mockSimulationRepository.createFlightLog.mockImplementation(async data => ({
+        ...data,
+        id: 'flight-1',
+        createdAt: new Date()
+      }));
+
+      // Act
+      const result = await rocketService.importFlightLog(mockRocketId, mockUserId, request);
+
+      // Assert
+      expect(result.id).toBe('flight-1');
+      expect(mockSimulationRepository.createFlightLog).toHaveBeenCalledWith(expect.objectContaining({
+        rocketId: mockRocketId,
+        userId: mockUserId,
+        name: `${mockRocketDesign.name} flight`,
+        format: 'csv',
+        flownAt: new Date('2024-05-04'),
+        apogee: 60,
+        apogeeTime: 1,
+        velocitySource: 'derived'
+      }));
+    });
+
+    it("should not attach logs to another user's rocket", async () => {
+      // Arrange
+      mockRocketRepository.findById.mockResolvedValue({
+        ...mockRocketDesign,
+        userId: 'other-user',
+        metadata: { ...mockRocketDesign.metadata, isPublic: true }
+      });
+
+      // Act & Assert
+      await expect(
+        rocketService.importFlightLog(mockRocketId, mockUserId, request)
+      ).rejects.toThrow('Access denied');
+
+      expect(mockSimulationRepository.createFlightLog).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('compareFlightLog', () => {
+    it("should compare against the user's latest simulation by default", async () => {
+      // Arrange
+      mockSimulationRepository.findFlightLogById.mockResolvedValue({
+        id: 'flight-9',
+        rocketId: mockRocketId,
+        userId: mockUserId
+      } as any);
+      mockSimulationRepository.findByRocketId.mockResolvedValue({ simulations: [], total: 0, page: 1, limit: 1 });
+
+      // Act & Assert
+      await expect(
+        rocketService.compareFlightLog('flight-9', mockUserId)
+      ).rejects.toThrow('Simulation not found');
+
+      expect(mockSimulationRepository.findByRocketId).toHaveBeenCalledWith(mockRocketId, {
+        limit: 1,
+        includeTelemetry: true,
+        userId: mockUserId
+      });
+    });
+  });
+
+  describe('calibrateDrag', () => {
+    const request = { observations: [{ flightLogId: 'flight-9' }] };
+
+    beforeEach(() => {
+      mockValidationService.validateDragCalibration.mockResolvedValue({
+        isValid: true,
+        errors: [],
+        sanitizedData: request
+      });
+      mockRocketRepository.findById.mockResolvedValue(mockRocketDesign);
+    });
+
+    it('should only fit logs flown by the same rocket', async () => {
+      // Arrange
+      mockSimulationRepository.findFlightLogById.mockResolvedValue({
+        id: 'flight-9',
+        rocketId: 'other-rocket',
+        apogee: 120
+      } as any);
+
+      // Act & Assert
+      await expect(
+        rocketService.calibrateDrag(mockRocketId, mockUserId, request)
+      ).rejects.toThrow('Validation failed: flight log flight-9 is not a flight of this rocket');
+
+      expect(mockRocketRepository.update).not.toHaveBeenCalled();
+    });
+
+    it("should not calibrate another user's rocket", async () => {
+      // Arrange
+      mockRocketRepository.findById.mockResolvedValue({
+        ...mockRocketDesign,
+        userId: 'other-user',
+        metadata: { ...mockRocketDesign.metadata, isPublic: true }
+      });
+
+      // Act & Assert
+      await expect(
+        rocketService.calibrateDrag(mockRocketId, mockUserId, request)
+      ).rejects.toThrow('Access denied');
+
+      expect(mockSimulationRepository.findFlightLogById).not.toHaveBeenCalled();
+    });
+
+    it('should save the fit against the version it calibrated', async () => {
+      // Arrange - apogee falls in proportion to the drag multiplier
+      const runner = jest.fn(async ({ config }: SimulationInput) => ({
+        results: { maxAltitude: 120 / config.aerodynamics!.dragMultiplier, apogeeTime: 5, issues: [] },
+        telemetry: [],
+        events: []
+      } as unknown as SimulationOutput));
+      rocketService = new RocketService(
+        mockRocketRepository,
+        mockSimulationRepository,
+        mockValidationService,
+        mockCacheService,
+        undefined,
+        runner
+      );
+      const observed = { observations: [{ apogee: 100 }] };
+      mockValidationService.validateDragCalibration.mockResolvedValue({ isValid: true, errors: [], sanitizedData: observed });
+      mockValidationService.validateUpdateRocket.mockResolvedValue({ isValid: true, errors: [] });
+      mockValidationService.validateRocketConfig.mockResolvedValue({ isValid: true, errors: [], warnings: [] });
+      mockRocketRepository.findById.mockResolvedValue({ ...mockRocketDesign, version: 7 });
+      mockRocketRepository.update.mockResolvedValue({ ...mockRocketDesign, version: 8 });
+
+      // Act
+      const { calibration } = await rocketService.calibrateDrag(mockRocketId, mockUserId, observed);
+
+      // Assert
+      expect(calibration.dragMultiplier).toBeCloseTo(1.2, 2);
+      expect(runner).toHaveBeenCalled();
+      expect(mockRocketRepository.update).toHaveBeenCalledWith(
+        mockRocketId,
+        mockUserId,
+        expect.objectContaining({ version: 7 })
+      );
+    });
+  });
+
+  describe('queueOptimization', () => {
+    const request = {
+      objective: OptimizationObjective.TARGET_APOGEE,
+      targetApogee: 150,
+      variables: [{ parameter: OptimizationParameter.FIN_SPAN, min: 0.02, max: 0.1 }]
+    };
+
+    // A runner that never finishes keeps the job running
+    const stalledRunner = jest.fn(() => new Promise<SimulationOutput>(() => {}));
+
+    beforeEach(() => {
+      rocketService = new RocketService(
+        mockRocketRepository,
+        mockSimulationRepository,
+        mockValidationService,
+        mockCacheService,
+        undefined,
+        stalledRunner
+      );
+      mockRocketRepository.findById.mockResolvedValue(mockRocketDesign);
+    });
+
+    it('should queue an optimization that only its owner can see', async () => {
+      // Arrange
+      mockValidationService.validateOptimizationRequest.mockResolvedValue({
+        isValid: true,
+        errors: [],
+        sanitizedData: request
+      });
+
+      // Act
+      const job = await rocketService.queueOptimization(mockRocketId, mockUserId, request);
+
+      // Assert
+      expect(job).toMatchObject({ rocketId: mockRocketId, userId: mockUserId, status: JobStatus.QUEUED });
+      expect(await rocketService.getOptimizationJob(job.id, 'other-user')).toBeNull();
+      expect(await rocketService.getLaunchJob(job.id, mockUserId)).toBeNull();
+    });
+
+    it('should reject motor classes missing from the motor database', async () => {
+      // Arrange
+      const withMotors = { ...request, engineTypes: [EngineType.C, EngineType.K] };
+      mockValidationService.validateOptimizationRequest.mockResolvedValue({
+        isValid: true,
+        errors: [],
+        sanitizedData: withMotors
+      });
+
+      // Act & Assert
+      await expect(
+        rocketService.queueOptimization(mockRocketId, mockUserId, withMotors)
+      ).rejects.toThrow('Validation failed: no K motor in the motor database');
+      expect(stalledRunner).not.toHaveBeenCalled();
+    });
+
+    it('should search motor classes only the user has imported', async () => {
+      // Arrange
+      withImportedMotor();
+      const withMotors = { ...request, engineTypes: [EngineType.F] };
+      mockValidationService.validateOptimizationRequest.mockResolvedValue({
+        isValid: true,
+        errors: [],
+        sanitizedData: withMotors
+      });
+
+      // Act
+      const job = await rocketService.queueOptimization(mockRocketId, mockUserId, withMotors);
+
+      // Assert
+      expect(job.status).toBe(JobStatus.QUEUED);
+      mockRocketRepository.findById.mockResolvedValue({ ...mockRocketDesign, userId: 'user-2' });
+      await expect(
+        rocketService.queueOptimization(mockRocketId, 'user-2', withMotors)
+      ).rejects.toThrow('Validation failed: no F motor in the motor database');
+    });
+  });
+
+  describe('runSweep', () => {
+    const runner = jest.fn();
+
+    const withValidRequest = (request: SweepRequest) => {
+      mockValidationService.validateSweepRequest.mockResolvedValue({
+        isValid: true,
+        errors: [],
+        sanitizedData: request
+      });
+    };
+
+    beforeEach(() => {
+      rocketService = new RocketService(
+        mockRocketRepository,
+        mockSimulationRepository,
+        mockValidationService,
+        mockCacheService,
+        undefined,
+        runner
+      );
+      mockRocketRepository.findById.mockResolvedValue(mockRocketDesign);
+    });
+
+    it('should reject a path that is not a number in the design', async () => {
+      // Arrange
+      const request = { axes: [{ path: 'fins.reach', from: 0.03, to: 0.08, steps: 10 }] };
+      withValidRequest(request);
+
+      // Act & Assert
+      await expect(
+        rocketService.runSweep(mockRocketId, mockUserId, request)
+      ).rejects.toThrow("Validation failed: Unknown config path 'fins.reach'");
+      expect(runner).not.toHaveBeenCalled();
+    });
+
+    it('should limit the simulations of a full sweep', async () => {
+      // Arrange
+      const request = {
+        axes: [
+          { path: 'fins.span', from: 0.03, to: 0.08, steps: 30 },
+          { path: 'body.length', from: 0.3, to: 0.6, steps: 30 }
+        ]
+      };
+      withValidRequest(request);
+
+      // Act & Assert
+      await expect(
+        rocketService.runSweep(mockRocketId, mockUserId, request)
+      ).rejects.toThrow('Validation failed: a full sweep is limited to 400 simulations (900 requested)');
+      expect(runner).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('compareSimulations', () => {
+    it('should need at least two different simulations', async () => {
+      // Act & Assert
+      await expect(
+        rocketService.compareSimulations(['sim-1', 'sim-1'], mockUserId)
+      ).rejects.toThrow('Validation failed: compare between 2 and 6 different simulations');
+      expect(mockSimulationRepository.findById).not.toHaveBeenCalled();
+    });
+
+    it('should name the simulations that were not found', async () => {
+      // Arrange
+      mockSimulationRepository.findById.mockImplementation(async id => (id === 'sim-1'
+        ? { id: 'sim-1', rocketId: mockRocketId, userId: mockUserId } as any
+        : null));
+
+      // Act & Assert
+      await expect(
+        rocketService.compareSimulations(['sim-1', 'sim-2'], mockUserId)
+      ).rejects.toThrow('Simulation not found: sim-2');
+    });
+  });
+
+  describe('restoreRocketVersion', () => {
+    const workingRevision = {
+      id: 'revision-1',
+      rocketId: mockRocketId,
+      version: 1,
+      userId: mockUserId,
+      name: 'Test Rocket',
+      config: mockRocketConfig,
+      createdAt: new Date('2024-01-01T00:00:00Z')
+    };
+
+    beforeEach(() => {
+      mockRocketRepository.findById.mockResolvedValue({
+        ...mockRocketDesign,
+        version: 3,
+        config: { ...mockRocketConfig, fins: { ...mockRocketConfig.fins, span: 0.01 } }
+      });
+    });
+
+    it('should save the earlier version as the newest one', async () => {
+      // Arrange
+      mockRocketRepository.findRevision.mockResolvedValue(workingRevision);
+      mockRocketRepository.update.mockResolvedValue({ ...mockRocketDesign, version: 4 });
+
+      // Act
+      const rocket = await rocketService.restoreRocketVersion(mockRocketId, mockUserId, 1);
+
+      // Assert
+      expect(rocket.version).toBe(4);
+      expect(mockRocketRepository.findRevision).toHaveBeenCalledWith(mockRocketId, 1);
+      expect(mockRocketRepository.update).toHaveBeenCalledWith(
+        mockRocketId,
+        mockUserId,
+        { name: 'Test Rocket', description: '', config: mockRocketConfig },
+        1
+      );
+    });
+
+    it('should not restore the current version or a missing one', async () => {
+      // Arrange
+      mockRocketRepository.findRevision.mockImplementation(async (_, version) =>
+        (version === 3 ? { ...workingRevision, version: 3 } : null));
+
+      // Act & Assert
+      await expect(
+        rocketService.restoreRocketVersion(mockRocketId, mockUserId, 3)
+      ).rejects.toThrow('Validation failed: version 3 is already the current version');
+      await expect(
+        rocketService.restoreRocketVersion(mockRocketId, mockUserId, 7)
+      ).rejects.toThrow('Version 7 not found');
+      expect(mockRocketRepository.update).not.toHaveBeenCalled();
+    });
+
+    it("should not restore another user's rocket", async () => {
+      // Arrange
+      mockRocketRepository.findById.mockResolvedValue({
+        ...mockRocketDesign,
+        userId: 'other-user',
+        metadata: { ...mockRocketDesign.metadata, isPublic: true }
+      });
+
+      // Act & Assert
+      await expect(
+        rocketService.restoreRocketVersion(mockRocketId, mockUserId, 1)
+      ).rejects.toThrow('Access denied: only the owner can restore a version');
+      expect(mockRocketRepository.findRevision).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('diffRocketVersions', () => {
+    it('should list the config fields changed between two versions', async () => {
+      // Arrange
+      mockRocketRepository.findById.mockResolvedValue(mockRocketDesign);
+      mockRocketRepository.findRevision.mockImplementation(async (_, version) => ({
+        id: `revision-${version}`,
+        rocketId: mockRocketId,
+        version,
+        userId: mockUserId,
+        name: 'Test Rocket',
+        config: { ...mockRocketConfig, fins: { ...mockRocketConfig.fins, span: 0.04 * version } },
+        createdAt: new Date()
+      }));
+
+      // Act
+      const diff = await rocketService.diffRocketVersions(mockRocketId, mockUserId, 1, 2);
+
+      // Assert
+      expect(diff).toEqual({
+        rocketId: mockRocketId,
+        from: 1,
+        to: 2,
+        changes: [{ path: 'fins.span', type: ConfigChangeType.CHANGED, before: 0.04, after: 0.08 }]
+      });
+    });
+  });
+
+  describe('getUpdateConflict', () => {
+    it('should merge the update onto the current copy from the database', async () => {
+      // Arrange
+      const current = {
+        ...mockRocketDesign,
+        version: 5,
+        config: { ...mockRocketConfig, fins: { ...mockRocketConfig.fins, span: 0.1 } }
+      };
+      mockRocketRepository.findById.mockResolvedValue(current);
+      mockRocketRepository.findRevision.mockResolvedValue({
+        id: 'revision-4',
+        rocketId: mockRocketId,
+        version: 4,
+        userId: mockUserId,
+        name: mockRocketDesign.name,
+        config: mockRocketConfig,
+        createdAt: new Date()
+      });
+
+      // Act
+      const conflict = await rocketService.getUpdateConflict(mockRocketId, mockUserId, {
+        version: 4,
+        config: { ...mockRocketConfig, fins: { ...mockRocketConfig.fins, span: 0.09 } }
+      });
+
+      // Assert
+      expect(mockRocketRepository.findRevision).toHaveBeenCalledWith(mockRocketId, 4);
+      expect(mockCacheService.get).not.toHaveBeenCalled();
+      expect(conflict.current).toBe(current);
+      expect(conflict.baseVersion).toBe(4);
+      expect(conflict.conflicts).toEqual([
+        { path: 'config.fins.span', base: mockRocketConfig.fins.span, yours: 0.09, theirs: 0.1 }
+      ]);
+      expect(conflict.merged.config.fins.span).toBe(0.09);
+    });
+
+    it('should need the version the update started from', async () => {
+      // Act & Assert
+      await expect(
+        rocketService.getUpdateConflict(mockRocketId, mockUserId, { name: 'Renamed' })
+      ).rejects.toThrow('Validation failed: the update has no version to compare');
+      expect(mockRocketRepository.findById).not.toHaveBeenCalled();
+    });
+  });
 });
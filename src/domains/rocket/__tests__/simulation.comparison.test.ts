@@ -0,0 +1,131 @@
+/**
+ * Simulation Comparison Tests
+ *
+ * Unit tests for lining up simulations on a common axis, using flights with
+ * simple made-up telemetry.
+ */
+
+import { compareSimulations } from '../services/simulation.comparison';
+import {
+  SimulationResult,
+  FlightResults,
+  FlightPhase,
+  ComparisonAxis
+} from '../../../shared/types/rocket';
+
+describe('Simulation Comparison', () => {
+  // Climbs at a steady speed to the apogee, then falls back at the same speed
+  const flight = (id: string, speed: number, apogee: number, results: Partial<FlightResults> = {}): SimulationResult => {
+    const apogeeTime = apogee / speed;
+    const telemetry = Array.from({ length: 21 }, (_, i) => {
+      const time = (2 * apogeeTime * i) / 20;
+      const climbing = time <= apogeeTime;
+      return {
+        time,
+        altitude: climbing ? speed * time : apogee - speed * (time - apogeeTime),
+        position: { x: 0, y: 0, z: 0 },
+        velocity: { x: 0, y: climbing ? speed : -speed, z: 0 },
+        acceleration: { x: 0, y: 0, z: 0 },
+        mass: 0.1,
+        thrust: 0,
+        drag: 0,
+        machNumber: 0,
+        phase: climbing ? FlightPhase.COAST : FlightPhase.RECOVERY
+      };
+    });
+
+    return {
+      id,
+      rocketId: 'rocket-1',
+      userId: 'user-1',
+      config: {} as SimulationResult['config'],
+      results: { maxAltitude: apogee, apogeeTime, ...results } as FlightResults,
+      telemetry,
+      events: [],
+      weather: {} as SimulationResult['weather'],
+      createdAt: new Date('2026-01-01')
+    };
+  };
+
+  it('should sample every flight at the same times until the longest lands', () => {
+    // Arrange
+    const simulations = [flight('v3', 10, 100), flight('v4', 20, 200)];
+
+    // Act
+    const comparison = compareSimulations(simulations);
+
+    // Assert
+    expect(comparison.axis).toBe(ComparisonAxis.TIME);
+    expect(comparison.simulations.map(simulation => simulation.id)).toEqual(['v3', 'v4']);
+    expect(comparison.points[0]).toMatchObject({ x: 0, altitude: [0, 0] });
+    expect(comparison.points[comparison.points.length - 1].x).toBeCloseTo(20, 10);
+
+    // Both land at 20 s; halfway there the first is at apogee and so is the second
+    const middle = comparison.points.find(point => Math.abs(point.x - 10) < 0.05)!;
+    expect(middle.altitude[0]).toBeCloseTo(100, -1);
+    expect(middle.altitude[1]).toBeCloseTo(200, -1);
+    expect(middle.velocity[0]).toBeCloseTo(10, 5);
+  });
+
+  it('should leave gaps where a shorter flight has ended', () => {
+    // Arrange
+    const simulations = [flight('short', 10, 50), flight('long', 10, 100)];
+
+    // Act
+    const comparison = compareSimulations(simulations);
+
+    // Assert
+    const last = comparison.points[comparison.points.length - 1];
+    expect(last.x).toBeCloseTo(20, 10);
+    expect(last.altitude).toEqual([null, expect.closeTo(0, 6)]);
+  });
+
+  it('should compare the ascents at the same altitudes', () => {
+    // Arrange
+    const simulations = [flight('slow', 10, 100), flight('fast', 20, 150)];
+
+    // Act
+    const comparison = compareSimulations(simulations, ComparisonAxis.ALTITUDE);
+
+    // Assert
+    const at = comparison.points.find(point => Math.abs(point.x - 50) < 0.3)!;
+    expect(at.time[0]).toBeCloseTo(at.x / 10, 5);
+    expect(at.time[1]).toBeCloseTo(at.x / 20, 5);
+    expect(at.velocity).toEqual([10, 20]);
+
+    const top = comparison.points[comparison.points.length - 1];
+    expect(top.x).toBe(150);
+    expect(top.time).toEqual([null, 7.5]);
+  });
+
+  it('should list metric differences from the first simulation', () => {
+    // Arrange
+    const simulations = [
+      flight('v3', 10, 100, { score: 50 }),
+      flight('v4', 10, 125, { score: 60, railExitVelocity: 15 })
+    ];
+
+    // Act
+    const { metrics } = compareSimulations(simulations);
+
+    // Assert
+    expect(metrics.find(metric => metric.metric === 'maxAltitude')).toEqual({
+      metric: 'maxAltitude',
+      values: [100, 125],
+      differences: [0, 25],
+      percentDifferences: [0, 25]
+    });
+    expect(metrics.find(metric => metric.metric === 'railExitVelocity')).toMatchObject({
+      values: [null, 15],
+      differences: [null, null]
+    });
+  });
+
+  it('should reject simulations stored without telemetry', () => {
+    // Arrange
+    const bare = { ...flight('bare', 10, 100), telemetry: [] };
+
+    // Act & Assert
+    expect(() => compareSimulations([flight('v3', 10, 100), bare])).toThrow('Simulation bare has no telemetry to compare');
+  });
+});
@@ -5,65 +5,37 @@
  */
 
 import { SimulationEngine } from '../services/simulation.engine';
+import { magnitude, subtract } from '../services/flight.dynamics';
 import { 
   RocketConfig,
   RocketMaterial,
-  NoseConeType,
-  EngineType,
   RecoveryType,
   WeatherConditions,
-  FlightPhase
+  FlightPhase,
+  FlightEventType,
+  FlightModel,
+  IntegratorType,
+  SurfaceFinish,
+  SimulationProgress,
+  DEFAULT_LAUNCH_SITE
 } from '../../../shared/types/rocket';
+import { testRocketConfig as baseRocketConfig } from './fixtures/rocket.config';
 
 describe('SimulationEngine', () => {
   let simulationEngine: SimulationEngine;
 
   // Test rocket configuration (simple C-class rocket)
   const testRocketConfig: RocketConfig = {
-    body: {
-      length: 0.6,
-      diameter: 0.024,
-      mass: 0.1,
-      material: RocketMaterial.CARDBOARD,
-      fineness: 25
-    },
-    noseCone: {
-      type: NoseConeType.OGIVE,
-      length: 0.1,
-      mass: 0.02,
-      material: RocketMaterial.BALSA
-    },
-    fins: {
-      count: 4,
-      span: 0.08,
-      rootChord: 0.06,
-      tipChord: 0.03,
-      sweepAngle: 30,
-      thickness: 0.003,
-      material: RocketMaterial.BALSA,
-      mass: 0.01
-    },
-    engine: {
-      type: EngineType.C,
-      thrust: 12,
-      burnTime: 2.5,
-      specificImpulse: 180,
-      propellantMass: 0.024,
-      totalMass: 0.038
-    },
-    recovery: {
-      type: RecoveryType.PARACHUTE,
-      deploymentAltitude: 150,
-      parachuteDiameter: 0.3,
-      chuteCount: 1,
-      mass: 0.02
-    },
-    launch: {
-      launchAngle: 0,
-      launchRodLength: 1.2,
-      windSpeed: 5,
-      windDirection: 0
-    }
+    ...baseRocketConfig,
+    recovery: { ...baseRocketConfig.recovery, chuteCount: 1 },
+    launch: { ...baseRocketConfig.launch, windSpeed: 5, windDirection: 0 }
+  };
+
+  // Off the 1.2 m rod this motor is below the minimum rail exit velocity, which
+  // the engine reports as an error; flights expected to succeed use a longer rod
+  const longRodConfig: RocketConfig = {
+    ...testRocketConfig,
+    launch: { ...testRocketConfig.launch, launchRodLength: 3 }
   };
 
   const testWeatherConditions: WeatherConditions = {
@@ -85,7 +57,7 @@ describe('SimulationEngine', () => {
   describe('simulate', () => {
     it('should run a complete simulation successfully', async () => {
       // Act
-      const result = await simulationEngine.simulate(testRocketConfig, testWeatherConditions);
+      const result = await simulationEngine.simulate(longRodConfig, testWeatherConditions);
 
       // Assert
       expect(result.results).toBeDefined();
@@ -158,9 +130,9 @@ describe('SimulationEngine', () => {
       expect(result.results.maxVelocity).toBeGreaterThan(20); // At least 20 m/s
       expect(result.results.maxVelocity).toBeLessThan(150); // But subsonic
 
-      // Flight time should be reasonable
+      // Flight time should be reasonable (including the descent under the parachute)
       expect(result.results.flightTime).toBeGreaterThan(5); // At least 5 seconds
-      expect(result.results.flightTime).toBeLessThan(30); // But not too long
+      expect(result.results.flightTime).toBeLessThan(60); // But not too long
 
       // Burnout should occur during engine burn time
       expect(result.results.burnoutAltitude).toBeGreaterThan(0);
@@ -245,6 +217,48 @@ describe('SimulationEngine', () => {
       // Assert
       expect(estimate.thrustToWeight).toBeLessThan(5); // Should be low
     });
+
+    it('should include a per-component stability breakdown', () => {
+      // Act
+      const estimate = SimulationEngine.estimatePerformance(testRocketConfig);
+
+      // Assert
+      const { stability } = estimate;
+      expect(stability.components.map(component => component.name)).toEqual(['nose_cone', 'body', 'fins']);
+      expect(stability.centerOfPressure).toBeGreaterThan(testRocketConfig.noseCone.length);
+      expect(stability.stabilityMargin).toBeCloseTo(
+        (stability.centerOfPressure - stability.centerOfGravity) / testRocketConfig.body.diameter,
+        6
+      );
+      expect(estimate.stabilityMargin).toBe(stability.stabilityMargin);
+    });
+
+    it('should report mass properties at launch and burnout', () => {
+      // Act
+      const { massProperties, stability } = SimulationEngine.estimatePerformance(testRocketConfig);
+
+      // Assert
+      expect(stability.centerOfGravity).toBe(massProperties.launch.centerOfGravity);
+      expect(massProperties.launch.mass - massProperties.burnout.mass)
+        .toBeCloseTo(testRocketConfig.engine.propellantMass, 9);
+      expect(massProperties.burnout.centerOfGravity).toBeLessThan(massProperties.launch.centerOfGravity);
+    });
+
+    it('should suggest a launch rod long enough for the forecast wind', () => {
+      // Arrange - 5 m/s of wind calls for 20 m/s off the rod
+      const shortRodConfig: RocketConfig = {
+        ...testRocketConfig,
+        launch: { ...testRocketConfig.launch, launchRodLength: 1.2 }
+      };
+
+      // Act
+      const { railExit } = SimulationEngine.estimatePerformance(shortRodConfig);
+
+      // Assert
+      expect(railExit.requiredVelocity).toBe(20);
+      expect(railExit.velocity).toBeLessThan(railExit.requiredVelocity);
+      expect(railExit.suggestedRodLength).toBeGreaterThan(shortRodConfig.launch.launchRodLength);
+    });
   });
 
   describe('physics calculations', () => {
@@ -283,17 +297,41 @@ describe('SimulationEngine', () => {
       const result = await simulationEngine.simulate(testRocketConfig, testWeatherConditions);
 
       // Assert
-      const earlyPoints = result.telemetry.slice(0, 50); // First 50 points
+      const clearance = result.events.find(event => event.type === FlightEventType.LAUNCH_ROD_CLEARANCE)!;
+      const earlyPoints = result.telemetry.filter(point => point.time <= clearance.time);
       const rodLength = testRocketConfig.launch.launchRodLength;
 
-      // Early points should be constrained to launch rod
-      const earlyDistances = earlyPoints.map(point => 
+      // Points until the rocket clears the rod should be constrained to it
+      expect(earlyPoints.length).toBeGreaterThan(1);
+      const earlyDistances = earlyPoints.map(point =>
         Math.sqrt(point.position.x ** 2 + point.position.y ** 2)
       );
 
       expect(Math.max(...earlyDistances)).toBeLessThanOrEqual(rodLength * 1.1); // Small tolerance
     });
 
+    it('should report the rail exit velocity and flag a slow exit', async () => {
+      // Arrange
+      const shortRodConfig: RocketConfig = {
+        ...testRocketConfig,
+        launch: { ...testRocketConfig.launch, launchRodLength: 1.2 }
+      };
+      const lenientEngine = new SimulationEngine({ timeStep: 0.01, maxFlightTime: 60, minRailExitVelocity: 5 });
+      const calmWeather = { ...testWeatherConditions, windSpeed: 0 };
+
+      // Act
+      const result = await simulationEngine.simulate(shortRodConfig, testWeatherConditions);
+      const lenient = await lenientEngine.simulate(shortRodConfig, calmWeather);
+
+      // Assert
+      const clearance = result.events.find(event => event.type === FlightEventType.LAUNCH_ROD_CLEARANCE)!;
+      expect(result.results.railExitVelocity).toBe(clearance.velocity);
+      expect(result.results.railExitTime).toBe(clearance.time);
+      expect(result.results.successful).toBe(false);
+      expect(result.results.issues.find(issue => issue.code === 'LOW_RAIL_EXIT_VELOCITY')!.time).toBe(clearance.time);
+      expect(lenient.results.issues.some(issue => issue.code === 'LOW_RAIL_EXIT_VELOCITY')).toBe(false);
+    });
+
     it('should calculate Mach number correctly', async () => {
       // Act
       const result = await simulationEngine.simulate(testRocketConfig, testWeatherConditions);
@@ -327,13 +365,588 @@ describe('SimulationEngine', () => {
     });
   });
 
+  describe('six-degree-of-freedom model', () => {
+    let rigidBodyEngine: SimulationEngine;
+
+    beforeEach(() => {
+      rigidBodyEngine = new SimulationEngine({
+        timeStep: 0.01,
+        maxFlightTime: 60,
+        detailedTelemetry: true,
+        flightModel: FlightModel.SIX_DOF
+      });
+    });
+
+    it('should record attitude telemetry', async () => {
+      // Act
+      const result = await rigidBodyEngine.simulate(testRocketConfig, testWeatherConditions);
+
+      // Assert
+      result.telemetry.forEach(point => {
+        expect(point.orientation).toBeDefined();
+        expect(point.angularVelocity).toBeDefined();
+        expect(point.angleOfAttack).toBeDefined();
+
+        const q = point.orientation!;
+        expect(Math.sqrt(q.w ** 2 + q.x ** 2 + q.y ** 2 + q.z ** 2)).toBeCloseTo(1, 6);
+      });
+    });
+
+    it('should not record attitude in point-mass mode', async () => {
+      // Act
+      const result = await simulationEngine.simulate(testRocketConfig, testWeatherConditions);
+
+      // Assert
+      expect(result.telemetry[0].orientation).toBeUndefined();
+    });
+
+    it('should fly straight up without wind', async () => {
+      // Arrange
+      const calmWeather = { ...testWeatherConditions, windSpeed: 0 };
+
+      // Act
+      const result = await rigidBodyEngine.simulate(testRocketConfig, calmWeather);
+
+      // Assert
+      expect(result.results.maxAltitude).toBeGreaterThan(50);
+      result.telemetry.forEach(point => {
+        expect(Math.abs(point.position.x)).toBeLessThan(1e-6);
+        expect(Math.abs(point.position.z)).toBeLessThan(1e-6);
+      });
+    });
+
+    it('should weathercock into a crosswind', async () => {
+      // Arrange - wind from the east blows toward -z
+      const crosswind = { ...testWeatherConditions, windSpeed: 5, windDirection: 90 };
+
+      // Act
+      const result = await rigidBodyEngine.simulate(testRocketConfig, crosswind);
+
+      // Assert - after leaving the rod the nose turns upwind (+z)
+      const boostPoint = result.telemetry.find(point => point.time >= 1.0)!;
+      expect(boostPoint.velocity.z).toBeGreaterThan(0);
+      expect(boostPoint.position.z).toBeGreaterThan(0);
+      expect(Math.abs(boostPoint.position.x)).toBeLessThan(1e-6);
+
+      const rotatedNose = boostPoint.orientation!;
+      expect(Math.abs(rotatedNose.x)).toBeGreaterThan(0.01);
+    });
+
+    it('should keep the attitude fixed on the launch rod', async () => {
+      // Arrange
+      const angledConfig: RocketConfig = {
+        ...testRocketConfig,
+        launch: { ...testRocketConfig.launch, launchAngle: 10 }
+      };
+
+      // Act
+      const result = await rigidBodyEngine.simulate(angledConfig, testWeatherConditions);
+
+      // Assert
+      const first = result.telemetry[0];
+      expect(first.angularVelocity).toEqual({ x: 0, y: 0, z: 0 });
+      expect(first.orientation!.z).toBeCloseTo(-Math.sin((10 * Math.PI) / 360), 6);
+    });
+
+    it('should lean the rod toward the launch direction', async () => {
+      // Arrange - rod tilted toward the east
+      const eastConfig: RocketConfig = {
+        ...testRocketConfig,
+        launch: { ...testRocketConfig.launch, launchAngle: 10, launchDirection: 90 }
+      };
+      const calmWeather = { ...testWeatherConditions, windSpeed: 0 };
+
+      // Act
+      const result = await rigidBodyEngine.simulate(eastConfig, calmWeather);
+
+      // Assert
+      const boostPoint = result.telemetry.find(point => point.time >= 0.5)!;
+      expect(boostPoint.position.z).toBeGreaterThan(0);
+      expect(Math.abs(boostPoint.position.x)).toBeLessThan(1e-6);
+    });
+  });
+
+  describe('numerical integration', () => {
+    it('should produce step-independent results with the adaptive integrator', async () => {
+      // Arrange
+      const coarseEngine = new SimulationEngine({ timeStep: 0.05, maxFlightTime: 60 });
+      const fineEngine = new SimulationEngine({ timeStep: 0.01, maxFlightTime: 60 });
+
+      // Act
+      const coarse = await coarseEngine.simulate(testRocketConfig, testWeatherConditions);
+      const fine = await fineEngine.simulate(testRocketConfig, testWeatherConditions);
+
+      // Assert
+      expect(Math.abs(coarse.results.maxAltitude - fine.results.maxAltitude)).toBeLessThan(0.5);
+      expect(Math.abs(coarse.results.apogeeTime - fine.results.apogeeTime)).toBeLessThan(0.05);
+    });
+
+    it('should support each integrator type', async () => {
+      const altitudes: number[] = [];
+
+      for (const integrator of [IntegratorType.EULER, IntegratorType.RK4, IntegratorType.RK45]) {
+        // Arrange
+        const engine = new SimulationEngine({ timeStep: 0.01, maxFlightTime: 60, integrator });
+
+        // Act
+        const result = await engine.simulate(testRocketConfig, testWeatherConditions);
+
+        // Assert
+        expect(result.results.maxAltitude).toBeGreaterThan(0);
+        altitudes.push(result.results.maxAltitude);
+      }
+
+      // Higher-order methods agree closely; Euler is within a few percent
+      expect(Math.abs(altitudes[1] - altitudes[2])).toBeLessThan(2);
+      expect(Math.abs(altitudes[0] - altitudes[2]) / altitudes[2]).toBeLessThan(0.05);
+    });
+
+    it('should burn exactly the propellant mass by burnout', async () => {
+      // Act
+      const result = await simulationEngine.simulate(testRocketConfig, testWeatherConditions);
+
+      // Assert
+      const initialMass = result.telemetry[0].mass;
+      const coastPoint = result.telemetry.find(point => point.phase === FlightPhase.COAST)!;
+      expect(initialMass - coastPoint.mass).toBeCloseTo(testRocketConfig.engine.propellantMass, 6);
+    });
+
+    it('should end the trajectory at ground level', async () => {
+      // Act
+      const result = await simulationEngine.simulate(testRocketConfig, testWeatherConditions);
+
+      // Assert
+      const landing = result.telemetry[result.telemetry.length - 1];
+      expect(landing.altitude).toBe(0);
+      expect(landing.phase).toBe(FlightPhase.LANDING);
+      expect(result.results.issues.some(issue => issue.code === 'GROUND_IMPACT')).toBe(true);
+    });
+
+    it('should reject unknown integrator types', () => {
+      expect(() => new SimulationEngine({ integrator: 'verlet' as IntegratorType }))
+        .toThrow('Unknown integrator type');
+    });
+  });
+
+  describe('thrust curves', () => {
+    const spikeCurve = [
+      { time: 0, thrust: 0 },
+      { time: 0.1, thrust: 40 },
+      { time: 0.3, thrust: 10 },
+      { time: 2.5, thrust: 10.25 }
+    ];
+    const curveConfig: RocketConfig = {
+      ...testRocketConfig,
+      engine: { ...testRocketConfig.engine, thrustCurve: spikeCurve }
+    };
+
+    it('should follow the thrust curve', async () => {
+      // Act
+      const result = await simulationEngine.simulate(curveConfig, testWeatherConditions);
+
+      // Assert
+      const peak = result.telemetry.find(point => Math.abs(point.time - 0.1) < 1e-9)!;
+      const sustain = result.telemetry.find(point => point.time >= 1.0)!;
+      expect(peak.thrust).toBeCloseTo(40, 6);
+      expect(sustain.thrust).toBeGreaterThan(10);
+      expect(sustain.thrust).toBeLessThan(10.25);
+    });
+
+    it('should leave the launch rod faster with an initial spike', async () => {
+      // Act - both profiles deliver about the same total impulse
+      const flat = await simulationEngine.simulate(testRocketConfig, testWeatherConditions);
+      const spiked = await simulationEngine.simulate(curveConfig, testWeatherConditions);
+
+      // Assert
+      const rodExitSpeed = (telemetry: typeof flat.telemetry) =>
+        telemetry.find(point => point.altitude >= testRocketConfig.launch.launchRodLength)!.velocity.y;
+      expect(rodExitSpeed(spiked.telemetry)).toBeGreaterThan(rodExitSpeed(flat.telemetry));
+    });
+
+    it('should burn propellant in proportion to delivered impulse', async () => {
+      // Act
+      const result = await simulationEngine.simulate(curveConfig, testWeatherConditions);
+
+      // Assert - the spike delivers a larger share of impulse early in the burn
+      const initialMass = result.telemetry[0].mass;
+      const early = result.telemetry.find(point => Math.abs(point.time - 0.3) < 1e-9)!;
+      const burnedFraction = (initialMass - early.mass) / testRocketConfig.engine.propellantMass;
+      expect(burnedFraction).toBeGreaterThan(0.3 / 2.5);
+    });
+  });
+
+  describe('recovery', () => {
+    const withRecovery = (recovery: Partial<RocketConfig['recovery']>): RocketConfig => ({
+      ...testRocketConfig,
+      recovery: { ...testRocketConfig.recovery, ...recovery }
+    });
+
+    it('should descend under the parachute at its terminal velocity', async () => {
+      // Act
+      const result = await simulationEngine.simulate(testRocketConfig, testWeatherConditions);
+
+      // Assert - 0.3 m chute on a ~160 g rocket
+      const landing = result.telemetry[result.telemetry.length - 1];
+      expect(landing.phase).toBe(FlightPhase.LANDING);
+      expect(result.results.descentRate).toBeGreaterThan(5);
+      expect(result.results.descentRate).toBeLessThan(8);
+      expect(result.results.issues.some(issue => issue.code === 'NO_RECOVERY_DEPLOYMENT')).toBe(false);
+    });
+
+    it('should fall faster under a streamer or tumbling than under a parachute', async () => {
+      // Act
+      const parachute = await simulationEngine.simulate(testRocketConfig, testWeatherConditions);
+      const streamer = await simulationEngine.simulate(withRecovery({ type: RecoveryType.STREAMER }), testWeatherConditions);
+      const tumble = await simulationEngine.simulate(withRecovery({ type: RecoveryType.TUMBLE }), testWeatherConditions);
+
+      // Assert
+      expect(streamer.results.descentRate!).toBeGreaterThan(parachute.results.descentRate!);
+      expect(tumble.results.descentRate!).toBeGreaterThan(parachute.results.descentRate!);
+      expect(streamer.results.issues.some(issue => issue.code === 'HIGH_DESCENT_RATE')).toBe(true);
+    });
+
+    it('should drift downwind once deployed', async () => {
+      // Act
+      const calm = await simulationEngine.simulate(testRocketConfig, { ...testWeatherConditions, windSpeed: 0 });
+      const windy = await simulationEngine.simulate(testRocketConfig, testWeatherConditions);
+
+      // Assert - about 5 m/s for the ~20 s spent under the parachute
+      expect(calm.results.driftDistance).toBeCloseTo(0, 6);
+      expect(windy.results.driftDistance).toBeGreaterThan(60);
+      expect(windy.results.driftDistance).toBeLessThan(150);
+    });
+
+    it('should deploy at the motor ejection charge', async () => {
+      // Arrange
+      const delayed: RocketConfig = { ...testRocketConfig, engine: { ...testRocketConfig.engine, ejectionDelay: 5 } };
+
+      // Act
+      const result = await simulationEngine.simulate(delayed, testWeatherConditions);
+
+      // Assert
+      const deployment = result.telemetry.find(point => point.phase === FlightPhase.RECOVERY)!;
+      expect(deployment.time).toBeCloseTo(7.5, 6);
+    });
+
+    it('should report an error when the ejection delay is too long', async () => {
+      // Arrange
+      const late: RocketConfig = { ...testRocketConfig, engine: { ...testRocketConfig.engine, ejectionDelay: 30 } };
+
+      // Act
+      const result = await simulationEngine.simulate(late, testWeatherConditions);
+
+      // Assert
+      expect(result.results.successful).toBe(false);
+      expect(result.results.issues.some(issue => issue.code === 'NO_RECOVERY_DEPLOYMENT')).toBe(true);
+    });
+
+    it('should open the drogue at apogee and the main at the deployment altitude', async () => {
+      // Arrange
+      const dualDeploy = withRecovery({ type: RecoveryType.DUAL_DEPLOY, drogueDiameter: 0.12, deploymentAltitude: 100 });
+
+      // Act
+      const result = await simulationEngine.simulate(dualDeploy, testWeatherConditions);
+
+      // Assert
+      const firstRecoveryPoint = result.telemetry.find(point => point.phase === FlightPhase.RECOVERY)!;
+      expect(firstRecoveryPoint.time).toBeCloseTo(result.results.apogeeTime, 1);
+      expect(result.results.drogueDescentRate!).toBeGreaterThan(result.results.descentRate!);
+      expect(result.results.descentRate).toBeLessThan(8);
+    });
+  });
+
+  describe('flight events', () => {
+    it('should emit the flight timeline in time order', async () => {
+      // Act
+      const { results, events } = await simulationEngine.simulate(testRocketConfig, testWeatherConditions);
+
+      // Assert
+      expect(events.map(event => event.type)).toEqual([
+        FlightEventType.IGNITION,
+        FlightEventType.LAUNCH_ROD_CLEARANCE,
+        FlightEventType.BURNOUT,
+        FlightEventType.APOGEE,
+        FlightEventType.DEPLOYMENT,
+        FlightEventType.GROUND_HIT
+      ]);
+      const times = events.map(event => event.time);
+      expect(times).toEqual([...times].sort((a, b) => a - b));
+
+      const burnout = events.find(event => event.type === FlightEventType.BURNOUT)!;
+      expect(burnout.time).toBe(2.5);
+      expect(burnout.altitude).toBe(results.burnoutAltitude);
+      expect(events[events.length - 1].time).toBe(results.flightTime);
+    });
+
+    it('should find exact event times between output samples', async () => {
+      // Arrange
+      const dualDeploy: RocketConfig = {
+        ...testRocketConfig,
+        recovery: { ...testRocketConfig.recovery, type: RecoveryType.DUAL_DEPLOY, drogueDiameter: 0.12 }
+      };
+
+      // Act
+      const { results, events, telemetry } = await new SimulationEngine({ timeStep: 0.01, seed: 1 })
+        .simulate(dualDeploy, testWeatherConditions);
+
+      // Assert
+      const event = (type: FlightEventType, device?: string) =>
+        events.find(candidate => candidate.type === type && candidate.device === device)!;
+      const clearance = event(FlightEventType.LAUNCH_ROD_CLEARANCE);
+      expect(Math.hypot(clearance.position.x, clearance.position.y, clearance.position.z)).toBeCloseTo(testRocketConfig.launch.launchRodLength, 4);
+      expect(clearance.velocity).toBeGreaterThan(0);
+
+      const apogee = event(FlightEventType.APOGEE);
+      expect(apogee.time).toBe(results.apogeeTime);
+      expect(apogee.altitude).toBeGreaterThanOrEqual(Math.max(...telemetry.map(point => point.altitude)));
+      expect(event(FlightEventType.DEPLOYMENT, 'drogue').time).toBe(apogee.time);
+      expect(event(FlightEventType.DEPLOYMENT, 'main').altitude).toBeCloseTo(150, 3);
+
+      const groundHit = event(FlightEventType.GROUND_HIT);
+      expect(groundHit.altitude).toBe(0);
+      expect(telemetry[telemetry.length - 1].time).toBe(groundHit.time);
+    });
+
+    it('should record staging events with their stage', async () => {
+      // Arrange
+      const twoStage: RocketConfig = {
+        ...testRocketConfig,
+        stages: [{
+          body: { length: 0.2, mass: 0.03, material: RocketMaterial.CARDBOARD },
+          motors: [{ ...testRocketConfig.engine }],
+          separationDelay: 0.5
+        }]
+      };
+
+      // Act
+      const { events } = await simulationEngine.simulate(twoStage, testWeatherConditions);
+
+      // Assert
+      const staging = events
+        .filter(event => event.stage !== undefined)
+        .map(event => [event.type, event.stage, event.time]);
+      expect(staging).toEqual([
+        [FlightEventType.IGNITION, 1, 0],
+        [FlightEventType.BURNOUT, 1, 2.5],
+        [FlightEventType.IGNITION, 2, 2.5],
+        [FlightEventType.STAGE_SEPARATION, 1, 3],
+        [FlightEventType.BURNOUT, 2, 5]
+      ]);
+    });
+  });
+
+  describe('progress', () => {
+    it('should report rising progress with every telemetry point once', async () => {
+      // Arrange
+      const reports: SimulationProgress[] = [];
+
+      // Act
+      const { telemetry } = await simulationEngine.simulate(
+        testRocketConfig,
+        testWeatherConditions,
+        undefined,
+        progress => reports.push(progress)
+      );
+
+      // Assert
+      const fractions = reports.map(report => report.fraction);
+      expect(reports.length).toBeGreaterThan(2);
+      expect(fractions).toEqual([...fractions].sort((a, b) => a - b));
+      expect(fractions[fractions.length - 1]).toBe(1);
+      expect(reports.flatMap(report => report.telemetry)).toEqual(telemetry);
+    });
+  });
+
+  describe('wind', () => {
+    const easterly: WeatherConditions = { ...testWeatherConditions, windDirection: 90 };
+
+    it('should drift downwind and weathercock into the wind', async () => {
+      // Act
+      const result = await simulationEngine.simulate(testRocketConfig, easterly);
+
+      // Assert - wind from the east blows towards -z; the rocket turns upwind (+z) during boost
+      const burnout = result.telemetry.find(point => point.phase !== FlightPhase.BOOST)!;
+      const deployment = result.telemetry.find(point => point.phase === FlightPhase.RECOVERY)!;
+      const landing = result.telemetry[result.telemetry.length - 1];
+      expect(burnout.position.z).toBeGreaterThan(0);
+      expect(landing.position.z).toBeLessThan(deployment.position.z);
+      expect(Math.abs(landing.position.x)).toBeLessThan(1);
+    });
+
+    it('should record the wind at each telemetry point', async () => {
+      // Act
+      const result = await simulationEngine.simulate(testRocketConfig, easterly);
+
+      // Assert - stronger wind aloft with the default power-law profile
+      const pad = result.telemetry[0].wind!;
+      const apogee = result.telemetry.find(point => point.time >= result.results.apogeeTime)!.wind!;
+      expect(pad.z).toBeLessThan(0);
+      expect(Math.abs(apogee.z)).toBeGreaterThan(Math.abs(pad.z));
+    });
+
+    it('should reproduce gusty flights from the same seed', async () => {
+      // Arrange
+      const gusty = { ...testWeatherConditions, windGustSpeed: 12 };
+      const options = { timeStep: 0.01, maxFlightTime: 60, seed: 1234 };
+
+      // Act
+      const first = await new SimulationEngine(options).simulate(testRocketConfig, gusty);
+      const second = await new SimulationEngine(options).simulate(testRocketConfig, gusty);
+      const other = await new SimulationEngine({ ...options, seed: 99 }).simulate(testRocketConfig, gusty);
+
+      // Assert
+      expect(second.results.landingDistance).toBe(first.results.landingDistance);
+      expect(other.results.landingDistance).not.toBeCloseTo(first.results.landingDistance, 3);
+    });
+  });
+
+  describe('atmosphere', () => {
+    it('should fly higher from a high-elevation launch site', async () => {
+      // Arrange
+      const options = { timeStep: 0.01, maxFlightTime: 60, seed: 1 };
+      const highSite = { ...DEFAULT_LAUNCH_SITE, elevation: 1500 };
+
+      // Act
+      const seaLevel = await new SimulationEngine(options).simulate(testRocketConfig, testWeatherConditions);
+      const elevated = await new SimulationEngine({ ...options, launchSite: highSite })
+        .simulate(testRocketConfig, testWeatherConditions);
+
+      // Assert - thinner air means less drag
+      expect(elevated.results.maxAltitude).toBeGreaterThan(seaLevel.results.maxAltitude * 1.05);
+    });
+
+    it('should use the local speed of sound for the Mach number', async () => {
+      // Arrange
+      const cold = { ...testWeatherConditions, temperature: -20 };
+      const hot = { ...testWeatherConditions, temperature: 40 };
+      const options = { timeStep: 0.01, maxFlightTime: 60, seed: 1 };
+
+      // Act
+      const coldFlight = await new SimulationEngine(options).simulate(testRocketConfig, cold);
+      const hotFlight = await new SimulationEngine(options).simulate(testRocketConfig, hot);
+
+      // Assert
+      const speedOfSound = (point: typeof coldFlight.telemetry[0]) =>
+        magnitude(subtract(point.velocity, point.wind!)) / point.machNumber;
+      expect(speedOfSound(coldFlight.telemetry[10])).toBeCloseTo(319, 0);
+      expect(speedOfSound(hotFlight.telemetry[10])).toBeGreaterThan(355); // humidity adds a little
+    });
+
+    it('should take the Mach number from the airspeed rather than the ground speed', async () => {
+      // Act - drifting under the parachute the ground speed is mostly wind
+      const result = await simulationEngine.simulate(longRodConfig, testWeatherConditions);
+
+      // Assert
+      const moving = result.telemetry.filter(point => point.machNumber > 0);
+      expect(moving.some(point => point.phase === FlightPhase.RECOVERY)).toBe(true);
+      moving.forEach(point => {
+        const speedOfSound = magnitude(subtract(point.velocity, point.wind!)) / point.machNumber;
+        expect(speedOfSound).toBeGreaterThan(335);
+        expect(speedOfSound).toBeLessThan(345);
+      });
+      expect(result.results.maxMachNumber).toBe(Math.max(...result.telemetry.map(point => point.machNumber)));
+    });
+  });
+
+  describe('staging', () => {
+    const options = { timeStep: 0.01, maxFlightTime: 60, seed: 1 };
+    const twoStage: RocketConfig = {
+      ...testRocketConfig,
+      engine: { ...testRocketConfig.engine, ignitionDelay: 0.2 },
+      stages: [{
+        body: { length: 0.2, mass: 0.03, material: RocketMaterial.CARDBOARD },
+        fins: testRocketConfig.fins,
+        motors: [{ ...testRocketConfig.engine }],
+        separationDelay: 0.1
+      }]
+    };
+
+    it('should fire the stages in order and drop the spent booster', async () => {
+      // Act
+      const { results, telemetry } = await new SimulationEngine(options).simulate(twoStage, testWeatherConditions);
+
+      // Assert
+      const phaseAt = (time: number) => telemetry.find(point => point.time >= time)!.phase;
+      expect(phaseAt(1)).toBe(FlightPhase.BOOST);
+      expect(phaseAt(2.6)).toBe(FlightPhase.STAGING);
+      expect(phaseAt(4)).toBe(FlightPhase.SUSTAIN);
+      expect(phaseAt(5.5)).toBe(FlightPhase.COAST);
+
+      expect(results.stagingEvents).toHaveLength(1);
+      const separation = results.stagingEvents![0];
+      expect(separation.stage).toBe(1);
+      expect(separation.time).toBeCloseTo(2.6, 9);
+      expect(separation.mass).toBeCloseTo(0.03 + 0.01 + 0.014, 9);
+
+      const massBefore = telemetry.find(point => point.time >= 2.5)!.mass;
+      const massAfter = telemetry.find(point => point.time >= 2.7)!.mass;
+      expect(massBefore - massAfter).toBeCloseTo(separation.mass, 6);
+    });
+
+    it('should fly higher than the upper stage alone', async () => {
+      // Act
+      const single = await new SimulationEngine(options).simulate(testRocketConfig, testWeatherConditions);
+      const staged = await new SimulationEngine(options).simulate(twoStage, testWeatherConditions);
+
+      // Assert
+      expect(staged.results.maxAltitude).toBeGreaterThan(single.results.maxAltitude);
+      expect(staged.results.burnoutAltitude).toBeGreaterThan(single.results.burnoutAltitude);
+    });
+
+    it('should add up the thrust and mass of clustered motors', async () => {
+      // Arrange
+      const cluster: RocketConfig = { ...testRocketConfig, engine: { ...testRocketConfig.engine, count: 3 } };
+
+      // Act
+      const single = await new SimulationEngine(options).simulate(testRocketConfig, testWeatherConditions);
+      const clustered = await new SimulationEngine(options).simulate(cluster, testWeatherConditions);
+
+      // Assert
+      expect(clustered.telemetry[0].thrust).toBeCloseTo(36, 9);
+      expect(clustered.telemetry[0].mass - single.telemetry[0].mass).toBeCloseTo(2 * 0.038, 9);
+      expect(clustered.results.maxAltitude).toBeGreaterThan(single.results.maxAltitude * 1.5);
+    });
+  });
+
+  describe('drag model', () => {
+    it('should report the drag curve of the configuration', async () => {
+      // Act
+      const result = await simulationEngine.simulate(testRocketConfig, testWeatherConditions);
+
+      // Assert
+      const dragCurve = result.results.dragCurve!;
+      expect(dragCurve[0].mach).toBe(0);
+      expect(dragCurve[dragCurve.length - 1].mach).toBe(2);
+      expect(dragCurve.every(point => point.poweredDragCoefficient < point.dragCoefficient)).toBe(true);
+    });
+
+    it('should fly higher with a smoother finish', async () => {
+      // Arrange
+      const polished: RocketConfig = {
+        ...testRocketConfig,
+        body: { ...testRocketConfig.body, surfaceFinish: SurfaceFinish.POLISHED }
+      };
+      const rough: RocketConfig = {
+        ...testRocketConfig,
+        body: { ...testRocketConfig.body, surfaceFinish: SurfaceFinish.ROUGH }
+      };
+
+      // Act
+      const polishedResult = await simulationEngine.simulate(polished, testWeatherConditions);
+      const roughResult = await simulationEngine.simulate(rough, testWeatherConditions);
+
+      // Assert
+      expect(polishedResult.results.maxAltitude).toBeGreaterThan(roughResult.results.maxAltitude);
+    });
+  });
+
   describe('edge cases', () => {
     it('should handle zero wind conditions', async () => {
       // Arrange
       const noWindWeather = { ...testWeatherConditions, windSpeed: 0 };
 
       // Act
-      const result = await simulationEngine.simulate(testRocketConfig, noWindWeather);
+      const result = await simulationEngine.simulate(longRodConfig, noWindWeather);
 
       // Assert
       expect(result.results.successful).toBe(true);
@@ -349,7 +962,7 @@ describe('SimulationEngine', () => {
       };
 
       // Act
-      const result = await simulationEngine.simulate(testRocketConfig, highAltitudeWeather);
+      const result = await simulationEngine.simulate(longRodConfig, highAltitudeWeather);
 
       // Assert
       expect(result.results.successful).toBe(true);
@@ -0,0 +1,75 @@
+/**
+ * Simulation Runner Tests
+ *
+ * Tests for flying simulations on worker threads against the same flight
+ * flown on the calling thread.
+ */
+
+import { runSimulation, createWorkerRunner, SimulationInput } from '../services/simulation.runner';
+import {
+  RocketConfig,
+  SimulationProgress,
+  DEFAULT_WEATHER
+} from '../../../shared/types/rocket';
+import { testRocketConfig } from './fixtures/rocket.config';
+
+// The worker loads the simulation engine through tsx on its first flight
+jest.setTimeout(60000);
+
+describe('Simulation runner', () => {
+  const config: RocketConfig = { ...testRocketConfig, launch: { ...testRocketConfig.launch, launchAngle: 5 } };
+
+  const input: SimulationInput = {
+    config,
+    weather: { ...DEFAULT_WEATHER, windSpeed: 4, windGustSpeed: 2 },
+    launchOptions: { seed: 7 }
+  };
+
+  // One pool for the file; idle workers do not keep the process alive
+  const workerRunner = createWorkerRunner(1);
+
+  it('should fly the same flight on a worker as on the calling thread', async () => {
+    // Act
+    const onThread = await runSimulation(input);
+    const onWorker = await workerRunner(input);
+
+    // Assert
+    expect(onWorker.results).toEqual(onThread.results);
+    expect(onWorker.events).toEqual(onThread.events);
+    expect(onWorker.telemetry).toEqual(onThread.telemetry);
+  });
+
+  it('should deliver every progress report from a worker in flight order before the result', async () => {
+    // Arrange
+    const reports: SimulationProgress[] = [];
+    let resolved = false;
+    let reportedLate = false;
+
+    // Act
+    const output = await workerRunner(input, progress => {
+      reportedLate = reportedLate || resolved;
+      reports.push(progress);
+    }).finally(() => {
+      resolved = true;
+    });
+
+    // Assert
+    expect(reportedLate).toBe(false);
+    expect(reports.length).toBeGreaterThan(1);
+    reports.slice(1).forEach((report, index) => {
+      expect(report.time).toBeGreaterThanOrEqual(reports[index].time);
+      expect(report.fraction).toBeGreaterThanOrEqual(reports[index].fraction);
+    });
+    expect(reports[reports.length - 1].fraction).toBe(1);
+    expect(reports.flatMap(report => report.telemetry)).toEqual(output.telemetry);
+  });
+
+  it('should reject a flight the worker cannot simulate with the error from the worker', async () => {
+    // Arrange
+    const broken = { ...input, config: { ...config, engine: undefined } } as unknown as SimulationInput;
+    const onThread = await runSimulation(broken).catch((error: Error) => error.message);
+
+    // Act & Assert
+    await expect(workerRunner(broken)).rejects.toThrow(onThread as string);
+  });
+});
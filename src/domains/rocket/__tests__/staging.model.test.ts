@@ -0,0 +1,99 @@
+/**
+ * Staging Model Tests
+ *
+ * Unit tests for multi-stage timing, thrust, propellant and layout.
+ */
+
+import {
+  stageTimeline,
+  firingStage,
+  attachedStageIndexes,
+  stackAt,
+  totalThrust,
+  liftoffThrust,
+  propellantRemaining,
+  stageAftPositions,
+  finSets
+} from '../services/staging.model';
+import { calculateMassProperties } from '../services/mass.properties';
+import { RocketConfig, RocketMaterial } from '../../../shared/types/rocket';
+import { testRocketConfig } from './fixtures/rocket.config';
+
+describe('Staging model', () => {
+  const motor = { ...testRocketConfig.engine, burnTime: 2 };
+  const fins = testRocketConfig.fins;
+
+  const threeStage: RocketConfig = {
+    ...testRocketConfig,
+    body: { ...testRocketConfig.body, diameter: 0.05 },
+    engine: { ...motor, ignitionDelay: 0.5 },
+    stages: [
+      {
+        body: { length: 0.3, mass: 0.04, material: RocketMaterial.CARDBOARD },
+        fins: { ...fins, span: 0.1 },
+        motors: [{ ...motor, count: 3 }],
+        separationDelay: 0.2
+      },
+      {
+        body: { length: 0.2, mass: 0.03, material: RocketMaterial.CARDBOARD },
+        motors: [{ ...motor, burnTime: 1 }],
+        ignitionDelay: 0.1
+      }
+    ]
+  };
+
+  it('should time ignition, burnout and separation of each stage', () => {
+    // Act
+    const timeline = stageTimeline(threeStage);
+
+    // Assert
+    expect(timeline).toEqual([
+      { stage: 0, ignition: 0, burnout: 2, separation: 2.2 },
+      { stage: 1, ignition: 2.1, burnout: 3.1, separation: 3.1 },
+      { stage: 2, ignition: 3.6, burnout: 5.6, separation: undefined }
+    ]);
+    expect(firingStage(threeStage, 2.05)).toBeUndefined();
+    expect(firingStage(threeStage, 4)!.stage).toBe(2);
+  });
+
+  it('should add clustered thrust and overlap the firing stages', () => {
+    // Assert
+    expect(liftoffThrust(threeStage)).toBe(36);
+    expect(totalThrust(threeStage, 1)).toBe(36);
+    expect(totalThrust(threeStage, 2.05)).toBe(0);
+    expect(totalThrust(threeStage, 2.5)).toBe(12);
+  });
+
+  it('should burn each stage from its own ignition', () => {
+    // Act
+    const remaining = propellantRemaining(threeStage, 2.6);
+
+    // Assert
+    expect(remaining.stages[0]).toBeCloseTo(0, 9);
+    expect(remaining.stages[1]).toBeCloseTo(0.012, 9);
+    expect(remaining.upperStage).toBeCloseTo(0.024, 9);
+  });
+
+  it('should drop stages at separation', () => {
+    // Assert
+    expect(attachedStageIndexes(threeStage, 2.1)).toEqual([0, 1]);
+    expect(attachedStageIndexes(threeStage, 2.2)).toEqual([1]);
+    expect(attachedStageIndexes(threeStage, 3.2)).toEqual([]);
+
+    const launchMass = calculateMassProperties(threeStage).mass;
+    const sustainerMass = calculateMassProperties(stackAt(threeStage, 3.2)).mass;
+    expect(launchMass - sustainerMass).toBeCloseTo(0.04 + 0.01 + 3 * 0.038 + 0.03 + 0.038, 9);
+  });
+
+  it('should stack the boosters below the upper stage', () => {
+    // Act
+    const positions = stageAftPositions(threeStage);
+    const sets = finSets(threeStage);
+
+    // Assert - the first stage is at the bottom
+    expect(positions[1]).toBeCloseTo(0.9, 9);
+    expect(positions[0]).toBeCloseTo(1.2, 9);
+    expect(sets.map(set => set.name)).toEqual(['fins', 'stage_1_fins']);
+    expect(sets[1].aftEnd).toBeCloseTo(1.2, 9);
+  });
+});
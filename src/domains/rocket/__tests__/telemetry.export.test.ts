@@ -0,0 +1,101 @@
+/**
+ * Telemetry Export Tests
+ *
+ * Unit tests for the CSV, JSON Lines and OpenRocket CSV telemetry exports.
+ */
+
+import { exportTelemetry } from '../services/telemetry.export';
+import {
+  SimulationResult,
+  TrajectoryPoint,
+  FlightPhase,
+  FlightEventType,
+  TelemetryExportFormat
+} from '../../../shared/types/rocket';
+
+describe('Telemetry Export', () => {
+  const point = (time: number, altitude: number): TrajectoryPoint => ({
+    time,
+    position: { x: 3, y: altitude, z: 4 },
+    velocity: { x: 0, y: 20 - 10 * time, z: 0 },
+    acceleration: { x: 0, y: -10, z: 0 },
+    mass: 0.15,
+    thrust: 0,
+    drag: 0.5,
+    machNumber: 0.05,
+    altitude,
+    phase: FlightPhase.COAST
+  });
+
+  const simulation = {
+    id: 'sim-1',
+    telemetry: [point(0, 0), point(1, 15), point(2, 20), point(3, 15), point(4, 0)],
+    events: [
+      { type: FlightEventType.APOGEE, time: 2, altitude: 20, velocity: 0, position: { x: 3, y: 20, z: 4 } },
+      { type: FlightEventType.GROUND_HIT, time: 4.2, altitude: 0, velocity: 5, position: { x: 3, y: 0, z: 4 } }
+    ],
+    createdAt: new Date('2024-01-01T00:00:00Z')
+  } as SimulationResult;
+
+  const text = (lines: Iterable<string>) => [...lines].join('');
+
+  it('should write CSV with units in the header and the selected columns', () => {
+    // Act
+    const csv = exportTelemetry(simulation, {
+      format: TelemetryExportFormat.CSV,
+      columns: ['time', 'altitude', 'lateralDistance', 'phase']
+    });
+
+    // Assert
+    expect(csv.filename).toBe('simulation-sim-1.csv');
+    expect(csv.contentType).toMatch(/^text\/csv/);
+    expect(text(csv.lines).split('\n').slice(0, 3)).toEqual([
+      'time (s),altitude (m),lateralDistance (m),phase',
+      '0,0,5,coast',
+      '1,15,5,coast'
+    ]);
+  });
+
+  it('should decimate while keeping the last point and write JSON Lines', () => {
+    // Act
+    const jsonl = exportTelemetry(simulation, {
+      format: TelemetryExportFormat.JSONL,
+      columns: ['time', 'altitude'],
+      decimate: 3
+    });
+    const [header, ...records] = text(jsonl.lines).trim().split('\n').map(line => JSON.parse(line));
+
+    // Assert
+    expect(header).toEqual({ simulationId: 'sim-1', units: { time: 's', altitude: 'm' } });
+    expect(records).toEqual([{ time: 0, altitude: 0 }, { time: 3, altitude: 15 }, { time: 4, altitude: 0 }]);
+  });
+
+  it('should follow the OpenRocket CSV layout with events and units', () => {
+    // Act
+    const ork = exportTelemetry(simulation, {
+      format: TelemetryExportFormat.ORK_CSV,
+      columns: ['time', 'altitude', 'mass']
+    });
+    const lines = text(ork.lines).trim().split('\n');
+
+    // Assert
+    expect(ork.filename).toBe('simulation-sim-1-openrocket.csv');
+    expect(lines[1]).toBe('# Time (s),Altitude (m),Mass (g)');
+    expect(lines[2]).toBe('0,0,150');
+    expect(lines[4]).toBe('# Event APOGEE occurred at t=2 seconds');
+    expect(lines[5]).toBe('2,20,150');
+    expect(lines[lines.length - 1]).toBe('# Event GROUND_HIT occurred at t=4.2 seconds');
+  });
+
+  it('should reject unknown columns and bad decimation', () => {
+    // Act & Assert
+    expect(() => exportTelemetry(simulation, { format: TelemetryExportFormat.CSV, columns: ['speed'] }))
+      .toThrow("Unknown telemetry column 'speed'");
+    expect(() => exportTelemetry(simulation, { format: TelemetryExportFormat.ORK_CSV, columns: ['phase'] }))
+      .toThrow("Unknown telemetry column 'phase'");
+    expect(() => exportTelemetry(simulation, { format: TelemetryExportFormat.CSV, decimate: 0 }))
+      .toThrow('Decimation');
+    expect(() => exportTelemetry(simulation, { format: 'xlsx' as TelemetryExportFormat }))
+      .toThrow("Unsupported export format 'xlsx'");
+  });
+});
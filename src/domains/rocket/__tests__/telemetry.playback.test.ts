@@ -0,0 +1,79 @@
+/**
+ * Telemetry Playback Tests
+ *
+ * Unit tests for pacing trajectory points at flight time.
+ */
+
+import { TelemetryPlayback, FRAME_INTERVAL } from '../services/telemetry.playback';
+import { TrajectoryPoint, FlightPhase } from '../../../shared/types/rocket';
+
+describe('TelemetryPlayback', () => {
+  const point = (time: number): TrajectoryPoint => ({
+    time,
+    position: { x: 0, y: time * 10, z: 0 },
+    velocity: { x: 0, y: 10, z: 0 },
+    acceleration: { x: 0, y: 0, z: 0 },
+    mass: 0.2,
+    thrust: 0,
+    drag: 0,
+    machNumber: 0,
+    altitude: time * 10,
+    phase: FlightPhase.COAST
+  });
+  const times = (sent: jest.Mock) => sent.mock.calls.flat(2).map((p: TrajectoryPoint) => p.time);
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should send points when their flight time comes', () => {
+    // Arrange
+    const sent = jest.fn();
+    const playback = new TelemetryPlayback(sent);
+
+    // Act
+    playback.push([point(0), point(0.5), point(1), point(2)]);
+    jest.advanceTimersByTime(600);
+
+    // Assert
+    expect(times(sent)).toEqual([0, 0.5]);
+    jest.advanceTimersByTime(1500);
+    expect(times(sent)).toEqual([0, 0.5, 1, 2]);
+  });
+
+  it('should play faster by the speed factor and skip points already queued', async () => {
+    // Arrange
+    const sent = jest.fn();
+    const playback = new TelemetryPlayback(sent, 10);
+    playback.push([point(0), point(1), point(2)]);
+
+    // Act
+    playback.push([point(1), point(2), point(3)]);
+    const finished = playback.finish();
+    jest.advanceTimersByTime(300 + FRAME_INTERVAL);
+    await finished;
+
+    // Assert
+    expect(times(sent)).toEqual([0, 1, 2, 3]);
+  });
+
+  it('should drop remaining points when stopped', () => {
+    // Arrange
+    const sent = jest.fn();
+    const playback = new TelemetryPlayback(sent);
+    playback.push([point(0), point(5)]);
+    jest.advanceTimersByTime(FRAME_INTERVAL);
+
+    // Act
+    playback.stop();
+    jest.advanceTimersByTime(10000);
+
+    // Assert
+    expect(times(sent)).toEqual([0]);
+    expect(() => new TelemetryPlayback(sent, 0)).toThrow('Playback speed');
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Telemetry Socket Tests
+ *
+ * Unit tests for answering WebSocket upgrade requests that cannot be played,
+ * against a local HTTP server.
+ */
+
+import { createServer, request, Server } from 'http';
+import { AddressInfo } from 'net';
+import { attachTelemetrySocket } from '../routes/telemetry.socket';
+import { RocketService } from '../services/rocket.service';
+
+describe('Telemetry Socket', () => {
+  let server: Server;
+  let getLaunchJob: jest.Mock;
+
+  beforeEach(async () => {
+    getLaunchJob = jest.fn();
+    server = createServer();
+    attachTelemetrySocket(server, { getLaunchJob } as unknown as RocketService, async () => ({ id: 'user-1' }));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  // Status code the server answers an upgrade request with
+  const upgrade = (path: string) => new Promise<number>((resolve, reject) => {
+    const { port } = server.address() as AddressInfo;
+    const req = request({
+      host: '127.0.0.1',
+      port,
+      path,
+      headers: {
+        Connection: 'Upgrade',
+        Upgrade: 'websocket',
+        'Sec-WebSocket-Key': 'dGhlIHNhbXBsZSBub25jZQ==',
+        'Sec-WebSocket-Version': '13'
+      }
+    });
+    req.on('response', response => {
+      response.resume();
+      resolve(response.statusCode!);
+    });
+    req.on('upgrade', (_, socket) => {
+      socket.destroy();
+      resolve(101);
+    });
+    req.on('error', reject);
+    req.end();
+  });
+
+  it('should refuse a job id with a malformed escape', async () => {
+    // Act
+    const status = await upgrade('/api/v1/jobs/%E0%A4%A/telemetry?token=t');
+
+    // Assert
+    expect(status).toBe(400);
+    expect(getLaunchJob).not.toHaveBeenCalled();
+  });
+
+  it('should answer 500 when the job cannot be looked up', async () => {
+    // Arrange
+    getLaunchJob.mockRejectedValue(new Error('Database unavailable'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    // Act
+    const status = await upgrade('/api/v1/jobs/job-1/telemetry?token=t');
+
+    // Assert
+    expect(status).toBe(500);
+  });
+
+  it('should answer 404 for a job the user cannot see', async () => {
+    // Arrange
+    getLaunchJob.mockResolvedValue(null);
+
+    // Act & Assert
+    expect(await upgrade('/jobs/job-1/telemetry?token=t')).toBe(404);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Update Merge Tests
+ *
+ * Unit tests for merging a rocket update that started from an older version
+ * with the design as saved since.
+ */
+
+import { mergeRocketUpdate } from '../services/update.merge';
+import {
+  RocketConfig,
+  RocketDesign,
+  RocketRevision,
+  ComplexityLevel
+} from '../../../shared/types/rocket';
+import { testRocketConfig } from './fixtures/rocket.config';
+
+describe('Update Merge', () => {
+  const config: RocketConfig = { ...testRocketConfig, noseCone: { ...testRocketConfig.noseCone, ballastMass: 0.01 } };
+
+  const base: RocketRevision = {
+    id: 'revision-3',
+    rocketId: 'rocket-1',
+    version: 3,
+    userId: 'user-1',
+    name: 'Alpha',
+    description: 'Club build',
+    config,
+    createdAt: new Date('2026-01-01')
+  };
+
+  // The design after someone else saved version 4 over `base`
+  const savedOver = (changed: Partial<RocketDesign>): RocketDesign => ({
+    id: 'rocket-1',
+    userId: 'user-1',
+    name: 'Alpha',
+    description: 'Club build',
+    version: 4,
+    config,
+    metadata: {
+      tags: [],
+      isPublic: false,
+      likes: 0,
+      downloads: 0,
+      complexity: ComplexityLevel.BEGINNER,
+      estimatedCost: 0,
+      buildTime: 0
+    },
+    createdAt: new Date('2026-01-01'),
+    updatedAt: new Date('2026-01-02'),
+    ...changed
+  });
+
+  it('should keep changes made on only one side', () => {
+    // Arrange
+    const current = savedOver({ name: 'Alpha II', config: { ...config, fins: { ...config.fins, span: 0.1 } } });
+    const update = {
+      version: 3,
+      description: 'Club build, painted',
+      config: { ...config, body: { ...config.body, mass: 0.12 } }
+    };
+
+    // Act
+    const { merged, conflicts } = mergeRocketUpdate(base, current, update);
+
+    // Assert
+    expect(conflicts).toEqual([]);
+    expect(merged.name).toBe('Alpha II');
+    expect(merged.description).toBe('Club build, painted');
+    expect(merged.config.fins.span).toBe(0.1);
+    expect(merged.config.body.mass).toBe(0.12);
+  });
+
+  it('should report fields both sides changed differently, taking the update in the merge', () => {
+    // Arrange
+    const current = savedOver({ name: 'Alpha II', config: { ...config, fins: { ...config.fins, span: 0.1, count: 3 } } });
+    const update = {
+      version: 3,
+      name: 'Alpha Mk2',
+      config: { ...config, fins: { ...config.fins, span: 0.09, count: 3 } }
+    };
+
+    // Act
+    const { merged, conflicts } = mergeRocketUpdate(base, current, update);
+
+    // Assert
+    expect(conflicts).toEqual([
+      { path: 'name', base: 'Alpha', yours: 'Alpha Mk2', theirs: 'Alpha II' },
+      { path: 'config.fins.span', base: 0.08, yours: 0.09, theirs: 0.1 }
+    ]);
+    expect(merged.name).toBe('Alpha Mk2');
+    expect(merged.config.fins).toMatchObject({ span: 0.09, count: 3 });
+  });
+
+  it('should report a removed part against a change inside it once', () => {
+    // Arrange
+    const { ballastMass, ...noseCone } = config.noseCone;
+    const current = savedOver({ config: { ...config, noseCone } });
+    const update = {
+      version: 3,
+      config: { ...config, noseCone: { ...config.noseCone, ballastMass: 0.015 } }
+    };
+
+    // Act
+    const { merged, conflicts } = mergeRocketUpdate(base, current, update);
+
+    // Assert
+    expect(ballastMass).toBe(0.01);
+    expect(conflicts).toEqual([{ path: 'config.noseCone.ballastMass', base: 0.01, yours: 0.015 }]);
+    expect(merged.config.noseCone.ballastMass).toBe(0.015);
+  });
+
+  it('should treat every difference as a conflict without the base version', () => {
+    // Arrange
+    const current = savedOver({ config: { ...config, fins: { ...config.fins, span: 0.1 } } });
+    const update = { version: 1, name: 'Alpha', config: { ...config, body: { ...config.body, mass: 0.12 } } };
+
+    // Act
+    const { merged, conflicts } = mergeRocketUpdate(null, current, update);
+
+    // Assert
+    expect(conflicts).toEqual([
+      { path: 'config.body.mass', yours: 0.12, theirs: 0.1 },
+      { path: 'config.fins.span', yours: 0.08, theirs: 0.1 }
+    ]);
+    expect(merged.config.body.mass).toBe(0.12);
+    expect(merged.config.fins.span).toBe(0.08);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Wind Model Tests
+ * 
+ * Unit tests for the wind profile and seeded gust generation.
+ */
+
+import { WindModel } from '../services/wind.model';
+import { createRandom } from '../services/random';
+import { WeatherConditions, WindProfile } from '../../../shared/types/rocket';
+
+describe('Wind model', () => {
+  const weather: WeatherConditions = {
+    temperature: 20,
+    pressure: 101325,
+    humidity: 50,
+    windSpeed: 5,
+    windDirection: 0
+  };
+
+  const horizontalSpeed = (velocity: { x: number; z: number }) => Math.sqrt(velocity.x ** 2 + velocity.z ** 2);
+
+  it('should blow away from the wind direction', () => {
+    // Act
+    const northerly = new WindModel(weather).velocityAt(10, 0);
+    const easterly = new WindModel({ ...weather, windDirection: 90 }).velocityAt(10, 0);
+
+    // Assert - x points north, z points east
+    expect(northerly.x).toBeCloseTo(-5, 9);
+    expect(northerly.z).toBeCloseTo(0, 9);
+    expect(easterly.x).toBeCloseTo(0, 9);
+    expect(easterly.z).toBeCloseTo(-5, 9);
+  });
+
+  it('should follow a power-law profile from the reference height', () => {
+    // Arrange
+    const wind = new WindModel(weather);
+
+    // Assert
+    expect(wind.speedAt(10)).toBeCloseTo(5, 9);
+    expect(wind.speedAt(100)).toBeCloseTo(5 * 10 ** (1 / 7), 9);
+    expect(wind.speedAt(0)).toBeCloseTo(wind.speedAt(1), 9);
+  });
+
+  it('should support logarithmic and constant profiles', () => {
+    // Arrange
+    const logarithmic = new WindModel({ ...weather, windProfile: WindProfile.LOGARITHMIC });
+    const constant = new WindModel({ ...weather, windProfile: WindProfile.CONSTANT });
+
+    // Assert
+    expect(logarithmic.speedAt(10)).toBeCloseTo(5, 9);
+    expect(logarithmic.speedAt(100)).toBeCloseTo(5 * Math.log(100 / 0.03) / Math.log(10 / 0.03), 9);
+    expect(constant.speedAt(500)).toBe(5);
+  });
+
+  it('should stay steady without a gust speed', () => {
+    // Arrange
+    const wind = new WindModel(weather, 42);
+
+    // Assert
+    expect(wind.velocityAt(10, 0)).toEqual(wind.velocityAt(10, 7.3));
+  });
+
+  it('should generate gusts of the requested size', () => {
+    // Arrange
+    const wind = new WindModel({ ...weather, windGustSpeed: 10 }, 42);
+
+    // Act - sample the along-wind component at the reference height
+    const samples: number[] = [];
+    for (let time = 0; time < 600; time += 0.1) {
+      samples.push(-wind.velocityAt(10, time).x);
+    }
+    const mean = samples.reduce((sum, value) => sum + value, 0) / samples.length;
+    const deviation = Math.sqrt(samples.reduce((sum, value) => sum + (value - mean) ** 2, 0) / samples.length);
+
+    // Assert - standard deviation is (gust - mean) / 2.5
+    expect(mean).toBeCloseTo(5, 0);
+    expect(deviation).toBeGreaterThan(1.5);
+    expect(deviation).toBeLessThan(2.5);
+    expect(Math.max(...samples)).toBeGreaterThan(8);
+  });
+
+  it('should reproduce gusts from the same seed', () => {
+    // Arrange
+    const gusty = { ...weather, windGustSpeed: 10 };
+
+    // Act
+    const first = new WindModel(gusty, 7).velocityAt(50, 3.2);
+    const second = new WindModel(gusty, 7).velocityAt(50, 3.2);
+    const other = new WindModel(gusty, 8).velocityAt(50, 3.2);
+
+    // Assert
+    expect(first).toEqual(second);
+    expect(horizontalSpeed(first)).not.toBeCloseTo(horizontalSpeed(other), 6);
+  });
+
+  it('should generate repeatable uniform numbers from a seed', () => {
+    // Act
+    const first = createRandom(123);
+    const second = createRandom(123);
+    const values = Array.from({ length: 1000 }, () => first());
+
+    // Assert
+    expect(values.slice(0, 5)).toEqual(Array.from({ length: 5 }, () => second()));
+    expect(values.every(value => value >= 0 && value < 1)).toBe(true);
+    expect(values.reduce((sum, value) => sum + value, 0) / values.length).toBeCloseTo(0.5, 1);
+  });
+});
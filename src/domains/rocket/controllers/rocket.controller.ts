@@ -6,13 +6,26 @@
  */
 
 import { Request, Response } from 'express';
+import { Readable } from 'stream';
 import { RocketService } from '../services/rocket.service';
 import { 
+  RocketDesign,
   CreateRocketRequest, 
   UpdateRocketRequest, 
   LaunchRocketRequest,
-  ComplexityLevel
+  DispersionRequest,
+  DragCalibrationRequest,
+  OptimizationRequest,
+  SweepRequest,
+  ComplexityLevel,
+  EngineType,
+  MotorFileFormat,
+  TelemetryExportFormat,
+  DesignFileFormat,
+  ComparisonAxis,
+  ImportRocketRequest
 } from '../../../shared/types/rocket';
+import { JobStatus } from '../../../shared/types/common';
 
 export class RocketController {
   constructor(private rocketService: RocketService) {}
@@ -59,6 +72,99 @@ export class RocketController {
     }
   };
 
+  /**
+   * POST /api/v1/rockets/import
+   * Create a rocket from an OpenRocket (.ork) or RockSim (.rkt) design file
+   */
+  importRocket = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required'
+        });
+        return;
+      }
+
+      const data: ImportRocketRequest = req.body;
+      if (!data.content || !data.format) {
+        res.status(400).json({
+          success: false,
+          message: 'File content and format are required',
+          code: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.rocketService.importRocket(userId, data);
+
+      res.status(201).json({
+        success: true,
+        message: result.notes.length > 0
+          ? `Rocket imported with ${result.notes.length} part(s) approximated or dropped`
+          : 'Rocket imported successfully',
+        data: result
+      });
+    } catch (error: any) {
+      console.error('Error importing rocket:', error);
+
+      if (error.message.includes('Validation failed') || error.message.includes('validation failed')) {
+        res.status(400).json({
+          success: false,
+          message: error.message,
+          code: 'VALIDATION_ERROR'
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          message: 'Failed to import rocket',
+          code: 'IMPORT_ERROR'
+        });
+      }
+    }
+  };
+
+  /**
+   * GET /api/v1/rockets/:id/export
+   * Download a rocket design as an OpenRocket (.ork) or RockSim (.rkt) file
+   */
+  exportRocket = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+      const { format = DesignFileFormat.ORK } = req.query;
+
+      const designExport = await this.rocketService.exportRocket(id, userId, format as DesignFileFormat);
+
+      res.setHeader('Content-Type', designExport.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${designExport.filename}"`);
+      res.send(designExport.content);
+    } catch (error: any) {
+      console.error('Error exporting rocket:', error);
+
+      if (error.message.includes('Validation failed')) {
+        res.status(400).json({
+          success: false,
+          message: error.message,
+          code: 'VALIDATION_ERROR'
+        });
+      } else if (error.message.includes('not found')) {
+        res.status(404).json({
+          success: false,
+          message: error.message,
+          code: 'ROCKET_NOT_FOUND'
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          message: 'Failed to export rocket',
+          code: 'EXPORT_ERROR'
+        });
+      }
+    }
+  };
+
   /**
    * GET /api/v1/rockets/:id
    * Get rocket by ID
@@ -79,6 +185,7 @@ export class RocketController {
         return;
       }
 
+      res.setHeader('ETag', `"${rocket.version}"`);
       res.json({
         success: true,
         data: rocket
@@ -95,7 +202,7 @@ export class RocketController {
 
   /**
    * PUT /api/v1/rockets/:id
-   * Update rocket design
+   * Update rocket design, refused with 409 once saved past the edit's version
    */
   updateRocket = async (req: Request, res: Response): Promise<void> => {
     try {
@@ -110,9 +217,42 @@ export class RocketController {
         return;
       }
 
-      const data: UpdateRocketRequest = req.body;
-      const rocket = await this.rocketService.updateRocket(id, userId, data);
+      const data: UpdateRocketRequest = { ...req.body };
+
+      // If-Match names the version the edit started from, as sent in the ETag
+      const ifMatch = req.get('If-Match')?.trim();
+      if (ifMatch && ifMatch !== '*') {
+        const version = Number(ifMatch.replace(/^W\//, '').replace(/"/g, ''));
+        if (!Number.isInteger(version) || version < 1) {
+          res.status(400).json({
+            success: false,
+            message: 'Validation failed: If-Match must be a rocket version',
+            code: 'VALIDATION_ERROR'
+          });
+          return;
+        }
+        data.version = version;
+      }
+
+      let rocket: RocketDesign;
+      try {
+        rocket = await this.rocketService.updateRocket(id, userId, data);
+      } catch (error: any) {
+        if (!error.message.includes('Version conflict')) throw error;
+
+        // Saved since the edit began: send back the current copy to merge with
+        const conflict = await this.rocketService.getUpdateConflict(id, userId, data);
+        res.setHeader('ETag', `"${conflict.current.version}"`);
+        res.status(409).json({
+          success: false,
+          message: `Rocket has been saved since version ${data.version}`,
+          code: 'VERSION_CONFLICT',
+          data: conflict
+        });
+        return;
+      }
 
+      res.setHeader('ETag', `"${rocket.version}"`);
       res.json({
         success: true,
         message: 'Rocket updated successfully',
@@ -143,6 +283,136 @@ export class RocketController {
     }
   };
 
+  /**
+   * GET /api/v1/rockets/:id/versions
+   * List a rocket's saved versions, newest first
+   */
+  getRocketVersions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+
+      const versions = await this.rocketService.getRocketVersions(id, userId);
+
+      res.json({
+        success: true,
+        data: versions
+      });
+    } catch (error: any) {
+      console.error('Error getting rocket versions:', error);
+
+      if (error.message.includes('not found')) {
+        res.status(404).json({
+          success: false,
+          message: error.message,
+          code: 'ROCKET_NOT_FOUND'
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          message: 'Failed to get rocket versions',
+          code: 'FETCH_ERROR'
+        });
+      }
+    }
+  };
+
+  /**
+   * GET /api/v1/rockets/:id/versions/diff?from=&to=
+   * Field-level config changes between two saved versions
+   */
+  diffRocketVersions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+      const { from, to } = req.query;
+
+      const diff = await this.rocketService.diffRocketVersions(id, userId, Number(from), Number(to));
+
+      res.json({
+        success: true,
+        data: diff
+      });
+    } catch (error: any) {
+      console.error('Error comparing rocket versions:', error);
+
+      if (error.message.includes('Validation failed')) {
+        res.status(400).json({
+          success: false,
+          message: error.message,
+          code: 'VALIDATION_ERROR'
+        });
+      } else if (error.message.includes('not found')) {
+        res.status(404).json({
+          success: false,
+          message: error.message,
+          code: 'NOT_FOUND'
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          message: 'Failed to compare rocket versions',
+          code: 'COMPARISON_ERROR'
+        });
+      }
+    }
+  };
+
+  /**
+   * POST /api/v1/rockets/:id/versions/:version/restore
+   * Save an earlier version again as the newest one (owner only)
+   */
+  restoreRocketVersion = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id, version } = req.params;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required'
+        });
+        return;
+      }
+
+      const rocket = await this.rocketService.restoreRocketVersion(id, userId, Number(version));
+
+      res.json({
+        success: true,
+        message: `Version ${version} restored as version ${rocket.version}`,
+        data: rocket
+      });
+    } catch (error: any) {
+      console.error('Error restoring rocket version:', error);
+
+      if (error.message.includes('Validation failed')) {
+        res.status(400).json({
+          success: false,
+          message: error.message,
+          code: 'VALIDATION_ERROR'
+        });
+      } else if (error.message.includes('Access denied')) {
+        res.status(403).json({
+          success: false,
+          message: error.message,
+          code: 'ACCESS_DENIED'
+        });
+      } else if (error.message.includes('not found') || error.message.includes('access denied')) {
+        res.status(404).json({
+          success: false,
+          message: error.message,
+          code: 'NOT_FOUND'
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          message: 'Failed to restore rocket version',
+          code: 'RESTORE_ERROR'
+        });
+      }
+    }
+  };
+
   /**
    * DELETE /api/v1/rockets/:id
    * Delete rocket design
@@ -204,114 +474,883 @@ export class RocketController {
         my: myRockets
       } = req.query;
 
-      const options = {
-        userId: myRockets === 'true' ? userId : undefined,
-        isPublic: isPublic === 'true' ? true : isPublic === 'false' ? false : undefined,
-        complexity: complexity as ComplexityLevel,
-        tags: typeof tags === 'string' ? tags.split(',').map(t => t.trim()) : undefined,
-        search: search as string,
-        page: parseInt(page as string, 10),
-        limit: Math.min(parseInt(limit as string, 10), 100), // Max 100 per page
-        sortBy: sortBy as 'created_at' | 'updated_at' | 'likes' | 'name',
-        sortOrder: sortOrder as 'asc' | 'desc'
-      };
+      const options = {
+        userId: myRockets === 'true' ? userId : undefined,
+        isPublic: isPublic === 'true' ? true : isPublic === 'false' ? false : undefined,
+        complexity: complexity as ComplexityLevel,
+        tags: typeof tags === 'string' ? tags.split(',').map(t => t.trim()) : undefined,
+        search: search as string,
+        page: parseInt(page as string, 10),
+        limit: Math.min(parseInt(limit as string, 10), 100), // Max 100 per page
+        sortBy: sortBy as 'created_at' | 'updated_at' | 'likes' | 'name',
+        sortOrder: sortOrder as 'asc' | 'desc'
+      };
+
+      const result = await this.rocketService.listRockets(options);
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      console.error('Error listing rockets:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to list rockets',
+        code: 'LIST_ERROR'
+      });
+    }
+  };
+
+  /**
+   * POST /api/v1/rockets/:id/launch
+   * Queue a rocket simulation; the job is followed through /jobs/:id
+   */
+  launchRocket = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+      
+      if (!userId) {
+        res.status(401).json({ 
+          success: false, 
+          message: 'Authentication required' 
+        });
+        return;
+      }
+
+      const launchRequest: LaunchRocketRequest = req.body;
+      const job = await this.rocketService.queueLaunch(id, userId, launchRequest);
+
+      res.status(202).location(`/api/v1/jobs/${job.id}`).json({
+        success: true,
+        message: 'Launch queued',
+        data: job
+      });
+    } catch (error) {
+      console.error('Error launching rocket:', error);
+      
+      if (error.message.includes('not found') || error.message.includes('access denied')) {
+        res.status(404).json({
+          success: false,
+          message: error.message,
+          code: 'ROCKET_NOT_FOUND'
+        });
+      } else if (error.message.includes('Cannot launch')) {
+        res.status(403).json({
+          success: false,
+          message: error.message,
+          code: 'LAUNCH_FORBIDDEN'
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          message: 'Failed to launch rocket',
+          code: 'LAUNCH_ERROR'
+        });
+      }
+    }
+  };
+
+  /**
+   * POST /api/v1/rockets/:id/dispersion
+   * Run a Monte Carlo dispersion analysis (owner only)
+   */
+  runDispersion = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required'
+        });
+        return;
+      }
+
+      const dispersionRequest: DispersionRequest = req.body;
+      const analysis = await this.rocketService.runDispersion(id, userId, dispersionRequest);
+
+      res.status(201).json({
+        success: true,
+        message: 'Dispersion analysis completed successfully',
+        data: analysis
+      });
+    } catch (error: any) {
+      console.error('Error running dispersion analysis:', error);
+
+      if (error.message.includes('Validation failed')) {
+        res.status(400).json({
+          success: false,
+          message: error.message,
+          code: 'VALIDATION_ERROR'
+        });
+      } else if (error.message.includes('not found') || error.message.includes('access denied')) {
+        res.status(404).json({
+          success: false,
+          message: error.message,
+          code: 'ROCKET_NOT_FOUND'
+        });
+      } else if (error.message.includes('Cannot launch')) {
+        res.status(403).json({
+          success: false,
+          message: error.message,
+          code: 'LAUNCH_FORBIDDEN'
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          message: 'Failed to run dispersion analysis',
+          code: 'DISPERSION_ERROR'
+        });
+      }
+    }
+  };
+
+  /**
+   * POST /api/v1/rockets/:id/calibrate
+   * Fit the drag multiplier to observed apogees and save it in the design (owner only)
+   */
+  calibrateDrag = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required'
+        });
+        return;
+      }
+
+      const calibrationRequest: DragCalibrationRequest = req.body;
+      const result = await this.rocketService.calibrateDrag(id, userId, calibrationRequest);
+
+      res.json({
+        success: true,
+        message: `Drag multiplier set to ${result.calibration.dragMultiplier}`,
+        data: result
+      });
+    } catch (error: any) {
+      console.error('Error calibrating drag:', error);
+
+      if (error.message.includes('Version conflict')) {
+        res.status(409).json({
+          success: false,
+          message: 'Rocket was saved during the calibration; calibrate the new version again',
+          code: 'VERSION_CONFLICT'
+        });
+      } else if (error.message.includes('Validation failed') || error.message.includes('validation failed')) {
+        res.status(400).json({
+          success: false,
+          message: error.message,
+          code: 'VALIDATION_ERROR'
+        });
+      } else if (error.message.includes('Access denied')) {
+        res.status(403).json({
+          success: false,
+          message: error.message,
+          code: 'ACCESS_DENIED'
+        });
+      } else if (error.message.includes('not found')) {
+        res.status(404).json({
+          success: false,
+          message: error.message,
+          code: 'ROCKET_NOT_FOUND'
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          message: 'Failed to calibrate drag',
+          code: 'CALIBRATION_ERROR'
+        });
+      }
+    }
+  };
+
+  /**
+   * POST /api/v1/rockets/:id/sweep
+   * Vary one or two config fields and return the flight metrics at each point (owner only)
+   */
+  runSweep = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required'
+        });
+        return;
+      }
+
+      const sweepRequest: SweepRequest = req.body;
+      const sweep = await this.rocketService.runSweep(id, userId, sweepRequest);
+
+      res.json({
+        success: true,
+        message: `Swept ${sweep.points.length} points`,
+        data: sweep
+      });
+    } catch (error: any) {
+      console.error('Error running sweep:', error);
+
+      if (error.message.includes('Validation failed')) {
+        res.status(400).json({
+          success: false,
+          message: error.message,
+          code: 'VALIDATION_ERROR'
+        });
+      } else if (error.message.includes('not found') || error.message.includes('access denied')) {
+        res.status(404).json({
+          success: false,
+          message: error.message,
+          code: 'ROCKET_NOT_FOUND'
+        });
+      } else if (error.message.includes('Cannot launch')) {
+        res.status(403).json({
+          success: false,
+          message: error.message,
+          code: 'LAUNCH_FORBIDDEN'
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          message: 'Failed to run sweep',
+          code: 'SWEEP_ERROR'
+        });
+      }
+    }
+  };
+
+  /**
+   * POST /api/v1/rockets/:id/optimize
+   * Queue a design optimization (owner only); the job is followed through /optimizations/:id
+   */
+  optimizeRocket = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required'
+        });
+        return;
+      }
+
+      const optimizationRequest: OptimizationRequest = req.body;
+      const job = await this.rocketService.queueOptimization(id, userId, optimizationRequest);
+
+      res.status(202).location(`/api/v1/optimizations/${job.id}`).json({
+        success: true,
+        message: 'Optimization queued',
+        data: job
+      });
+    } catch (error: any) {
+      console.error('Error queueing optimization:', error);
+
+      if (error.message.includes('Validation failed')) {
+        res.status(400).json({
+          success: false,
+          message: error.message,
+          code: 'VALIDATION_ERROR'
+        });
+      } else if (error.message.includes('not found') || error.message.includes('access denied')) {
+        res.status(404).json({
+          success: false,
+          message: error.message,
+          code: 'ROCKET_NOT_FOUND'
+        });
+      } else if (error.message.includes('Cannot launch')) {
+        res.status(403).json({
+          success: false,
+          message: error.message,
+          code: 'LAUNCH_FORBIDDEN'
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          message: 'Failed to queue optimization',
+          code: 'OPTIMIZATION_ERROR'
+        });
+      }
+    }
+  };
+
+  /**
+   * GET /api/v1/rockets/:id/simulations
+   * Get rocket simulation history
+   */
+  getRocketSimulations = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+      const {
+        page = '1',
+        limit = '20',
+        telemetry = 'false'
+      } = req.query;
+
+      const options = {
+        page: parseInt(page as string, 10),
+        limit: Math.min(parseInt(limit as string, 10), 50), // Max 50 per page
+        includeTelemetry: telemetry === 'true'
+      };
+
+      const result = await this.rocketService.getRocketSimulations(id, userId, options);
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      console.error('Error getting rocket simulations:', error);
+      
+      if (error.message.includes('not found') || error.message.includes('access denied')) {
+        res.status(404).json({
+          success: false,
+          message: error.message,
+          code: 'ROCKET_NOT_FOUND'
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          message: 'Failed to get rocket simulations',
+          code: 'SIMULATIONS_ERROR'
+        });
+      }
+    }
+  };
+
+  /**
+   * GET /api/v1/simulations/:id
+   * Get simulation by ID
+   */
+  getSimulation = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+      const { telemetry = 'false' } = req.query;
+
+      if (!userId) {
+        res.status(401).json({ 
+          success: false, 
+          message: 'Authentication required' 
+        });
+        return;
+      }
+
+      const includeTelemetry = telemetry === 'true';
+      const simulation = await this.rocketService.getSimulation(id, userId, includeTelemetry);
+
+      if (!simulation) {
+        res.status(404).json({
+          success: false,
+          message: 'Simulation not found',
+          code: 'SIMULATION_NOT_FOUND'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: simulation
+      });
+    } catch (error) {
+      console.error('Error getting simulation:', error);
+      
+      if (error.message.includes('Access denied')) {
+        res.status(403).json({
+          success: false,
+          message: error.message,
+          code: 'ACCESS_DENIED'
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          message: 'Failed to get simulation',
+          code: 'SIMULATION_ERROR'
+        });
+      }
+    }
+  };
+
+  /**
+   * GET /api/v1/jobs/:id
+   * Get the status of a queued launch (owner only)
+   */
+  getLaunchJob = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required'
+        });
+        return;
+      }
+
+      const job = await this.rocketService.getLaunchJob(id, userId);
+
+      if (!job) {
+        res.status(404).json({
+          success: false,
+          message: 'Job not found',
+          code: 'JOB_NOT_FOUND'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: job
+      });
+    } catch (error: any) {
+      console.error('Error getting launch job:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to get job',
+        code: 'JOB_ERROR'
+      });
+    }
+  };
+
+  /**
+   * GET /api/v1/jobs/:id/events
+   * Server-sent events for a queued launch: `status` first, then `progress`
+   * with interim telemetry, and finally `completed` (the simulation) or `failed`
+   */
+  streamLaunchJob = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required'
+        });
+        return;
+      }
+
+      const send = (event: string, data: any) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+      const watch = await this.rocketService.watchLaunchJob(id, userId, event => {
+        switch (event.type) {
+          case 'started':
+            send('status', { status: JobStatus.RUNNING });
+            break;
+          case 'progress':
+            send('progress', event.progress);
+            break;
+          case 'completed':
+            send('completed', event.result);
+            res.end();
+            break;
+          case 'failed':
+            send('failed', { message: event.error });
+            res.end();
+            break;
+        }
+      });
+
+      if (!watch) {
+        res.status(404).json({
+          success: false,
+          message: 'Job not found',
+          code: 'JOB_NOT_FOUND'
+        });
+        return;
+      }
+
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive'
+      });
+      send('status', watch.job);
+      res.on('close', watch.unsubscribe);
+
+      // A job that finished before the stream opened has nothing more to send
+      if (watch.job.status === JobStatus.COMPLETED || watch.job.status === JobStatus.FAILED) {
+        res.end();
+      }
+    } catch (error: any) {
+      console.error('Error streaming launch job:', error);
+      if (!res.headersSent) {
+        res.status(500).json({
+          success: false,
+          message: 'Failed to stream job',
+          code: 'JOB_ERROR'
+        });
+      } else {
+        res.end();
+      }
+    }
+  };
+
+  /**
+   * GET /api/v1/optimizations/:id
+   * Get the status of a queued optimization, with its candidates once completed (owner only)
+   */
+  getOptimizationJob = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required'
+        });
+        return;
+      }
+
+      const job = await this.rocketService.getOptimizationJob(id, userId);
+
+      if (!job) {
+        res.status(404).json({
+          success: false,
+          message: 'Job not found',
+          code: 'JOB_NOT_FOUND'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: job
+      });
+    } catch (error: any) {
+      console.error('Error getting optimization job:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to get job',
+        code: 'JOB_ERROR'
+      });
+    }
+  };
+
+  /**
+   * GET /api/v1/optimizations/:id/events
+   * Server-sent events for a queued optimization: `status` first, `progress`
+   * after each simulation, and finally `completed` (the result) or `failed`
+   */
+  streamOptimizationJob = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required'
+        });
+        return;
+      }
+
+      const send = (event: string, data: any) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+      const watch = await this.rocketService.watchOptimizationJob(id, userId, event => {
+        switch (event.type) {
+          case 'started':
+            send('status', { status: JobStatus.RUNNING });
+            break;
+          case 'progress':
+            send('progress', event.progress);
+            break;
+          case 'completed':
+            send('completed', event.result);
+            res.end();
+            break;
+          case 'failed':
+            send('failed', { message: event.error });
+            res.end();
+            break;
+        }
+      });
+
+      if (!watch) {
+        res.status(404).json({
+          success: false,
+          message: 'Job not found',
+          code: 'JOB_NOT_FOUND'
+        });
+        return;
+      }
+
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive'
+      });
+      send('status', watch.job);
+      res.on('close', watch.unsubscribe);
+
+      // A job that finished before the stream opened has nothing more to send
+      if (watch.job.status === JobStatus.COMPLETED || watch.job.status === JobStatus.FAILED) {
+        res.end();
+      }
+    } catch (error: any) {
+      console.error('Error streaming optimization job:', error);
+      if (!res.headersSent) {
+        res.status(500).json({
+          success: false,
+          message: 'Failed to stream job',
+          code: 'JOB_ERROR'
+        });
+      } else {
+        res.end();
+      }
+    }
+  };
+
+  /**
+   * GET /api/v1/simulations/:id/export
+   * Download a simulation's telemetry (`format=csv|jsonl|ork-csv`, optional
+   * comma-separated `columns` and `decimate`)
+   */
+  exportSimulation = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+      const { format = TelemetryExportFormat.CSV, columns, decimate = '1' } = req.query;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required'
+        });
+        return;
+      }
+
+      const telemetryExport = await this.rocketService.exportSimulation(id, userId, {
+        format: format as TelemetryExportFormat,
+        columns: columns ? (columns as string).split(',').map(column => column.trim()) : undefined,
+        decimate: Number(decimate)
+      });
+
+      res.setHeader('Content-Type', telemetryExport.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${telemetryExport.filename}"`);
+      Readable.from(telemetryExport.lines).pipe(res);
+    } catch (error: any) {
+      console.error('Error exporting simulation:', error);
+
+      if (error.message.includes('Validation failed')) {
+        res.status(400).json({
+          success: false,
+          message: error.message,
+          code: 'VALIDATION_ERROR'
+        });
+      } else if (error.message.includes('not found')) {
+        res.status(404).json({
+          success: false,
+          message: error.message,
+          code: 'SIMULATION_NOT_FOUND'
+        });
+      } else if (error.message.includes('Access denied')) {
+        res.status(403).json({
+          success: false,
+          message: error.message,
+          code: 'ACCESS_DENIED'
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          message: 'Failed to export simulation',
+          code: 'EXPORT_ERROR'
+        });
+      }
+    }
+  };
+
+  /**
+   * GET /api/v1/simulations/compare?ids=a,b,c&axis=time|altitude
+   * Overlay several simulations and list their metric differences from the first
+   */
+  compareSimulations = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.id;
+      const { ids = '', axis } = req.query;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required'
+        });
+        return;
+      }
+
+      const comparison = await this.rocketService.compareSimulations(
+        (ids as string).split(',').map(id => id.trim()).filter(Boolean),
+        userId,
+        axis as ComparisonAxis | undefined
+      );
+
+      res.json({
+        success: true,
+        data: comparison
+      });
+    } catch (error: any) {
+      console.error('Error comparing simulations:', error);
+
+      if (error.message.includes('Validation failed')) {
+        res.status(400).json({
+          success: false,
+          message: error.message,
+          code: 'VALIDATION_ERROR'
+        });
+      } else if (error.message.includes('Access denied')) {
+        res.status(403).json({
+          success: false,
+          message: error.message,
+          code: 'ACCESS_DENIED'
+        });
+      } else if (error.message.includes('not found')) {
+        res.status(404).json({
+          success: false,
+          message: error.message,
+          code: 'NOT_FOUND'
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          message: 'Failed to compare simulations',
+          code: 'COMPARISON_ERROR'
+        });
+      }
+    }
+  };
+
+  /**
+   * POST /api/v1/simulations/:id/replay
+   * Re-run a simulation and diff the results against the stored ones
+   */
+  replaySimulation = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required'
+        });
+        return;
+      }
 
-      const result = await this.rocketService.listRockets(options);
+      const replay = await this.rocketService.replaySimulation(id, userId);
 
       res.json({
         success: true,
-        data: result
-      });
-    } catch (error) {
-      console.error('Error listing rockets:', error);
-      res.status(500).json({
-        success: false,
-        message: 'Failed to list rockets',
-        code: 'LIST_ERROR'
+        data: replay
       });
+    } catch (error: any) {
+      console.error('Error replaying simulation:', error);
+
+      if (error.message.includes('Access denied')) {
+        res.status(403).json({
+          success: false,
+          message: error.message,
+          code: 'ACCESS_DENIED'
+        });
+      } else if (error.message.includes('not found')) {
+        res.status(404).json({
+          success: false,
+          message: error.message,
+          code: 'SIMULATION_NOT_FOUND'
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          message: 'Failed to replay simulation',
+          code: 'REPLAY_ERROR'
+        });
+      }
     }
   };
 
   /**
-   * POST /api/v1/rockets/:id/launch
-   * Launch rocket simulation
+   * POST /api/v1/rockets/:id/flights
+   * Attach an altimeter CSV log of a real flight to a rocket (owner only)
    */
-  launchRocket = async (req: Request, res: Response): Promise<void> => {
+  importFlightLog = async (req: Request, res: Response): Promise<void> => {
     try {
       const { id } = req.params;
       const userId = req.user?.id;
-      
+
       if (!userId) {
-        res.status(401).json({ 
-          success: false, 
-          message: 'Authentication required' 
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required'
         });
         return;
       }
 
-      const launchRequest: LaunchRocketRequest = req.body;
-      const simulation = await this.rocketService.launchRocket(id, userId, launchRequest);
+      const flightLog = await this.rocketService.importFlightLog(id, userId, req.body);
 
       res.status(201).json({
         success: true,
-        message: 'Rocket launched successfully',
-        data: simulation
+        message: `Flight log imported as ${flightLog.format}`,
+        data: flightLog
       });
-    } catch (error) {
-      console.error('Error launching rocket:', error);
-      
-      if (error.message.includes('not found') || error.message.includes('access denied')) {
+    } catch (error: any) {
+      console.error('Error importing flight log:', error);
+
+      if (error.message.includes('Validation failed')) {
+        res.status(400).json({
+          success: false,
+          message: error.message,
+          code: 'VALIDATION_ERROR'
+        });
+      } else if (error.message.includes('not found')) {
         res.status(404).json({
           success: false,
           message: error.message,
           code: 'ROCKET_NOT_FOUND'
         });
-      } else if (error.message.includes('Cannot launch')) {
+      } else if (error.message.includes('Access denied')) {
         res.status(403).json({
           success: false,
           message: error.message,
-          code: 'LAUNCH_FORBIDDEN'
+          code: 'ACCESS_DENIED'
         });
       } else {
         res.status(500).json({
           success: false,
-          message: 'Failed to launch rocket',
-          code: 'LAUNCH_ERROR'
+          message: 'Failed to import flight log',
+          code: 'IMPORT_ERROR'
         });
       }
     }
   };
 
   /**
-   * GET /api/v1/rockets/:id/simulations
-   * Get rocket simulation history
+   * GET /api/v1/rockets/:id/flights
+   * List a rocket's flight logs (summaries without samples)
    */
-  getRocketSimulations = async (req: Request, res: Response): Promise<void> => {
+  getRocketFlightLogs = async (req: Request, res: Response): Promise<void> => {
     try {
       const { id } = req.params;
       const userId = req.user?.id;
-      const {
-        page = '1',
-        limit = '20',
-        telemetry = 'false'
-      } = req.query;
-
-      const options = {
-        page: parseInt(page as string, 10),
-        limit: Math.min(parseInt(limit as string, 10), 50), // Max 50 per page
-        includeTelemetry: telemetry === 'true'
-      };
 
-      const result = await this.rocketService.getRocketSimulations(id, userId, options);
+      const flightLogs = await this.rocketService.getRocketFlightLogs(id, userId);
 
       res.json({
         success: true,
-        data: result
+        data: flightLogs
       });
-    } catch (error) {
-      console.error('Error getting rocket simulations:', error);
-      
-      if (error.message.includes('not found') || error.message.includes('access denied')) {
+    } catch (error: any) {
+      console.error('Error getting flight logs:', error);
+
+      if (error.message.includes('not found')) {
         res.status(404).json({
           success: false,
           message: error.message,
@@ -320,50 +1359,47 @@ export class RocketController {
       } else {
         res.status(500).json({
           success: false,
-          message: 'Failed to get rocket simulations',
-          code: 'SIMULATIONS_ERROR'
+          message: 'Failed to get flight logs',
+          code: 'FETCH_ERROR'
         });
       }
     }
   };
 
   /**
-   * GET /api/v1/simulations/:id
-   * Get simulation by ID
+   * GET /api/v1/flights/:id
+   * Get a flight log with its samples (owner only or public rocket)
    */
-  getSimulation = async (req: Request, res: Response): Promise<void> => {
+  getFlightLog = async (req: Request, res: Response): Promise<void> => {
     try {
       const { id } = req.params;
       const userId = req.user?.id;
-      const { telemetry = 'false' } = req.query;
 
       if (!userId) {
-        res.status(401).json({ 
-          success: false, 
-          message: 'Authentication required' 
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required'
         });
         return;
       }
 
-      const includeTelemetry = telemetry === 'true';
-      const simulation = await this.rocketService.getSimulation(id, userId, includeTelemetry);
-
-      if (!simulation) {
+      const flightLog = await this.rocketService.getFlightLog(id, userId);
+      if (!flightLog) {
         res.status(404).json({
           success: false,
-          message: 'Simulation not found',
-          code: 'SIMULATION_NOT_FOUND'
+          message: 'Flight log not found',
+          code: 'FLIGHT_LOG_NOT_FOUND'
         });
         return;
       }
 
       res.json({
         success: true,
-        data: simulation
+        data: flightLog
       });
-    } catch (error) {
-      console.error('Error getting simulation:', error);
-      
+    } catch (error: any) {
+      console.error('Error getting flight log:', error);
+
       if (error.message.includes('Access denied')) {
         res.status(403).json({
           success: false,
@@ -373,8 +1409,106 @@ export class RocketController {
       } else {
         res.status(500).json({
           success: false,
-          message: 'Failed to get simulation',
-          code: 'SIMULATION_ERROR'
+          message: 'Failed to get flight log',
+          code: 'FETCH_ERROR'
+        });
+      }
+    }
+  };
+
+  /**
+   * GET /api/v1/flights/:id/compare
+   * Compare a logged flight with a simulation (`simulationId`, the rocket's
+   * latest simulation by default): apogee delta, RMS altitude error and an overlay
+   */
+  compareFlightLog = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+      const { simulationId } = req.query;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required'
+        });
+        return;
+      }
+
+      const comparison = await this.rocketService.compareFlightLog(id, userId, simulationId as string | undefined);
+
+      res.json({
+        success: true,
+        data: comparison
+      });
+    } catch (error: any) {
+      console.error('Error comparing flight log:', error);
+
+      if (error.message.includes('Validation failed')) {
+        res.status(400).json({
+          success: false,
+          message: error.message,
+          code: 'VALIDATION_ERROR'
+        });
+      } else if (error.message.includes('Access denied')) {
+        res.status(403).json({
+          success: false,
+          message: error.message,
+          code: 'ACCESS_DENIED'
+        });
+      } else if (error.message.includes('not found')) {
+        res.status(404).json({
+          success: false,
+          message: error.message,
+          code: 'NOT_FOUND'
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          message: 'Failed to compare flight log',
+          code: 'COMPARISON_ERROR'
+        });
+      }
+    }
+  };
+
+  /**
+   * DELETE /api/v1/flights/:id
+   * Delete a flight log (owner only)
+   */
+  deleteFlightLog = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required'
+        });
+        return;
+      }
+
+      await this.rocketService.deleteFlightLog(id, userId);
+
+      res.json({
+        success: true,
+        message: 'Flight log deleted successfully'
+      });
+    } catch (error: any) {
+      console.error('Error deleting flight log:', error);
+
+      if (error.message.includes('not found')) {
+        res.status(404).json({
+          success: false,
+          message: error.message,
+          code: 'FLIGHT_LOG_NOT_FOUND'
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          message: 'Failed to delete flight log',
+          code: 'DELETE_ERROR'
         });
       }
     }
@@ -621,7 +1755,7 @@ export class RocketController {
   estimatePerformance = async (req: Request, res: Response): Promise<void> => {
     try {
       const config = req.body;
-      const estimate = await this.rocketService.estimatePerformance(config);
+      const estimate = await this.rocketService.estimatePerformance(config, req.user?.id);
 
       res.json({
         success: true,
@@ -646,6 +1780,116 @@ export class RocketController {
     }
   };
 
+  /**
+   * GET /api/v1/rockets/motors
+   * List motors in the motor database
+   */
+  listMotors = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { impulseClass, manufacturer, diameter } = req.query;
+      const motors = await this.rocketService.listMotors({
+        impulseClass: impulseClass as EngineType | undefined,
+        manufacturer: manufacturer as string | undefined,
+        diameter: diameter ? parseFloat(diameter as string) : undefined
+      }, req.user?.id);
+
+      res.json({
+        success: true,
+        data: motors
+      });
+    } catch (error) {
+      console.error('Error listing motors:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to list motors',
+        code: 'MOTOR_LIST_ERROR'
+      });
+    }
+  };
+
+  /**
+   * GET /api/v1/rockets/motors/:designation
+   * Get a motor with its thrust curve
+   */
+  getMotor = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { designation } = req.params;
+      const motor = await this.rocketService.getMotor(designation, req.user?.id);
+
+      if (!motor) {
+        res.status(404).json({
+          success: false,
+          message: 'Motor not found',
+          code: 'MOTOR_NOT_FOUND'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: motor
+      });
+    } catch (error) {
+      console.error('Error getting motor:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to get motor',
+        code: 'RETRIEVAL_ERROR'
+      });
+    }
+  };
+
+  /**
+   * POST /api/v1/rockets/motors/import
+   * Import motors from a RASP .eng or RockSim .rse file
+   */
+  importMotors = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ 
+          success: false, 
+          message: 'Authentication required' 
+        });
+        return;
+      }
+
+      const { content, format } = req.body as { content?: string; format?: MotorFileFormat };
+      if (!content || !format) {
+        res.status(400).json({
+          success: false,
+          message: 'File content and format are required',
+          code: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const motors = await this.rocketService.importMotors(userId, content, format);
+
+      res.status(201).json({
+        success: true,
+        message: `Imported ${motors.length} motor(s)`,
+        data: motors
+      });
+    } catch (error: any) {
+      console.error('Error importing motors:', error);
+
+      if (error.message.includes('Validation failed')) {
+        res.status(400).json({
+          success: false,
+          message: error.message,
+          code: 'VALIDATION_ERROR'
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          message: 'Failed to import motors',
+          code: 'MOTOR_IMPORT_ERROR'
+        });
+      }
+    }
+  };
+
   /**
    * GET /api/v1/users/me/stats
    * Get current user's statistics
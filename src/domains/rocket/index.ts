@@ -5,6 +5,17 @@
  * Exports all public interfaces and factory functions for integration.
  */
 
+import { Server } from 'http';
+import { RocketService } from './services/rocket.service';
+import { ValidationService } from './services/validation.service';
+import { MotorDatabase } from './services/motor.database';
+import { createWorkerRunner } from './services/simulation.runner';
+import { RocketRepository } from './repositories/rocket.repository';
+import { SimulationRepository } from './repositories/simulation.repository';
+import { RocketController } from './controllers/rocket.controller';
+import { createRocketRoutes } from './routes/rocket.routes';
+import { attachTelemetrySocket, SocketAuthenticator } from './routes/telemetry.socket';
+
 // Types
 export * from '../../shared/types/rocket';
 
@@ -12,6 +23,17 @@ export * from '../../shared/types/rocket';
 export { RocketService } from './services/rocket.service';
 export { SimulationEngine } from './services/simulation.engine';
 export { ValidationService as RocketValidationService } from './services/validation.service';
+export { MotorDatabase } from './services/motor.database';
+export { runSimulation, createWorkerRunner } from './services/simulation.runner';
+export { TelemetryPlayback } from './services/telemetry.playback';
+export { importDesign, exportDesign } from './services/design.interchange';
+export { parseFlightLog, compareFlight } from './services/flight.log';
+export { calibrateDragMultiplier } from './services/drag.calibration';
+export { optimizeDesign } from './services/design.optimizer';
+export { runParameterSweep } from './services/parameter.sweep';
+export { compareSimulations } from './services/simulation.comparison';
+export { diffConfigs } from './services/config.diff';
+export { mergeRocketUpdate } from './services/update.merge';
 
 // Repositories
 export { RocketRepository } from './repositories/rocket.repository';
@@ -27,6 +49,8 @@ export {
   rocketRateLimits,
   rocketValidationMiddleware
 } from './routes/rocket.routes';
+export { attachTelemetrySocket } from './routes/telemetry.socket';
+export type { SocketAuthenticator } from './routes/telemetry.socket';
 
 // Factory functions for dependency injection
 export function createRocketModule(dependencies: {
@@ -40,12 +64,15 @@ export function createRocketModule(dependencies: {
   const simulationRepository = new SimulationRepository(databaseService);
   
   // Create services
-  const validationService = new ValidationService();
+  const motorDatabase = new MotorDatabase();
+  const validationService = new ValidationService(motorDatabase);
   const rocketService = new RocketService(
     rocketRepository,
     simulationRepository,
     validationService,
-    cacheService
+    cacheService,
+    motorDatabase,
+    createWorkerRunner()
   );
   
   // Create controller
@@ -59,12 +86,15 @@ export function createRocketModule(dependencies: {
     // Services
     rocketService,
     validationService,
+    motorDatabase,
     
     // Controller
     rocketController,
     
     // Utility functions
     createRoutes: (authMiddleware: any) => 
-      createRocketRoutes(databaseService, cacheService, authMiddleware)
+      createRocketRoutes(databaseService, cacheService, authMiddleware, rocketService),
+    attachTelemetrySocket: (server: Server, authenticate: SocketAuthenticator) =>
+      attachTelemetrySocket(server, rocketService, authenticate)
   };
 }
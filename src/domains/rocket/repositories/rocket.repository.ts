@@ -5,12 +5,15 @@
  * established in the auth module.
  */
 
+import { PoolClient } from 'pg';
 import { DatabaseService } from '../../../infrastructure/database/database.service';
 import { 
   RocketDesign, 
+  RocketRevision,
   CreateRocketRequest, 
   UpdateRocketRequest,
   RocketListResponse,
+  MotorDefinition,
   ROCKET_CONSTRAINTS 
 } from '../../../shared/types/rocket';
 
@@ -45,11 +48,23 @@ export class RocketRepository {
       data.metadata?.buildTime || 0
     ];
 
+    const client = await this.db.getClient();
+
     try {
-      const result = await this.db.query(query, values);
-      return this.mapRowToRocket(result.rows[0]);
+      await client.query('BEGIN');
+
+      const result = await client.query(query, values);
+      const rocket = this.mapRowToRocket(result.rows[0]);
+      await this.insertRevision(client, rocket, userId);
+
+      await client.query('COMMIT');
+
+      return rocket;
     } catch (error) {
+      await client.query('ROLLBACK');
       throw new Error(`Failed to create rocket: ${error.message}`);
+    } finally {
+      client.release();
     }
   }
 
@@ -86,9 +101,15 @@ export class RocketRepository {
   }
 
   /**
-   * Update rocket design (creates new version)
+   * Update rocket design (creates new version, kept as a revision). Given
+   * `data.version`, the update only applies while the rocket is still at it.
    */
-  async update(id: string, userId: string, data: UpdateRocketRequest): Promise<RocketDesign> {
+  async update(
+    id: string,
+    userId: string,
+    data: UpdateRocketRequest,
+    restoredFrom?: number
+  ): Promise<RocketDesign> {
     // First verify ownership
     const existing = await this.findById(id, userId);
     if (!existing || existing.userId !== userId) {
@@ -109,6 +130,7 @@ export class RocketRepository {
         build_time = COALESCE($10, build_time),
         updated_at = CURRENT_TIMESTAMP
       WHERE id = $1 AND user_id = $2
+        AND ($11::integer IS NULL OR version = $11)
       RETURNING 
         id, user_id, name, description, version, config,
         thumbnail, tags, is_public, likes, downloads, complexity,
@@ -125,14 +147,73 @@ export class RocketRepository {
       data.metadata?.isPublic,
       data.metadata?.complexity,
       data.metadata?.estimatedCost,
-      data.metadata?.buildTime
+      data.metadata?.buildTime,
+      data.version ?? null
     ];
 
+    const client = await this.db.getClient();
+
     try {
-      const result = await this.db.query(query, values);
-      return this.mapRowToRocket(result.rows[0]);
+      await client.query('BEGIN');
+
+      // Saved again since the update's version was read
+      const result = await client.query(query, values);
+      if (result.rows.length === 0) {
+        throw new Error(`Version conflict: rocket is not at version ${data.version}`);
+      }
+
+      const rocket = this.mapRowToRocket(result.rows[0]);
+      await this.insertRevision(client, rocket, userId, restoredFrom);
+
+      await client.query('COMMIT');
+
+      return rocket;
     } catch (error) {
+      await client.query('ROLLBACK');
       throw new Error(`Failed to update rocket: ${error.message}`);
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * List a rocket's revisions, newest first
+   */
+  async findRevisions(rocketId: string): Promise<RocketRevision[]> {
+    const query = `
+      SELECT 
+        id, rocket_id, version, user_id, name, description,
+        config, restored_from, created_at
+      FROM rocket_revisions
+      WHERE rocket_id = $1
+      ORDER BY version DESC
+    `;
+
+    try {
+      const result = await this.db.query(query, [rocketId]);
+      return result.rows.map(row => this.mapRowToRevision(row));
+    } catch (error: any) {
+      throw new Error(`Failed to find rocket revisions: ${error.message}`);
+    }
+  }
+
+  /**
+   * Find one revision of a rocket
+   */
+  async findRevision(rocketId: string, version: number): Promise<RocketRevision | null> {
+    const query = `
+      SELECT 
+        id, rocket_id, version, user_id, name, description,
+        config, restored_from, created_at
+      FROM rocket_revisions
+      WHERE rocket_id = $1 AND version = $2
+    `;
+
+    try {
+      const result = await this.db.query(query, [rocketId, version]);
+      return result.rows.length > 0 ? this.mapRowToRevision(result.rows[0]) : null;
+    } catch (error: any) {
+      throw new Error(`Failed to find rocket revision: ${error.message}`);
     }
   }
 
@@ -336,6 +417,101 @@ export class RocketRepository {
     }
   }
 
+  /**
+   * List the motors a user has imported
+   */
+  async findImportedMotors(userId: string): Promise<MotorDefinition[]> {
+    const query = `
+      SELECT definition
+      FROM imported_motors
+      WHERE user_id = $1
+      ORDER BY designation
+    `;
+
+    try {
+      const result = await this.db.query(query, [userId]);
+      return result.rows.map(row =>
+        typeof row.definition === 'string' ? JSON.parse(row.definition) : row.definition
+      );
+    } catch (error: any) {
+      throw new Error(`Failed to find imported motors: ${error.message}`);
+    }
+  }
+
+  /**
+   * Save motors a user imported, replacing their earlier imports of the same
+   * designation
+   */
+  async saveImportedMotors(userId: string, motors: MotorDefinition[]): Promise<void> {
+    const query = `
+      INSERT INTO imported_motors (user_id, designation, definition)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (user_id, designation)
+      DO UPDATE SET definition = EXCLUDED.definition, updated_at = CURRENT_TIMESTAMP
+    `;
+
+    const client = await this.db.getClient();
+
+    try {
+      await client.query('BEGIN');
+
+      for (const motor of motors) {
+        await client.query(query, [userId, motor.designation.trim().toUpperCase(), JSON.stringify(motor)]);
+      }
+
+      await client.query('COMMIT');
+    } catch (error: any) {
+      await client.query('ROLLBACK');
+      throw new Error(`Failed to save imported motors: ${error.message}`);
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Append the rocket as saved to its history
+   */
+  private async insertRevision(
+    client: PoolClient,
+    rocket: RocketDesign,
+    userId: string,
+    restoredFrom?: number
+  ): Promise<void> {
+    const query = `
+      INSERT INTO rocket_revisions (
+        rocket_id, version, user_id, name, description, config, restored_from
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+    `;
+
+    await client.query(query, [
+      rocket.id,
+      rocket.version,
+      userId,
+      rocket.name,
+      rocket.description || null,
+      JSON.stringify(rocket.config),
+      restoredFrom ?? null
+    ]);
+  }
+
+  /**
+   * Map database row to RocketRevision object
+   */
+  private mapRowToRevision(row: any): RocketRevision {
+    return {
+      id: row.id,
+      rocketId: row.rocket_id,
+      version: row.version,
+      userId: row.user_id,
+      name: row.name,
+      description: row.description || undefined,
+      config: typeof row.config === 'string' ? JSON.parse(row.config) : row.config,
+      restoredFrom: row.restored_from ?? undefined,
+      createdAt: row.created_at
+    };
+  }
+
   /**
    * Map database row to RocketDesign object
    */
@@ -9,11 +9,20 @@ import {
   SimulationResult, 
   SimulationListResponse,
   TrajectoryPoint,
+  FlightEvent,
   LaunchOptions,
   WeatherConditions,
-  FlightResults
+  FlightResults,
+  DispersionAnalysis,
+  FlightLog
 } from '../../../shared/types/rocket';
 
+// Flight log columns other than the samples
+const FLIGHT_LOG_COLUMNS = `
+  id, rocket_id, user_id, name, format, flown_at, velocity_source,
+  apogee, apogee_time, max_velocity, created_at
+`;
+
 export class SimulationRepository {
   constructor(private db: DatabaseService) {}
 
@@ -26,8 +35,13 @@ export class SimulationRepository {
     config: any; // RocketConfig snapshot
     results: FlightResults;
     telemetry: TrajectoryPoint[];
+    events?: FlightEvent[];
     weather: WeatherConditions;
     launchOptions?: LaunchOptions;
+    seed?: number;
+    engineVersion?: string;
+    inputHash?: string;
+    rocketVersion?: number;
   }): Promise<SimulationResult> {
     const client = await this.db.getClient();
     
@@ -39,12 +53,14 @@ export class SimulationRepository {
         INSERT INTO simulations (
           rocket_id, user_id, rocket_config, results, weather, 
           launch_options, max_altitude, max_velocity, flight_time, 
-          successful, score
+          successful, score, events, seed, engine_version, input_hash,
+          rocket_version
         )
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
         RETURNING id, rocket_id, user_id, rocket_config, results, 
                   weather, launch_options, max_altitude, max_velocity, 
-                  flight_time, successful, score, created_at
+                  flight_time, successful, score, events, seed,
+                  engine_version, input_hash, rocket_version, created_at
       `;
 
       const simulationValues = [
@@ -58,7 +74,12 @@ export class SimulationRepository {
         data.results.maxVelocity,
         data.results.flightTime,
         data.results.successful,
-        data.results.score
+        data.results.score,
+        JSON.stringify(data.events || []),
+        data.seed ?? null,
+        data.engineVersion ?? null,
+        data.inputHash ?? null,
+        data.rocketVersion ?? null
       ];
 
       const simulationResult = await client.query(simulationQuery, simulationValues);
@@ -103,7 +124,8 @@ export class SimulationRepository {
     let query = `
       SELECT 
         s.id, s.rocket_id, s.user_id, s.rocket_config, s.results,
-        s.weather, s.launch_options, s.created_at
+        s.weather, s.launch_options, s.events, s.seed, s.engine_version,
+        s.input_hash, s.rocket_version, s.created_at
       FROM simulations s
       WHERE s.id = $1
     `;
@@ -136,37 +158,52 @@ export class SimulationRepository {
   }
 
   /**
-   * Find simulations by rocket ID
+   * Find simulations by rocket ID, optionally only those run by one user
    */
   async findByRocketId(rocketId: string, options: {
     page?: number;
     limit?: number;
     includeTelemetry?: boolean;
+    userId?: string;
   } = {}): Promise<SimulationListResponse> {
-    const { page = 1, limit = 20, includeTelemetry = false } = options;
+    const { page = 1, limit = 20, includeTelemetry = false, userId } = options;
+
+    let whereConditions = ['rocket_id = $1'];
+    let queryParams: any[] = [rocketId];
+    let paramCount = 1;
+
+    if (userId !== undefined) {
+      whereConditions.push(`user_id = $${++paramCount}`);
+      queryParams.push(userId);
+    }
+
+    const whereClause = `WHERE ${whereConditions.join(' AND ')}`;
 
     // Count query
     const countQuery = `
       SELECT COUNT(*) as total
       FROM simulations
-      WHERE rocket_id = $1
+      ${whereClause}
     `;
 
     // Data query
     const dataQuery = `
       SELECT 
         s.id, s.rocket_id, s.user_id, s.rocket_config, s.results,
-        s.weather, s.launch_options, s.created_at
+        s.weather, s.launch_options, s.events, s.seed, s.engine_version,
+        s.input_hash, s.rocket_version, s.created_at
       FROM simulations s
-      WHERE s.rocket_id = $1
+      ${whereClause}
       ORDER BY s.created_at DESC
-      LIMIT $2 OFFSET $3
+      LIMIT $${++paramCount} OFFSET $${++paramCount}
     `;
 
+    queryParams.push(limit, (page - 1) * limit);
+
     try {
       const [countResult, dataResult] = await Promise.all([
-        this.db.query(countQuery, [rocketId]),
-        this.db.query(dataQuery, [rocketId, limit, (page - 1) * limit])
+        this.db.query(countQuery, queryParams.slice(0, -2)),
+        this.db.query(dataQuery, queryParams)
       ]);
 
       const total = parseInt(countResult.rows[0].total, 10);
@@ -234,7 +271,8 @@ export class SimulationRepository {
     const dataQuery = `
       SELECT 
         s.id, s.rocket_id, s.user_id, s.rocket_config, s.results,
-        s.weather, s.launch_options, s.created_at
+        s.weather, s.launch_options, s.events, s.seed, s.engine_version,
+        s.input_hash, s.rocket_version, s.created_at
       FROM simulations s
       ${whereClause}
       ORDER BY s.created_at DESC
@@ -295,7 +333,8 @@ export class SimulationRepository {
     const query = `
       SELECT 
         s.id, s.rocket_id, s.user_id, s.rocket_config, s.results,
-        s.weather, s.launch_options, s.created_at,
+        s.weather, s.launch_options, s.events, s.seed, s.engine_version,
+        s.input_hash, s.rocket_version, s.created_at,
         r.name as rocket_name,
         u.username as user_name
       FROM simulations s
@@ -387,6 +426,137 @@ export class SimulationRepository {
     }
   }
 
+  /**
+   * Save an aggregate Monte Carlo dispersion analysis
+   */
+  async createDispersionAnalysis(
+    data: Omit<DispersionAnalysis, 'id' | 'createdAt'> & { launchOptions?: LaunchOptions }
+  ): Promise<DispersionAnalysis> {
+    const query = `
+      INSERT INTO dispersion_analyses (
+        rocket_id, user_id, rocket_config, weather, launch_options,
+        runs, failed_runs, seed, tolerances, results, mean_apogee
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      RETURNING id, rocket_id, user_id, rocket_config, weather, runs,
+                failed_runs, seed, tolerances, results, created_at
+    `;
+
+    const values = [
+      data.rocketId,
+      data.userId,
+      JSON.stringify(data.config),
+      JSON.stringify(data.weather),
+      data.launchOptions ? JSON.stringify(data.launchOptions) : null,
+      data.runs,
+      data.failedRuns,
+      data.seed,
+      JSON.stringify(data.tolerances),
+      JSON.stringify({
+        apogee: data.apogee,
+        landingDistance: data.landingDistance,
+        landingPoints: data.landingPoints,
+        landingEllipses: data.landingEllipses,
+        fieldRadius: data.fieldRadius,
+        landingsOutsideField: data.landingsOutsideField
+      }),
+      data.apogee.mean
+    ];
+
+    try {
+      const result = await this.db.query(query, values);
+      return this.mapRowToDispersionAnalysis(result.rows[0]);
+    } catch (error: any) {
+      throw new Error(`Failed to save dispersion analysis: ${error.message}`);
+    }
+  }
+
+  /**
+   * Save an altimeter log of a real flight
+   */
+  async createFlightLog(data: Omit<FlightLog, 'id' | 'createdAt'>): Promise<FlightLog> {
+    const query = `
+      INSERT INTO flight_logs (
+        rocket_id, user_id, name, format, flown_at, samples,
+        velocity_source, apogee, apogee_time, max_velocity
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      RETURNING ${FLIGHT_LOG_COLUMNS}, samples
+    `;
+
+    const values = [
+      data.rocketId,
+      data.userId,
+      data.name,
+      data.format,
+      data.flownAt || null,
+      JSON.stringify(data.samples),
+      data.velocitySource,
+      data.apogee,
+      data.apogeeTime,
+      data.maxVelocity
+    ];
+
+    try {
+      const result = await this.db.query(query, values);
+      return this.mapRowToFlightLog(result.rows[0]);
+    } catch (error: any) {
+      throw new Error(`Failed to save flight log: ${error.message}`);
+    }
+  }
+
+  /**
+   * Find a flight log by ID, with its samples
+   */
+  async findFlightLogById(id: string): Promise<FlightLog | null> {
+    const query = `
+      SELECT ${FLIGHT_LOG_COLUMNS}, samples
+      FROM flight_logs
+      WHERE id = $1
+    `;
+
+    try {
+      const result = await this.db.query(query, [id]);
+      return result.rows.length > 0 ? this.mapRowToFlightLog(result.rows[0]) : null;
+    } catch (error: any) {
+      throw new Error(`Failed to find flight log: ${error.message}`);
+    }
+  }
+
+  /**
+   * Find a rocket's flight logs, newest first, without their samples
+   */
+  async findFlightLogsByRocketId(rocketId: string): Promise<FlightLog[]> {
+    const query = `
+      SELECT ${FLIGHT_LOG_COLUMNS}
+      FROM flight_logs
+      WHERE rocket_id = $1
+      ORDER BY flown_at DESC NULLS LAST, created_at DESC
+    `;
+
+    try {
+      const result = await this.db.query(query, [rocketId]);
+      return result.rows.map(row => this.mapRowToFlightLog(row));
+    } catch (error: any) {
+      throw new Error(`Failed to find flight logs by rocket: ${error.message}`);
+    }
+  }
+
+  /**
+   * Delete a flight log (owner only)
+   */
+  async deleteFlightLog(id: string, userId: string): Promise<boolean> {
+    try {
+      const result = await this.db.query(
+        'DELETE FROM flight_logs WHERE id = $1 AND user_id = $2',
+        [id, userId]
+      );
+      return (result.rowCount ?? 0) > 0;
+    } catch (error: any) {
+      throw new Error(`Failed to delete flight log: ${error.message}`);
+    }
+  }
+
   /**
    * Map database row to SimulationResult object
    */
@@ -398,7 +568,54 @@ export class SimulationRepository {
       config: typeof row.rocket_config === 'string' ? JSON.parse(row.rocket_config) : row.rocket_config,
       results: typeof row.results === 'string' ? JSON.parse(row.results) : row.results,
       telemetry,
+      events: (typeof row.events === 'string' ? JSON.parse(row.events) : row.events) || [],
       weather: typeof row.weather === 'string' ? JSON.parse(row.weather) : row.weather,
+      launchOptions: (typeof row.launch_options === 'string' ? JSON.parse(row.launch_options) : row.launch_options) || undefined,
+      seed: row.seed === null || row.seed === undefined ? undefined : Number(row.seed),
+      engineVersion: row.engine_version || undefined,
+      inputHash: row.input_hash || undefined,
+      rocketVersion: row.rocket_version ?? undefined,
+      createdAt: row.created_at
+    };
+  }
+
+  /**
+   * Map database row to DispersionAnalysis object
+   */
+  private mapRowToDispersionAnalysis(row: any): DispersionAnalysis {
+    const results = typeof row.results === 'string' ? JSON.parse(row.results) : row.results;
+
+    return {
+      id: row.id,
+      rocketId: row.rocket_id,
+      userId: row.user_id,
+      config: typeof row.rocket_config === 'string' ? JSON.parse(row.rocket_config) : row.rocket_config,
+      weather: typeof row.weather === 'string' ? JSON.parse(row.weather) : row.weather,
+      runs: row.runs,
+      failedRuns: row.failed_runs,
+      seed: Number(row.seed),
+      tolerances: typeof row.tolerances === 'string' ? JSON.parse(row.tolerances) : row.tolerances,
+      ...results,
+      createdAt: row.created_at
+    };
+  }
+
+  /**
+   * Map database row to FlightLog object
+   */
+  private mapRowToFlightLog(row: any): FlightLog {
+    return {
+      id: row.id,
+      rocketId: row.rocket_id,
+      userId: row.user_id,
+      name: row.name,
+      format: row.format,
+      flownAt: row.flown_at || undefined,
+      samples: (typeof row.samples === 'string' ? JSON.parse(row.samples) : row.samples) || [],
+      velocitySource: row.velocity_source,
+      apogee: parseFloat(row.apogee),
+      apogeeTime: parseFloat(row.apogee_time),
+      maxVelocity: parseFloat(row.max_velocity),
       createdAt: row.created_at
     };
   }
@@ -9,6 +9,8 @@ import { Router } from 'express';
 import { RocketController } from '../controllers/rocket.controller';
 import { RocketService } from '../services/rocket.service';
 import { ValidationService } from '../services/validation.service';
+import { MotorDatabase } from '../services/motor.database';
+import { createWorkerRunner } from '../services/simulation.runner';
 import { RocketRepository } from '../repositories/rocket.repository';
 import { SimulationRepository } from '../repositories/simulation.repository';
 import { DatabaseService } from '../../../infrastructure/database/database.service';
@@ -25,20 +27,12 @@ interface AuthMiddleware {
 export function createRocketRoutes(
   databaseService: DatabaseService,
   cacheService: CacheService,
-  authMiddleware: AuthMiddleware
+  authMiddleware: AuthMiddleware,
+  rocketService: RocketService = createRocketService(databaseService, cacheService)
 ): Router {
   const router = Router();
 
   // Initialize dependencies
-  const rocketRepository = new RocketRepository(databaseService);
-  const simulationRepository = new SimulationRepository(databaseService);
-  const validationService = new ValidationService();
-  const rocketService = new RocketService(
-    rocketRepository,
-    simulationRepository,
-    validationService,
-    cacheService
-  );
   const rocketController = new RocketController(rocketService);
 
   // Public routes (no authentication required)
@@ -58,9 +52,28 @@ export function createRocketRoutes(
   /**
    * POST /api/v1/rockets/estimate
    * Get performance estimate for rocket configuration
-   * (Public endpoint for design assistance)
+   * (Public endpoint for design assistance; signed in, imported motors resolve too)
+   */
+  router.post('/estimate', authMiddleware.optionalAuth, rocketController.estimatePerformance);
+
+  /**
+   * GET /api/v1/rockets/motors
+   * List motors with thrust curves (filter by impulseClass, manufacturer, diameter),
+   * with the signed-in user's imported motors
    */
-  router.post('/estimate', rocketController.estimatePerformance);
+  router.get('/motors', authMiddleware.optionalAuth, rocketController.listMotors);
+
+  /**
+   * GET /api/v1/rockets/motors/:designation
+   * Get a motor by designation
+   */
+  router.get('/motors/:designation', authMiddleware.optionalAuth, rocketController.getMotor);
+
+  /**
+   * POST /api/v1/rockets/motors/import
+   * Import RASP .eng or RockSim .rse motor files into the user's motor catalog
+   */
+  router.post('/motors/import', authMiddleware.requireAuth, rocketController.importMotors);
 
   // Semi-public routes (optional authentication - affects what data is returned)
   
@@ -82,6 +95,30 @@ export function createRocketRoutes(
    */
   router.get('/:id/simulations', authMiddleware.optionalAuth, rocketController.getRocketSimulations);
 
+  /**
+   * GET /api/v1/rockets/:id/versions
+   * List a rocket's saved versions, newest first
+   */
+  router.get('/:id/versions', authMiddleware.optionalAuth, rocketController.getRocketVersions);
+
+  /**
+   * GET /api/v1/rockets/:id/versions/diff
+   * Field-level config changes between two saved versions (?from=&to=)
+   */
+  router.get('/:id/versions/diff', authMiddleware.optionalAuth, rocketController.diffRocketVersions);
+
+  /**
+   * GET /api/v1/rockets/:id/export
+   * Download a rocket design as an OpenRocket or RockSim file (?format=ork|rkt)
+   */
+  router.get('/:id/export', authMiddleware.optionalAuth, rocketController.exportRocket);
+
+  /**
+   * GET /api/v1/rockets/:id/flights
+   * List the altimeter logs of a rocket's real flights
+   */
+  router.get('/:id/flights', authMiddleware.optionalAuth, rocketController.getRocketFlightLogs);
+
   // Protected routes (authentication required)
 
   /**
@@ -90,12 +127,25 @@ export function createRocketRoutes(
    */
   router.post('/', authMiddleware.requireAuth, rocketController.createRocket);
 
+  /**
+   * POST /api/v1/rockets/import
+   * Create a rocket from an OpenRocket .ork or RockSim .rkt file (base64), with
+   * a report of the parts that were approximated or dropped
+   */
+  router.post('/import', authMiddleware.requireAuth, rocketController.importRocket);
+
   /**
    * PUT /api/v1/rockets/:id
    * Update rocket design (owner only)
    */
   router.put('/:id', authMiddleware.requireAuth, rocketController.updateRocket);
 
+  /**
+   * POST /api/v1/rockets/:id/versions/:version/restore
+   * Save an earlier version again as the newest one (owner only)
+   */
+  router.post('/:id/versions/:version/restore', authMiddleware.requireAuth, rocketController.restoreRocketVersion);
+
   /**
    * DELETE /api/v1/rockets/:id
    * Delete rocket design (owner only)
@@ -104,10 +154,44 @@ export function createRocketRoutes(
 
   /**
    * POST /api/v1/rockets/:id/launch
-   * Launch rocket simulation (owner only)
+   * Queue a rocket simulation (owner only), returning the job to follow
    */
   router.post('/:id/launch', authMiddleware.requireAuth, rocketController.launchRocket);
 
+  /**
+   * POST /api/v1/rockets/:id/dispersion
+   * Run a Monte Carlo dispersion analysis (owner only)
+   */
+  router.post('/:id/dispersion', authMiddleware.requireAuth, rocketController.runDispersion);
+
+  /**
+   * POST /api/v1/rockets/:id/calibrate
+   * Fit the drag multiplier to observed apogees or apogee times and save it
+   * in the design (owner only)
+   */
+  router.post('/:id/calibrate', authMiddleware.requireAuth, rocketController.calibrateDrag);
+
+  /**
+   * POST /api/v1/rockets/:id/sweep
+   * Vary one or two config fields (e.g. fins.span) over even steps and return
+   * the flight metrics as a table or grid (owner only)
+   */
+  router.post('/:id/sweep', authMiddleware.requireAuth, rocketController.runSweep);
+
+  /**
+   * POST /api/v1/rockets/:id/optimize
+   * Queue a search of the design's dimensions and motors for a target apogee,
+   * the highest apogee or the least drift (owner only), returning the job to follow
+   */
+  router.post('/:id/optimize', authMiddleware.requireAuth, rocketController.optimizeRocket);
+
+  /**
+   * POST /api/v1/rockets/:id/flights
+   * Attach an altimeter CSV log (Jolly Logic, PerfectFlite, Eggtimer or plain
+   * time/altitude columns) of a real flight (owner only)
+   */
+  router.post('/:id/flights', authMiddleware.requireAuth, rocketController.importFlightLog);
+
   /**
    * POST /api/v1/rockets/:id/like
    * Like a public rocket
@@ -142,12 +226,78 @@ export function createRocketRoutes(
 
   // Simulation-specific routes
 
+  /**
+   * GET /api/v1/simulations/compare
+   * Overlay 2-6 simulations on a time or altitude axis with their metric
+   * differences from the first (?ids=a,b,c&axis=time|altitude)
+   */
+  router.get('/simulations/compare', authMiddleware.requireAuth, rocketController.compareSimulations);
+
   /**
    * GET /api/v1/simulations/:id
    * Get simulation by ID (owner only or public rocket)
    */
   router.get('/simulations/:id', authMiddleware.requireAuth, rocketController.getSimulation);
 
+  /**
+   * POST /api/v1/simulations/:id/replay
+   * Re-run a simulation and compare it with the stored results
+   */
+  router.post('/simulations/:id/replay', authMiddleware.requireAuth, rocketController.replaySimulation);
+
+  /**
+   * GET /api/v1/simulations/:id/export
+   * Download a simulation's telemetry as CSV, JSON Lines or OpenRocket CSV
+   */
+  router.get('/simulations/:id/export', authMiddleware.requireAuth, rocketController.exportSimulation);
+
+  // Flight log routes
+
+  /**
+   * GET /api/v1/flights/:id
+   * Get a flight log with its samples (owner only or public rocket)
+   */
+  router.get('/flights/:id', authMiddleware.requireAuth, rocketController.getFlightLog);
+
+  /**
+   * GET /api/v1/flights/:id/compare
+   * Compare a logged flight with a simulation of the rocket (?simulationId=, latest by default)
+   */
+  router.get('/flights/:id/compare', authMiddleware.requireAuth, rocketController.compareFlightLog);
+
+  /**
+   * DELETE /api/v1/flights/:id
+   * Delete a flight log (owner only)
+   */
+  router.delete('/flights/:id', authMiddleware.requireAuth, rocketController.deleteFlightLog);
+
+  // Background job routes
+
+  /**
+   * GET /api/v1/jobs/:id
+   * Get the status of a queued launch (owner only)
+   */
+  router.get('/jobs/:id', authMiddleware.requireAuth, rocketController.getLaunchJob);
+
+  /**
+   * GET /api/v1/jobs/:id/events
+   * Stream a queued launch's progress and interim telemetry (server-sent events).
+   * For playback at flight pace, see the telemetry socket.
+   */
+  router.get('/jobs/:id/events', authMiddleware.requireAuth, rocketController.streamLaunchJob);
+
+  /**
+   * GET /api/v1/optimizations/:id
+   * Get the status of a queued optimization and its best candidates (owner only)
+   */
+  router.get('/optimizations/:id', authMiddleware.requireAuth, rocketController.getOptimizationJob);
+
+  /**
+   * GET /api/v1/optimizations/:id/events
+   * Stream a queued optimization's progress (server-sent events)
+   */
+  router.get('/optimizations/:id/events', authMiddleware.requireAuth, rocketController.streamOptimizationJob);
+
   return router;
 }
 
@@ -212,6 +362,22 @@ export function createAuthenticatedRocketRoutes(
   return createRocketRoutes(databaseService, cacheService, authMiddleware);
 }
 
+/**
+ * Service for routes created without one. Pass a shared service instead when
+ * something else (the telemetry socket) must see the same launch jobs.
+ */
+function createRocketService(databaseService: DatabaseService, cacheService: CacheService): RocketService {
+  const motorDatabase = new MotorDatabase();
+  return new RocketService(
+    new RocketRepository(databaseService),
+    new SimulationRepository(databaseService),
+    new ValidationService(motorDatabase),
+    cacheService,
+    motorDatabase,
+    createWorkerRunner()
+  );
+}
+
 /**
  * Rate limiting configuration for rocket endpoints
  */
@@ -233,7 +399,13 @@ export const rocketRateLimits = {
     windowMs: 60 * 60 * 1000, // 1 hour
     max: 50 // 50 simulations per hour
   },
-  
+
+  // Design optimizations (each runs hundreds of simulations)
+  optimize: {
+    windowMs: 60 * 60 * 1000, // 1 hour
+    max: 5 // 5 optimizations per hour
+  },
+
   // Public endpoints (less restrictive)
   public: {
     windowMs: 15 * 60 * 1000, // 15 minutes
@@ -0,0 +1,157 @@
+/**
+ * Telemetry Socket
+ *
+ * WebSocket channel that plays a queued launch's telemetry back in simulated
+ * real time:
+ *
+ *   ws://host/api/v1/jobs/:id/telemetry?token=<access token>&speed=<factor>
+ *
+ * Browsers cannot set headers on a WebSocket, so the access token travels in
+ * the query string. Messages are `WebSocketMessage`s: `status` (the job),
+ * `telemetry` (points as their flight time comes), then `completed` (the
+ * simulation, once playback has caught up) or `failed`.
+ */
+
+import { Server, IncomingMessage } from 'http';
+import { Duplex } from 'stream';
+import { WebSocketServer, WebSocket } from 'ws';
+import { RocketService } from '../services/rocket.service';
+import { TelemetryPlayback, MAX_PLAYBACK_SPEED } from '../services/telemetry.playback';
+import { WebSocketMessage, JobStatus } from '../../../shared/types/common';
+import { SimulationResult } from '../../../shared/types/rocket';
+
+// The client's API base URL may or may not carry the version prefix
+const TELEMETRY_PATH = /^(?:\/api\/v1)?\/jobs\/([^/]+)\/telemetry$/;
+
+/**
+ * Resolves an access token to its user, rejecting invalid tokens
+ */
+export type SocketAuthenticator = (token: string) => Promise<{ id: string }>;
+
+export function attachTelemetrySocket(
+  server: Server,
+  rocketService: RocketService,
+  authenticate: SocketAuthenticator
+): WebSocketServer {
+  const sockets = new WebSocketServer({ noServer: true });
+
+  server.on('upgrade', async (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    try {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      const match = url.pathname.match(TELEMETRY_PATH);
+      if (!match) return; // another upgrade handler's path
+
+      let jobId: string;
+      try {
+        jobId = decodeURIComponent(match[1]);
+      } catch (error: any) {
+        return rejectUpgrade(socket, 400, 'Bad Request');
+      }
+      const speed = Number(url.searchParams.get('speed') ?? 1);
+
+      if (!(speed > 0 && speed <= MAX_PLAYBACK_SPEED)) {
+        return rejectUpgrade(socket, 400, 'Bad Request');
+      }
+
+      let userId: string;
+      try {
+        userId = (await authenticate(url.searchParams.get('token') ?? '')).id;
+      } catch (error: any) {
+        return rejectUpgrade(socket, 401, 'Unauthorized');
+      }
+
+      if (!(await rocketService.getLaunchJob(jobId, userId))) {
+        return rejectUpgrade(socket, 404, 'Not Found');
+      }
+
+      sockets.handleUpgrade(req, socket, head, ws => {
+        playLaunch(ws, rocketService, jobId, userId, speed).catch(error => streamFailed(ws, error));
+      });
+    } catch (error: any) {
+      console.error('Error opening telemetry socket:', error);
+      rejectUpgrade(socket, 500, 'Internal Server Error');
+    }
+  });
+
+  return sockets;
+}
+
+async function playLaunch(
+  ws: WebSocket,
+  rocketService: RocketService,
+  jobId: string,
+  userId: string,
+  speed: number
+): Promise<void> {
+  const playback = new TelemetryPlayback(points => send(ws, 'telemetry', points), speed);
+  const complete = async (simulation: SimulationResult) => {
+    playback.push(simulation.telemetry);
+    await playback.finish();
+    send(ws, 'completed', simulation);
+    ws.close(1000);
+  };
+  const fail = (message: string) => {
+    playback.stop();
+    send(ws, 'failed', { message });
+    ws.close(1000);
+  };
+
+  // Interim batches are played only when none were missed before subscribing;
+  // otherwise the whole flight is played from the result
+  let live = false;
+  const watch = await rocketService.watchLaunchJob(jobId, userId, event => {
+    switch (event.type) {
+      case 'progress':
+        if (live) playback.push(event.progress.telemetry);
+        break;
+      case 'completed':
+        complete(event.result).catch(error => streamFailed(ws, error));
+        break;
+      case 'failed':
+        fail(event.error);
+        break;
+    }
+  });
+
+  if (!watch) {
+    return fail('Job not found');
+  }
+
+  ws.on('close', () => {
+    watch.unsubscribe();
+    playback.stop();
+  });
+  send(ws, 'status', watch.job);
+
+  if (watch.job.status === JobStatus.COMPLETED) {
+    watch.unsubscribe();
+    const simulation = await rocketService.getSimulation(watch.job.simulationId!, userId, true);
+    return simulation ? complete(simulation) : fail('Simulation not found');
+  }
+  if (watch.job.status === JobStatus.FAILED) {
+    watch.unsubscribe();
+    return fail(watch.job.error ?? 'Launch failed');
+  }
+  live = !watch.job.progress;
+}
+
+function send(ws: WebSocket, type: string, payload: any): void {
+  if (ws.readyState !== WebSocket.OPEN) return;
+
+  const message: WebSocketMessage = { type, payload, timestamp: new Date() };
+  ws.send(JSON.stringify(message));
+}
+
+function streamFailed(ws: WebSocket, error: unknown): void {
+  console.error('Error streaming launch telemetry:', error);
+  send(ws, 'failed', { message: 'Failed to stream telemetry' });
+  ws.close(1011);
+}
+
+// Answers the upgrade request and drops the connection once the answer is out
+function rejectUpgrade(socket: Duplex, status: number, reason: string): void {
+  if (socket.destroyed) return;
+
+  socket.once('finish', () => socket.destroy());
+  socket.end(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\n\r\n`);
+}
@@ -0,0 +1,154 @@
+/**
+ * Atmosphere Model
+ *
+ * US Standard Atmosphere 1976 (layered lapse rates up to 86 km) fitted to the
+ * observed weather: the whole temperature profile is shifted so that the site
+ * matches `weather.temperature`, and pressure is integrated hydrostatically
+ * from `weather.pressure` at sea level (the QNH reported by weather services).
+ * Altitudes passed in are above ground level and offset by the site elevation.
+ * Humidity lowers density and raises the speed of sound through the virtual
+ * temperature, holding the relative humidity constant with height.
+ */
+
+import { WeatherConditions } from '../../../shared/types/rocket';
+
+const GRAVITY = 9.80665; // m/s², standard gravity
+const DRY_AIR_GAS_CONSTANT = 287.05287; // J/(kg·K)
+const WATER_VAPOR_GAS_CONSTANT = 461.5; // J/(kg·K)
+const HEAT_CAPACITY_RATIO = 1.4;
+const EARTH_RADIUS = 6356766; // m, used for geopotential altitude
+const KELVIN = 273.15;
+
+// Sutherland's law for the dynamic viscosity of air
+const SUTHERLAND_CONSTANT = 1.458e-6; // kg/(m·s·K^0.5)
+const SUTHERLAND_TEMPERATURE = 110.4; // K
+
+export const STANDARD_SEA_LEVEL_TEMPERATURE = 288.15; // K
+export const STANDARD_SEA_LEVEL_PRESSURE = 101325; // Pa
+
+interface AtmosphereLayer {
+  base: number; // m, geopotential altitude of the layer base
+  lapseRate: number; // K/m
+}
+
+const LAYERS: AtmosphereLayer[] = [
+  { base: 0, lapseRate: -0.0065 }, // troposphere
+  { base: 11000, lapseRate: 0 }, // tropopause
+  { base: 20000, lapseRate: 0.001 }, // stratosphere
+  { base: 32000, lapseRate: 0.0028 },
+  { base: 47000, lapseRate: 0 }, // stratopause
+  { base: 51000, lapseRate: -0.0028 }, // mesosphere
+  { base: 71000, lapseRate: -0.002 }
+];
+
+export interface AtmosphereConditions {
+  temperature: number; // K
+  pressure: number; // Pa
+  density: number; // kg/m³
+  speedOfSound: number; // m/s
+  kinematicViscosity: number; // m²/s
+}
+
+export class AtmosphereModel {
+  private readonly baseTemperatures: number[]; // K at each layer base
+  private readonly basePressures: number[]; // Pa at each layer base
+  private readonly relativeHumidity: number; // 0-1
+
+  constructor(weather: WeatherConditions, private siteElevation: number = 0) {
+    const siteAltitude = geopotentialAltitude(siteElevation);
+    // Shift the standard profile so the site matches the observed temperature
+    const temperatureOffset = weather.temperature + KELVIN - standardTemperature(siteAltitude);
+    this.relativeHumidity = Math.min(1, Math.max(0, (weather.humidity ?? 0) / 100));
+
+    this.baseTemperatures = [STANDARD_SEA_LEVEL_TEMPERATURE + temperatureOffset];
+    this.basePressures = [weather.pressure || STANDARD_SEA_LEVEL_PRESSURE];
+
+    for (let i = 1; i < LAYERS.length; i++) {
+      const below = LAYERS[i - 1];
+      const temperature = this.baseTemperatures[i - 1];
+      const thickness = LAYERS[i].base - below.base;
+      this.baseTemperatures.push(temperature + below.lapseRate * thickness);
+      this.basePressures.push(
+        this.basePressures[i - 1] * pressureRatio(temperature, below.lapseRate, thickness)
+      );
+    }
+  }
+
+  /**
+   * Air properties at an altitude (m AGL)
+   */
+  at(altitude: number): AtmosphereConditions {
+    const height = geopotentialAltitude(this.siteElevation + altitude);
+    const index = layerIndex(height);
+    const layer = LAYERS[index];
+    const baseTemperature = this.baseTemperatures[index];
+
+    const temperature = baseTemperature + layer.lapseRate * (height - layer.base);
+    const pressure = this.basePressures[index] * pressureRatio(baseTemperature, layer.lapseRate, height - layer.base);
+
+    // Moist air: partial pressure of water vapor at the relative humidity
+    const vaporPressure = Math.min(pressure, this.relativeHumidity * saturationVaporPressure(temperature));
+    const density = (pressure - vaporPressure) / (DRY_AIR_GAS_CONSTANT * temperature) +
+      vaporPressure / (WATER_VAPOR_GAS_CONSTANT * temperature);
+    const virtualTemperature = pressure / (DRY_AIR_GAS_CONSTANT * density);
+
+    const viscosity = SUTHERLAND_CONSTANT * temperature ** 1.5 / (temperature + SUTHERLAND_TEMPERATURE);
+
+    return {
+      temperature,
+      pressure,
+      density,
+      speedOfSound: Math.sqrt(HEAT_CAPACITY_RATIO * DRY_AIR_GAS_CONSTANT * virtualTemperature),
+      kinematicViscosity: viscosity / density
+    };
+  }
+}
+
+/**
+ * Standard temperature (K) at a geopotential altitude
+ */
+export function standardTemperature(height: number): number {
+  const index = layerIndex(height);
+  let temperature = STANDARD_SEA_LEVEL_TEMPERATURE;
+
+  for (let i = 0; i < index; i++) {
+    temperature += LAYERS[i].lapseRate * (LAYERS[i + 1].base - LAYERS[i].base);
+  }
+  return temperature + LAYERS[index].lapseRate * (height - LAYERS[index].base);
+}
+
+/**
+ * Geopotential altitude (m) for a geometric altitude above sea level
+ */
+export function geopotentialAltitude(elevation: number): number {
+  return (EARTH_RADIUS * elevation) / (EARTH_RADIUS + elevation);
+}
+
+function layerIndex(height: number): number {
+  let index = 0;
+  while (index + 1 < LAYERS.length && height >= LAYERS[index + 1].base) {
+    index++;
+  }
+  return index;
+}
+
+/**
+ * Hydrostatic pressure ratio across `thickness` meters of a layer
+ */
+function pressureRatio(baseTemperature: number, lapseRate: number, thickness: number): number {
+  if (lapseRate === 0) {
+    return Math.exp((-GRAVITY * thickness) / (DRY_AIR_GAS_CONSTANT * baseTemperature));
+  }
+  const temperature = baseTemperature + lapseRate * thickness;
+  return (temperature / baseTemperature) ** (-GRAVITY / (DRY_AIR_GAS_CONSTANT * lapseRate));
+}
+
+/**
+ * Saturation vapor pressure (Pa) over water or ice (Buck equations)
+ */
+function saturationVaporPressure(temperature: number): number {
+  const celsius = temperature - KELVIN;
+  return celsius >= 0
+    ? 611.21 * Math.exp((18.678 - celsius / 234.5) * (celsius / (257.14 + celsius)))
+    : 611.15 * Math.exp((23.036 - celsius / 333.7) * (celsius / (279.82 + celsius)));
+}
@@ -0,0 +1,115 @@
+/**
+ * Barrowman Center of Pressure Calculator
+ *
+ * Subsonic center of pressure and normal force coefficient slope using the
+ * Barrowman equations. Positions are measured aft of the nose tip and all
+ * coefficients are referenced to the body cross-sectional area. The body
+ * tube is a constant-diameter cylinder, which carries no normal force in
+ * Barrowman's small-angle theory. Each attached booster stage adds its fin
+ * set at the aft end of that stage.
+ */
+
+import {
+  RocketConfig,
+  NoseConeType,
+  AerodynamicComponent,
+  CenterOfPressureAnalysis
+} from '../../../shared/types/rocket';
+import { airframeLength, finSets, FinSet } from './staging.model';
+
+const NOSE_CONE_NORMAL_FORCE_SLOPE = 2;
+
+// Nose cone CP as a fraction of nose length
+const NOSE_CONE_CP_FRACTION: Record<NoseConeType, number> = {
+  [NoseConeType.CONICAL]: 2 / 3,
+  [NoseConeType.OGIVE]: 0.466,
+  [NoseConeType.PARABOLIC]: 0.5,
+  [NoseConeType.ELLIPTICAL]: 0.333,
+  [NoseConeType.BLUNT]: 0.333
+};
+
+// Barrowman's fin term assumes 3 or 4 fins; more fins interfere with each other
+const MULTI_FIN_FACTOR: Record<number, number> = {
+  5: 0.948,
+  6: 0.913,
+  7: 0.854,
+  8: 0.81
+};
+
+/**
+ * Nose cone normal force and CP
+ */
+export function noseConeAerodynamics(config: RocketConfig): AerodynamicComponent {
+  const fraction = NOSE_CONE_CP_FRACTION[config.noseCone.type] ?? NOSE_CONE_CP_FRACTION[NoseConeType.OGIVE];
+
+  return {
+    name: 'nose_cone',
+    normalForceSlope: NOSE_CONE_NORMAL_FORCE_SLOPE,
+    centerOfPressure: fraction * config.noseCone.length
+  };
+}
+
+/**
+ * Body tube normal force and CP (zero for a cylinder without transitions)
+ */
+export function bodyTubeAerodynamics(config: RocketConfig): AerodynamicComponent {
+  return {
+    name: 'body',
+    normalForceSlope: 0,
+    centerOfPressure: config.noseCone.length + airframeLength(config) / 2
+  };
+}
+
+/**
+ * Trapezoidal fin set normal force (with body-fin interference) and CP.
+ * Fins are mounted flush with the aft end of their body tube and
+ * `sweepAngle` is the leading-edge sweep.
+ */
+export function finSetAerodynamics(config: RocketConfig, set: FinSet = finSets(config)[0]): AerodynamicComponent {
+  const { count, span, rootChord, tipChord, sweepAngle } = set.fins;
+  const diameter = config.body.diameter;
+  const radius = diameter / 2;
+
+  // Leading-edge sweep distance and mid-chord line length
+  const sweepLength = span * Math.tan((sweepAngle * Math.PI) / 180);
+  const midChordLength = Math.sqrt(span ** 2 + (sweepLength + tipChord / 2 - rootChord / 2) ** 2);
+
+  const finTerm = (4 * count * (span / diameter) ** 2) /
+    (1 + Math.sqrt(1 + ((2 * midChordLength) / (rootChord + tipChord)) ** 2));
+  const interference = 1 + radius / (span + radius);
+  const normalForceSlope = finTerm * interference * (MULTI_FIN_FACTOR[count] ?? 1);
+
+  const rootLeadingEdge = set.aftEnd - rootChord;
+  const centerOfPressure = rootLeadingEdge +
+    (sweepLength / 3) * (rootChord + 2 * tipChord) / (rootChord + tipChord) +
+    ((rootChord + tipChord) - (rootChord * tipChord) / (rootChord + tipChord)) / 6;
+
+  return {
+    name: set.name,
+    normalForceSlope,
+    centerOfPressure
+  };
+}
+
+/**
+ * Combined center of pressure with a per-component breakdown
+ */
+export function calculateCenterOfPressure(config: RocketConfig): CenterOfPressureAnalysis {
+  const components = [
+    noseConeAerodynamics(config),
+    bodyTubeAerodynamics(config),
+    ...finSets(config).map(set => finSetAerodynamics(config, set))
+  ];
+
+  const normalForceSlope = components.reduce((sum, component) => sum + component.normalForceSlope, 0);
+  const moment = components.reduce(
+    (sum, component) => sum + component.normalForceSlope * component.centerOfPressure,
+    0
+  );
+
+  return {
+    centerOfPressure: normalForceSlope > 0 ? moment / normalForceSlope : 0,
+    normalForceSlope,
+    components
+  };
+}
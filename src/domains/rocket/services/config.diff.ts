@@ -0,0 +1,51 @@
+/**
+ * Config Diff
+ *
+ * Field-level differences between two rocket configs, for comparing saved
+ * revisions of a design. Objects and arrays are walked down to their values,
+ * so changing one fin dimension reports `fins.span` rather than all of `fins`;
+ * array items are matched by position (stage 0 with stage 0). A part that
+ * appears or disappears, such as a booster stage or the nose ballast, is one
+ * change at its own path.
+ */
+
+import { RocketConfig, ConfigChange, ConfigChangeType } from '../../../shared/types/rocket';
+
+/**
+ * The changes that turn one config into another, in config order
+ */
+export function diffConfigs(before: RocketConfig, after: RocketConfig): ConfigChange[] {
+  const changes: ConfigChange[] = [];
+  collectChanges(before, after, [], changes);
+  return changes;
+}
+
+function collectChanges(before: unknown, after: unknown, path: string[], changes: ConfigChange[]): void {
+  if (before === undefined && after === undefined) return;
+
+  if (before === undefined) {
+    changes.push({ path: path.join('.'), type: ConfigChangeType.ADDED, after });
+    return;
+  }
+  if (after === undefined) {
+    changes.push({ path: path.join('.'), type: ConfigChangeType.REMOVED, before });
+    return;
+  }
+
+  if (isContainer(before) && isContainer(after) && Array.isArray(before) === Array.isArray(after)) {
+    // Keys of the earlier config first, then any the later one added
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+    for (const key of keys) {
+      collectChanges(before[key], after[key], [...path, key], changes);
+    }
+    return;
+  }
+
+  if (before !== after) {
+    changes.push({ path: path.join('.'), type: ConfigChangeType.CHANGED, before, after });
+  }
+}
+
+function isContainer(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object';
+}
@@ -0,0 +1,381 @@
+/**
+ * Design Components
+ *
+ * The parts of a design file that the OpenRocket and RockSim formats have in
+ * common, and how they fold into a RocketConfig. Each importer walks its own
+ * component tree into one StageParts per stage; assembleConfig() then keeps
+ * what RocketConfig can hold (one nose cone, one body per stage, one fin set
+ * and one motor mount per stage, one recovery system) and reports the rest
+ * as approximated or dropped.
+ */
+
+import {
+  RocketConfig,
+  StageConfig,
+  MotorConfig,
+  RocketMaterial,
+  RecoveryType,
+  SurfaceFinish,
+  DesignImportNote,
+  ROCKET_CONSTRAINTS
+} from '../../../shared/types/rocket';
+import { MATERIAL_DENSITY } from './mass.properties';
+
+export const DEFAULT_DEPLOYMENT_ALTITUDE = 150; // m AGL, when the file has none
+export const DEFAULT_LAUNCH: RocketConfig['launch'] = { launchAngle: 0, launchRodLength: 1 };
+export const FABRIC_DENSITY = 0.067; // kg/m², ripstop nylon
+const MAX_CHUTES = 3;
+
+export type FinPlanform = Pick<RocketConfig['fins'], 'span' | 'rootChord' | 'tipChord' | 'sweepAngle'>;
+
+export interface ImportedDesign {
+  name: string;
+  description?: string;
+  config: RocketConfig; // motors by designation, not yet resolved
+}
+
+export interface RecoveryPart {
+  name: string;
+  kind: 'parachute' | 'streamer';
+  size: number; // m, canopy diameter or streamer length
+  width?: number; // m, streamers
+  mass: number; // kg
+  deployAltitude?: number; // m AGL, when opened by an altimeter instead of at ejection/apogee
+}
+
+export interface StageParts {
+  name: string;
+  noseCone?: RocketConfig['noseCone'] & { name: string };
+  bodyLength: number; // m, all body tubes end to end
+  bodyDiameter?: number; // m, the widest body tube
+  bodyMass: number; // kg, tubes plus the internal parts counted with them
+  bodyMaterial?: RocketMaterial;
+  surfaceFinish?: SurfaceFinish;
+  fins: Array<{ name: string; fins: RocketConfig['fins'] }>;
+  motors: Array<{ name: string; motor: MotorConfig }>;
+  recovery: RecoveryPart[];
+  recoveryMass: number; // kg, shock cords and harnesses
+  separationDelay?: number; // s
+}
+
+/**
+ * Report of the parts that did not map exactly onto RocketConfig
+ */
+export class ImportNotes {
+  readonly notes: DesignImportNote[] = [];
+
+  approximated(component: string, detail: string): void {
+    this.notes.push({ component, action: 'approximated', detail });
+  }
+
+  dropped(component: string, detail: string): void {
+    this.notes.push({ component, action: 'dropped', detail });
+  }
+}
+
+export const MATERIAL_NAMES: Record<RocketMaterial, string> = {
+  [RocketMaterial.CARDBOARD]: 'Cardboard',
+  [RocketMaterial.BALSA]: 'Balsa',
+  [RocketMaterial.PLYWOOD]: 'Birch plywood',
+  [RocketMaterial.FIBERGLASS]: 'Fiberglass',
+  [RocketMaterial.CARBON_FIBER]: 'Carbon fiber',
+  [RocketMaterial.ALUMINUM]: 'Aluminum',
+  [RocketMaterial.PLASTIC]: 'Polystyrene'
+};
+
+// Checked in order, so "carbon fiber" is not taken for fiberglass
+const MATERIAL_KEYWORDS: Array<[RegExp, RocketMaterial]> = [
+  [/carbon/i, RocketMaterial.CARBON_FIBER],
+  [/glass|g-?10|fr-?4/i, RocketMaterial.FIBERGLASS],
+  [/alumin/i, RocketMaterial.ALUMINUM],
+  [/balsa/i, RocketMaterial.BALSA],
+  [/ply|birch|basswood|spruce|wood/i, RocketMaterial.PLYWOOD],
+  [/cardboard|paper|kraft|phenolic|blue ?tube/i, RocketMaterial.CARDBOARD],
+  [/plastic|poly|abs|pla\b|petg|nylon|pvc|acrylic/i, RocketMaterial.PLASTIC]
+];
+
+export function emptyStage(name: string): StageParts {
+  return { name, bodyLength: 0, bodyMass: 0, fins: [], motors: [], recovery: [], recoveryMass: 0 };
+}
+
+/**
+ * A file's material as a RocketMaterial: by name, else by the closest bulk
+ * density (kg/m³)
+ */
+export function materialFor(
+  name: string | undefined,
+  density: number | undefined,
+  component: string,
+  notes: ImportNotes
+): RocketMaterial {
+  const byName = name && MATERIAL_KEYWORDS.find(([pattern]) => pattern.test(name));
+  if (byName) {
+    return byName[1];
+  }
+
+  const label = name ? `'${name}'` : 'unnamed material';
+  if (density !== undefined && density > 0) {
+    const closest = (Object.keys(MATERIAL_DENSITY) as RocketMaterial[]).reduce((best, material) =>
+      Math.abs(MATERIAL_DENSITY[material] - density) < Math.abs(MATERIAL_DENSITY[best] - density) ? material : best
+    );
+    notes.approximated(component, `${label} (${density} kg/m³) treated as ${closest}`);
+    return closest;
+  }
+
+  notes.approximated(component, `${label} treated as ${RocketMaterial.CARDBOARD}`);
+  return RocketMaterial.CARDBOARD;
+}
+
+/**
+ * Mass of a tube, or of a disc when the inner radius is zero
+ */
+export function tubeMass(length: number, outerRadius: number, innerRadius: number, material: RocketMaterial): number {
+  return Math.PI * (outerRadius ** 2 - Math.max(innerRadius, 0) ** 2) * length * MATERIAL_DENSITY[material];
+}
+
+/**
+ * Mass of a nose cone, as a shell of the given wall thickness or solid when
+ * there is none (conical surface area and half the enclosing cylinder)
+ */
+export function noseConeMass(length: number, radius: number, thickness: number | undefined, material: RocketMaterial): number {
+  const volume = thickness === undefined
+    ? Math.PI * radius ** 2 * length / 2
+    : Math.PI * radius * Math.sqrt(radius ** 2 + length ** 2) * thickness;
+  return volume * MATERIAL_DENSITY[material];
+}
+
+export function finSetMass(planform: FinPlanform, count: number, thickness: number, material: RocketMaterial): number {
+  return finArea(planform) * thickness * count * MATERIAL_DENSITY[material];
+}
+
+export function finArea(planform: FinPlanform): number {
+  return (planform.rootChord + planform.tipChord) / 2 * planform.span;
+}
+
+/**
+ * Leading edge offset of the fin tip, the files' way of giving the sweep
+ */
+export function sweepLength(planform: FinPlanform): number {
+  return planform.span * Math.tan(planform.sweepAngle * Math.PI / 180);
+}
+
+export function trapezoidFins(rootChord: number, tipChord: number, span: number, sweep: number): FinPlanform {
+  return { rootChord, tipChord, span, sweepAngle: Math.atan2(sweep, span) * 180 / Math.PI };
+}
+
+/**
+ * Trapezoid of the same root chord, span and area as an elliptical fin, with
+ * the tip centered on the root
+ */
+export function ellipticalFins(rootChord: number, span: number): FinPlanform {
+  const tipChord = rootChord * (Math.PI / 2 - 1);
+  return trapezoidFins(rootChord, tipChord, span, (rootChord - tipChord) / 2);
+}
+
+/**
+ * Trapezoid of the same root chord, span and area as a freeform fin outline
+ * (x aft along the root, y out from the body), swept to the outline's tip
+ */
+export function freeformFins(points: Array<{ x: number; y: number }>): FinPlanform {
+  const span = Math.max(...points.map(point => point.y));
+  const rootPoints = points.filter(point => Math.abs(point.y) < 1e-9);
+  const rootStart = Math.min(...rootPoints.map(point => point.x));
+  const rootChord = Math.max(...rootPoints.map(point => point.x)) - rootStart;
+  const area = Math.abs(points.reduce((sum, point, i) => {
+    const next = points[(i + 1) % points.length];
+    return sum + point.x * next.y - next.x * point.y;
+  }, 0)) / 2;
+  const tip = points.filter(point => point.y === span);
+  const tipChord = Math.max(2 * area / span - rootChord, 0);
+  return trapezoidFins(rootChord, tipChord, span, Math.min(...tip.map(point => point.x)) - rootStart);
+}
+
+/**
+ * A motor mount given by designation; MotorDatabase.resolveConfig fills in
+ * the rest
+ */
+export function motorReference(
+  designation: string | undefined,
+  fields: Partial<MotorConfig> = {}
+): MotorConfig {
+  const defined = Object.entries(fields).filter(([, value]) => value !== undefined);
+  return { ...Object.fromEntries(defined), ...(designation && { designation }) } as MotorConfig;
+}
+
+/**
+ * Designation with the ejection delay as its suffix ("C6-5"), for files that
+ * keep the delay in the name
+ */
+export function designationWithDelay(motor: MotorConfig): string {
+  const designation = motor.designation ?? `${motor.type}${Math.round(motor.thrust)}`;
+  if (motor.ejectionDelay === undefined || /-(\d+|P)$/i.test(designation)) {
+    return designation;
+  }
+  return `${designation}-${motor.ejectionDelay}`;
+}
+
+/**
+ * Fold the stages of a design, top stage first as both formats list them,
+ * into a RocketConfig
+ */
+export function assembleConfig(
+  stages: StageParts[],
+  launch: RocketConfig['launch'],
+  notes: ImportNotes
+): RocketConfig {
+  const [sustainer, ...boosters] = stages;
+  if (!sustainer?.noseCone) {
+    throw new Error('The design has no nose cone');
+  }
+  if (!sustainer.bodyDiameter || sustainer.bodyLength <= 0) {
+    throw new Error('The design has no body tube');
+  }
+
+  const { name: noseName, ...noseCone } = sustainer.noseCone;
+  const fins = onePerStage(sustainer, sustainer.fins, 'fin set', notes)?.fins;
+  const engine = onePerStage(sustainer, sustainer.motors, 'motor mount', notes)?.motor;
+  if (!fins) {
+    throw new Error('The design has no fins');
+  }
+  if (!engine) {
+    throw new Error('The top stage has no motor');
+  }
+  if (noseCone.ballastMass === 0) {
+    delete noseCone.ballastMass;
+  }
+
+  const config: RocketConfig = {
+    body: {
+      length: sustainer.bodyLength,
+      diameter: sustainer.bodyDiameter,
+      mass: Math.max(sustainer.bodyMass, ROCKET_CONSTRAINTS.MIN_MASS),
+      material: sustainer.bodyMaterial ?? RocketMaterial.CARDBOARD,
+      fineness: sustainer.bodyLength / sustainer.bodyDiameter,
+      ...(sustainer.surfaceFinish && { surfaceFinish: sustainer.surfaceFinish })
+    },
+    noseCone,
+    fins,
+    engine,
+    recovery: assembleRecovery(sustainer, notes),
+    launch
+  };
+
+  // Boosters are listed top down; RocketConfig wants them in firing order
+  const stageConfigs = boosters
+    .map(stage => assembleStage(stage, noseName, notes))
+    .filter((stage): stage is StageConfig => !!stage)
+    .reverse();
+  if (stageConfigs.length > 0) {
+    config.stages = stageConfigs;
+  }
+  return config;
+}
+
+function assembleStage(stage: StageParts, noseName: string, notes: ImportNotes): StageConfig | null {
+  if (stage.noseCone) {
+    notes.dropped(stage.noseCone.name, `only the nose cone of the top stage (${noseName}) is modeled`);
+  }
+  stage.recovery.forEach(part => notes.dropped(part.name, 'booster recovery is not modeled'));
+
+  const motor = onePerStage(stage, stage.motors, 'motor mount', notes)?.motor;
+  if (!motor) {
+    notes.dropped(stage.name, 'stage has no motor');
+    return null;
+  }
+
+  const { ignitionDelay, ...motorConfig } = motor;
+  const config: StageConfig = {
+    name: stage.name,
+    body: {
+      length: stage.bodyLength,
+      mass: Math.max(stage.bodyMass, ROCKET_CONSTRAINTS.MIN_MASS),
+      material: stage.bodyMaterial ?? RocketMaterial.CARDBOARD
+    },
+    motors: [motorConfig]
+  };
+  const fins = onePerStage(stage, stage.fins, 'fin set', notes)?.fins;
+  if (fins) config.fins = fins;
+  if (ignitionDelay !== undefined) config.ignitionDelay = ignitionDelay;
+  if (stage.separationDelay !== undefined) config.separationDelay = stage.separationDelay;
+  return config;
+}
+
+/**
+ * The first of a stage's fin sets or motor mounts; RocketConfig has room for one
+ */
+function onePerStage<T extends { name: string }>(
+  stage: StageParts,
+  parts: T[],
+  kind: string,
+  notes: ImportNotes
+): T | undefined {
+  parts.slice(1).forEach(part => notes.dropped(part.name, `only one ${kind} per stage is modeled (${stage.name})`));
+  return parts[0];
+}
+
+/**
+ * One recovery system from the top stage's devices: an altimeter-deployed
+ * parachute with another device is dual deploy, otherwise parachutes are a
+ * cluster and streamers a streamer
+ */
+function assembleRecovery(stage: StageParts, notes: ImportNotes): RocketConfig['recovery'] {
+  const parts = stage.recovery;
+  const mass = Math.max(
+    parts.reduce((sum, part) => sum + part.mass, stage.recoveryMass),
+    ROCKET_CONSTRAINTS.MIN_MASS
+  );
+  const chutes = parts.filter(part => part.kind === 'parachute');
+  const streamers = parts.filter(part => part.kind === 'streamer');
+  const main = chutes.find(part => part.deployAltitude !== undefined);
+  const drogue = parts.find(part => part !== main && part.deployAltitude === undefined);
+  const extra = (kept: RecoveryPart[]) => parts
+    .filter(part => !kept.includes(part))
+    .forEach(part => notes.approximated(part.name, 'counted as recovery mass only'));
+
+  if (main && drogue) {
+    extra([main, drogue]);
+    if (drogue.kind === 'streamer') {
+      notes.approximated(drogue.name, 'streamer drogue modeled as tumbling until the main opens');
+    }
+    return {
+      type: RecoveryType.DUAL_DEPLOY,
+      deploymentAltitude: main.deployAltitude!,
+      parachuteDiameter: main.size,
+      ...(drogue.kind === 'parachute' && { drogueDiameter: drogue.size }),
+      mass
+    };
+  }
+
+  if (chutes.length > 0) {
+    extra(chutes);
+    const chuteCount = Math.min(chutes.length, MAX_CHUTES);
+    // Equal canopies with the same total area
+    const parachuteDiameter = Math.sqrt(chutes.reduce((sum, part) => sum + part.size ** 2, 0) / chuteCount);
+    if (chutes.some(part => Math.abs(part.size - parachuteDiameter) > 1e-6)) {
+      notes.approximated(
+        chutes.map(part => part.name).join(', '),
+        `modeled as ${chuteCount} parachute(s) of ${Number(parachuteDiameter.toFixed(3))} m with the same total area`
+      );
+    }
+    return {
+      type: RecoveryType.PARACHUTE,
+      deploymentAltitude: main?.deployAltitude ?? DEFAULT_DEPLOYMENT_ALTITUDE,
+      parachuteDiameter,
+      chuteCount,
+      mass
+    };
+  }
+
+  if (streamers.length > 0) {
+    extra(streamers.slice(0, 1));
+    return {
+      type: RecoveryType.STREAMER,
+      deploymentAltitude: DEFAULT_DEPLOYMENT_ALTITUDE,
+      streamerLength: streamers[0].size,
+      ...(streamers[0].width !== undefined && { streamerWidth: streamers[0].width }),
+      mass
+    };
+  }
+
+  return { type: RecoveryType.TUMBLE, deploymentAltitude: DEFAULT_DEPLOYMENT_ALTITUDE, mass };
+}
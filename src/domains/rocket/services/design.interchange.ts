@@ -0,0 +1,115 @@
+/**
+ * Design Interchange
+ *
+ * Import and export of rocket designs in other simulators' file formats
+ * (see openrocket.format.ts and rocksim.format.ts). Imported motors are
+ * looked up in the motor database; one it does not carry is replaced by the
+ * closest motor of the same impulse class, and a mount without a motor gets
+ * the strongest motor of its diameter. Either way the import notes say so.
+ */
+
+import {
+  RocketDesign,
+  RocketConfig,
+  MotorConfig,
+  EngineType,
+  DesignFileFormat,
+  DesignImportNote
+} from '../../../shared/types/rocket';
+import { MotorDatabase } from './motor.database';
+import { ImportNotes, ImportedDesign } from './design.components';
+import { readOpenRocket, writeOpenRocket } from './openrocket.format';
+import { readRockSim, writeRockSim } from './rocksim.format';
+
+export interface DesignImport extends ImportedDesign {
+  notes: DesignImportNote[];
+}
+
+export interface DesignExport {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+const FORMATS: Record<DesignFileFormat, {
+  read: (content: Buffer, notes: ImportNotes) => ImportedDesign;
+  write: (rocket: RocketDesign) => Buffer;
+  contentType: string;
+}> = {
+  [DesignFileFormat.ORK]: { read: readOpenRocket, write: writeOpenRocket, contentType: 'application/zip' },
+  [DesignFileFormat.RKT]: { read: readRockSim, write: writeRockSim, contentType: 'application/xml; charset=utf-8' }
+};
+
+/**
+ * Read a design file into a configuration with its motors resolved, and the
+ * notes on what did not map exactly
+ */
+export function importDesign(content: Buffer, format: DesignFileFormat, motorDatabase: MotorDatabase): DesignImport {
+  const handler = FORMATS[format];
+  if (!handler) {
+    throw new Error(`Unsupported design format '${format}'`);
+  }
+
+  const notes = new ImportNotes();
+  const design = handler.read(content, notes);
+  const config: RocketConfig = {
+    ...design.config,
+    engine: matchMotor(design.config.engine, 'Sustainer motor', motorDatabase, notes)
+  };
+  if (design.config.stages) {
+    config.stages = design.config.stages.map(stage => ({
+      ...stage,
+      motors: stage.motors.map(motor => matchMotor(motor, `${stage.name} motor`, motorDatabase, notes))
+    }));
+  }
+
+  return { ...design, config: motorDatabase.resolveConfig(config), notes: notes.notes };
+}
+
+/**
+ * Write a design in another simulator's format
+ */
+export function exportDesign(rocket: RocketDesign, format: DesignFileFormat): DesignExport {
+  const handler = FORMATS[format];
+  if (!handler) {
+    throw new Error(`Unsupported design format '${format}'`);
+  }
+
+  const basename = rocket.name.trim().replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || `rocket-${rocket.id}`;
+  return {
+    filename: `${basename}.${format}`,
+    contentType: handler.contentType,
+    content: handler.write(rocket)
+  };
+}
+
+function matchMotor(motor: MotorConfig, component: string, motorDatabase: MotorDatabase, notes: ImportNotes): MotorConfig {
+  if (motor.designation && motorDatabase.find(motor.designation)) {
+    return motor;
+  }
+
+  // "C6-5" is a C, "1/2A3-2" an A
+  const letter = motor.designation?.match(/^(?:\d+\/\d+)?([A-Z])/i)?.[1].toUpperCase();
+  const impulseClass = Object.values(EngineType).find(type => type === letter);
+  const candidates = motorDatabase.list(impulseClass ? { impulseClass } : {});
+  if (candidates.length === 0) {
+    throw new Error(`No ${impulseClass} motor in the motor database to stand in for ${motor.designation} (${component})`);
+  }
+
+  // Closest diameter, the strongest of those (the list is sorted by total impulse)
+  const diameter = (motor.diameter ?? 0) * 1000;
+  const match = candidates.reduce((best, candidate) =>
+    Math.abs(candidate.diameter - diameter) <= Math.abs(best.diameter - diameter) ? candidate : best
+  );
+  const suffix = motor.designation?.match(/-(\d+(?:\.\d+)?)$/);
+  const ejectionDelay = motor.ejectionDelay ?? (suffix ? Number(suffix[1]) : undefined);
+
+  notes.approximated(component, motor.designation
+    ? `${motor.designation} is not in the motor database; using ${match.designation}`
+    : `no motor in the file; using ${match.designation} to fit the ${diameter || 'unsized'} mm mount`);
+  return {
+    ...motor,
+    designation: match.designation,
+    ...(ejectionDelay !== undefined && { ejectionDelay })
+  };
+}
@@ -0,0 +1,373 @@
+/**
+ * Design Optimizer
+ *
+ * Searches the free dimensions of a design for the best flight: an apogee
+ * closest to a target, the highest apogee or the shortest landing distance.
+ * Each motor is searched separately with Nelder–Mead, restarted from its best
+ * point until a restart stops improving. The search runs on unbounded
+ * coordinates mapped into each variable's bounds by (1 + sin u) / 2, which
+ * keeps the simplex from collapsing against a bound the way clamping would.
+ * Designs below the minimum stability margin, and flights that fail, carry a
+ * penalty larger than any flight can score, so the search walks back into the
+ * stable region instead of stopping at its edge. Every simulated candidate is
+ * kept and the best distinct stable ones are returned.
+ */
+
+import {
+  RocketConfig,
+  MotorConfig,
+  WeatherConditions,
+  LaunchOptions,
+  OptimizationRequest,
+  OptimizationResult,
+  OptimizationCandidate,
+  OptimizationProgress,
+  OptimizationObjective,
+  OptimizationParameter,
+  OptimizationVariable
+} from '../../../shared/types/rocket';
+import { SimulationRunner, runSimulation } from './simulation.runner';
+
+export const DEFAULT_MIN_STABILITY_MARGIN = 1.5; // calibers
+export const DEFAULT_OPTIMIZATION_EVALUATIONS = 150;
+export const DEFAULT_OPTIMIZATION_RESULTS = 5;
+
+// Candidates only need apogee and landing point, so integrate with coarse output
+const OPTIMIZATION_TIME_STEP = 0.05; // s
+
+// Wind gusts are drawn from a fixed seed so every candidate flies the same day
+const OPTIMIZATION_SEED = 1;
+
+// Costs are in meters; no flight comes near these
+const UNSTABLE_PENALTY = 1e6; // plus this per caliber below the margin
+const FAILED_FLIGHT_PENALTY = 1e7;
+
+// Nelder–Mead coefficients and stopping rules (scaled coordinates)
+const REFLECTION = 1;
+const EXPANSION = 2;
+const CONTRACTION = 0.5;
+const SHRINK = 0.5;
+const INITIAL_STEP = 0.5; // rad
+const SIMPLEX_TOLERANCE = 1e-3; // rad
+const COST_TOLERANCE = 0.01; // m
+
+// Candidates closer than this share of every range count as the same design
+const DISTINCT_FRACTION = 0.05;
+
+// Values are reported to 0.1 mm and 0.1 g
+const VALUE_PRECISION = 1e4;
+
+interface EvaluatedCandidate {
+  candidate: OptimizationCandidate;
+  cost: number;
+  feasible: boolean;
+}
+
+/**
+ * Search a resolved config for the best flights. `motors` are resolved
+ * engines to try in the upper stage mount; the config's own engine is used
+ * when there are none.
+ */
+export async function optimizeDesign(
+  config: RocketConfig,
+  weather: WeatherConditions,
+  request: OptimizationRequest,
+  motors: MotorConfig[] = [],
+  runner: SimulationRunner = runSimulation,
+  onProgress?: (progress: OptimizationProgress) => void
+): Promise<OptimizationResult> {
+  const variables = request.variables ?? [];
+  const engines = motors.length > 0 ? motors : [config.engine];
+  const minStabilityMargin = request.minStabilityMargin ?? DEFAULT_MIN_STABILITY_MARGIN;
+  const maxEvaluations = request.maxEvaluations ?? DEFAULT_OPTIMIZATION_EVALUATIONS;
+  const launchOptions: LaunchOptions = {
+    ...request.options,
+    timeStep: request.options?.timeStep ?? OPTIMIZATION_TIME_STEP,
+    detailedTelemetry: false,
+    seed: request.options?.seed ?? OPTIMIZATION_SEED
+  };
+
+  if (request.objective === OptimizationObjective.TARGET_APOGEE && !request.targetApogee) {
+    throw new Error('A target apogee is needed to aim for one');
+  }
+
+  const evaluated = new Map<string, EvaluatedCandidate>();
+  let evaluations = 0;
+  let best: number | undefined;
+
+  // The budget is shared evenly between the motors
+  const motorBudget = Math.max(1, Math.floor(maxEvaluations / engines.length));
+
+  for (const engine of engines) {
+    const motor = engine.designation ?? engine.type;
+    const budgetEnd = Math.min(maxEvaluations, evaluations + motorBudget);
+
+    const cost = async (point: number[]): Promise<number> => {
+      const values = toValues(variables, point);
+      const key = `${motor}|${variables.map(variable => values[variable.parameter]).join(',')}`;
+      const known = evaluated.get(key);
+      if (known) return known.cost;
+      if (evaluations >= budgetEnd) return Infinity;
+
+      const candidateConfig = applyValues({ ...config, engine }, values);
+      const { results } = await runner({ config: candidateConfig, weather, launchOptions });
+      evaluations++;
+
+      const candidate: OptimizationCandidate = {
+        config: candidateConfig,
+        values,
+        motor,
+        apogee: results.maxAltitude,
+        stabilityMargin: results.stabilityMargin,
+        landingDistance: results.landingDistance,
+        objectiveValue: objectiveValue(request, results.maxAltitude, results.landingDistance)
+      };
+      const feasible = results.successful && results.stabilityMargin >= minStabilityMargin;
+      const entry = { candidate, cost: candidateCost(request, candidate, minStabilityMargin, results.successful), feasible };
+      evaluated.set(key, entry);
+
+      if (feasible && (best === undefined || entry.cost < costOf(request, best))) {
+        best = candidate.objectiveValue;
+      }
+      onProgress?.({
+        evaluations,
+        maxEvaluations,
+        fraction: Math.min(1, evaluations / maxEvaluations),
+        motor,
+        bestObjectiveValue: best
+      });
+
+      return entry.cost;
+    };
+
+    let start = variables.map(variable => toAngle(variable, baseValue(config, variable.parameter)));
+    let previous = Infinity;
+    while (evaluations < budgetEnd) {
+      const found = await nelderMead(cost, start, () => evaluations < budgetEnd);
+      if (variables.length === 0 || !(found.cost < previous - COST_TOLERANCE)) break;
+      start = found.point;
+      previous = found.cost;
+    }
+  }
+
+  const candidates = distinctCandidates(
+    Array.from(evaluated.values())
+      .filter(entry => entry.feasible)
+      .sort((a, b) => a.cost - b.cost)
+      .map(entry => entry.candidate),
+    variables,
+    request.results ?? DEFAULT_OPTIMIZATION_RESULTS
+  );
+
+  if (candidates.length === 0) {
+    throw new Error(
+      `No candidate flew successfully with a stability margin of ${minStabilityMargin} calibers; ` +
+      'widen the bounds or add nose ballast'
+    );
+  }
+
+  return {
+    objective: request.objective,
+    targetApogee: request.targetApogee,
+    minStabilityMargin,
+    evaluations,
+    candidates
+  };
+}
+
+/**
+ * A copy of the config with the variables set. Masses follow the size of the
+ * part they belong to, so a longer tube or larger fins are not free.
+ */
+export function applyValues(
+  config: RocketConfig,
+  values: Partial<Record<OptimizationParameter, number>>
+): RocketConfig {
+  const body = { ...config.body };
+  const noseCone = { ...config.noseCone };
+  const fins = { ...config.fins };
+  const recovery = { ...config.recovery };
+
+  for (const [parameter, value] of Object.entries(values) as Array<[OptimizationParameter, number]>) {
+    switch (parameter) {
+      case OptimizationParameter.FIN_SPAN:
+        fins.mass *= value / config.fins.span;
+        fins.span = value;
+        break;
+      case OptimizationParameter.FIN_ROOT_CHORD:
+        fins.mass *= (value + config.fins.tipChord) / (config.fins.rootChord + config.fins.tipChord);
+        fins.rootChord = value;
+        break;
+      case OptimizationParameter.BODY_LENGTH:
+        body.mass *= value / config.body.length;
+        body.length = value;
+        body.fineness = value / config.body.diameter;
+        break;
+      case OptimizationParameter.NOSE_LENGTH:
+        noseCone.mass *= value / config.noseCone.length;
+        noseCone.length = value;
+        break;
+      case OptimizationParameter.NOSE_BALLAST:
+        noseCone.ballastMass = value;
+        break;
+      case OptimizationParameter.PARACHUTE_DIAMETER:
+        recovery.parachuteDiameter = value;
+        break;
+    }
+  }
+
+  return { ...config, body, noseCone, fins, recovery };
+}
+
+/**
+ * Minimize `cost` from `start` until it converges or `hasBudget` says stop,
+ * returning the best vertex
+ */
+async function nelderMead(
+  cost: (point: number[]) => Promise<number>,
+  start: number[],
+  hasBudget: () => boolean
+): Promise<{ point: number[]; cost: number }> {
+  const n = start.length;
+  let simplex = [start, ...start.map((_, i) => {
+    const vertex = [...start];
+    vertex[i] += INITIAL_STEP;
+    return vertex;
+  })];
+  let costs: number[] = [];
+  for (const vertex of simplex) {
+    costs.push(await cost(vertex));
+  }
+
+  const sort = () => {
+    const order = costs.map((_, i) => i).sort((a, b) => costs[a] - costs[b]);
+    simplex = order.map(i => simplex[i]);
+    costs = order.map(i => costs[i]);
+  };
+
+  while (n > 0 && hasBudget()) {
+    sort();
+    const size = Math.max(...simplex.slice(1).map(vertex =>
+      Math.max(...vertex.map((value, i) => Math.abs(value - simplex[0][i])))
+    ));
+    if (size < SIMPLEX_TOLERANCE || costs[n] - costs[0] < COST_TOLERANCE) {
+      break;
+    }
+
+    const centroid = start.map((_, i) => simplex.slice(0, n).reduce((sum, vertex) => sum + vertex[i], 0) / n);
+    const towards = (from: number[], to: number[], scale: number) =>
+      from.map((value, i) => value + scale * (to[i] - value));
+
+    const reflected = towards(centroid, simplex[n], -REFLECTION);
+    const reflectedCost = await cost(reflected);
+
+    if (reflectedCost < costs[0]) {
+      const expanded = towards(centroid, reflected, EXPANSION);
+      const expandedCost = await cost(expanded);
+      [simplex[n], costs[n]] = expandedCost < reflectedCost ? [expanded, expandedCost] : [reflected, reflectedCost];
+    } else if (reflectedCost < costs[n - 1]) {
+      [simplex[n], costs[n]] = [reflected, reflectedCost];
+    } else {
+      const outside = reflectedCost < costs[n];
+      const contracted = towards(centroid, outside ? reflected : simplex[n], CONTRACTION);
+      const contractedCost = await cost(contracted);
+
+      if (contractedCost < Math.min(reflectedCost, costs[n])) {
+        [simplex[n], costs[n]] = [contracted, contractedCost];
+      } else {
+        for (let i = 1; i <= n; i++) {
+          simplex[i] = towards(simplex[0], simplex[i], SHRINK);
+          costs[i] = await cost(simplex[i]);
+        }
+      }
+    }
+  }
+
+  sort();
+  return { point: simplex[0], cost: costs[0] };
+}
+
+/**
+ * The first `count` candidates that differ from every better one by more
+ * than DISTINCT_FRACTION of some range, or in motor
+ */
+function distinctCandidates(
+  sorted: OptimizationCandidate[],
+  variables: OptimizationVariable[],
+  count: number
+): OptimizationCandidate[] {
+  const chosen: OptimizationCandidate[] = [];
+  for (const candidate of sorted) {
+    if (chosen.length >= count) break;
+    const duplicate = chosen.some(other => other.motor === candidate.motor && variables.every(variable =>
+      Math.abs(other.values[variable.parameter]! - candidate.values[variable.parameter]!) <=
+        DISTINCT_FRACTION * (variable.max - variable.min)
+    ));
+    if (!duplicate) chosen.push(candidate);
+  }
+  return chosen;
+}
+
+function candidateCost(
+  request: OptimizationRequest,
+  candidate: OptimizationCandidate,
+  minStabilityMargin: number,
+  successful: boolean
+): number {
+  if (!successful) {
+    return FAILED_FLIGHT_PENALTY;
+  }
+  const cost = costOf(request, candidate.objectiveValue);
+  if (candidate.stabilityMargin < minStabilityMargin) {
+    return UNSTABLE_PENALTY * (1 + minStabilityMargin - candidate.stabilityMargin) + cost;
+  }
+  return cost;
+}
+
+// Lower is better
+function costOf(request: OptimizationRequest, objectiveValue: number): number {
+  return request.objective === OptimizationObjective.MAX_ALTITUDE ? -objectiveValue : objectiveValue;
+}
+
+function objectiveValue(request: OptimizationRequest, apogee: number, landingDistance: number): number {
+  switch (request.objective) {
+    case OptimizationObjective.TARGET_APOGEE:
+      return Math.abs(apogee - request.targetApogee!);
+    case OptimizationObjective.MAX_ALTITUDE:
+      return apogee;
+    case OptimizationObjective.MIN_DRIFT:
+      return landingDistance;
+  }
+}
+
+function baseValue(config: RocketConfig, parameter: OptimizationParameter): number {
+  switch (parameter) {
+    case OptimizationParameter.FIN_SPAN:
+      return config.fins.span;
+    case OptimizationParameter.FIN_ROOT_CHORD:
+      return config.fins.rootChord;
+    case OptimizationParameter.BODY_LENGTH:
+      return config.body.length;
+    case OptimizationParameter.NOSE_LENGTH:
+      return config.noseCone.length;
+    case OptimizationParameter.NOSE_BALLAST:
+      return config.noseCone.ballastMass ?? 0;
+    case OptimizationParameter.PARACHUTE_DIAMETER:
+      return config.recovery.parachuteDiameter ?? 0;
+  }
+}
+
+function toValues(variables: OptimizationVariable[], point: number[]): Partial<Record<OptimizationParameter, number>> {
+  const values: Partial<Record<OptimizationParameter, number>> = {};
+  variables.forEach((variable, i) => {
+    const value = variable.min + (1 + Math.sin(point[i])) / 2 * (variable.max - variable.min);
+    values[variable.parameter] = Math.round(value * VALUE_PRECISION) / VALUE_PRECISION;
+  });
+  return values;
+}
+
+// Search coordinate of a value, which is clamped into the bounds
+function toAngle(variable: OptimizationVariable, value: number): number {
+  const fraction = Math.min(1, Math.max(0, (value - variable.min) / (variable.max - variable.min)));
+  return Math.asin(2 * fraction - 1);
+}
@@ -0,0 +1,265 @@
+/**
+ * Dispersion Analysis
+ *
+ * Monte Carlo landing dispersion: repeated seeded simulations with the wind,
+ * motor impulse, launch rod tilt and dry mass drawn from normal distributions
+ * around the nominal values (tolerances are 1σ; the rod is off by the launch
+ * angle tolerance both north and east, so it can lean any way). Failed runs,
+ * which never land, are left out of the statistics. Landing points are summarised
+ * by confidence ellipses from their covariance; in two dimensions the kσ
+ * ellipse is expected to hold 1 − exp(−k²/2) of the landings (39%, 86%, 99%).
+ */
+
+import {
+  RocketConfig,
+  MotorConfig,
+  WeatherConditions,
+  LaunchOptions,
+  FlightPhase,
+  DispersionAnalysis,
+  DispersionRequest,
+  DispersionTolerances,
+  DispersionStatistics,
+  LandingPoint,
+  LandingEllipse
+} from '../../../shared/types/rocket';
+import { SimulationRunner, runSimulation } from './simulation.runner';
+import { RandomSource, createRandom, normalRandom, randomSeed } from './random';
+
+export const DEFAULT_DISPERSION_RUNS = 100;
+
+export const DEFAULT_DISPERSION_TOLERANCES: DispersionTolerances = {
+  windSpeed: 1, // m/s
+  windDirection: 15, // degrees
+  motorImpulse: 0.05, // fraction of total impulse
+  launchAngle: 1, // degrees
+  mass: 0.02 // fraction of dry mass
+};
+
+export const LANDING_ELLIPSE_SIGMAS = [1, 2, 3];
+
+// Dispersion runs only need the landing point, so integrate with coarse output
+const DISPERSION_TIME_STEP = 0.05; // s
+
+// Scale factors are kept positive however large the tolerance
+const MIN_SCALE_FACTOR = 0.1;
+
+export interface DispersionRun {
+  apogee: number;
+  landingPoint?: LandingPoint; // undefined if the rocket never landed
+}
+
+// A run that landed
+type LandedRun = DispersionRun & { landingPoint: LandingPoint };
+
+// Analysis results before they are stored against a rocket
+export type DispersionSummary = Omit<DispersionAnalysis, 'id' | 'rocketId' | 'userId' | 'config' | 'weather' | 'createdAt'>;
+
+/**
+ * Run a Monte Carlo dispersion analysis around a nominal config and weather,
+ * flying the runs with `runner` (on the calling thread by default)
+ */
+export async function runDispersionAnalysis(
+  config: RocketConfig,
+  weather: WeatherConditions,
+  request: DispersionRequest = {},
+  runner: SimulationRunner = runSimulation
+): Promise<DispersionSummary> {
+  const runs = request.runs ?? DEFAULT_DISPERSION_RUNS;
+  const seed = request.seed ?? randomSeed();
+  const tolerances = { ...DEFAULT_DISPERSION_TOLERANCES, ...request.tolerances };
+  const random = createRandom(seed);
+
+  // Every run is drawn before any flies, so the draws do not depend on run order
+  const draws = Array.from({ length: runs }, () => ({
+    config: perturbConfig(config, tolerances, random),
+    weather: perturbWeather(weather, tolerances, random),
+    seed: Math.floor(random() * 4294967296)
+  }));
+  const results = await Promise.all(draws.map(draw =>
+    simulateRun(runner, draw.config, draw.weather, { ...request.options, seed: draw.seed })
+  ));
+
+  const landed = results.filter((result): result is LandedRun => result.landingPoint !== undefined);
+  const landingPoints = landed.map(result => result.landingPoint);
+  const landingDistances = landingPoints.map(point => Math.hypot(point.x, point.z));
+
+  const summary: DispersionSummary = {
+    runs,
+    failedRuns: runs - landingPoints.length,
+    seed,
+    tolerances,
+    apogee: calculateStatistics(landed.map(result => result.apogee)),
+    landingDistance: calculateStatistics(landingDistances),
+    landingPoints,
+    landingEllipses: LANDING_ELLIPSE_SIGMAS.map(sigma => calculateLandingEllipse(landingPoints, sigma))
+  };
+
+  if (request.fieldRadius !== undefined) {
+    summary.fieldRadius = request.fieldRadius;
+    summary.landingsOutsideField = landingDistances.filter(distance => distance > request.fieldRadius!).length;
+  }
+
+  return summary;
+}
+
+/**
+ * Config with the motor impulse, launch rod tilt and dry mass drawn around nominal
+ */
+export function perturbConfig(
+  config: RocketConfig,
+  tolerances: DispersionTolerances,
+  random: RandomSource
+): RocketConfig {
+  const impulseScale = Math.max(MIN_SCALE_FACTOR, 1 + tolerances.motorImpulse * normalRandom(random));
+  const massScale = Math.max(MIN_SCALE_FACTOR, 1 + tolerances.mass * normalRandom(random));
+
+  // Tilt as a north/east vector (degrees), so the error can point anywhere around the nominal
+  const nominalDirection = ((config.launch.launchDirection ?? 0) * Math.PI) / 180;
+  const north = config.launch.launchAngle * Math.cos(nominalDirection) + tolerances.launchAngle * normalRandom(random);
+  const east = config.launch.launchAngle * Math.sin(nominalDirection) + tolerances.launchAngle * normalRandom(random);
+  const launchAngle = Math.hypot(north, east);
+  const launchDirection = ((Math.atan2(east, north) * 180) / Math.PI + 360) % 360;
+
+  return {
+    ...config,
+    body: { ...config.body, mass: config.body.mass * massScale },
+    noseCone: {
+      ...config.noseCone,
+      mass: config.noseCone.mass * massScale,
+      ballastMass: config.noseCone.ballastMass === undefined ? undefined : config.noseCone.ballastMass * massScale
+    },
+    fins: { ...config.fins, mass: config.fins.mass * massScale },
+    recovery: { ...config.recovery, mass: config.recovery.mass * massScale },
+    engine: scaleMotorImpulse(config.engine, impulseScale),
+    stages: config.stages?.map(stage => ({
+      ...stage,
+      body: { ...stage.body, mass: stage.body.mass * massScale },
+      fins: stage.fins && { ...stage.fins, mass: stage.fins.mass * massScale },
+      motors: stage.motors.map(motor => scaleMotorImpulse(motor, impulseScale))
+    })),
+    launch: { ...config.launch, launchAngle, launchDirection }
+  };
+}
+
+/**
+ * Weather with the wind speed and direction drawn around nominal
+ */
+export function perturbWeather(
+  weather: WeatherConditions,
+  tolerances: DispersionTolerances,
+  random: RandomSource
+): WeatherConditions {
+  const windSpeed = Math.max(0, weather.windSpeed + tolerances.windSpeed * normalRandom(random));
+  const windDirection = weather.windDirection + tolerances.windDirection * normalRandom(random);
+
+  return {
+    ...weather,
+    windSpeed,
+    windDirection: ((windDirection % 360) + 360) % 360,
+    // Keep the same gust excess over the mean wind
+    windGustSpeed: weather.windGustSpeed === undefined
+      ? undefined
+      : weather.windGustSpeed + windSpeed - weather.windSpeed
+  };
+}
+
+/**
+ * Mean, sample standard deviation and range of a set of values
+ */
+export function calculateStatistics(values: number[]): DispersionStatistics {
+  if (values.length === 0) {
+    return { mean: 0, standardDeviation: 0, min: 0, max: 0 };
+  }
+
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.length > 1
+    ? values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1)
+    : 0;
+
+  return {
+    mean,
+    standardDeviation: Math.sqrt(variance),
+    min: Math.min(...values),
+    max: Math.max(...values)
+  };
+}
+
+/**
+ * kσ confidence ellipse of landing points from the eigenvalues of their covariance
+ */
+export function calculateLandingEllipse(points: LandingPoint[], sigma: number): LandingEllipse {
+  const probability = 1 - Math.exp(-(sigma ** 2) / 2);
+  const count = points.length;
+  const center = {
+    x: count > 0 ? points.reduce((sum, point) => sum + point.x, 0) / count : 0,
+    z: count > 0 ? points.reduce((sum, point) => sum + point.z, 0) / count : 0
+  };
+
+  if (count < 2) {
+    return { sigma, probability, center, semiMajorAxis: 0, semiMinorAxis: 0, orientation: 0 };
+  }
+
+  let xx = 0;
+  let zz = 0;
+  let xz = 0;
+  for (const point of points) {
+    xx += (point.x - center.x) ** 2;
+    zz += (point.z - center.z) ** 2;
+    xz += (point.x - center.x) * (point.z - center.z);
+  }
+  xx /= count - 1;
+  zz /= count - 1;
+  xz /= count - 1;
+
+  // Eigenvalues of the symmetric 2×2 covariance matrix
+  const mean = (xx + zz) / 2;
+  const spread = Math.sqrt(((xx - zz) / 2) ** 2 + xz ** 2);
+  const major = mean + spread;
+  const minor = Math.max(0, mean - spread);
+
+  // Major axis angle from north (x) towards east (z), folded into [0, 180)
+  const angle = (0.5 * Math.atan2(2 * xz, xx - zz) * 180) / Math.PI;
+
+  return {
+    sigma,
+    probability,
+    center,
+    semiMajorAxis: sigma * Math.sqrt(major),
+    semiMinorAxis: sigma * Math.sqrt(minor),
+    orientation: (angle + 180) % 180
+  };
+}
+
+/**
+ * Same burn time, so the impulse scales with the thrust
+ */
+function scaleMotorImpulse(motor: MotorConfig, impulseScale: number): MotorConfig {
+  return {
+    ...motor,
+    thrust: motor.thrust * impulseScale,
+    thrustCurve: motor.thrustCurve?.map(point => ({ ...point, thrust: point.thrust * impulseScale }))
+  };
+}
+
+async function simulateRun(
+  runner: SimulationRunner,
+  config: RocketConfig,
+  weather: WeatherConditions,
+  options: LaunchOptions
+): Promise<DispersionRun> {
+  const launchOptions = {
+    ...options,
+    timeStep: options.timeStep ?? DISPERSION_TIME_STEP,
+    detailedTelemetry: false
+  };
+  const { results, telemetry } = await runner({ config, weather, launchOptions });
+  const landing = telemetry[telemetry.length - 1];
+
+  return {
+    apogee: results.maxAltitude,
+    landingPoint: landing?.phase === FlightPhase.LANDING
+      ? { x: landing.position.x, z: landing.position.z }
+      : undefined
+  };
+}
@@ -0,0 +1,164 @@
+/**
+ * Drag Calibration
+ *
+ * Fits a multiplier on the component drag buildup (drag.model.ts) to real
+ * flights of a design: apogees read off an altimeter or estimated by an
+ * observer, and stopwatch times to apogee. The fitted multiplier minimizes the
+ * summed squared relative error between simulated and observed values. Apogee
+ * falls steadily as drag rises, so a golden-section search over the logarithm
+ * of the multiplier settles in under twenty simulations of each flight.
+ */
+
+import {
+  RocketConfig,
+  LaunchOptions,
+  ApogeeObservation,
+  CalibratedFlight,
+  DragCalibration,
+  DEFAULT_WEATHER,
+  ROCKET_CONSTRAINTS
+} from '../../../shared/types/rocket';
+import { SimulationRunner, runSimulation } from './simulation.runner';
+
+// Only the climb matters, so integrate with coarse output and stop after apogee
+const CALIBRATION_TIME_STEP = 0.05; // s
+const APOGEE_TIME_MARGIN = 2; // stop at this multiple of the nominal time to apogee...
+const MIN_CALIBRATION_FLIGHT_TIME = 10; // s ...but never sooner
+
+// Wind gusts are drawn from a fixed seed so each multiplier sees the same flights
+const CALIBRATION_SEED = 1;
+
+// Search precision on the multiplier (relative)
+const MULTIPLIER_TOLERANCE = 0.002;
+
+const GOLDEN_RATIO = (Math.sqrt(5) - 1) / 2;
+
+interface SimulatedApogee {
+  apogee: number; // meters AGL
+  apogeeTime: number; // seconds
+}
+
+/**
+ * Fit the drag multiplier of a config to observed flights. Observations need
+ * an apogee, an apogee time or both; apogees from flight logs must already be
+ * filled in. Flights are flown by `runner`, on the calling thread by default.
+ */
+export async function calibrateDragMultiplier(
+  config: RocketConfig,
+  observations: ApogeeObservation[],
+  options: LaunchOptions = {},
+  runner: SimulationRunner = runSimulation
+): Promise<DragCalibration> {
+  if (observations.length === 0) {
+    throw new Error('At least one observed flight is needed');
+  }
+  if (observations.some(observation => !observation.apogee && !observation.apogeeTime)) {
+    throw new Error('Each observation needs an apogee or a time to apogee');
+  }
+
+  const previousMultiplier = config.aerodynamics?.dragMultiplier ?? 1;
+  const simulateAll = (multiplier: number, maxFlightTime?: number) => Promise.all(
+    observations.map(observation => simulateApogee(runner, config, multiplier, observation, options, maxFlightTime))
+  );
+
+  // Nominal flights, which also bound how long the fitting runs need to fly
+  const before = await simulateAll(previousMultiplier);
+  const maxFlightTime = Math.max(
+    MIN_CALIBRATION_FLIGHT_TIME,
+    APOGEE_TIME_MARGIN * Math.max(...before.map(flight => flight.apogeeTime))
+  );
+  const error = async (logMultiplier: number) =>
+    squaredError(observations, await simulateAll(Math.exp(logMultiplier), maxFlightTime));
+
+  // Golden-section search over log(multiplier)
+  let low = Math.log(ROCKET_CONSTRAINTS.MIN_DRAG_MULTIPLIER);
+  let high = Math.log(ROCKET_CONSTRAINTS.MAX_DRAG_MULTIPLIER);
+  let left = high - GOLDEN_RATIO * (high - low);
+  let right = low + GOLDEN_RATIO * (high - low);
+  let leftError = await error(left);
+  let rightError = await error(right);
+
+  while (high - low > MULTIPLIER_TOLERANCE) {
+    if (leftError < rightError) {
+      high = right;
+      right = left;
+      rightError = leftError;
+      left = high - GOLDEN_RATIO * (high - low);
+      leftError = await error(left);
+    } else {
+      low = left;
+      left = right;
+      leftError = rightError;
+      right = low + GOLDEN_RATIO * (high - low);
+      rightError = await error(right);
+    }
+  }
+
+  const dragMultiplier = Math.round(Math.exp((low + high) / 2) * 1000) / 1000;
+  if (
+    dragMultiplier <= ROCKET_CONSTRAINTS.MIN_DRAG_MULTIPLIER * (1 + 2 * MULTIPLIER_TOLERANCE) ||
+    dragMultiplier >= ROCKET_CONSTRAINTS.MAX_DRAG_MULTIPLIER * (1 - 2 * MULTIPLIER_TOLERANCE)
+  ) {
+    throw new Error(
+      `The observed flights need a drag multiplier outside ${ROCKET_CONSTRAINTS.MIN_DRAG_MULTIPLIER}-` +
+      `${ROCKET_CONSTRAINTS.MAX_DRAG_MULTIPLIER}; check the motor and masses before blaming drag`
+    );
+  }
+
+  const after = await simulateAll(dragMultiplier);
+  const flights: CalibratedFlight[] = observations.map((observation, index) => ({
+    observed: { apogee: observation.apogee, apogeeTime: observation.apogeeTime },
+    before: before[index],
+    after: after[index]
+  }));
+  const terms = observations.reduce(
+    (count, observation) => count + (observation.apogee ? 1 : 0) + (observation.apogeeTime ? 1 : 0),
+    0
+  );
+
+  return {
+    dragMultiplier,
+    previousMultiplier,
+    residual: Math.sqrt(squaredError(observations, after) / terms),
+    flights
+  };
+}
+
+async function simulateApogee(
+  runner: SimulationRunner,
+  config: RocketConfig,
+  dragMultiplier: number,
+  observation: ApogeeObservation,
+  options: LaunchOptions,
+  maxFlightTime?: number
+): Promise<SimulatedApogee> {
+  const flightConfig: RocketConfig = {
+    ...config,
+    aerodynamics: { dragMultiplier },
+    launch: { ...config.launch, launchAngle: observation.launchAngle ?? config.launch.launchAngle }
+  };
+  const launchOptions: LaunchOptions = {
+    ...options,
+    timeStep: options.timeStep ?? CALIBRATION_TIME_STEP,
+    maxFlightTime: maxFlightTime ?? options.maxFlightTime,
+    detailedTelemetry: false,
+    seed: CALIBRATION_SEED
+  };
+  const weather = { ...DEFAULT_WEATHER, ...observation.weather };
+
+  const { results } = await runner({ config: flightConfig, weather, launchOptions });
+  if (!results.maxAltitude) {
+    throw new Error(results.issues.find(issue => issue.type === 'error')?.message ?? 'The simulated flight failed');
+  }
+
+  return { apogee: results.maxAltitude, apogeeTime: results.apogeeTime };
+}
+
+function squaredError(observations: ApogeeObservation[], simulated: SimulatedApogee[]): number {
+  return observations.reduce((sum, observation, index) => {
+    const flight = simulated[index];
+    const apogeeError = observation.apogee ? (flight.apogee - observation.apogee) / observation.apogee : 0;
+    const timeError = observation.apogeeTime ? (flight.apogeeTime - observation.apogeeTime) / observation.apogeeTime : 0;
+    return sum + apogeeError ** 2 + timeError ** 2;
+  }, 0);
+}
@@ -0,0 +1,214 @@
+/**
+ * Drag Model
+ *
+ * Component drag buildup referenced to the body cross-sectional area:
+ * skin friction on the nose, body and fins (with surface roughness),
+ * nose cone pressure drag by shape, fin edge drag (rounded leading and
+ * square trailing edges),
+ * base drag that drops while the motor is firing, and transonic wave drag.
+ * Booster stages lengthen the body and add their own fin sets.
+ * Loosely follows the OpenRocket/Barrowman buildup with simplified
+ * compressibility corrections.
+ */
+
+import {
+  RocketConfig,
+  NoseConeType,
+  SurfaceFinish,
+  DragCurvePoint
+} from '../../../shared/types/rocket';
+import { aftMotors, airframeLength, finSets, motorCount } from './staging.model';
+
+const KINEMATIC_VISCOSITY = 1.5e-5; // m²/s, air at 15 °C
+const SPEED_OF_SOUND = 340.3; // m/s, sea level standard
+
+// Equivalent sand-grain roughness height (m)
+export const SURFACE_ROUGHNESS: Record<SurfaceFinish, number> = {
+  [SurfaceFinish.ROUGH]: 500e-6,
+  [SurfaceFinish.UNFINISHED]: 150e-6,
+  [SurfaceFinish.REGULAR_PAINT]: 60e-6,
+  [SurfaceFinish.SMOOTH_PAINT]: 20e-6,
+  [SurfaceFinish.POLISHED]: 2e-6
+};
+
+// Relative transonic wave drag of each nose shape
+const NOSE_WAVE_DRAG_FACTOR: Record<NoseConeType, number> = {
+  [NoseConeType.CONICAL]: 1.0,
+  [NoseConeType.OGIVE]: 0.7,
+  [NoseConeType.PARABOLIC]: 0.5,
+  [NoseConeType.ELLIPTICAL]: 0.9,
+  [NoseConeType.BLUNT]: 1.5
+};
+
+const BLUNT_NOSE_PRESSURE_DRAG = 0.25;
+const CRITICAL_MACH = 0.8;
+const WAVE_DRAG_PEAK_MACH = 1.05;
+
+export interface DragConditions {
+  mach: number;
+  velocity?: number; // m/s, defaults to mach × sea-level speed of sound
+  kinematicViscosity?: number; // m²/s, defaults to air at 15 °C
+  thrusting?: boolean; // motor exhaust fills part of the base
+}
+
+export interface DragBreakdown {
+  friction: number;
+  nosePressure: number;
+  finPressure: number;
+  base: number;
+  wave: number;
+  total: number;
+}
+
+/**
+ * Skin friction coefficient for a surface of the given length
+ */
+function skinFrictionCoefficient(reynoldsNumber: number, length: number, roughness: number, mach: number): number {
+  const turbulent = reynoldsNumber < 1e4
+    ? 1.48e-2
+    : 1 / (1.5 * Math.log(reynoldsNumber) - 5.6) ** 2;
+  const roughnessLimited = 0.032 * (roughness / length) ** 0.2;
+  const coefficient = Math.max(turbulent, roughnessLimited);
+
+  // Compressibility correction
+  return mach < 1
+    ? coefficient * (1 - 0.1 * mach ** 2)
+    : coefficient / (1 + 0.15 * mach ** 2) ** 0.58;
+}
+
+/**
+ * Ratio of stagnation to dynamic pressure, used to scale pressure drag with Mach
+ */
+function stagnationPressureFactor(mach: number): number {
+  if (mach < 1) {
+    return 1 + mach ** 2 / 4 + mach ** 4 / 40;
+  }
+  return 1.84 - 0.76 / mach ** 2 + 0.166 / mach ** 4 + 0.035 / mach ** 6;
+}
+
+/**
+ * Base drag coefficient of a flat aft face, per unit of its own area
+ */
+function baseDragCoefficient(mach: number): number {
+  return mach < 1 ? 0.12 + 0.13 * mach ** 2 : 0.25 / mach;
+}
+
+/**
+ * Pressure drag of a rounded fin leading edge, per unit of frontal area
+ */
+function roundedLeadingEdgeDrag(mach: number): number {
+  if (mach < 0.9) return (1 - mach ** 2) ** -0.417 - 1;
+  if (mach < 1) return 1 - 1.785 * (mach - 0.9);
+  return 1.214 - 0.502 / mach ** 2 + 0.1095 / mach ** 4;
+}
+
+/**
+ * Wave drag onset between the critical Mach number and the peak, then decay
+ */
+function waveDragShape(mach: number): number {
+  if (mach <= CRITICAL_MACH) return 0;
+  if (mach <= WAVE_DRAG_PEAK_MACH) {
+    const x = (mach - CRITICAL_MACH) / (WAVE_DRAG_PEAK_MACH - CRITICAL_MACH);
+    return x * x * (3 - 2 * x);
+  }
+  return Math.sqrt((WAVE_DRAG_PEAK_MACH ** 2 - 1) / (mach ** 2 - 1));
+}
+
+/**
+ * Drag coefficient breakdown at the given flight conditions
+ */
+export function calculateDragBreakdown(config: RocketConfig, conditions: DragConditions): DragBreakdown {
+  const mach = Math.max(0, conditions.mach);
+  const velocity = conditions.velocity ?? mach * SPEED_OF_SOUND;
+  const viscosity = conditions.kinematicViscosity ?? KINEMATIC_VISCOSITY;
+  const radius = config.body.diameter / 2;
+  const referenceArea = Math.PI * radius ** 2;
+  const roughness = SURFACE_ROUGHNESS[config.body.surfaceFinish ?? SurfaceFinish.REGULAR_PAINT];
+
+  // Skin friction: nose and body share one boundary layer, fins use their mean chord
+  const bodyLength = airframeLength(config);
+  const length = config.noseCone.length + bodyLength;
+  const bodyFriction = skinFrictionCoefficient(velocity * length / viscosity, length, roughness, mach);
+  const noseWettedArea = Math.PI * radius * Math.sqrt(radius ** 2 + config.noseCone.length ** 2);
+  const bodyWettedArea = Math.PI * config.body.diameter * bodyLength;
+  const fineness = length / config.body.diameter;
+
+  let friction = bodyFriction * (1 + 1 / (2 * fineness)) * (noseWettedArea + bodyWettedArea) / referenceArea;
+  let finPressure = 0;
+  let finWavePeak = 0;
+
+  for (const { fins } of finSets(config)) {
+    const { count, span, rootChord, tipChord, sweepAngle, thickness } = fins;
+    const meanChord = (rootChord + tipChord) / 2;
+    const finFriction = skinFrictionCoefficient(velocity * meanChord / viscosity, meanChord, roughness, mach);
+    const finWettedArea = 2 * count * span * meanChord;
+    friction += finFriction * (1 + (2 * thickness) / meanChord) * finWettedArea / referenceArea;
+
+    // Fin pressure drag: rounded leading edges (reduced by sweep) and square trailing edges
+    const finFrontalArea = count * span * thickness;
+    const sweep = (sweepAngle * Math.PI) / 180;
+    finPressure += (roundedLeadingEdgeDrag(mach) * Math.cos(sweep) ** 2 + baseDragCoefficient(mach)) *
+      finFrontalArea / referenceArea;
+    finWavePeak += 2 * (thickness / meanChord) * finFrontalArea / referenceArea;
+  }
+
+  // Nose pressure drag
+  const halfAngle = Math.atan(radius / config.noseCone.length);
+  let nosePressure = 0;
+  if (config.noseCone.type === NoseConeType.CONICAL) {
+    nosePressure = 0.8 * Math.sin(halfAngle) ** 2;
+  } else if (config.noseCone.type === NoseConeType.BLUNT) {
+    nosePressure = BLUNT_NOSE_PRESSURE_DRAG;
+  }
+  nosePressure *= stagnationPressureFactor(mach);
+
+  // Base drag, reduced by the area filled with motor exhaust
+  let base = baseDragCoefficient(mach);
+  if (conditions.thrusting) {
+    const exhaustArea = aftMotors(config).reduce(
+      (sum, motor) => sum + motorCount(motor) * (motor.diameter ?? config.body.diameter * 0.8) ** 2,
+      0
+    );
+    base *= Math.max(0, 1 - exhaustArea / config.body.diameter ** 2);
+  }
+
+  // Transonic/supersonic wave drag from the nose and fins
+  const noseFineness = config.noseCone.length / config.body.diameter;
+  const wavePeak = (NOSE_WAVE_DRAG_FACTOR[config.noseCone.type] ?? 1) * 1.5 / noseFineness ** 2 + finWavePeak;
+  const wave = wavePeak * waveDragShape(mach);
+
+  return {
+    friction,
+    nosePressure,
+    finPressure,
+    base,
+    wave,
+    total: friction + nosePressure + finPressure + base + wave
+  };
+}
+
+/**
+ * Total drag coefficient at the given flight conditions, scaled by the
+ * design's calibrated drag multiplier (see drag.calibration.ts)
+ */
+export function calculateDragCoefficient(config: RocketConfig, conditions: DragConditions): number {
+  return calculateDragBreakdown(config, conditions).total * (config.aerodynamics?.dragMultiplier ?? 1);
+}
+
+/**
+ * Cd(Mach) curve from 0 to `maxMach`, unpowered and with the motor firing
+ */
+export function calculateDragCurve(config: RocketConfig, maxMach: number = 2, step: number = 0.05): DragCurvePoint[] {
+  const points: DragCurvePoint[] = [];
+
+  for (let i = 0; i * step <= maxMach + 1e-9; i++) {
+    const mach = Math.round(i * step * 1000) / 1000;
+    points.push({
+      mach,
+      dragCoefficient: calculateDragCoefficient(config, { mach }),
+      poweredDragCoefficient: calculateDragCoefficient(config, { mach, thrusting: true })
+    });
+  }
+
+  return points;
+}
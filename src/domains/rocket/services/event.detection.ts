@@ -0,0 +1,83 @@
+/**
+ * Event Detection
+ *
+ * Locates flight events that fall between integrator steps. A state event is
+ * a sign change of a scalar event function (distance along the rod minus its
+ * length, minus the vertical velocity at apogee, altitude at ground hit);
+ * its time is found with the Illinois variant of regula falsi, re-integrating
+ * from the start of the step for every trial time.
+ */
+
+/**
+ * Event function of an integrated state vector: negative before the event,
+ * zero or positive once it has happened
+ */
+export type EventFunction = (state: number[]) => number;
+
+/**
+ * State vector at a time inside the step being searched
+ */
+export type Propagator = (time: number) => number[];
+
+export interface EventRoot {
+  time: number;
+  state: number[]; // at or just after the event
+}
+
+export const EVENT_TIME_TOLERANCE = 1e-6; // s
+
+const MAX_ITERATIONS = 60;
+
+/**
+ * Whether an event happens between two states
+ */
+export function eventOccurs(event: EventFunction, startState: number[], endState: number[]): boolean {
+  return event(startState) < 0 && event(endState) >= 0;
+}
+
+/**
+ * Time of an event known to happen between `startTime` and `endTime`.
+ * The returned state is on the far side of the event, so the event
+ * condition already holds there.
+ */
+export function findEventTime(
+  event: EventFunction,
+  propagate: Propagator,
+  startTime: number,
+  startState: number[],
+  endTime: number,
+  endState: number[],
+  tolerance: number = EVENT_TIME_TOLERANCE
+): EventRoot {
+  let before = startTime;
+  let after = endTime;
+  let valueBefore = event(startState);
+  let valueAfter = event(endState);
+  let stateAfter = endState;
+  let side = 0; // which end moved last, for the Illinois correction
+
+  for (let i = 0; i < MAX_ITERATIONS && after - before > tolerance; i++) {
+    let time = (before * valueAfter - after * valueBefore) / (valueAfter - valueBefore);
+    if (!(time > before && time < after)) {
+      time = (before + after) / 2;
+    }
+
+    const state = propagate(time);
+    const value = event(state);
+
+    if (value >= 0) {
+      after = time;
+      valueAfter = value;
+      stateAfter = state;
+      if (side === -1) valueBefore /= 2;
+      side = -1;
+    } else {
+      before = time;
+      valueBefore = value;
+      if (side === 1) valueAfter /= 2;
+      side = 1;
+    }
+  }
+
+  return { time: after, state: stateAfter };
+}
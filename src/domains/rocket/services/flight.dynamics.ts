@@ -0,0 +1,242 @@
+/**
+ * Flight Dynamics Helpers
+ *
+ * Vector and quaternion math plus the aerodynamic load model used by the
+ * six-degree-of-freedom mode of the SimulationEngine.
+ *
+ * Frames follow the TrajectoryPoint convention: x points downrange (north),
+ * y points up and z points crossrange (east). The body frame has its
+ * longitudinal axis along +y, so the identity attitude is a rocket standing
+ * vertically on the pad.
+ */
+
+import { Vector3, Quaternion } from '../../../shared/types/rocket';
+
+export const BODY_AXIS: Vector3 = { x: 0, y: 1, z: 0 };
+export const ZERO_VECTOR: Vector3 = { x: 0, y: 0, z: 0 };
+export const IDENTITY_QUATERNION: Quaternion = { w: 1, x: 0, y: 0, z: 0 };
+
+// ============================================================================
+// Vector Math
+// ============================================================================
+
+export function vec(x: number, y: number, z: number): Vector3 {
+  return { x, y, z };
+}
+
+export function add(a: Vector3, b: Vector3): Vector3 {
+  return { x: a.x + b.x, y: a.y + b.y, z: a.z + b.z };
+}
+
+export function subtract(a: Vector3, b: Vector3): Vector3 {
+  return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+}
+
+export function scale(a: Vector3, factor: number): Vector3 {
+  return { x: a.x * factor, y: a.y * factor, z: a.z * factor };
+}
+
+export function dot(a: Vector3, b: Vector3): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+export function cross(a: Vector3, b: Vector3): Vector3 {
+  return {
+    x: a.y * b.z - a.z * b.y,
+    y: a.z * b.x - a.x * b.z,
+    z: a.x * b.y - a.y * b.x
+  };
+}
+
+export function magnitude(a: Vector3): number {
+  return Math.sqrt(a.x ** 2 + a.y ** 2 + a.z ** 2);
+}
+
+export function normalize(a: Vector3): Vector3 {
+  const length = magnitude(a);
+  return length > 0 ? scale(a, 1 / length) : { ...ZERO_VECTOR };
+}
+
+// ============================================================================
+// Quaternion Math
+// ============================================================================
+
+export function quaternionMultiply(a: Quaternion, b: Quaternion): Quaternion {
+  return {
+    w: a.w * b.w - a.x * b.x - a.y * b.y - a.z * b.z,
+    x: a.w * b.x + a.x * b.w + a.y * b.z - a.z * b.y,
+    y: a.w * b.y - a.x * b.z + a.y * b.w + a.z * b.x,
+    z: a.w * b.z + a.x * b.y - a.y * b.x + a.z * b.w
+  };
+}
+
+export function quaternionConjugate(q: Quaternion): Quaternion {
+  return { w: q.w, x: -q.x, y: -q.y, z: -q.z };
+}
+
+export function quaternionNormalize(q: Quaternion): Quaternion {
+  const length = Math.sqrt(q.w ** 2 + q.x ** 2 + q.y ** 2 + q.z ** 2);
+  if (length === 0) return { ...IDENTITY_QUATERNION };
+  return { w: q.w / length, x: q.x / length, y: q.y / length, z: q.z / length };
+}
+
+/**
+ * Quaternion for a rotation of `angle` radians about a (unit) axis
+ */
+export function quaternionFromAxisAngle(axis: Vector3, angle: number): Quaternion {
+  const half = angle / 2;
+  const s = Math.sin(half);
+  return { w: Math.cos(half), x: axis.x * s, y: axis.y * s, z: axis.z * s };
+}
+
+/**
+ * Rotate a vector from the body frame into the world frame
+ */
+export function rotateToWorld(q: Quaternion, v: Vector3): Vector3 {
+  const p = quaternionMultiply(quaternionMultiply(q, { w: 0, ...v }), quaternionConjugate(q));
+  return { x: p.x, y: p.y, z: p.z };
+}
+
+/**
+ * Rotate a vector from the world frame into the body frame
+ */
+export function rotateToBody(q: Quaternion, v: Vector3): Vector3 {
+  return rotateToWorld(quaternionConjugate(q), v);
+}
+
+/**
+ * Time derivative of an attitude quaternion for body angular rates ω
+ */
+export function quaternionDerivative(q: Quaternion, angularVelocity: Vector3): Quaternion {
+  const product = quaternionMultiply(q, { w: 0, ...angularVelocity });
+  return { w: product.w / 2, x: product.x / 2, y: product.y / 2, z: product.z / 2 };
+}
+
+/**
+ * Launch attitude for a rod tilted `launchAngle` radians from vertical toward
+ * `launchDirection` radians clockwise from north (+x toward +z)
+ */
+export function launchAttitude(launchAngle: number, launchDirection: number = 0): Quaternion {
+  // Horizontal axis square to the tilt, so the body axis leans toward the direction
+  const axis = { x: Math.sin(launchDirection), y: 0, z: -Math.cos(launchDirection) };
+  return quaternionFromAxisAngle(axis, launchAngle);
+}
+
+// ============================================================================
+// Environment
+// ============================================================================
+
+/**
+ * Horizontal wind velocity for a meteorological wind direction
+ * (the direction the wind blows FROM, degrees clockwise from north)
+ */
+export function windVelocity(speed: number, directionDegrees: number): Vector3 {
+  const direction = (directionDegrees * Math.PI) / 180;
+  return {
+    x: -speed * Math.cos(direction),
+    y: 0,
+    z: -speed * Math.sin(direction)
+  };
+}
+
+// ============================================================================
+// Aerodynamic Loads
+// ============================================================================
+
+export interface RigidBodyAerodynamics {
+  dynamicPressure: number; // Pa
+  referenceArea: number; // m²
+  dragCoefficient: number;
+  normalForceSlope: number; // CNα per radian
+  stabilityArm: number; // m, CP distance aft of CG (positive = stable)
+  airDensity: number; // kg/m³
+}
+
+export interface RigidBodyLoads {
+  force: Vector3; // world frame, N
+  moment: Vector3; // world frame, N·m about the CG
+  drag: number; // N
+  normalForce: number; // N
+  angleOfAttack: number; // radians
+}
+
+/**
+ * Aerodynamic force and moment on an axisymmetric rocket.
+ *
+ * Drag opposes the airflow, the normal force acts at the CP and pushes the
+ * tail downwind so a stable rocket (CP aft of CG) turns its nose into the
+ * relative wind, and a damping moment opposes pitch/yaw rotation.
+ */
+export function calculateAerodynamicLoads(
+  attitude: Quaternion,
+  airVelocity: Vector3,
+  angularVelocityWorld: Vector3,
+  aero: RigidBodyAerodynamics
+): RigidBodyLoads {
+  const axis = rotateToWorld(attitude, BODY_AXIS);
+  const airspeed = magnitude(airVelocity);
+
+  if (airspeed < 1e-6) {
+    return { force: { ...ZERO_VECTOR }, moment: { ...ZERO_VECTOR }, drag: 0, normalForce: 0, angleOfAttack: 0 };
+  }
+
+  const flowDirection = scale(airVelocity, 1 / airspeed);
+  const cosAlpha = Math.max(-1, Math.min(1, dot(axis, flowDirection)));
+  const angleOfAttack = Math.acos(cosAlpha);
+
+  // Axial drag along the airflow
+  const drag = aero.dynamicPressure * aero.referenceArea * aero.dragCoefficient;
+  const dragForce = scale(flowDirection, -drag);
+
+  // Normal force perpendicular to the body axis
+  const crossflow = subtract(airVelocity, scale(axis, dot(airVelocity, axis)));
+  const crossflowSpeed = magnitude(crossflow);
+  let normalForce = 0;
+  let normalVector: Vector3 = { ...ZERO_VECTOR };
+  if (crossflowSpeed > 1e-9) {
+    normalForce = aero.dynamicPressure * aero.referenceArea * aero.normalForceSlope * Math.sin(angleOfAttack);
+    normalVector = scale(crossflow, -normalForce / crossflowSpeed);
+  }
+
+  // Restoring moment: normal force applied at the CP, behind the CG
+  const centerOfPressureArm = scale(axis, -aero.stabilityArm);
+  const restoringMoment = cross(centerOfPressureArm, normalVector);
+
+  // Pitch/yaw damping opposes rotation perpendicular to the body axis
+  const transverseRate = subtract(angularVelocityWorld, scale(axis, dot(angularVelocityWorld, axis)));
+  const dampingCoefficient = 0.5 * aero.airDensity * airspeed * aero.referenceArea *
+    aero.normalForceSlope * aero.stabilityArm ** 2;
+  const dampingMoment = scale(transverseRate, -dampingCoefficient);
+
+  return {
+    force: add(dragForce, normalVector),
+    moment: add(restoringMoment, dampingMoment),
+    drag,
+    normalForce,
+    angleOfAttack
+  };
+}
+
+/**
+ * Euler's rotation equations for an axisymmetric body (body frame):
+ * I·dω/dt = M - ω × (I·ω), with I = diag(transverse, longitudinal, transverse)
+ */
+export function angularAcceleration(
+  angularVelocity: Vector3,
+  momentBody: Vector3,
+  transverseInertia: number,
+  longitudinalInertia: number
+): Vector3 {
+  const angularMomentum = {
+    x: transverseInertia * angularVelocity.x,
+    y: longitudinalInertia * angularVelocity.y,
+    z: transverseInertia * angularVelocity.z
+  };
+  const gyroscopic = cross(angularVelocity, angularMomentum);
+
+  return {
+    x: (momentBody.x - gyroscopic.x) / transverseInertia,
+    y: (momentBody.y - gyroscopic.y) / longitudinalInertia,
+    z: (momentBody.z - gyroscopic.z) / transverseInertia
+  };
+}
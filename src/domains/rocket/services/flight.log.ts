@@ -0,0 +1,299 @@
+/**
+ * Altimeter Flight Logs
+ *
+ * Reads the CSV logs that commercial altimeters export and compares a logged
+ * flight with a simulation of it:
+ * - Jolly Logic AltimeterThree: `Time (s), Altitude (ft), Velocity (ft/s), …`
+ * - PerfectFlite StratoLogger (DataCap export): `Time, Altitude, Velocity, Temperature, Voltage`
+ * - Eggtimer: `T, Alt, FAlt, Veloc, FVeloc, …` (the filtered columns are preferred)
+ * - Any other CSV with a time and an altitude column
+ *
+ * Columns are found by their header names. A unit in the header (`(ft)`,
+ * `[m/s]`) wins; otherwise the altimeter's own unit is assumed (feet for the
+ * three altimeters, meters for plain CSV). Lines before the header, such as
+ * the altimeter's serial number, are skipped.
+ */
+
+import {
+  FlightLog,
+  FlightLogFormat,
+  FlightLogSample,
+  FlightComparison,
+  FlightMetricComparison,
+  FlightOverlayPoint,
+  SimulationResult,
+  TrajectoryPoint
+} from '../../../shared/types/rocket';
+
+export type ParsedFlightLog = Pick<FlightLog, 'format' | 'samples' | 'velocitySource' | 'apogee' | 'apogeeTime' | 'maxVelocity'>;
+
+type LogFormat = Exclude<FlightLogFormat, FlightLogFormat.AUTO>;
+
+interface LogProfile {
+  signature?: RegExp; // text in the file that identifies the altimeter
+  time: string[]; // normalized header names, most preferred first
+  altitude: string[];
+  velocity: string[];
+  altitudeScale: number; // meters per logged unit when the header has none
+  velocityScale: number; // m/s per logged unit when the header has none
+}
+
+const FEET = 0.3048;
+
+const LENGTH_UNITS: Record<string, number> = { m: 1, meters: 1, metres: 1, ft: FEET, feet: FEET };
+const SPEED_UNITS: Record<string, number> = {
+  'm/s': 1,
+  mps: 1,
+  'ft/s': FEET,
+  fps: FEET,
+  mph: 0.44704,
+  'km/h': 1 / 3.6,
+  kph: 1 / 3.6
+};
+const TIME_UNITS: Record<string, number> = { s: 1, sec: 1, seconds: 1, ms: 0.001 };
+
+// Checked in this order when detecting the format; plain CSV last
+const PROFILES: Record<LogFormat, LogProfile> = {
+  [FlightLogFormat.EGGTIMER]: {
+    signature: /eggtimer|\bfalt\b/i,
+    time: ['t', 'time'],
+    altitude: ['falt', 'alt', 'altitude'],
+    velocity: ['fveloc', 'veloc', 'velocity'],
+    altitudeScale: FEET,
+    velocityScale: FEET
+  },
+  [FlightLogFormat.PERFECTFLITE]: {
+    signature: /perfectflite|stratologger|datacap/i,
+    time: ['time', 't'],
+    altitude: ['altitude', 'alt'],
+    velocity: ['velocity', 'veloc', 'speed'],
+    altitudeScale: FEET,
+    velocityScale: FEET
+  },
+  [FlightLogFormat.JOLLY_LOGIC]: {
+    signature: /jolly\s*logic|altimeter\s*(three|3)/i,
+    time: ['time', 'elapsedtime'],
+    altitude: ['altitude', 'alt'],
+    velocity: ['velocity', 'speed'],
+    altitudeScale: FEET,
+    velocityScale: FEET
+  },
+  [FlightLogFormat.CSV]: {
+    time: ['time', 't', 'elapsedtime', 'seconds'],
+    altitude: ['altitude', 'alt', 'altitudeagl', 'height'],
+    velocity: ['velocity', 'verticalvelocity', 'veloc', 'vel', 'speed'],
+    altitudeScale: 1,
+    velocityScale: 1
+  }
+};
+
+const MIN_SAMPLES = 3;
+const VELOCITY_WINDOW = 0.1; // seconds either side when deriving velocity from altitude
+const ALIGNMENT_ALTITUDE = 10; // meters; the log and simulation pass it at the same moment
+const MAX_OVERLAY_POINTS = 500;
+
+/**
+ * Read an altimeter's CSV log into samples in meters, m/s and seconds
+ */
+export function parseFlightLog(content: string, format: FlightLogFormat = FlightLogFormat.AUTO): ParsedFlightLog {
+  const detected = format === FlightLogFormat.AUTO ? detectFormat(content) : format;
+  const profile = PROFILES[detected];
+  if (!profile) {
+    throw new Error(`Unsupported flight log format '${format}'`);
+  }
+
+  const rows = content.split(/\r?\n/).map(splitRow);
+  const headerIndex = rows.findIndex(row => findColumn(row, profile.time) >= 0 && findColumn(row, profile.altitude) >= 0);
+  if (headerIndex < 0) {
+    throw new Error('No time and altitude columns found in the log');
+  }
+
+  const header = rows[headerIndex];
+  const timeColumn = findColumn(header, profile.time);
+  const altitudeColumn = findColumn(header, profile.altitude);
+  const velocityColumn = findColumn(header, profile.velocity);
+  const timeScale = unitScale(header[timeColumn], TIME_UNITS) ?? 1;
+  const altitudeScale = unitScale(header[altitudeColumn], LENGTH_UNITS) ?? profile.altitudeScale;
+  const velocityScale = velocityColumn >= 0
+    ? unitScale(header[velocityColumn], SPEED_UNITS) ?? profile.velocityScale
+    : 0;
+
+  const samples: FlightLogSample[] = [];
+  for (const row of rows.slice(headerIndex + 1)) {
+    const time = Number(row[timeColumn]) * timeScale;
+    const altitude = Number(row[altitudeColumn]) * altitudeScale;
+    // Skip event markers, blank lines and repeated timestamps
+    if (!row[timeColumn] || !row[altitudeColumn] || !isFinite(time) || !isFinite(altitude)) continue;
+    if (samples.length > 0 && time <= samples[samples.length - 1].time) continue;
+
+    const sample: FlightLogSample = { time, altitude };
+    const velocity = velocityColumn >= 0 && row[velocityColumn] ? Number(row[velocityColumn]) * velocityScale : NaN;
+    if (isFinite(velocity)) {
+      sample.velocity = velocity;
+    }
+    samples.push(sample);
+  }
+
+  if (samples.length < MIN_SAMPLES) {
+    throw new Error('The log has fewer than 3 altitude samples');
+  }
+
+  const velocitySource = samples.every(sample => sample.velocity !== undefined) ? 'logged' : 'derived';
+  if (velocitySource === 'derived') {
+    deriveVelocity(samples);
+  }
+
+  const apogeeSample = samples.reduce((max, sample) => sample.altitude > max.altitude ? sample : max);
+  return {
+    format: detected,
+    samples,
+    velocitySource,
+    apogee: apogeeSample.altitude,
+    apogeeTime: apogeeSample.time,
+    maxVelocity: samples.reduce((max, sample) => Math.max(max, sample.velocity!), -Infinity)
+  };
+}
+
+/**
+ * Compare a logged flight with a simulation. The altimeter's clock starts at
+ * power-on or launch detection, so the log is shifted to pass 10 m at the same
+ * moment as the simulation; errors are the simulated altitude at each logged
+ * sample minus the logged one, over the time both cover.
+ */
+export function compareFlight(log: Pick<FlightLog, 'id' | 'samples'>, simulation: SimulationResult): FlightComparison {
+  const telemetry = simulation.telemetry;
+  if (telemetry.length < 2) {
+    throw new Error('The simulation has no telemetry to compare with');
+  }
+
+  const logCrossing = crossingTime(log.samples, ALIGNMENT_ALTITUDE);
+  const simulatedCrossing = crossingTime(telemetry, ALIGNMENT_ALTITUDE);
+  if (logCrossing === undefined) {
+    throw new Error(`The logged flight never climbs above ${ALIGNMENT_ALTITUDE} m`);
+  }
+  if (simulatedCrossing === undefined) {
+    throw new Error(`The simulated flight never climbs above ${ALIGNMENT_ALTITUDE} m`);
+  }
+  const timeOffset = simulatedCrossing - logCrossing;
+
+  const end = telemetry[telemetry.length - 1].time;
+  const compared = log.samples
+    .map(sample => ({ ...sample, time: sample.time + timeOffset }))
+    .filter(sample => sample.time >= 0 && sample.time <= end)
+    .map(sample => ({ sample, simulatedAltitude: interpolateAltitude(telemetry, sample.time) }));
+
+  let squaredError = 0;
+  let maxAltitudeError = { value: 0, time: 0 };
+  for (const { sample, simulatedAltitude } of compared) {
+    const error = simulatedAltitude - sample.altitude;
+    squaredError += error * error;
+    if (Math.abs(error) > Math.abs(maxAltitudeError.value)) {
+      maxAltitudeError = { value: error, time: sample.time };
+    }
+  }
+
+  const actualApogee = log.samples.reduce((max, sample) => sample.altitude > max.altitude ? sample : max);
+  const simulatedApogee = telemetry.reduce((max, point) => point.altitude > max.altitude ? point : max);
+  const step = Math.ceil(compared.length / MAX_OVERLAY_POINTS);
+  const overlay: FlightOverlayPoint[] = compared
+    .filter((_, index) => index % step === 0 || index === compared.length - 1)
+    .map(({ sample, simulatedAltitude }) => ({
+      time: sample.time,
+      actualAltitude: sample.altitude,
+      simulatedAltitude
+    }));
+
+  return {
+    flightLogId: log.id,
+    simulationId: simulation.id,
+    timeOffset,
+    apogee: metric(actualApogee.altitude, simulatedApogee.altitude),
+    apogeeTime: metric(actualApogee.time + timeOffset, simulatedApogee.time),
+    maxVelocity: metric(
+      log.samples.reduce((max, sample) => Math.max(max, sample.velocity ?? 0), 0),
+      telemetry.reduce((max, point) => Math.max(max, point.velocity.y), 0)
+    ),
+    rmsAltitudeError: compared.length > 0 ? Math.sqrt(squaredError / compared.length) : 0,
+    maxAltitudeError,
+    samplesCompared: compared.length,
+    overlay
+  };
+}
+
+function detectFormat(content: string): LogFormat {
+  const formats = Object.keys(PROFILES) as LogFormat[];
+  return formats.find(format => PROFILES[format].signature?.test(content)) ?? FlightLogFormat.CSV;
+}
+
+function splitRow(line: string): string[] {
+  const delimiter = line.includes('\t') ? '\t' : line.includes(',') ? ',' : ';';
+  return line.split(delimiter).map(cell => cell.trim().replace(/^"|"$/g, '').trim());
+}
+
+// "Altitude (ft)" -> "altitude", "Vertical Velocity [m/s]" -> "verticalvelocity"
+function headerName(cell: string): string {
+  return cell.replace(/[([].*$/, '').toLowerCase().replace(/[^a-z]/g, '');
+}
+
+function findColumn(row: string[], names: string[]): number {
+  for (const name of names) {
+    const index = row.findIndex(cell => headerName(cell) === name);
+    if (index >= 0) return index;
+  }
+  return -1;
+}
+
+function unitScale(cell: string, units: Record<string, number>): number | undefined {
+  const unit = cell.match(/[([]\s*([^)\]]+?)\s*[)\]]/)?.[1].toLowerCase();
+  return unit === undefined ? undefined : units[unit];
+}
+
+// Central differences over a window wide enough to ride out barometric noise
+function deriveVelocity(samples: FlightLogSample[]) {
+  samples.forEach((sample, index) => {
+    let low = index;
+    let high = index;
+    while (low > 0 && sample.time - samples[low].time < VELOCITY_WINDOW) low--;
+    while (high < samples.length - 1 && samples[high].time - sample.time < VELOCITY_WINDOW) high++;
+    sample.velocity = (samples[high].altitude - samples[low].altitude) / (samples[high].time - samples[low].time);
+  });
+}
+
+// Time the altitude first rises through the given height, interpolated between samples
+function crossingTime(points: Array<{ time: number; altitude: number }>, altitude: number): number | undefined {
+  const index = points.findIndex(point => point.altitude >= altitude);
+  if (index < 0) return undefined;
+  if (index === 0) return points[0].time;
+
+  const before = points[index - 1];
+  const after = points[index];
+  return before.time + (after.time - before.time) * (altitude - before.altitude) / (after.altitude - before.altitude);
+}
+
+function interpolateAltitude(telemetry: TrajectoryPoint[], time: number): number {
+  if (time >= telemetry[telemetry.length - 1].time) return telemetry[telemetry.length - 1].altitude;
+  if (time <= telemetry[0].time) return telemetry[0].altitude;
+
+  // First point at or after the time
+  let index = 1;
+  let last = telemetry.length - 1;
+  while (index < last) {
+    const middle = (index + last) >> 1;
+    if (telemetry[middle].time < time) index = middle + 1;
+    else last = middle;
+  }
+
+  const low = telemetry[index - 1];
+  const next = telemetry[index];
+  return low.altitude + (next.altitude - low.altitude) * (time - low.time) / (next.time - low.time);
+}
+
+function metric(actual: number, simulated: number): FlightMetricComparison {
+  const difference = simulated - actual;
+  return {
+    actual,
+    simulated,
+    difference,
+    percentDifference: actual !== 0 ? (difference / actual) * 100 : 0
+  };
+}
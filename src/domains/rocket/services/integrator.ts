@@ -0,0 +1,216 @@
+/**
+ * Numerical Integrators
+ *
+ * Pluggable ODE integrators used by the SimulationEngine. Every integrator
+ * advances a flat state vector from one output time to the next; adaptive
+ * integrators subdivide the interval as needed to keep the local error
+ * within tolerance, so results stop depending on the output time step.
+ */
+
+import { IntegratorType } from '../../../shared/types/rocket';
+
+export type DerivativeFunction = (time: number, state: number[]) => number[];
+
+export interface IntegrationResult {
+  state: number[];
+  steps: number; // accepted steps taken
+  rejectedSteps: number;
+}
+
+export interface IntegratorOptions {
+  relativeTolerance?: number;
+  absoluteTolerance?: number;
+  minStep?: number; // seconds
+  maxStep?: number; // seconds
+}
+
+export interface Integrator {
+  readonly type: IntegratorType;
+
+  /**
+   * Advance `state` from `startTime` to `endTime`
+   */
+  advance(derivative: DerivativeFunction, startTime: number, state: number[], endTime: number): IntegrationResult;
+}
+
+/**
+ * Add `factor * delta` to a state vector
+ */
+function axpy(state: number[], delta: number[], factor: number): number[] {
+  const result = new Array(state.length);
+  for (let i = 0; i < state.length; i++) {
+    result[i] = state[i] + delta[i] * factor;
+  }
+  return result;
+}
+
+/**
+ * Add a weighted sum of stage derivatives to a state vector
+ */
+function combine(state: number[], stages: number[][], weights: number[], h: number): number[] {
+  const result = state.slice();
+  for (let s = 0; s < weights.length; s++) {
+    const weight = weights[s];
+    if (weight === 0) continue;
+    const stage = stages[s];
+    for (let i = 0; i < state.length; i++) {
+      result[i] += h * weight * stage[i];
+    }
+  }
+  return result;
+}
+
+/**
+ * Explicit (forward) Euler, first order
+ */
+export class EulerIntegrator implements Integrator {
+  readonly type = IntegratorType.EULER;
+
+  advance(derivative: DerivativeFunction, startTime: number, state: number[], endTime: number): IntegrationResult {
+    const h = endTime - startTime;
+    return {
+      state: axpy(state, derivative(startTime, state), h),
+      steps: 1,
+      rejectedSteps: 0
+    };
+  }
+}
+
+/**
+ * Classic fourth-order Runge-Kutta with a fixed step
+ */
+export class RungeKutta4Integrator implements Integrator {
+  readonly type = IntegratorType.RK4;
+
+  advance(derivative: DerivativeFunction, startTime: number, state: number[], endTime: number): IntegrationResult {
+    const h = endTime - startTime;
+    const k1 = derivative(startTime, state);
+    const k2 = derivative(startTime + h / 2, axpy(state, k1, h / 2));
+    const k3 = derivative(startTime + h / 2, axpy(state, k2, h / 2));
+    const k4 = derivative(endTime, axpy(state, k3, h));
+
+    return {
+      state: combine(state, [k1, k2, k3, k4], [1 / 6, 1 / 3, 1 / 3, 1 / 6], h),
+      steps: 1,
+      rejectedSteps: 0
+    };
+  }
+}
+
+/**
+ * Dormand–Prince 5(4) embedded Runge-Kutta with adaptive step size control
+ */
+export class DormandPrinceIntegrator implements Integrator {
+  readonly type = IntegratorType.RK45;
+
+  // Butcher tableau
+  private static readonly C = [0, 1 / 5, 3 / 10, 4 / 5, 8 / 9, 1, 1];
+  private static readonly A = [
+    [],
+    [1 / 5],
+    [3 / 40, 9 / 40],
+    [44 / 45, -56 / 15, 32 / 9],
+    [19372 / 6561, -25360 / 2187, 64448 / 6561, -212 / 729],
+    [9017 / 3168, -355 / 33, 46732 / 5247, 49 / 176, -5103 / 18656],
+    [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84]
+  ];
+  // Fifth-order solution weights (same as the last row of A)
+  private static readonly B = [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84, 0];
+  // Difference between the fifth- and fourth-order weights
+  private static readonly E = [
+    71 / 57600, 0, -71 / 16695, 71 / 1920, -17253 / 339200, 22 / 525, -1 / 40
+  ];
+
+  private static readonly SAFETY = 0.9;
+  private static readonly MIN_SCALE = 0.2;
+  private static readonly MAX_SCALE = 5;
+
+  private relativeTolerance: number;
+  private absoluteTolerance: number;
+  private minStep: number;
+  private maxStep: number;
+  private stepSize: number | null = null; // carried over between calls
+
+  constructor(options: IntegratorOptions = {}) {
+    this.relativeTolerance = options.relativeTolerance || 1e-6;
+    this.absoluteTolerance = options.absoluteTolerance || 1e-6;
+    this.minStep = options.minStep || 1e-6;
+    this.maxStep = options.maxStep || Infinity;
+  }
+
+  advance(derivative: DerivativeFunction, startTime: number, state: number[], endTime: number): IntegrationResult {
+    const { A, B, C, E, SAFETY, MIN_SCALE, MAX_SCALE } = DormandPrinceIntegrator;
+
+    let time = startTime;
+    let current = state;
+    let steps = 0;
+    let rejectedSteps = 0;
+    let h = Math.min(this.stepSize || endTime - startTime, this.maxStep);
+
+    while (time < endTime) {
+      const remaining = endTime - time;
+      const lastStep = h >= remaining * (1 - 1e-12);
+      if (lastStep) h = remaining;
+
+      // Evaluate the seven stages
+      const k: number[][] = [];
+      for (let s = 0; s < 7; s++) {
+        const stageState = s === 0 ? current : combine(current, k, A[s], h);
+        k.push(derivative(time + C[s] * h, stageState));
+      }
+
+      const candidate = combine(current, k, B, h);
+
+      // Scaled RMS error estimate
+      let errorSum = 0;
+      for (let i = 0; i < current.length; i++) {
+        let error = 0;
+        for (let s = 0; s < 7; s++) {
+          error += E[s] * k[s][i];
+        }
+        error *= h;
+        const scale = this.absoluteTolerance +
+          this.relativeTolerance * Math.max(Math.abs(current[i]), Math.abs(candidate[i]));
+        errorSum += (error / scale) ** 2;
+      }
+      const errorNorm = Math.sqrt(errorSum / current.length);
+
+      const factor = errorNorm === 0
+        ? MAX_SCALE
+        : Math.min(MAX_SCALE, Math.max(MIN_SCALE, SAFETY * errorNorm ** -0.2));
+
+      if (errorNorm <= 1 || h <= this.minStep) {
+        time = lastStep ? endTime : time + h;
+        current = candidate;
+        steps++;
+
+        // Remember the proposed step, not the one truncated to hit the output time
+        if (!lastStep || factor < 1) {
+          this.stepSize = Math.min(this.maxStep, Math.max(this.minStep, h * factor));
+        }
+        h = this.stepSize || h;
+      } else {
+        rejectedSteps++;
+        h = Math.max(this.minStep, h * factor);
+      }
+    }
+
+    return { state: current, steps, rejectedSteps };
+  }
+}
+
+/**
+ * Create an integrator by type
+ */
+export function createIntegrator(type: IntegratorType, options: IntegratorOptions = {}): Integrator {
+  switch (type) {
+    case IntegratorType.EULER:
+      return new EulerIntegrator();
+    case IntegratorType.RK4:
+      return new RungeKutta4Integrator();
+    case IntegratorType.RK45:
+      return new DormandPrinceIntegrator(options);
+    default:
+      throw new Error(`Unknown integrator type: ${type}`);
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Launch Rail Model
+ *
+ * Speed of the rocket as it leaves the launch rod or rail. Until then the fins
+ * have too little airflow to steer, so the exit speed has to be high enough for
+ * the crosswind to cause only a small angle of attack: at least
+ * `minimumVelocity` and at least `RAIL_EXIT_WIND_RATIO` times the wind speed.
+ * The slide along the rod is integrated in one dimension from thrust, the
+ * falling motor mass and the component of gravity along the rod; drag at these
+ * speeds is negligible and is ignored.
+ */
+
+import { RocketConfig } from '../../../shared/types/rocket';
+import { calculateMassProperties } from './mass.properties';
+import { totalThrust, propellantRemaining, finalBurnoutTime } from './staging.model';
+
+export const DEFAULT_MIN_RAIL_EXIT_VELOCITY = 15; // m/s, common club safety code minimum
+export const RAIL_EXIT_WIND_RATIO = 4; // exit speed per m/s of wind, keeps the angle of attack under ~15°
+
+const GRAVITY = 9.80665; // m/s²
+const TIME_STEP = 0.001; // s
+
+export interface RailExit {
+  time: number; // s after ignition
+  velocity: number; // m/s along the rod
+  distance: number; // m traveled along the rod
+}
+
+/**
+ * Exit speed (m/s) needed to fly straight in a wind of `windSpeed` m/s
+ */
+export function requiredRailExitVelocity(
+  windSpeed: number,
+  minimumVelocity: number = DEFAULT_MIN_RAIL_EXIT_VELOCITY
+): number {
+  return Math.max(minimumVelocity, RAIL_EXIT_WIND_RATIO * windSpeed);
+}
+
+/**
+ * Time and speed at which the rocket leaves a rod of `rodLength` meters.
+ * Undefined when the motors cannot push it off the rod.
+ */
+export function estimateRailExit(config: RocketConfig, rodLength: number): RailExit | undefined {
+  return slideAlongRod(config, point => point.distance - rodLength);
+}
+
+/**
+ * Shortest rod (m) that lets the rocket reach `exitVelocity` before leaving it.
+ * Undefined when the rocket never gets that fast under thrust.
+ */
+export function minimumRodLength(config: RocketConfig, exitVelocity: number): number | undefined {
+  return slideAlongRod(config, point => point.velocity - exitVelocity)?.distance;
+}
+
+/**
+ * Integrate the slide along the rod until `target` turns non-negative,
+ * interpolating between steps to the crossing
+ */
+function slideAlongRod(config: RocketConfig, target: (point: RailExit) => number): RailExit | undefined {
+  const gravity = GRAVITY * Math.cos((config.launch.launchAngle * Math.PI) / 180);
+  const burnout = finalBurnoutTime(config);
+  let previous: RailExit = { time: 0, velocity: 0, distance: 0 };
+
+  while (previous.time <= burnout || previous.velocity > 0) {
+    const time = previous.time + TIME_STEP;
+    const remaining = propellantRemaining(config, time);
+    const mass = calculateMassProperties(config, remaining.upperStage, remaining.stages).mass;
+    const acceleration = totalThrust(config, time) / mass - gravity;
+
+    // The rod holds the rocket up until the thrust exceeds its weight
+    const velocity = Math.max(0, previous.velocity + acceleration * TIME_STEP);
+    const point = { time, velocity, distance: previous.distance + ((previous.velocity + velocity) / 2) * TIME_STEP };
+
+    const before = target(previous);
+    const after = target(point);
+    if (after >= 0) {
+      const fraction = before < 0 ? -before / (after - before) : 0;
+      return {
+        time: previous.time + fraction * TIME_STEP,
+        velocity: previous.velocity + fraction * (velocity - previous.velocity),
+        distance: previous.distance + fraction * (point.distance - previous.distance)
+      };
+    }
+
+    if (velocity <= 0 && previous.velocity > 0) return undefined; // slid back down after burnout
+    previous = point;
+  }
+
+  return undefined;
+}
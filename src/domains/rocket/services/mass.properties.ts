@@ -0,0 +1,233 @@
+/**
+ * Mass Properties Calculator
+ *
+ * Component-based center of gravity and moments of inertia. Every part of a
+ * RocketConfig is placed along the airframe (positions measured aft of the
+ * nose tip, matching the Barrowman calculator) and contributes its own
+ * inertia plus a parallel-axis term. Motors sit flush with the aft end of
+ * their stage, so CG moves forward as propellant burns. Booster stages stack
+ * below the upper stage body tube.
+ */
+
+import {
+  RocketConfig,
+  RocketMaterial,
+  NoseConeType,
+  MotorConfig,
+  MassComponent,
+  MassProperties
+} from '../../../shared/types/rocket';
+import { finSets, motorPropellantMass, motorTotalMass, motorCount, stageAftPositions, FinSet } from './staging.model';
+
+// kg/m³
+export const MATERIAL_DENSITY: Record<RocketMaterial, number> = {
+  [RocketMaterial.CARDBOARD]: 680,
+  [RocketMaterial.BALSA]: 160,
+  [RocketMaterial.PLYWOOD]: 630,
+  [RocketMaterial.FIBERGLASS]: 1850,
+  [RocketMaterial.CARBON_FIBER]: 1600,
+  [RocketMaterial.ALUMINUM]: 2700,
+  [RocketMaterial.PLASTIC]: 1200
+};
+
+// Nose cone volume as a fraction of the enclosing cylinder
+const NOSE_CONE_VOLUME_FRACTION: Record<NoseConeType, number> = {
+  [NoseConeType.CONICAL]: 1 / 3,
+  [NoseConeType.OGIVE]: 0.53,
+  [NoseConeType.PARABOLIC]: 0.5,
+  [NoseConeType.ELLIPTICAL]: 2 / 3,
+  [NoseConeType.BLUNT]: 2 / 3
+};
+
+// Nose cone CG as a fraction of length from the tip (solid body / hollow shell)
+const NOSE_CONE_CG_FRACTION: Record<NoseConeType, { solid: number; hollow: number }> = {
+  [NoseConeType.CONICAL]: { solid: 0.75, hollow: 2 / 3 },
+  [NoseConeType.OGIVE]: { solid: 0.625, hollow: 0.55 },
+  [NoseConeType.PARABOLIC]: { solid: 2 / 3, hollow: 0.6 },
+  [NoseConeType.ELLIPTICAL]: { solid: 0.625, hollow: 0.5 },
+  [NoseConeType.BLUNT]: { solid: 0.6, hollow: 0.5 }
+};
+
+// A nose cone at least this heavy relative to a solid one of its material is treated as solid
+const SOLID_NOSE_CONE_THRESHOLD = 0.5;
+
+const DEFAULT_MOTOR_LENGTH = 0.07; // m, standard 18/24 mm model motors
+const MOTOR_TO_BODY_DIAMETER = 0.8;
+const RECOVERY_POSITION_FRACTION = 0.2; // packed near the top of the body tube
+
+interface PlacedMass extends MassComponent {
+  transverseInertia: number; // about the component's own CG
+  longitudinalInertia: number;
+}
+
+/**
+ * Whether a nose cone of this mass is a solid body (otherwise a hollow shell)
+ */
+export function isSolidNoseCone(config: RocketConfig): boolean {
+  const radius = config.body.diameter / 2;
+  const volume = Math.PI * radius ** 2 * config.noseCone.length *
+    (NOSE_CONE_VOLUME_FRACTION[config.noseCone.type] ?? 0.5);
+  const solidMass = volume * (MATERIAL_DENSITY[config.noseCone.material] ?? 1000);
+
+  return config.noseCone.mass >= solidMass * SOLID_NOSE_CONE_THRESHOLD;
+}
+
+function noseCone(config: RocketConfig): PlacedMass {
+  const { mass, length, type } = config.noseCone;
+  const radius = config.body.diameter / 2;
+  const fractions = NOSE_CONE_CG_FRACTION[type] ?? NOSE_CONE_CG_FRACTION[NoseConeType.OGIVE];
+  const solid = isSolidNoseCone(config);
+
+  return {
+    name: 'nose_cone',
+    mass,
+    centerOfGravity: length * (solid ? fractions.solid : fractions.hollow),
+    // Cone approximation
+    transverseInertia: mass * ((3 * radius ** 2) / 20 + (3 * length ** 2) / 80),
+    longitudinalInertia: mass * radius ** 2 * (solid ? 0.3 : 0.5)
+  };
+}
+
+function noseBallast(config: RocketConfig): PlacedMass {
+  return {
+    name: 'nose_ballast',
+    mass: config.noseCone.ballastMass || 0,
+    centerOfGravity: config.noseCone.length / 2,
+    transverseInertia: 0,
+    longitudinalInertia: 0
+  };
+}
+
+function bodyTube(name: string, mass: number, length: number, radius: number, front: number): PlacedMass {
+  // Thin-walled tube
+  return {
+    name,
+    mass,
+    centerOfGravity: front + length / 2,
+    transverseInertia: mass * (radius ** 2 / 2 + length ** 2 / 12),
+    longitudinalInertia: mass * radius ** 2
+  };
+}
+
+function finSet(config: RocketConfig, set: FinSet): PlacedMass {
+  const { mass, span, rootChord, tipChord, sweepAngle } = set.fins;
+  const radius = config.body.diameter / 2;
+  const sweepLength = span * Math.tan((sweepAngle * Math.PI) / 180);
+
+  // Planform centroid of a trapezoidal fin
+  const chordwise = (sweepLength * (rootChord + 2 * tipChord) + rootChord ** 2 + rootChord * tipChord + tipChord ** 2) /
+    (3 * (rootChord + tipChord));
+  const spanwise = radius + (span * (rootChord + 2 * tipChord)) / (3 * (rootChord + tipChord));
+  const rootLeadingEdge = set.aftEnd - rootChord;
+
+  return {
+    name: set.name,
+    mass,
+    centerOfGravity: rootLeadingEdge + chordwise,
+    // Fins spread evenly around the body average sin² = 1/2 about a transverse axis
+    transverseInertia: mass * (spanwise ** 2 / 2 + rootChord ** 2 / 12),
+    longitudinalInertia: mass * spanwise ** 2
+  };
+}
+
+/**
+ * A motor mount (one motor or a cluster) flush with the aft end of its stage
+ */
+function motorMount(
+  config: RocketConfig,
+  name: string,
+  motors: MotorConfig[],
+  propellantRemaining: number,
+  aftEnd: number
+): PlacedMass {
+  const propellantBurned = motorPropellantMass(motors) - propellantRemaining;
+  const mass = motorTotalMass(motors) - propellantBurned;
+  const length = Math.max(...motors.map(motor => motor.length || DEFAULT_MOTOR_LENGTH));
+  const radius = (motors[0]?.diameter || config.body.diameter * MOTOR_TO_BODY_DIAMETER) / 2;
+  const count = motors.reduce((sum, motor) => sum + motorCount(motor), 0);
+
+  // Solid cylinders; clustered motors are spread about one motor radius off the axis
+  const offset = count > 1 ? radius : 0;
+  return {
+    name,
+    mass,
+    centerOfGravity: aftEnd - length / 2,
+    transverseInertia: (mass * (3 * radius ** 2 + length ** 2)) / 12 + (mass * offset ** 2) / 2,
+    longitudinalInertia: (mass * radius ** 2) / 2 + mass * offset ** 2
+  };
+}
+
+function recovery(config: RocketConfig): PlacedMass {
+  return {
+    name: 'recovery',
+    mass: config.recovery.mass,
+    centerOfGravity: config.noseCone.length + config.body.length * RECOVERY_POSITION_FRACTION,
+    transverseInertia: 0,
+    longitudinalInertia: 0
+  };
+}
+
+/**
+ * Mass, CG and moments of inertia about the CG with a per-component breakdown.
+ * `propellantRemaining` is the upper stage's and `stagePropellantRemaining`
+ * each booster stage's unburned propellant; both default to full motors.
+ */
+export function calculateMassProperties(
+  config: RocketConfig,
+  propellantRemaining: number = motorPropellantMass([config.engine]),
+  stagePropellantRemaining: number[] = (config.stages ?? []).map(stage => motorPropellantMass(stage.motors))
+): MassProperties {
+  const remaining = Math.min(motorPropellantMass([config.engine]), Math.max(0, propellantRemaining));
+  const radius = config.body.diameter / 2;
+  const upperStageEnd = config.noseCone.length + config.body.length;
+  const [upperFins, ...stageFins] = finSets(config);
+
+  const placed = [
+    noseCone(config),
+    noseBallast(config),
+    bodyTube('body', config.body.mass, config.body.length, radius, config.noseCone.length),
+    finSet(config, upperFins),
+    motorMount(config, 'motor', [config.engine], remaining, upperStageEnd),
+    recovery(config)
+  ];
+
+  const aftPositions = stageAftPositions(config);
+  (config.stages ?? []).forEach((stage, index) => {
+    const name = `stage_${index + 1}`;
+    const front = aftPositions[index] - stage.body.length;
+    const stageRemaining = Math.min(
+      motorPropellantMass(stage.motors),
+      Math.max(0, stagePropellantRemaining[index] ?? motorPropellantMass(stage.motors))
+    );
+
+    placed.push(bodyTube(`${name}_body`, stage.body.mass, stage.body.length, radius, front));
+    placed.push(motorMount(config, `${name}_motors`, stage.motors, stageRemaining, aftPositions[index]));
+  });
+  placed.push(...stageFins.map(set => finSet(config, set)));
+
+  const parts = placed.filter(part => part.mass > 0);
+
+  const mass = parts.reduce((sum, part) => sum + part.mass, 0);
+  const centerOfGravity = mass > 0
+    ? parts.reduce((sum, part) => sum + part.mass * part.centerOfGravity, 0) / mass
+    : 0;
+
+  // Parallel-axis theorem about the combined CG
+  const transverseInertia = parts.reduce(
+    (sum, part) => sum + part.transverseInertia + part.mass * (part.centerOfGravity - centerOfGravity) ** 2,
+    0
+  );
+  const longitudinalInertia = parts.reduce((sum, part) => sum + part.longitudinalInertia, 0);
+
+  return {
+    mass,
+    centerOfGravity,
+    transverseInertia,
+    longitudinalInertia,
+    components: parts.map(({ name, mass: partMass, centerOfGravity: position }) => ({
+      name,
+      mass: partMass,
+      centerOfGravity: position
+    }))
+  };
+}
@@ -0,0 +1,270 @@
+/**
+ * Motor Database
+ *
+ * Catalog of motors with measured thrust curves. Ships with common Estes
+ * motors and accepts RASP .eng / RockSim .rse imports, which may add motors
+ * but never replace a built-in one. Rocket configurations can reference a
+ * motor by designation instead of typing in thrust, burn time and masses.
+ */
+
+import { MotorDefinition, MotorFileFormat, RocketConfig, MotorConfig, EngineType } from '../../../shared/types/rocket';
+import { parseEngFile, parseMotorFile } from './motor.parser';
+
+// Built-in motors (approximate curves after published NAR certification data)
+const BUILTIN_MOTORS = `
+; Estes A8
+A8 18 70 3-5 0.0033 0.0163 Estes
+0.041 0.512
+0.084 2.115
+0.127 4.358
+0.166 6.794
+0.192 8.588
+0.206 9.294
+0.226 9.730
+0.236 8.845
+0.247 7.179
+0.261 5.063
+0.277 3.717
+0.306 3.205
+0.351 2.884
+0.405 2.691
+0.467 2.467
+0.532 2.307
+0.598 2.179
+0.664 2.051
+0.714 1.987
+0.731 1.667
+0.746 0.770
+0.750 0.000
+;
+; Estes B6
+B6 18 70 0-2-4-6 0.0062 0.0202 Estes
+0.023 0.688
+0.057 2.457
+0.089 4.816
+0.116 7.274
+0.148 9.929
+0.171 12.140
+0.191 11.695
+0.200 10.719
+0.209 9.240
+0.230 7.667
+0.255 6.488
+0.305 5.505
+0.375 4.816
+0.477 4.620
+0.580 4.620
+0.671 4.521
+0.746 4.521
+0.786 4.521
+0.802 4.423
+0.825 3.931
+0.840 3.048
+0.850 1.867
+0.860 0.000
+;
+; Estes C6
+C6 18 70 0-3-5-7 0.0108 0.0231 Estes
+0.031 0.946
+0.092 4.826
+0.139 9.936
+0.192 14.090
+0.209 11.446
+0.231 7.381
+0.248 6.151
+0.292 5.489
+0.370 4.921
+0.475 4.448
+0.671 4.258
+0.702 4.542
+0.723 4.164
+0.850 4.448
+1.063 4.353
+1.211 4.353
+1.242 4.069
+1.303 4.258
+1.468 4.353
+1.656 4.448
+1.821 4.448
+1.834 2.933
+1.847 1.325
+1.860 0.000
+;
+; Estes D12
+D12 24 70 0-3-5-7 0.0211 0.0442 Estes
+0.049 2.569
+0.116 9.369
+0.184 17.275
+0.237 24.258
+0.282 29.730
+0.297 27.010
+0.311 22.589
+0.322 17.990
+0.348 14.126
+0.386 12.099
+0.442 10.808
+0.546 9.876
+0.718 9.306
+0.879 9.105
+1.066 8.901
+1.257 8.698
+1.436 8.619
+1.590 8.400
+1.612 8.250
+1.650 3.000
+1.660 0.000
+;
+; Estes E9
+E9 24 95 4-6-8 0.0358 0.0578 Estes
+0.046 2.286
+0.235 16.258
+0.273 18.081
+0.326 17.714
+0.370 14.615
+0.397 12.429
+0.483 9.295
+0.541 8.024
+0.621 7.516
+0.733 7.235
+0.897 7.105
+1.083 6.821
+1.500 6.821
+2.000 6.821
+2.500 6.821
+2.900 6.821
+3.000 6.500
+3.100 2.000
+3.110 0.000
+`;
+
+export interface MotorFilter {
+  impulseClass?: EngineType;
+  manufacturer?: string;
+  diameter?: number; // mm
+}
+
+export class MotorDatabase {
+  private motors = new Map<string, MotorDefinition>();
+  private builtins: Set<string>;
+
+  constructor(imported: MotorDefinition[] = []) {
+    parseEngFile(BUILTIN_MOTORS).forEach(motor => this.add(motor));
+    this.builtins = new Set(this.motors.keys());
+    imported.filter(motor => !this.isBuiltin(motor.designation)).forEach(motor => this.add(motor));
+  }
+
+  /**
+   * A separate catalog holding this one's motors and `imported`, such as the
+   * motors one user has imported
+   */
+  withImported(imported: MotorDefinition[]): MotorDatabase {
+    const own = Array.from(this.motors.entries())
+      .filter(([key]) => !this.builtins.has(key))
+      .map(([, motor]) => motor);
+    return new MotorDatabase([...own, ...imported]);
+  }
+
+  /**
+   * List motors, optionally filtered
+   */
+  list(filter: MotorFilter = {}): MotorDefinition[] {
+    return Array.from(this.motors.values())
+      .filter(motor => !filter.impulseClass || motor.impulseClass === filter.impulseClass)
+      .filter(motor => !filter.manufacturer ||
+        motor.manufacturer.toLowerCase() === filter.manufacturer.toLowerCase())
+      .filter(motor => !filter.diameter || motor.diameter === filter.diameter)
+      .sort((a, b) => a.totalImpulse - b.totalImpulse);
+  }
+
+  /**
+   * Find a motor by designation; a delay suffix ("C6-5") is ignored
+   */
+  find(designation: string): MotorDefinition | null {
+    const key = this.key(designation);
+    return this.motors.get(key) || this.motors.get(this.withoutDelay(key)) || null;
+  }
+
+  /**
+   * Whether a designation names one of the motors the catalog ships with
+   */
+  isBuiltin(designation: string): boolean {
+    const key = this.key(designation);
+    return this.builtins.has(key) || this.builtins.has(this.withoutDelay(key));
+  }
+
+  /**
+   * Import motors from file contents, replacing imported motors with the same
+   * designation. Nothing is imported if the file holds a built-in motor
+   */
+  import(content: string, format: MotorFileFormat): MotorDefinition[] {
+    const motors = parseMotorFile(content, format);
+    const builtin = motors.find(motor => this.isBuiltin(motor.designation));
+    if (builtin) {
+      throw new Error(`${builtin.designation} is a built-in motor and cannot be replaced`);
+    }
+
+    motors.forEach(motor => this.add(motor));
+    return motors;
+  }
+
+  /**
+   * Fill in the engine fields of a configuration, including booster stage
+   * motors, from their referenced motors
+   */
+  resolveConfig(config: RocketConfig): RocketConfig {
+    if (!config.engine) {
+      return config;
+    }
+
+    const resolved = { ...config, engine: this.resolveMotor(config.engine) };
+    if (config.stages) {
+      resolved.stages = config.stages.map(stage => ({
+        ...stage,
+        motors: (stage.motors ?? []).map(motor => this.resolveMotor(motor))
+      }));
+    }
+    return resolved;
+  }
+
+  /**
+   * Fill in one motor mount from its designation
+   */
+  private resolveMotor(engine: MotorConfig): MotorConfig {
+    const designation = engine.designation;
+    if (!designation) {
+      return engine;
+    }
+
+    const motor = this.find(designation);
+    if (!motor) {
+      // Configurations resolved earlier carry their own curve
+      if (engine.thrustCurve) return engine;
+      throw new Error(`Motor not found: ${designation}`);
+    }
+
+    return {
+      ...engine,
+      type: motor.impulseClass,
+      thrust: motor.averageThrust,
+      burnTime: motor.burnTime,
+      specificImpulse: motor.specificImpulse,
+      propellantMass: motor.propellantMass,
+      totalMass: motor.totalMass,
+      length: motor.length / 1000,
+      diameter: motor.diameter / 1000,
+      thrustCurve: motor.thrustCurve
+    };
+  }
+
+  private add(motor: MotorDefinition) {
+    this.motors.set(this.key(motor.designation), motor);
+  }
+
+  private key(designation: string): string {
+    return designation.trim().toUpperCase();
+  }
+
+  private withoutDelay(key: string): string {
+    return key.replace(/-(\d+|P)$/, '');
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * Motor File Parsers
+ *
+ * Readers for the two common thrust curve formats:
+ * - RASP `.eng`: text header line followed by "time thrust" pairs
+ * - RockSim `.rse`: XML with one <engine> element per motor
+ */
+
+import { MotorDefinition, MotorFileFormat, ThrustCurvePoint } from '../../../shared/types/rocket';
+import {
+  STANDARD_GRAVITY,
+  summarizeThrustCurve,
+  classifyImpulse,
+  normalizeThrustCurve
+} from './thrust.curve';
+
+interface MotorHeader {
+  designation: string;
+  manufacturer: string;
+  diameter: number; // mm
+  length: number; // mm
+  delays: number[];
+  propellantMass: number; // kg
+  totalMass: number; // kg
+}
+
+/**
+ * Parse motor file contents in the given format
+ */
+export function parseMotorFile(content: string, format: MotorFileFormat): MotorDefinition[] {
+  switch (format) {
+    case MotorFileFormat.ENG:
+      return parseEngFile(content);
+    case MotorFileFormat.RSE:
+      return parseRseFile(content);
+    default:
+      throw new Error(`Unsupported motor file format: ${format}`);
+  }
+}
+
+/**
+ * Parse a RASP .eng file (may contain several motors)
+ */
+export function parseEngFile(content: string): MotorDefinition[] {
+  const motors: MotorDefinition[] = [];
+  let header: MotorHeader | null = null;
+  let curve: ThrustCurvePoint[] = [];
+
+  const finishMotor = () => {
+    if (header) {
+      motors.push(buildMotor(header, curve));
+    }
+    header = null;
+    curve = [];
+  };
+
+  const lines = content.split(/\r?\n/);
+  lines.forEach((rawLine, index) => {
+    const line = rawLine.replace(/;.*$/, '').trim();
+    if (!line) return;
+
+    const fields = line.split(/\s+/);
+
+    if (!header || isNaN(Number(fields[0]))) {
+      finishMotor();
+      header = parseEngHeader(fields, index + 1);
+      return;
+    }
+
+    const time = Number(fields[0]);
+    const thrust = Number(fields[1]);
+    if (fields.length < 2 || isNaN(time) || isNaN(thrust)) {
+      throw new Error(`Invalid .eng data point on line ${index + 1}`);
+    }
+    curve.push({ time, thrust });
+  });
+
+  finishMotor();
+
+  if (motors.length === 0) {
+    throw new Error('Invalid .eng file: no motors found');
+  }
+
+  return motors;
+}
+
+/**
+ * Parse a RockSim .rse file (may contain several motors)
+ */
+export function parseRseFile(content: string): MotorDefinition[] {
+  const motors: MotorDefinition[] = [];
+  const enginePattern = /<engine(\s[^>]*)?>([\s\S]*?)<\/engine>/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = enginePattern.exec(content)) !== null) {
+    const attributes = parseXmlAttributes(match[1] || '');
+    const designation = attributes.code;
+    if (!designation) {
+      throw new Error('Invalid .rse file: engine is missing a code');
+    }
+
+    const curve: ThrustCurvePoint[] = [];
+    const dataPattern = /<eng-data\b([^>]*)\/?>/gi;
+    let dataMatch: RegExpExecArray | null;
+    while ((dataMatch = dataPattern.exec(match[2])) !== null) {
+      const point = parseXmlAttributes(dataMatch[1]);
+      curve.push({ time: Number(point.t), thrust: Number(point.f) });
+    }
+
+    // RockSim stores masses in grams
+    motors.push(buildMotor({
+      designation,
+      manufacturer: attributes.mfg || 'Unknown',
+      diameter: Number(attributes.dia) || 0,
+      length: Number(attributes.len) || 0,
+      delays: parseDelays(attributes.delays || ''),
+      propellantMass: (Number(attributes.propWt) || 0) / 1000,
+      totalMass: (Number(attributes.initWt) || 0) / 1000
+    }, curve));
+  }
+
+  if (motors.length === 0) {
+    throw new Error('Invalid .rse file: no engines found');
+  }
+
+  return motors;
+}
+
+/**
+ * Parse an .eng header: name diameter length delays propellant-mass total-mass manufacturer
+ */
+function parseEngHeader(fields: string[], lineNumber: number): MotorHeader {
+  if (fields.length < 7) {
+    throw new Error(`Invalid .eng header on line ${lineNumber}`);
+  }
+
+  const [designation, diameter, length, delays, propellantMass, totalMass, ...manufacturer] = fields;
+  const numbers = [diameter, length, propellantMass, totalMass].map(Number);
+  if (numbers.some(isNaN)) {
+    throw new Error(`Invalid .eng header on line ${lineNumber}`);
+  }
+
+  return {
+    designation,
+    manufacturer: manufacturer.join(' '),
+    diameter: numbers[0],
+    length: numbers[1],
+    delays: parseDelays(delays),
+    propellantMass: numbers[2],
+    totalMass: numbers[3]
+  };
+}
+
+/**
+ * Parse a delay list such as "3-5-7" or "6,10,14" ("P" means plugged)
+ */
+function parseDelays(delays: string): number[] {
+  return delays
+    .split(/[-,]/)
+    .filter(delay => delay.trim() !== '')
+    .map(Number)
+    .filter(delay => !isNaN(delay) && delay >= 0);
+}
+
+function parseXmlAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const attributePattern = /([\w-]+)\s*=\s*"([^"]*)"/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = attributePattern.exec(source)) !== null) {
+    attributes[match[1]] = match[2];
+  }
+
+  return attributes;
+}
+
+/**
+ * Combine header data and a thrust curve into a motor definition
+ */
+function buildMotor(header: MotorHeader, rawCurve: ThrustCurvePoint[]): MotorDefinition {
+  const thrustCurve = normalizeThrustCurve(rawCurve);
+
+  if (thrustCurve.length < 2 || thrustCurve.some(point => isNaN(point.time) || isNaN(point.thrust))) {
+    throw new Error(`Invalid thrust curve for motor ${header.designation}`);
+  }
+  if (header.propellantMass <= 0 || header.totalMass <= header.propellantMass) {
+    throw new Error(`Invalid masses for motor ${header.designation}`);
+  }
+
+  const summary = summarizeThrustCurve(thrustCurve);
+
+  return {
+    ...header,
+    thrustCurve,
+    ...summary,
+    specificImpulse: summary.totalImpulse / (header.propellantMass * STANDARD_GRAVITY),
+    impulseClass: classifyImpulse(summary.totalImpulse)
+  };
+}
@@ -0,0 +1,630 @@
+/**
+ * OpenRocket Designs
+ *
+ * Reads and writes OpenRocket .ork files: the rocket's XML, zipped (older
+ * versions gzip it, and plain XML is read too). Lengths are in meters and
+ * masses in kilograms. A part's mass is its mass override when it has one,
+ * otherwise it is estimated from its geometry and material as OpenRocket
+ * does. Launch conditions come from the first simulation.
+ */
+
+import { gunzipSync } from 'zlib';
+import {
+  RocketDesign,
+  RocketConfig,
+  StageConfig,
+  MotorConfig,
+  NoseConeType,
+  RecoveryType,
+  RocketMaterial,
+  SurfaceFinish
+} from '../../../shared/types/rocket';
+import { MATERIAL_DENSITY } from './mass.properties';
+import {
+  XmlElement,
+  parseXml,
+  serializeXml,
+  xmlElement,
+  childElement,
+  childElements,
+  childText,
+  childNumber
+} from './xml.document';
+import { isZip, readZip, writeZip } from './zip.archive';
+import {
+  ImportedDesign,
+  ImportNotes,
+  StageParts,
+  FinPlanform,
+  DEFAULT_LAUNCH,
+  FABRIC_DENSITY,
+  MATERIAL_NAMES,
+  emptyStage,
+  assembleConfig,
+  materialFor,
+  tubeMass,
+  noseConeMass,
+  finSetMass,
+  sweepLength,
+  trapezoidFins,
+  ellipticalFins,
+  freeformFins,
+  motorReference
+} from './design.components';
+
+const NOSE_SHAPES: Record<string, NoseConeType> = {
+  conical: NoseConeType.CONICAL,
+  ogive: NoseConeType.OGIVE,
+  parabolic: NoseConeType.PARABOLIC,
+  ellipsoid: NoseConeType.ELLIPTICAL
+};
+
+// Shapes RocketConfig does not have, and the closest one it does
+const APPROXIMATE_NOSE_SHAPES: Record<string, NoseConeType> = {
+  power: NoseConeType.PARABOLIC,
+  haack: NoseConeType.OGIVE
+};
+
+const EXPORT_NOSE_SHAPES: Record<NoseConeType, string> = {
+  [NoseConeType.CONICAL]: 'conical',
+  [NoseConeType.OGIVE]: 'ogive',
+  [NoseConeType.PARABOLIC]: 'parabolic',
+  [NoseConeType.ELLIPTICAL]: 'ellipsoid',
+  [NoseConeType.BLUNT]: 'ellipsoid'
+};
+
+const FINISHES: Record<SurfaceFinish, string> = {
+  [SurfaceFinish.ROUGH]: 'rough',
+  [SurfaceFinish.UNFINISHED]: 'unfinished',
+  [SurfaceFinish.REGULAR_PAINT]: 'normal',
+  [SurfaceFinish.SMOOTH_PAINT]: 'smooth',
+  [SurfaceFinish.POLISHED]: 'polished'
+};
+
+const FIN_SETS = ['trapezoidfinset', 'ellipticalfinset', 'freeformfinset'];
+const UNSUPPORTED = ['tubefinset', 'podset', 'parallelstage'];
+const DEFAULT_WALL = 0.0005; // m, paper tube
+const DEFAULT_NOSE_WALL = 0.002; // m
+const CORD_DENSITY = 0.003; // kg/m, braided shock cord
+const CONFIG_ID = 'default';
+const CREATOR = 'KidRocket Designer';
+
+interface Walk {
+  stage: StageParts;
+  notes: ImportNotes;
+  radius?: number; // m, of the enclosing body tube (what 'auto' sizes resolve to)
+  inNoseCone: boolean;
+}
+
+/**
+ * Read an .ork file
+ */
+export function readOpenRocket(content: Buffer, notes: ImportNotes): ImportedDesign {
+  const root = parseXml(openRocketXml(content));
+  const rocket = root.name === 'openrocket' ? childElement(root, 'rocket') : undefined;
+  if (!rocket) {
+    throw new Error('Not an OpenRocket design: expected <openrocket><rocket>');
+  }
+
+  // 'auto' radii follow the neighboring tube; the first explicit one is the best guess up front
+  const radius = explicitRadius(rocket);
+  const stages = childElements(childElement(rocket, 'subcomponents') ?? rocket, 'stage').map((element, index) => {
+    const stage = emptyStage(childText(element, 'name') || `Stage ${index + 1}`);
+    stage.separationDelay = childNumber(element, 'separationdelay');
+    readComponents(element, { stage, notes, radius, inNoseCone: false });
+    return stage;
+  });
+
+  return {
+    name: childText(rocket, 'name') || 'Imported rocket',
+    description: childText(rocket, 'comment') || undefined,
+    config: assembleConfig(stages, readLaunch(root), notes)
+  };
+}
+
+/**
+ * Write a design as a zipped .ork file
+ */
+export function writeOpenRocket(rocket: RocketDesign): Buffer {
+  const xml = serializeXml(openRocketDocument(rocket));
+  return writeZip([{ name: 'rocket.ork', content: Buffer.from(xml, 'utf8') }]);
+}
+
+function openRocketXml(content: Buffer): string {
+  if (isZip(content)) {
+    const entries = readZip(content);
+    const entry = entries.find(candidate => /\.ork$/i.test(candidate.name)) ??
+      entries.find(candidate => !candidate.name.endsWith('/'));
+    if (!entry) {
+      throw new Error('The .ork archive has no design in it');
+    }
+    return entry.content.toString('utf8');
+  }
+  if (content[0] === 0x1f && content[1] === 0x8b) {
+    return gunzipSync(content).toString('utf8');
+  }
+  return content.toString('utf8');
+}
+
+function explicitRadius(element: XmlElement): number | undefined {
+  for (const child of childElement(element, 'subcomponents')?.children ?? []) {
+    const radius = child.name === 'bodytube' ? childNumber(child, 'radius') : explicitRadius(child);
+    if (radius !== undefined) return radius;
+  }
+  return undefined;
+}
+
+function readComponents(parent: XmlElement, walk: Walk) {
+  childElement(parent, 'subcomponents')?.children.forEach(component => readComponent(component, walk));
+}
+
+function readComponent(element: XmlElement, walk: Walk) {
+  const name = childText(element, 'name') || element.name;
+
+  if (element.name === 'nosecone') {
+    readNoseCone(element, name, walk);
+  } else if (element.name === 'bodytube') {
+    readBodyTube(element, name, walk);
+  } else if (FIN_SETS.includes(element.name)) {
+    readFinSet(element, name, walk);
+  } else if (element.name === 'parachute' || element.name === 'streamer') {
+    readRecoveryDevice(element, name, walk);
+  } else if (element.name === 'shockcord') {
+    walk.stage.recoveryMass += overrideMass(element, name, walk.notes) ??
+      (childNumber(element, 'cordlength') ?? 0) * (materialDensity(element) ?? CORD_DENSITY);
+  } else if (UNSUPPORTED.includes(element.name)) {
+    walk.notes.dropped(name, `${element.name} is not modeled`);
+  } else {
+    readStructure(element, name, walk);
+  }
+}
+
+function readNoseCone(element: XmlElement, name: string, walk: Walk) {
+  const { stage, notes } = walk;
+  if (stage.noseCone) {
+    notes.dropped(name, `only one nose cone is modeled (${stage.noseCone.name})`);
+    return;
+  }
+
+  const shape = childText(element, 'shape') ?? 'ogive';
+  let type = NOSE_SHAPES[shape];
+  if (!type) {
+    type = APPROXIMATE_NOSE_SHAPES[shape] ?? NoseConeType.OGIVE;
+    notes.approximated(name, `${shape} nose cone treated as ${type}`);
+  }
+
+  const length = childNumber(element, 'length') ?? 0;
+  const radius = childNumber(element, 'aftradius') ?? walk.radius ?? 0;
+  const material = readMaterial(element, name, notes);
+  const thickness = childText(element, 'filled') === 'true'
+    ? undefined
+    : childNumber(element, 'thickness') ?? DEFAULT_NOSE_WALL;
+
+  stage.noseCone = {
+    name,
+    type,
+    length,
+    mass: overrideMass(element, name, notes) ?? noseConeMass(length, radius, thickness, material),
+    material,
+    ballastMass: 0
+  };
+  readComponents(element, { ...walk, radius, inNoseCone: true });
+}
+
+function readBodyTube(element: XmlElement, name: string, walk: Walk) {
+  const { stage, notes } = walk;
+  const length = childNumber(element, 'length') ?? 0;
+  const radius = childNumber(element, 'radius') ?? walk.radius;
+  const material = readMaterial(element, name, notes);
+  const finish = childText(element, 'finish');
+
+  if (stage.bodyLength > 0) {
+    notes.approximated(name, 'joined end to end with the body tube above as one tube');
+  }
+  stage.bodyLength += length;
+  stage.bodyMaterial = stage.bodyMaterial ?? material;
+  stage.surfaceFinish = stage.surfaceFinish ??
+    (Object.keys(FINISHES) as SurfaceFinish[]).find(key => FINISHES[key] === finish);
+  if (radius !== undefined) {
+    stage.bodyDiameter = Math.max(stage.bodyDiameter ?? 0, 2 * radius);
+  }
+
+  const thickness = childNumber(element, 'thickness') ?? DEFAULT_WALL;
+  stage.bodyMass += overrideMass(element, name, notes) ??
+    (radius === undefined ? 0 : tubeMass(length, radius, radius - thickness, material));
+  readMotorMount(element, name, walk);
+  readComponents(element, { ...walk, radius });
+}
+
+function readFinSet(element: XmlElement, name: string, walk: Walk) {
+  const { stage, notes } = walk;
+  const rootChord = childNumber(element, 'rootchord') ?? 0;
+  const span = childNumber(element, 'height') ?? 0;
+  let planform: FinPlanform;
+
+  if (element.name === 'ellipticalfinset') {
+    planform = ellipticalFins(rootChord, span);
+    notes.approximated(name, 'elliptical fins as a trapezoid of the same area');
+  } else if (element.name === 'freeformfinset') {
+    const points = childElements(childElement(element, 'finpoints') ?? element, 'point')
+      .map(point => ({ x: Number(point.attributes.x), y: Number(point.attributes.y) }));
+    if (points.length < 3) {
+      notes.dropped(name, 'freeform fins without an outline');
+      return;
+    }
+    planform = freeformFins(points);
+    notes.approximated(name, 'freeform fins as a trapezoid of the same area');
+  } else {
+    planform = trapezoidFins(rootChord, childNumber(element, 'tipchord') ?? 0, span, childNumber(element, 'sweeplength') ?? 0);
+  }
+
+  const count = childNumber(element, 'fincount') ?? 3;
+  const thickness = childNumber(element, 'thickness') ?? 0.003;
+  const material = readMaterial(element, name, notes);
+  stage.fins.push({
+    name,
+    fins: {
+      count,
+      ...planform,
+      thickness,
+      material,
+      mass: overrideMass(element, name, notes) ?? finSetMass(planform, count, thickness, material)
+    }
+  });
+}
+
+function readRecoveryDevice(element: XmlElement, name: string, walk: Walk) {
+  const surfaceDensity = materialDensity(element) ?? FABRIC_DENSITY;
+  const deployAltitude = childText(element, 'deployevent') === 'altitude'
+    ? childNumber(element, 'deployaltitude')
+    : undefined;
+
+  if (element.name === 'parachute') {
+    const diameter = childNumber(element, 'diameter') ?? 0;
+    walk.stage.recovery.push({
+      name,
+      kind: 'parachute',
+      size: diameter,
+      mass: overrideMass(element, name, walk.notes) ?? Math.PI * (diameter / 2) ** 2 * surfaceDensity,
+      deployAltitude
+    });
+  } else {
+    const length = childNumber(element, 'striplength') ?? 0;
+    const width = childNumber(element, 'stripwidth') ?? 0;
+    walk.stage.recovery.push({
+      name,
+      kind: 'streamer',
+      size: length,
+      width,
+      mass: overrideMass(element, name, walk.notes) ?? length * width * surfaceDensity
+    });
+  }
+}
+
+/**
+ * Inner tubes, rings, bulkheads, couplers, lugs and mass components: their
+ * mass counts toward the body (or toward the nose cone they sit in, mass
+ * components there being nose weight)
+ */
+function readStructure(element: XmlElement, name: string, walk: Walk) {
+  const { stage, notes } = walk;
+  const mass = overrideMass(element, name, notes) ?? childNumber(element, 'mass') ?? structureMass(element, name, walk);
+
+  if (mass === undefined) {
+    notes.dropped(name, 'no mass or size in the file');
+  } else if (walk.inNoseCone && stage.noseCone) {
+    if (element.name === 'masscomponent') {
+      stage.noseCone.ballastMass! += mass;
+    } else {
+      stage.noseCone.mass += mass;
+    }
+  } else {
+    stage.bodyMass += mass;
+  }
+
+  readMotorMount(element, name, walk);
+  readComponents(element, walk);
+}
+
+function structureMass(element: XmlElement, name: string, walk: Walk): number | undefined {
+  const length = childNumber(element, 'length');
+  const outerRadius = childNumber(element, 'outerradius') ?? childNumber(element, 'radius') ??
+    childNumber(element, 'aftradius') ?? walk.radius;
+  if (length === undefined || outerRadius === undefined) {
+    return undefined;
+  }
+
+  const thickness = childNumber(element, 'thickness');
+  const innerRadius = childNumber(element, 'innerradius') ?? (thickness === undefined ? 0 : outerRadius - thickness);
+  return tubeMass(length, outerRadius, innerRadius, readMaterial(element, name, walk.notes));
+}
+
+function readMotorMount(element: XmlElement, name: string, walk: Walk) {
+  const mount = childElement(element, 'motormount');
+  if (!mount) return;
+
+  const [motor, ...others] = childElements(mount, 'motor');
+  if (!motor) {
+    walk.notes.dropped(name, 'motor mount without a motor');
+    return;
+  }
+  if (others.length > 0) {
+    walk.notes.approximated(name, 'only the first motor configuration is used');
+  }
+
+  walk.stage.motors.push({
+    name,
+    motor: motorReference(childText(motor, 'designation'), {
+      diameter: childNumber(motor, 'diameter'),
+      length: childNumber(motor, 'length'),
+      ejectionDelay: childNumber(motor, 'delay'),
+      count: clusterCount(childText(element, 'clusterconfiguration')),
+      ignitionDelay: childNumber(mount, 'ignitiondelay') || undefined
+    })
+  });
+}
+
+function readLaunch(root: XmlElement): RocketConfig['launch'] {
+  const simulation = childElement(childElement(root, 'simulations') ?? root, 'simulation');
+  const conditions = simulation && childElement(simulation, 'conditions');
+  if (!conditions) {
+    return { ...DEFAULT_LAUNCH };
+  }
+
+  const launch: RocketConfig['launch'] = {
+    launchAngle: Math.abs(childNumber(conditions, 'launchrodangle') ?? DEFAULT_LAUNCH.launchAngle),
+    launchRodLength: childNumber(conditions, 'launchrodlength') ?? DEFAULT_LAUNCH.launchRodLength
+  };
+  const launchDirection = childNumber(conditions, 'launchroddirection');
+  const windSpeed = childNumber(conditions, 'windaverage');
+  const windDirection = childNumber(conditions, 'winddirection');
+  if (launchDirection !== undefined) launch.launchDirection = ((launchDirection % 360) + 360) % 360;
+  if (windSpeed !== undefined) launch.windSpeed = windSpeed;
+  if (windDirection !== undefined) launch.windDirection = ((windDirection % 360) + 360) % 360;
+  return launch;
+}
+
+function readMaterial(element: XmlElement, name: string, notes: ImportNotes): RocketMaterial {
+  return materialFor(childText(element, 'material'), materialDensity(element), name, notes);
+}
+
+function materialDensity(element: XmlElement): number | undefined {
+  const density = Number(childElement(element, 'material')?.attributes.density);
+  return isFinite(density) ? density : undefined;
+}
+
+function overrideMass(element: XmlElement, name: string, notes: ImportNotes): number | undefined {
+  const mass = childNumber(element, 'overridemass');
+  if (mass !== undefined && childText(element, 'overridesubcomponentsmass') === 'true') {
+    notes.approximated(name, 'mass override taken as the part alone, its subcomponents are added on top');
+  }
+  return mass;
+}
+
+function clusterCount(configuration: string | undefined): number | undefined {
+  if (!configuration || configuration === 'single') return undefined;
+  if (configuration === 'double') return 2;
+  const count = parseInt(configuration, 10);
+  return isNaN(count) ? undefined : count;
+}
+
+function openRocketDocument(rocket: RocketDesign): XmlElement {
+  const { config } = rocket;
+  const radius = config.body.diameter / 2;
+  const boosters = [...(config.stages ?? [])].reverse();
+
+  return xmlElement('openrocket', { version: '1.8', creator: CREATOR }, [
+    xmlElement('rocket', {}, [
+      xmlElement('name', {}, rocket.name),
+      rocket.description ? xmlElement('comment', {}, rocket.description) : undefined,
+      xmlElement('motorconfiguration', { configid: CONFIG_ID, default: 'true' }),
+      xmlElement('subcomponents', {}, [
+        sustainerElement(config, radius),
+        ...boosters.map((stage, index) => boosterElement(stage, index, radius, config.body.surfaceFinish))
+      ])
+    ]),
+    xmlElement('simulations', {}, [
+      xmlElement('simulation', { status: 'outdated' }, [
+        xmlElement('name', {}, 'Simulation 1'),
+        xmlElement('simulator', {}, 'RK4Simulator'),
+        xmlElement('calculator', {}, 'BarrowmanCalculator'),
+        xmlElement('conditions', {}, [
+          xmlElement('configid', {}, CONFIG_ID),
+          xmlElement('launchrodlength', {}, config.launch.launchRodLength),
+          xmlElement('launchrodangle', {}, config.launch.launchAngle),
+          config.launch.launchDirection !== undefined
+            ? xmlElement('launchroddirection', {}, config.launch.launchDirection)
+            : undefined,
+          xmlElement('windaverage', {}, config.launch.windSpeed ?? 0),
+          config.launch.windDirection !== undefined
+            ? xmlElement('winddirection', {}, config.launch.windDirection)
+            : undefined
+        ])
+      ])
+    ])
+  ]);
+}
+
+function sustainerElement(config: RocketConfig, radius: number): XmlElement {
+  const { noseCone, body } = config;
+  return xmlElement('stage', {}, [
+    xmlElement('name', {}, 'Sustainer'),
+    xmlElement('subcomponents', {}, [
+      xmlElement('nosecone', {}, [
+        xmlElement('name', {}, 'Nose cone'),
+        finishElement(body.surfaceFinish),
+        materialElement(noseCone.material),
+        xmlElement('length', {}, noseCone.length),
+        xmlElement('thickness', {}, DEFAULT_NOSE_WALL),
+        xmlElement('shape', {}, EXPORT_NOSE_SHAPES[noseCone.type]),
+        xmlElement('aftradius', {}, radius),
+        xmlElement('overridemass', {}, noseCone.mass),
+        noseCone.ballastMass
+          ? xmlElement('subcomponents', {}, [
+            xmlElement('masscomponent', {}, [
+              xmlElement('name', {}, 'Nose weight'),
+              xmlElement('mass', {}, noseCone.ballastMass),
+              xmlElement('masscomponenttype', {}, 'masscomponent')
+            ])
+          ])
+          : undefined
+      ]),
+      bodyTubeElement('Body tube', body.length, radius, body.mass, body.material, body.surfaceFinish, [
+        finSetElement(config.fins),
+        motorTubeElement(config.engine, config.engine.ignitionDelay),
+        ...recoveryElements(config)
+      ])
+    ])
+  ]);
+}
+
+function boosterElement(stage: StageConfig, index: number, radius: number, finish?: SurfaceFinish): XmlElement {
+  const name = stage.name ?? `Booster ${index + 1}`;
+  const [motor, ...others] = stage.motors;
+  return xmlElement('stage', {}, [
+    xmlElement('name', {}, name),
+    xmlElement('separationevent', {}, 'burnout'),
+    xmlElement('separationdelay', {}, stage.separationDelay ?? 0),
+    xmlElement('subcomponents', {}, [
+      bodyTubeElement(`${name} tube`, stage.body.length, radius, stage.body.mass, stage.body.material, finish, [
+        stage.fins ? finSetElement(stage.fins) : undefined,
+        // Motors of a stage are lit together; a mount holds identical motors
+        motorTubeElement(
+          { ...motor, count: (motor.count ?? 1) + others.reduce((sum, other) => sum + (other.count ?? 1), 0) },
+          stage.ignitionDelay
+        )
+      ])
+    ])
+  ]);
+}
+
+function bodyTubeElement(
+  name: string,
+  length: number,
+  radius: number,
+  mass: number,
+  material: RocketMaterial,
+  finish: SurfaceFinish | undefined,
+  parts: Array<XmlElement | undefined>
+): XmlElement {
+  return xmlElement('bodytube', {}, [
+    xmlElement('name', {}, name),
+    finishElement(finish),
+    materialElement(material),
+    xmlElement('length', {}, length),
+    xmlElement('thickness', {}, DEFAULT_WALL),
+    xmlElement('radius', {}, radius),
+    xmlElement('overridemass', {}, mass),
+    xmlElement('subcomponents', {}, parts)
+  ]);
+}
+
+function finSetElement(fins: RocketConfig['fins']): XmlElement {
+  return xmlElement('trapezoidfinset', {}, [
+    xmlElement('name', {}, 'Fins'),
+    materialElement(fins.material),
+    xmlElement('fincount', {}, fins.count),
+    xmlElement('thickness', {}, fins.thickness),
+    xmlElement('rootchord', {}, fins.rootChord),
+    xmlElement('tipchord', {}, fins.tipChord),
+    xmlElement('sweeplength', {}, sweepLength(fins)),
+    xmlElement('height', {}, fins.span),
+    xmlElement('overridemass', {}, fins.mass)
+  ]);
+}
+
+/**
+ * An inner tube holding the motor; its mass is in the body tube's override
+ */
+function motorTubeElement(motor: MotorConfig, ignitionDelay?: number): XmlElement {
+  const diameter = motor.diameter ?? 0.018;
+  const length = motor.length ?? 0.07;
+  const count = motor.count ?? 1;
+  const designation = motor.designation?.replace(/-(\d+(?:\.\d+)?|P)$/i, '') ??
+    `${motor.type}${Math.round(motor.thrust)}`;
+  const delay = motor.ejectionDelay ?? Number(motor.designation?.match(/-(\d+(?:\.\d+)?)$/)?.[1] ?? NaN);
+
+  return xmlElement('innertube', {}, [
+    xmlElement('name', {}, 'Motor mount'),
+    materialElement(RocketMaterial.CARDBOARD),
+    xmlElement('length', {}, length),
+    xmlElement('outerradius', {}, diameter / 2 + DEFAULT_WALL),
+    xmlElement('thickness', {}, DEFAULT_WALL),
+    xmlElement('overridemass', {}, 0),
+    xmlElement('clusterconfiguration', {}, count === 1 ? 'single' : count === 2 ? 'double' : `${count}-ring`),
+    xmlElement('motormount', {}, [
+      xmlElement('ignitionevent', {}, 'automatic'),
+      xmlElement('ignitiondelay', {}, ignitionDelay ?? 0),
+      xmlElement('overhang', {}, 0),
+      xmlElement('motor', { configid: CONFIG_ID }, [
+        xmlElement('type', {}, 'single'),
+        xmlElement('designation', {}, designation),
+        xmlElement('diameter', {}, diameter),
+        xmlElement('length', {}, length),
+        xmlElement('delay', {}, isNaN(delay) ? 'none' : delay)
+      ])
+    ])
+  ]);
+}
+
+function recoveryElements(config: RocketConfig): XmlElement[] {
+  const { recovery } = config;
+  const parachute = (name: string, diameter: number, mass: number, deployAltitude?: number) =>
+    xmlElement('parachute', {}, [
+      xmlElement('name', {}, name),
+      fabricElement(),
+      xmlElement('diameter', {}, diameter),
+      xmlElement('deployevent', {}, deployAltitude === undefined ? 'ejection' : 'altitude'),
+      xmlElement('deployaltitude', {}, deployAltitude ?? recovery.deploymentAltitude),
+      xmlElement('overridemass', {}, mass)
+    ]);
+
+  switch (recovery.type) {
+    case RecoveryType.PARACHUTE:
+    case RecoveryType.HELICOPTER: {
+      const count = recovery.chuteCount ?? 1;
+      const diameter = recovery.parachuteDiameter ?? 0.3;
+      return Array.from({ length: count }, (_, i) =>
+        parachute(count > 1 ? `Parachute ${i + 1}` : 'Parachute', diameter, recovery.mass / count)
+      );
+    }
+    case RecoveryType.DUAL_DEPLOY:
+      return [
+        recovery.drogueDiameter ? parachute('Drogue', recovery.drogueDiameter, 0) : undefined,
+        parachute('Main', recovery.parachuteDiameter ?? 0.3, recovery.mass, recovery.deploymentAltitude)
+      ].filter((element): element is XmlElement => !!element);
+    case RecoveryType.STREAMER: {
+      // The recovery model's defaults: two calibers wide, ten times as long
+      const width = recovery.streamerWidth ?? 2 * config.body.diameter;
+      return [
+        xmlElement('streamer', {}, [
+          xmlElement('name', {}, 'Streamer'),
+          fabricElement(),
+          xmlElement('striplength', {}, recovery.streamerLength ?? 10 * width),
+          xmlElement('stripwidth', {}, width),
+          xmlElement('deployevent', {}, 'ejection'),
+          xmlElement('overridemass', {}, recovery.mass)
+        ])
+      ];
+    }
+    default:
+      return [
+        xmlElement('shockcord', {}, [
+          xmlElement('name', {}, 'Shock cord'),
+          xmlElement('overridemass', {}, recovery.mass)
+        ])
+      ];
+  }
+}
+
+function materialElement(material: RocketMaterial): XmlElement {
+  return xmlElement('material', { type: 'bulk', density: MATERIAL_DENSITY[material] }, MATERIAL_NAMES[material]);
+}
+
+function fabricElement(): XmlElement {
+  return xmlElement('material', { type: 'surface', density: FABRIC_DENSITY }, 'Ripstop nylon');
+}
+
+function finishElement(finish: SurfaceFinish | undefined): XmlElement {
+  return xmlElement('finish', {}, FINISHES[finish ?? SurfaceFinish.REGULAR_PAINT]);
+}
@@ -0,0 +1,199 @@
+/**
+ * Parameter Sweep
+ *
+ * Varies one or two numeric config fields over even steps and collects the
+ * flight metrics at every point: a table for one axis, a grid for two. The
+ * full mode simulates each point (with a fixed wind seed, so differences come
+ * from the design and not the gusts); the fast mode uses the closed-form
+ * performance estimate, which is quick enough for fine grids.
+ *
+ * Values are set exactly as given and the other fields keep theirs (bigger
+ * fins do not get heavier), except that the body's fineness follows its
+ * length and diameter.
+ */
+
+import {
+  RocketConfig,
+  WeatherConditions,
+  LaunchOptions,
+  FlightResults,
+  SweepRequest,
+  SweepResult,
+  SweepPoint,
+  SweepAxis,
+  SweepMetric,
+  SweepMode
+} from '../../../shared/types/rocket';
+import { SimulationEngine } from './simulation.engine';
+import { SimulationRunner, runSimulation } from './simulation.runner';
+
+export const FULL_SWEEP_METRICS: SweepMetric[] = [
+  'maxAltitude',
+  'maxVelocity',
+  'maxAcceleration',
+  'apogeeTime',
+  'flightTime',
+  'landingDistance',
+  'stabilityMargin',
+  'maxMachNumber',
+  'railExitVelocity',
+  'descentRate',
+  'score'
+];
+
+export const FAST_SWEEP_METRICS: SweepMetric[] = [
+  'estimatedAltitude',
+  'estimatedVelocity',
+  'thrustToWeight',
+  'stabilityMargin',
+  'railExitVelocity'
+];
+
+// Sweeps compare many flights, so integrate with coarse output
+const SWEEP_TIME_STEP = 0.05; // s
+
+// Every point flies through the same gusts
+const SWEEP_SEED = 1;
+
+// Keys that would reach object internals rather than config fields
+const FORBIDDEN_KEYS = new Set(['__proto__', 'prototype', 'constructor']);
+
+// Optional numbers a sweep may set when the design leaves them out, by
+// parent and field (stage and motor indices dropped)
+const MOTOR_OPTIONAL_FIELDS = ['length', 'diameter', 'ejectionDelay', 'count', 'ignitionDelay'];
+const OPTIONAL_NUMBER_FIELDS = new Set([
+  'noseCone.ballastMass',
+  'recovery.parachuteDiameter',
+  'recovery.chuteCount',
+  'recovery.drogueDiameter',
+  'recovery.streamerLength',
+  'recovery.streamerWidth',
+  'launch.windSpeed',
+  'launch.windDirection',
+  'stages.ignitionDelay',
+  'stages.separationDelay',
+  ...MOTOR_OPTIONAL_FIELDS.map(field => `engine.${field}`),
+  ...MOTOR_OPTIONAL_FIELDS.map(field => `motors.${field}`)
+]);
+
+/**
+ * Evenly spaced values of an axis, ends included
+ */
+export function sweepValues(axis: SweepAxis): number[] {
+  return Array.from({ length: axis.steps }, (_, i) =>
+    axis.steps === 1 ? axis.from : axis.from + (axis.to - axis.from) * i / (axis.steps - 1)
+  );
+}
+
+/**
+ * A copy of the config with the number at a dotted path replaced. The path
+ * must lead to a number, or to one of the optional numbers of a part the
+ * design has.
+ */
+export function setConfigValue(config: RocketConfig, path: string, value: number): RocketConfig {
+  const keys = path.split('.');
+  if (keys.some(key => key === '' || FORBIDDEN_KEYS.has(key))) {
+    throw new Error(`Unknown config path '${path}'`);
+  }
+
+  const copy = (node: any, depth: number): any => {
+    const key = keys[depth];
+    if (node === null || typeof node !== 'object' || (Array.isArray(node) && !(Number(key) < node.length))) {
+      throw new Error(`Unknown config path '${path}'`);
+    }
+
+    const next = Array.isArray(node) ? [...node] : { ...node };
+    if (depth === keys.length - 1) {
+      if (next[key] === undefined && !OPTIONAL_NUMBER_FIELDS.has(optionalField(keys))) {
+        throw new Error(`Unknown config path '${path}'`);
+      }
+      if (next[key] !== undefined && typeof next[key] !== 'number') {
+        throw new Error(`Config path '${path}' is not a number`);
+      }
+      next[key] = value;
+    } else {
+      next[key] = copy(node[key], depth + 1);
+    }
+    return next;
+  };
+
+  const updated: RocketConfig = copy(config, 0);
+  if (path === 'body.length' || path === 'body.diameter') {
+    updated.body.fineness = updated.body.length / updated.body.diameter;
+  }
+  return updated;
+}
+
+/**
+ * Sweep a resolved config over the request's axes
+ */
+export async function runParameterSweep(
+  config: RocketConfig,
+  weather: WeatherConditions,
+  request: SweepRequest,
+  runner: SimulationRunner = runSimulation
+): Promise<SweepResult> {
+  const mode = request.mode ?? SweepMode.FULL;
+  const axes = request.axes.map(axis => ({ ...axis, values: sweepValues(axis) }));
+  const launchOptions: LaunchOptions = {
+    ...request.options,
+    timeStep: request.options?.timeStep ?? SWEEP_TIME_STEP,
+    detailedTelemetry: false,
+    seed: request.options?.seed ?? SWEEP_SEED
+  };
+
+  // Every combination, the last axis varying fastest
+  const combinations = axes.reduce<number[][]>(
+    (rows, axis) => rows.flatMap(row => axis.values.map(value => [...row, value])),
+    [[]]
+  );
+
+  const points = await Promise.all(combinations.map(async (values): Promise<SweepPoint> => {
+    const pointConfig = axes.reduce((current, axis, i) => setConfigValue(current, axis.path, values[i]), config);
+
+    try {
+      if (mode === SweepMode.FAST) {
+        const estimate = SimulationEngine.estimatePerformance(pointConfig, launchOptions.minRailExitVelocity);
+        return {
+          values,
+          metrics: {
+            estimatedAltitude: estimate.estimatedAltitude,
+            estimatedVelocity: estimate.estimatedVelocity,
+            thrustToWeight: estimate.thrustToWeight,
+            stabilityMargin: estimate.stabilityMargin,
+            railExitVelocity: estimate.railExit.velocity
+          },
+          // As in a simulated flight, leaving the rod too slowly is the failure
+          successful: estimate.railExit.velocity >= estimate.railExit.requiredVelocity
+        };
+      }
+
+      const { results } = await runner({ config: pointConfig, weather, launchOptions });
+      return { values, metrics: flightMetrics(results), successful: results.successful };
+    } catch (error: any) {
+      return { values, metrics: {}, successful: false, error: error.message };
+    }
+  }));
+
+  return {
+    mode,
+    axes,
+    metrics: mode === SweepMode.FAST ? FAST_SWEEP_METRICS : FULL_SWEEP_METRICS,
+    points
+  };
+}
+
+function optionalField(keys: string[]): string {
+  return keys.filter(key => !/^\d+$/.test(key)).slice(-2).join('.');
+}
+
+function flightMetrics(results: FlightResults): SweepPoint['metrics'] {
+  const metrics: SweepPoint['metrics'] = {};
+  for (const metric of FULL_SWEEP_METRICS) {
+    const value = results[metric as keyof FlightResults];
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      metrics[metric] = value;
+    }
+  }
+  return metrics;
+}
@@ -0,0 +1,38 @@
+/**
+ * Seeded Random Numbers
+ *
+ * Small deterministic generators so that stochastic parts of a simulation
+ * (turbulence, dispersion) can be reproduced from a seed.
+ */
+
+export type RandomSource = () => number;
+
+/**
+ * Uniform [0, 1) generator (mulberry32) for a 32-bit seed
+ */
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Standard normal sample (Box–Muller)
+ */
+export function normalRandom(random: RandomSource): number {
+  const u = Math.max(random(), Number.EPSILON);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+/**
+ * Fresh 32-bit seed for runs that did not ask for one
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
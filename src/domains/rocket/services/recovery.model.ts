@@ -0,0 +1,117 @@
+/**
+ * Recovery Model
+ *
+ * Drag of the recovery devices for each RecoveryType and the timing of their
+ * deployment. Single-deploy rockets open their device when the motor's
+ * ejection charge fires (burnout + delay); without a delay an altimeter is
+ * assumed, opening at `deploymentAltitude` on the way down (or at apogee if the
+ * rocket never gets that high). Dual deploy opens a drogue at apogee (or at
+ * the ejection charge) and the main parachute at `deploymentAltitude`.
+ */
+
+import { RocketConfig, RecoveryType } from '../../../shared/types/rocket';
+import { upperStageIgnitionTime } from './staging.model';
+
+export type RecoveryDevice = 'drogue' | 'main';
+
+// Drag coefficients referenced to each device's own area
+const PARACHUTE_DRAG_COEFFICIENT = 0.8; // round canopy, nominal area
+const HELICOPTER_DRAG_COEFFICIENT = 1.2; // autorotating rotor disk
+const STREAMER_DRAG_COEFFICIENT = 0.4;
+const TUMBLE_DRAG_COEFFICIENT = 0.8; // broadside airframe
+
+// Streamer defaults relative to the body diameter when no size is given
+const STREAMER_WIDTH_CALIBERS = 2;
+const STREAMER_ASPECT_RATIO = 10;
+
+export const PARACHUTE_INFLATION_TIME = 0.5; // s from deployment to full canopy
+export const SAFE_DESCENT_RATE = 7; // m/s, generally considered maximum safe landing speed
+export const SAFE_DEPLOYMENT_VELOCITY = 20; // m/s, faster openings risk zippering or torn shock cords
+
+/**
+ * Ejection delay in seconds after burnout: `engine.ejectionDelay`, otherwise the
+ * suffix of the motor designation ('C6-5' → 5). Undefined for plugged motors.
+ */
+export function ejectionDelay(config: RocketConfig): number | undefined {
+  if (config.engine.ejectionDelay !== undefined) {
+    return config.engine.ejectionDelay;
+  }
+
+  const suffix = config.engine.designation?.match(/-(\d+(?:\.\d+)?)$/);
+  return suffix ? Number(suffix[1]) : undefined;
+}
+
+/**
+ * Time of the upper stage motor's ejection charge, if the motor has one
+ */
+export function ejectionTime(config: RocketConfig): number | undefined {
+  const delay = ejectionDelay(config);
+  return delay === undefined ? undefined : upperStageIgnitionTime(config) + config.engine.burnTime + delay;
+}
+
+/**
+ * Side-on area of the airframe used for tumble recovery
+ */
+function tumbleArea(config: RocketConfig): number {
+  const { count, span, rootChord, tipChord } = config.fins;
+  const diameter = config.body.diameter;
+
+  // Roughly half of the fins face the flow at any moment
+  return config.body.length * diameter +
+    (config.noseCone.length * diameter) / 2 +
+    (count / 2) * span * (rootChord + tipChord) / 2;
+}
+
+function parachuteArea(diameter: number, count: number = 1): number {
+  return count * Math.PI * (diameter / 2) ** 2;
+}
+
+/**
+ * Drag area (Cd × A, m²) of a fully deployed recovery device
+ */
+export function recoveryDragArea(config: RocketConfig, device: RecoveryDevice = 'main'): number {
+  const { recovery } = config;
+
+  switch (recovery.type) {
+    case RecoveryType.PARACHUTE:
+      return PARACHUTE_DRAG_COEFFICIENT * parachuteArea(recovery.parachuteDiameter || 0, recovery.chuteCount);
+    case RecoveryType.HELICOPTER:
+      return HELICOPTER_DRAG_COEFFICIENT * parachuteArea(recovery.parachuteDiameter || 0);
+    case RecoveryType.STREAMER: {
+      const width = recovery.streamerWidth || config.body.diameter * STREAMER_WIDTH_CALIBERS;
+      const length = recovery.streamerLength || width * STREAMER_ASPECT_RATIO;
+      return STREAMER_DRAG_COEFFICIENT * width * length;
+    }
+    case RecoveryType.TUMBLE:
+      return TUMBLE_DRAG_COEFFICIENT * tumbleArea(config);
+    case RecoveryType.DUAL_DEPLOY:
+      if (device === 'main') {
+        return PARACHUTE_DRAG_COEFFICIENT * parachuteArea(recovery.parachuteDiameter || 0, recovery.chuteCount);
+      }
+      // Drogueless dual deploy tumbles until the main opens
+      return recovery.drogueDiameter
+        ? PARACHUTE_DRAG_COEFFICIENT * parachuteArea(recovery.drogueDiameter)
+        : TUMBLE_DRAG_COEFFICIENT * tumbleArea(config);
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Fraction of the full drag area `elapsed` seconds after deployment
+ */
+export function inflationFraction(config: RocketConfig, device: RecoveryDevice, elapsed: number): number {
+  const inflates = config.recovery.type === RecoveryType.PARACHUTE ||
+    config.recovery.type === RecoveryType.HELICOPTER ||
+    (config.recovery.type === RecoveryType.DUAL_DEPLOY && (device === 'main' || !!config.recovery.drogueDiameter));
+
+  return inflates ? Math.min(1, Math.max(0, elapsed / PARACHUTE_INFLATION_TIME)) : 1;
+}
+
+/**
+ * Steady descent rate (m/s) of a mass under the given drag area
+ */
+export function terminalDescentRate(mass: number, dragArea: number, airDensity: number = 1.225): number {
+  if (dragArea <= 0) return Infinity;
+  return Math.sqrt((2 * mass * 9.81) / (airDensity * dragArea));
+}
@@ -0,0 +1,104 @@
+/**
+ * Reproducibility
+ *
+ * Everything needed to run a stored simulation again and get the same
+ * numbers: launch options with their defaults written out and a fixed gust
+ * seed, a hash of the canonical inputs to tell whether two runs started from
+ * the same place, and a comparison of the replayed results with the stored ones.
+ */
+
+import { createHash } from 'crypto';
+import {
+  RocketConfig,
+  WeatherConditions,
+  LaunchOptions,
+  FlightResults,
+  ResultDifference
+} from '../../../shared/types/rocket';
+import { DEFAULT_LAUNCH_OPTIONS } from './simulation.engine';
+import { randomSeed } from './random';
+
+// Relative difference below which replayed numbers count as equal
+export const REPLAY_TOLERANCE = 1e-9;
+
+/**
+ * Launch options exactly as the engine will use them, drawing a seed when
+ * none was given
+ */
+export function resolveLaunchOptions(options: LaunchOptions = {}): LaunchOptions {
+  return {
+    ...options,
+    timeStep: options.timeStep || DEFAULT_LAUNCH_OPTIONS.timeStep,
+    maxFlightTime: options.maxFlightTime || DEFAULT_LAUNCH_OPTIONS.maxFlightTime,
+    detailedTelemetry: options.detailedTelemetry || DEFAULT_LAUNCH_OPTIONS.detailedTelemetry,
+    flightModel: options.flightModel || DEFAULT_LAUNCH_OPTIONS.flightModel,
+    integrator: options.integrator || DEFAULT_LAUNCH_OPTIONS.integrator,
+    integrationTolerance: options.integrationTolerance || DEFAULT_LAUNCH_OPTIONS.integrationTolerance,
+    minRailExitVelocity: options.minRailExitVelocity ?? DEFAULT_LAUNCH_OPTIONS.minRailExitVelocity,
+    seed: options.seed ?? randomSeed()
+  };
+}
+
+/**
+ * JSON with object keys sorted and undefined values left out, so equal
+ * inputs always serialize the same way
+ */
+export function canonicalJson(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => (item === undefined ? 'null' : canonicalJson(item))).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    if (value instanceof Date) return JSON.stringify(value);
+    const entries = Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * SHA-256 (hex) of the inputs that determine a simulation's results
+ */
+export function simulationInputHash(config: RocketConfig, weather: WeatherConditions, options: LaunchOptions): string {
+  return createHash('sha256').update(canonicalJson({ config, weather, options })).digest('hex');
+}
+
+/**
+ * Scalar results and issue codes that differ between two runs
+ */
+export function compareResults(
+  stored: FlightResults,
+  replayed: FlightResults,
+  tolerance: number = REPLAY_TOLERANCE
+): ResultDifference[] {
+  const differences: ResultDifference[] = [];
+  const fields = new Set([...Object.keys(stored), ...Object.keys(replayed)] as Array<keyof FlightResults>);
+
+  fields.forEach(field => {
+    const before = stored[field] ?? null;
+    const after = replayed[field] ?? null;
+    if (typeof before === 'object' && before !== null) return; // issues, drag curve, staging events
+    if (typeof after === 'object' && after !== null) return;
+
+    const equal = typeof before === 'number' && typeof after === 'number'
+      ? Math.abs(before - after) <= tolerance * Math.max(1, Math.abs(before))
+      : before === after;
+    if (!equal) {
+      differences.push({ field, stored: before, replayed: after });
+    }
+  });
+
+  const storedIssues = issueCodes(stored);
+  const replayedIssues = issueCodes(replayed);
+  if (storedIssues !== replayedIssues) {
+    differences.push({ field: 'issues', stored: storedIssues, replayed: replayedIssues });
+  }
+
+  return differences;
+}
+
+function issueCodes(results: FlightResults): string {
+  return (results.issues ?? []).map(issue => issue.code).sort().join(',');
+}
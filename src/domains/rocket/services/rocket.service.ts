@@ -7,9 +7,30 @@
 
 import { RocketRepository } from '../repositories/rocket.repository';
 import { SimulationRepository } from '../repositories/simulation.repository';
-import { SimulationEngine } from './simulation.engine';
+import { SimulationEngine, ENGINE_VERSION } from './simulation.engine';
 import { ValidationService } from './validation.service';
+import { MotorDatabase, MotorFilter } from './motor.database';
+import { runDispersionAnalysis } from './dispersion.analysis';
+import { calibrateDragMultiplier } from './drag.calibration';
+import { optimizeDesign } from './design.optimizer';
+import { runParameterSweep, setConfigValue, sweepValues } from './parameter.sweep';
+import { compareSimulations } from './simulation.comparison';
+import { diffConfigs } from './config.diff';
+import { mergeRocketUpdate } from './update.merge';
+import { ejectionDelay } from './recovery.model';
+import { resolveLaunchOptions, simulationInputHash, compareResults } from './reproducibility';
+import { SimulationRunner, runSimulation } from './simulation.runner';
+import { exportTelemetry, TelemetryExport } from './telemetry.export';
+import { importDesign, exportDesign, DesignImport, DesignExport } from './design.interchange';
+import { parseFlightLog, compareFlight, ParsedFlightLog } from './flight.log';
 import { CacheService } from '../../../infrastructure/cache/cache.service';
+import {
+  JobQueue,
+  JobQueueFactory,
+  JobListener,
+  InMemoryJobQueue
+} from '../../../infrastructure/queue/job.queue';
+import { JobRecord } from '../../../shared/types/common';
 
 import {
   RocketDesign,
@@ -18,20 +39,93 @@ import {
   LaunchRocketRequest,
   RocketListResponse,
   SimulationResult,
+  SimulationReplay,
+  SimulationJob,
+  SimulationProgress,
   SimulationListResponse,
+  DispersionRequest,
+  DispersionAnalysis,
+  DragCalibrationRequest,
+  DragCalibrationResult,
+  ApogeeObservation,
+  OptimizationRequest,
+  SweepRequest,
+  SweepResult,
+  SweepMode,
+  ComparisonAxis,
+  SimulationComparison,
+  RocketRevision,
+  RevisionDiff,
+  RocketUpdateConflict,
+  OptimizationResult,
+  OptimizationProgress,
+  OptimizationJob,
   LaunchOptions,
   WeatherConditions,
+  RocketConfig,
+  MotorConfig,
+  MotorDefinition,
+  MotorFileFormat,
+  StabilityAnalysis,
+  MassProperties,
+  RailExitEstimate,
+  TelemetryExportOptions,
+  DesignFileFormat,
+  ImportRocketRequest,
+  DesignImportResult,
+  ImportFlightLogRequest,
+  FlightLog,
+  FlightComparison,
   DEFAULT_WEATHER,
   ROCKET_CONSTRAINTS
 } from '../../../shared/types/rocket';
 
+/**
+ * A launch waiting in the background queue
+ */
+export interface LaunchJob {
+  rocketId: string;
+  userId: string;
+  request: LaunchRocketRequest;
+}
+
+export type LaunchQueue = JobQueue<LaunchJob, SimulationResult, SimulationProgress>;
+
+/**
+ * A design optimization waiting in the background queue
+ */
+export interface OptimizationTask {
+  rocketId: string;
+  userId: string;
+  request: OptimizationRequest;
+}
+
+export type OptimizationQueue = JobQueue<OptimizationTask, OptimizationResult, OptimizationProgress>;
+
 export class RocketService {
+  private launchQueue: LaunchQueue;
+  private optimizationQueue: OptimizationQueue;
+
   constructor(
     private rocketRepository: RocketRepository,
     private simulationRepository: SimulationRepository,
     private validationService: ValidationService,
-    private cacheService: CacheService
-  ) {}
+    private cacheService: CacheService,
+    private motorDatabase: MotorDatabase = new MotorDatabase(),
+    private simulationRunner: SimulationRunner = runSimulation,
+    createLaunchQueue: JobQueueFactory<LaunchJob, SimulationResult, SimulationProgress> =
+      processor => new InMemoryJobQueue(processor),
+    // Each optimization runs hundreds of simulations, so they take turns
+    createOptimizationQueue: JobQueueFactory<OptimizationTask, OptimizationResult, OptimizationProgress> =
+      processor => new InMemoryJobQueue(processor, { concurrency: 1 })
+  ) {
+    this.launchQueue = createLaunchQueue((job, reportProgress) =>
+      this.launchRocket(job.rocketId, job.userId, job.request, reportProgress)
+    );
+    this.optimizationQueue = createOptimizationQueue((task, reportProgress) =>
+      this.optimizeRocket(task.rocketId, task.userId, task.request, reportProgress)
+    );
+  }
 
   /**
    * Create a new rocket design
@@ -44,20 +138,24 @@ export class RocketService {
     }
 
     // Validate rocket configuration physics
-    const configValidation = await this.validationService.validateRocketConfig(data.config);
+    const motors = await this.motorCatalog(userId);
+    const configValidation = await this.validationService.validateRocketConfig(data.config, motors);
     if (!configValidation.isValid) {
       throw new Error(`Configuration validation failed: ${configValidation.errors.join(', ')}`);
     }
 
     try {
       // Create rocket in database
-      const rocket = await this.rocketRepository.create(userId, data);
+      const rocket = await this.rocketRepository.create(userId, {
+        ...data,
+        config: motors.resolveConfig(data.config)
+      });
 
       // Cache the rocket for quick access
       await this.cacheService.set(`rocket:${rocket.id}`, rocket, 3600); // 1 hour TTL
 
       // Clear user's rocket list cache
-      await this.cacheService.del(`user_rockets:${userId}`);
+      await this.cacheService.delete(`user_rockets:${userId}`);
 
       return rocket;
     } catch (error) {
@@ -65,6 +163,52 @@ export class RocketService {
     }
   }
 
+  /**
+   * Create a rocket from an OpenRocket or RockSim design file, reporting the
+   * parts that were approximated or dropped
+   */
+  async importRocket(userId: string, request: ImportRocketRequest): Promise<DesignImportResult> {
+    if (!Object.values(DesignFileFormat).includes(request.format)) {
+      throw new Error(`Validation failed: unsupported design format '${request.format}'`);
+    }
+
+    const motors = await this.motorCatalog(userId);
+    let design: DesignImport;
+    try {
+      design = importDesign(Buffer.from(request.content, 'base64'), request.format, motors);
+    } catch (error: any) {
+      throw new Error(`Validation failed: ${error.message}`);
+    }
+
+    const rocket = await this.createRocket(userId, {
+      name: request.name ?? design.name,
+      description: design.description,
+      config: design.config,
+      metadata: request.metadata
+    });
+    return { rocket, notes: design.notes };
+  }
+
+  /**
+   * Export a rocket design as an OpenRocket or RockSim file
+   */
+  async exportRocket(id: string, userId: string | undefined, format: DesignFileFormat): Promise<DesignExport> {
+    if (!Object.values(DesignFileFormat).includes(format)) {
+      throw new Error(`Validation failed: unsupported design format '${format}'`);
+    }
+
+    const rocket = await this.getRocket(id, userId);
+    if (!rocket) {
+      throw new Error('Rocket not found');
+    }
+
+    try {
+      return exportDesign(rocket, format);
+    } catch (error: any) {
+      throw new Error(`Validation failed: ${error.message}`);
+    }
+  }
+
   /**
    * Get rocket by ID
    */
@@ -104,21 +248,24 @@ export class RocketService {
     }
 
     // If config is being updated, validate it
+    const motors = await this.motorCatalog(userId);
     if (data.config) {
-      const configValidation = await this.validationService.validateRocketConfig(data.config);
+      const configValidation = await this.validationService.validateRocketConfig(data.config, motors);
       if (!configValidation.isValid) {
         throw new Error(`Configuration validation failed: ${configValidation.errors.join(', ')}`);
       }
     }
 
     try {
-      const rocket = await this.rocketRepository.update(id, userId, data);
+      const rocket = await this.rocketRepository.update(id, userId, data.config
+        ? { ...data, config: motors.resolveConfig(data.config) }
+        : data);
 
       // Update cache
       await this.cacheService.set(`rocket:${id}`, rocket, 3600);
 
       // Clear related caches
-      await this.cacheService.del(`user_rockets:${userId}`);
+      await this.cacheService.delete(`user_rockets:${userId}`);
 
       return rocket;
     } catch (error) {
@@ -126,6 +273,118 @@ export class RocketService {
     }
   }
 
+  /**
+   * The current copy of a rocket whose update hit a version conflict, with
+   * the update merged onto it and the fields both sides changed
+   */
+  async getUpdateConflict(id: string, userId: string, data: UpdateRocketRequest): Promise<RocketUpdateConflict> {
+    if (data.version === undefined) {
+      throw new Error('Validation failed: the update has no version to compare');
+    }
+
+    // From the database rather than the cache, which may hold an older copy
+    const current = await this.rocketRepository.findById(id, userId);
+    if (!current || current.userId !== userId) {
+      throw new Error('Rocket not found or access denied');
+    }
+
+    try {
+      const base = await this.rocketRepository.findRevision(id, data.version);
+      const motors = await this.motorCatalog(userId);
+      const update = data.config
+        ? { ...data, config: motors.resolveConfig(data.config) }
+        : data;
+
+      return {
+        current,
+        baseVersion: data.version,
+        ...mergeRocketUpdate(base, current, update)
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to get update conflict: ${error.message}`);
+    }
+  }
+
+  /**
+   * List a rocket's saved versions, newest first
+   */
+  async getRocketVersions(rocketId: string, userId?: string): Promise<RocketRevision[]> {
+    const rocket = await this.getRocket(rocketId, userId);
+    if (!rocket) {
+      throw new Error('Rocket not found or access denied');
+    }
+
+    try {
+      return await this.rocketRepository.findRevisions(rocketId);
+    } catch (error: any) {
+      throw new Error(`Failed to get rocket versions: ${error.message}`);
+    }
+  }
+
+  /**
+   * Field-level changes to the config between two saved versions of a rocket
+   */
+  async diffRocketVersions(rocketId: string, userId: string | undefined, from: number, to: number): Promise<RevisionDiff> {
+    if (![from, to].every(version => Number.isInteger(version) && version >= 1)) {
+      throw new Error('Validation failed: from and to must be version numbers');
+    }
+
+    const rocket = await this.getRocket(rocketId, userId);
+    if (!rocket) {
+      throw new Error('Rocket not found or access denied');
+    }
+
+    const [before, after] = await Promise.all([
+      this.rocketRepository.findRevision(rocketId, from),
+      this.rocketRepository.findRevision(rocketId, to)
+    ]);
+    if (!before || !after) {
+      throw new Error(`Version ${before ? to : from} not found`);
+    }
+
+    return { rocketId, from, to, changes: diffConfigs(before.config, after.config) };
+  }
+
+  /**
+   * Save an earlier version again as the newest one (owner only); the versions
+   * in between stay in the history
+   */
+  async restoreRocketVersion(rocketId: string, userId: string, version: number): Promise<RocketDesign> {
+    const rocket = await this.getRocket(rocketId, userId);
+    if (!rocket) {
+      throw new Error('Rocket not found or access denied');
+    }
+    if (rocket.userId !== userId) {
+      throw new Error('Access denied: only the owner can restore a version');
+    }
+
+    const revision = Number.isInteger(version) ? await this.rocketRepository.findRevision(rocketId, version) : null;
+    if (!revision) {
+      throw new Error(`Version ${version} not found`);
+    }
+    if (revision.version === rocket.version) {
+      throw new Error(`Validation failed: version ${version} is already the current version`);
+    }
+
+    try {
+      const restored = await this.rocketRepository.update(rocketId, userId, {
+        name: revision.name,
+        description: revision.description ?? '',
+        config: revision.config
+      }, revision.version);
+
+      // Update cache
+      await this.cacheService.set(`rocket:${rocketId}`, restored, 3600);
+
+      // Clear related caches
+      await this.cacheService.delete(`user_rockets:${userId}`);
+
+      return restored;
+    } catch (error: any) {
+      throw new Error(`Failed to restore rocket version: ${error.message}`);
+    }
+  }
+
   /**
    * Delete rocket design
    */
@@ -135,9 +394,9 @@ export class RocketService {
 
       if (success) {
         // Clear caches
-        await this.cacheService.del(`rocket:${id}`);
-        await this.cacheService.del(`user_rockets:${userId}`);
-        await this.cacheService.del(`rocket_simulations:${id}`);
+        await this.cacheService.delete(`rocket:${id}`);
+        await this.cacheService.delete(`user_rockets:${userId}`);
+        await this.cacheService.delete(`rocket_simulations:${id}`);
       }
 
       return success;
@@ -214,44 +473,41 @@ export class RocketService {
   async launchRocket(
     rocketId: string, 
     userId: string, 
-    request: LaunchRocketRequest = {}
+    request: LaunchRocketRequest = {},
+    onProgress?: (progress: SimulationProgress) => void
   ): Promise<SimulationResult> {
-    // Get rocket design
-    const rocket = await this.getRocket(rocketId, userId);
-    if (!rocket) {
-      throw new Error('Rocket not found or access denied');
-    }
-
-    if (rocket.userId !== userId) {
-      throw new Error('Cannot launch rocket you do not own');
-    }
+    const rocket = await this.getLaunchableRocket(rocketId, userId);
 
-    // Prepare simulation parameters
+    // Prepare simulation parameters, with every default and the seed written out for replays
     const weather = { ...DEFAULT_WEATHER, ...request.options?.weather };
-    const launchOptions = request.options || {};
+    const launchOptions = resolveLaunchOptions(request.options);
 
     try {
       // Run simulation
-      const simulationEngine = new SimulationEngine(launchOptions);
-      const { results, telemetry } = await simulationEngine.simulate(
-        rocket.config,
-        weather,
-        launchOptions
+      const config = (await this.motorCatalog(userId)).resolveConfig(rocket.config);
+      const { results, telemetry, events } = await this.simulationRunner(
+        { config, weather, launchOptions },
+        onProgress
       );
 
       // Save simulation results
       const simulation = await this.simulationRepository.create({
         rocketId: rocket.id,
         userId,
-        config: rocket.config,
+        config,
         results,
         telemetry,
+        events,
         weather,
-        launchOptions
+        launchOptions,
+        seed: launchOptions.seed,
+        engineVersion: ENGINE_VERSION,
+        inputHash: simulationInputHash(config, weather, launchOptions),
+        rocketVersion: rocket.version
       });
 
       // Clear simulation cache for this rocket
-      await this.cacheService.del(`rocket_simulations:${rocketId}`);
+      await this.cacheService.delete(`rocket_simulations:${rocketId}`);
 
       // Update rocket metadata if this is a successful flight
       if (results.successful && results.score > 70) {
@@ -264,6 +520,271 @@ export class RocketService {
     }
   }
 
+  /**
+   * Queue a launch to simulate in the background. Rockets that cannot be
+   * launched are rejected straight away rather than failing in the queue.
+   */
+  async queueLaunch(
+    rocketId: string,
+    userId: string,
+    request: LaunchRocketRequest = {}
+  ): Promise<SimulationJob> {
+    await this.getLaunchableRocket(rocketId, userId);
+    const job = await this.launchQueue.enqueue({ rocketId, userId, request });
+    return this.toSimulationJob(job);
+  }
+
+  /**
+   * Get a queued launch (owner only)
+   */
+  async getLaunchJob(jobId: string, userId: string): Promise<SimulationJob | null> {
+    const job = await this.launchQueue.get(jobId);
+    if (!job || job.input.userId !== userId) {
+      return null;
+    }
+    return this.toSimulationJob(job);
+  }
+
+  /**
+   * Follow a queued launch (owner only): its current state, then every event
+   * until `unsubscribe` is called. Null when there is no such job.
+   */
+  async watchLaunchJob(
+    jobId: string,
+    userId: string,
+    listener: JobListener<SimulationResult, SimulationProgress>
+  ): Promise<{ job: SimulationJob; unsubscribe: () => void } | null> {
+    // Subscribe first so no event falls between reading the state and listening
+    const unsubscribe = this.launchQueue.subscribe(jobId, listener);
+    const job = await this.getLaunchJob(jobId, userId);
+    if (!job) {
+      unsubscribe();
+      return null;
+    }
+    return { job, unsubscribe };
+  }
+
+  /**
+   * Run a Monte Carlo dispersion analysis and store the aggregate result
+   */
+  async runDispersion(
+    rocketId: string,
+    userId: string,
+    request: DispersionRequest = {}
+  ): Promise<DispersionAnalysis> {
+    const validation = await this.validationService.validateDispersionRequest(request);
+    if (!validation.isValid) {
+      throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+    }
+
+    const rocket = await this.getLaunchableRocket(rocketId, userId);
+    const dispersionRequest = validation.sanitizedData || request;
+    const weather = { ...DEFAULT_WEATHER, ...dispersionRequest.options?.weather };
+
+    try {
+      const config = (await this.motorCatalog(userId)).resolveConfig(rocket.config);
+      const summary = await runDispersionAnalysis(config, weather, dispersionRequest, this.simulationRunner);
+
+      return await this.simulationRepository.createDispersionAnalysis({
+        rocketId: rocket.id,
+        userId,
+        config,
+        weather,
+        launchOptions: dispersionRequest.options,
+        ...summary
+      });
+    } catch (error: any) {
+      throw new Error(`Failed to run dispersion analysis: ${error.message}`);
+    }
+  }
+
+  /**
+   * Fit the design's drag multiplier to observed flights and save it in the
+   * config, so later simulations use it (owner only)
+   */
+  async calibrateDrag(
+    rocketId: string,
+    userId: string,
+    request: DragCalibrationRequest
+  ): Promise<DragCalibrationResult> {
+    const validation = await this.validationService.validateDragCalibration(request);
+    if (!validation.isValid) {
+      throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+    }
+    const calibrationRequest = validation.sanitizedData || request;
+
+    const rocket = await this.getRocket(rocketId, userId);
+    if (!rocket) {
+      throw new Error('Rocket not found or access denied');
+    }
+    if (rocket.userId !== userId) {
+      throw new Error('Access denied: only the owner can calibrate a rocket');
+    }
+
+    // Altimeter logs stand in for a typed-in apogee
+    const observations: ApogeeObservation[] = [];
+    for (const observation of calibrationRequest.observations) {
+      if (!observation.flightLogId) {
+        observations.push(observation);
+        continue;
+      }
+      const flightLog = await this.simulationRepository.findFlightLogById(observation.flightLogId);
+      if (!flightLog || flightLog.rocketId !== rocketId) {
+        throw new Error(`Validation failed: flight log ${observation.flightLogId} is not a flight of this rocket`);
+      }
+      observations.push({ ...observation, apogee: observation.apogee ?? flightLog.apogee });
+    }
+
+    const motors = await this.motorCatalog(userId);
+    let calibration;
+    try {
+      calibration = await calibrateDragMultiplier(
+        motors.resolveConfig(rocket.config),
+        observations,
+        calibrationRequest.options,
+        this.simulationRunner
+      );
+    } catch (error: any) {
+      throw new Error(`Validation failed: ${error.message}`);
+    }
+
+    // Refused with a version conflict if the design was saved while fitting
+    const updated = await this.updateRocket(rocketId, userId, {
+      version: rocket.version,
+      config: {
+        ...rocket.config,
+        aerodynamics: {
+          dragMultiplier: calibration.dragMultiplier,
+          calibration: {
+            flights: observations.length,
+            residual: calibration.residual,
+            calibratedAt: new Date().toISOString()
+          }
+        }
+      }
+    });
+
+    return { rocket: updated, calibration };
+  }
+
+  /**
+   * Vary one or two config fields and collect the flight metrics at each
+   * point (owner only)
+   */
+  async runSweep(rocketId: string, userId: string, request: SweepRequest): Promise<SweepResult> {
+    const validation = await this.validationService.validateSweepRequest(request);
+    if (!validation.isValid) {
+      throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+    }
+    const sweepRequest = validation.sanitizedData || request;
+
+    const points = sweepRequest.axes.reduce((count, axis) => count * axis.steps, 1);
+    if (sweepRequest.mode !== SweepMode.FAST && points > ROCKET_CONSTRAINTS.MAX_SWEEP_SIMULATIONS) {
+      throw new Error(
+        `Validation failed: a full sweep is limited to ${ROCKET_CONSTRAINTS.MAX_SWEEP_SIMULATIONS} ` +
+        `simulations (${points} requested); use fewer steps or the fast mode`
+      );
+    }
+
+    const rocket = await this.getLaunchableRocket(rocketId, userId);
+    const config = (await this.motorCatalog(userId)).resolveConfig(rocket.config);
+    const weather = { ...DEFAULT_WEATHER, ...sweepRequest.options?.weather };
+
+    // Reject unknown paths before running anything
+    for (const axis of sweepRequest.axes) {
+      try {
+        setConfigValue(config, axis.path, sweepValues(axis)[0]);
+      } catch (error: any) {
+        throw new Error(`Validation failed: ${error.message}`);
+      }
+    }
+
+    try {
+      return await runParameterSweep(config, weather, sweepRequest, this.simulationRunner);
+    } catch (error: any) {
+      throw new Error(`Failed to run sweep: ${error.message}`);
+    }
+  }
+
+  /**
+   * Queue a search of the design's free dimensions (and motor classes) for
+   * the best flights. Requests that cannot run are rejected straight away.
+   */
+  async queueOptimization(
+    rocketId: string,
+    userId: string,
+    request: OptimizationRequest
+  ): Promise<OptimizationJob> {
+    const validation = await this.validationService.validateOptimizationRequest(request);
+    if (!validation.isValid) {
+      throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+    }
+    const optimizationRequest = validation.sanitizedData || request;
+
+    const rocket = await this.getLaunchableRocket(rocketId, userId);
+    const motors = await this.motorCatalog(userId);
+    this.optimizationMotors(motors.resolveConfig(rocket.config), optimizationRequest, motors);
+
+    const job = await this.optimizationQueue.enqueue({ rocketId, userId, request: optimizationRequest });
+    return this.toOptimizationJob(job);
+  }
+
+  /**
+   * Run a design optimization (the optimization queue's processor)
+   */
+  async optimizeRocket(
+    rocketId: string,
+    userId: string,
+    request: OptimizationRequest,
+    onProgress?: (progress: OptimizationProgress) => void
+  ): Promise<OptimizationResult> {
+    const rocket = await this.getLaunchableRocket(rocketId, userId);
+    const weather = { ...DEFAULT_WEATHER, ...request.options?.weather };
+
+    try {
+      const motors = await this.motorCatalog(userId);
+      const config = motors.resolveConfig(rocket.config);
+      return await optimizeDesign(
+        config,
+        weather,
+        request,
+        this.optimizationMotors(config, request, motors),
+        this.simulationRunner,
+        onProgress
+      );
+    } catch (error: any) {
+      throw new Error(`Failed to optimize rocket: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get a queued optimization (owner only), with its candidates once completed
+   */
+  async getOptimizationJob(jobId: string, userId: string): Promise<OptimizationJob | null> {
+    const job = await this.optimizationQueue.get(jobId);
+    if (!job || job.input.userId !== userId) {
+      return null;
+    }
+    return this.toOptimizationJob(job);
+  }
+
+  /**
+   * Follow a queued optimization (owner only), as watchLaunchJob does for launches
+   */
+  async watchOptimizationJob(
+    jobId: string,
+    userId: string,
+    listener: JobListener<OptimizationResult, OptimizationProgress>
+  ): Promise<{ job: OptimizationJob; unsubscribe: () => void } | null> {
+    const unsubscribe = this.optimizationQueue.subscribe(jobId, listener);
+    const job = await this.getOptimizationJob(jobId, userId);
+    if (!job) {
+      unsubscribe();
+      return null;
+    }
+    return { job, unsubscribe };
+  }
+
   /**
    * Get rocket simulations
    */
@@ -327,6 +848,211 @@ export class RocketService {
     }
   }
 
+  /**
+   * Re-run a stored simulation from its snapshot and compare the results
+   */
+  async replaySimulation(id: string, userId: string): Promise<SimulationReplay> {
+    const simulation = await this.getSimulation(id, userId);
+    if (!simulation) {
+      throw new Error('Simulation not found');
+    }
+
+    try {
+      // Older simulations were stored without defaults or a seed; their gusts cannot be replayed
+      const launchOptions = resolveLaunchOptions(simulation.launchOptions);
+      const inputHash = simulationInputHash(simulation.config, simulation.weather, launchOptions);
+      const { results } = await this.simulationRunner({
+        config: simulation.config,
+        weather: simulation.weather,
+        launchOptions
+      });
+      const differences = compareResults(simulation.results, results);
+
+      return {
+        simulationId: simulation.id,
+        reproduced: differences.length === 0,
+        inputHash,
+        inputHashMatches: inputHash === simulation.inputHash,
+        engineVersion: { stored: simulation.engineVersion, current: ENGINE_VERSION },
+        differences,
+        results
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to replay simulation: ${error.message}`);
+    }
+  }
+
+  /**
+   * Line up several simulations on a common time or altitude axis and list
+   * their metric differences from the first
+   */
+  async compareSimulations(
+    ids: string[],
+    userId: string,
+    axis: ComparisonAxis = ComparisonAxis.TIME
+  ): Promise<SimulationComparison> {
+    const uniqueIds = [...new Set(ids)];
+    if (uniqueIds.length < 2 || uniqueIds.length > ROCKET_CONSTRAINTS.MAX_COMPARED_SIMULATIONS) {
+      throw new Error(
+        `Validation failed: compare between 2 and ${ROCKET_CONSTRAINTS.MAX_COMPARED_SIMULATIONS} different simulations`
+      );
+    }
+    if (!Object.values(ComparisonAxis).includes(axis)) {
+      throw new Error(`Validation failed: axis must be one of ${Object.values(ComparisonAxis).join(', ')}`);
+    }
+
+    const simulations = await Promise.all(uniqueIds.map(id => this.getSimulation(id, userId, true)));
+    const missing = uniqueIds.filter((_, index) => !simulations[index]);
+    if (missing.length > 0) {
+      throw new Error(`Simulation not found: ${missing.join(', ')}`);
+    }
+
+    try {
+      return compareSimulations(simulations as SimulationResult[], axis);
+    } catch (error: any) {
+      throw new Error(`Validation failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Export a stored simulation's telemetry (see telemetry.export.ts for the formats)
+   */
+  async exportSimulation(id: string, userId: string, options: TelemetryExportOptions): Promise<TelemetryExport> {
+    const simulation = await this.getSimulation(id, userId, true);
+    if (!simulation) {
+      throw new Error('Simulation not found');
+    }
+
+    try {
+      return exportTelemetry(simulation, options);
+    } catch (error: any) {
+      throw new Error(`Validation failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Attach an altimeter log of a real flight to a rocket (owner only)
+   */
+  async importFlightLog(rocketId: string, userId: string, request: ImportFlightLogRequest): Promise<FlightLog> {
+    const validation = await this.validationService.validateFlightLogImport(request);
+    if (!validation.isValid) {
+      throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+    }
+    const data = validation.sanitizedData || request;
+
+    const rocket = await this.getRocket(rocketId, userId);
+    if (!rocket) {
+      throw new Error('Rocket not found or access denied');
+    }
+    if (rocket.userId !== userId) {
+      throw new Error('Access denied: only the owner can add flight logs');
+    }
+
+    let parsed: ParsedFlightLog;
+    try {
+      parsed = parseFlightLog(data.content, data.format);
+    } catch (error: any) {
+      throw new Error(`Validation failed: ${error.message}`);
+    }
+
+    try {
+      return await this.simulationRepository.createFlightLog({
+        rocketId,
+        userId,
+        name: data.name || `${rocket.name} flight`,
+        flownAt: data.flownAt ? new Date(data.flownAt) : undefined,
+        ...parsed
+      });
+    } catch (error: any) {
+      throw new Error(`Failed to import flight log: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get a rocket's flight logs, without their samples
+   */
+  async getRocketFlightLogs(rocketId: string, userId?: string): Promise<FlightLog[]> {
+    const rocket = await this.getRocket(rocketId, userId);
+    if (!rocket) {
+      throw new Error('Rocket not found or access denied');
+    }
+
+    try {
+      return await this.simulationRepository.findFlightLogsByRocketId(rocketId);
+    } catch (error: any) {
+      throw new Error(`Failed to get flight logs: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get a flight log with its samples
+   */
+  async getFlightLog(id: string, userId: string): Promise<FlightLog | null> {
+    try {
+      const flightLog = await this.simulationRepository.findFlightLogById(id);
+      if (!flightLog) {
+        return null;
+      }
+
+      // Verify user owns the log or the rocket is public
+      if (flightLog.userId !== userId) {
+        const rocket = await this.getRocket(flightLog.rocketId, userId);
+        if (!rocket || !rocket.metadata.isPublic) {
+          throw new Error('Access denied');
+        }
+      }
+
+      return flightLog;
+    } catch (error: any) {
+      throw new Error(`Failed to get flight log: ${error.message}`);
+    }
+  }
+
+  /**
+   * Compare a logged flight with a simulation of the same rocket (the user's
+   * most recent one unless a simulation is given)
+   */
+  async compareFlightLog(id: string, userId: string, simulationId?: string): Promise<FlightComparison> {
+    const flightLog = await this.getFlightLog(id, userId);
+    if (!flightLog) {
+      throw new Error('Flight log not found');
+    }
+
+    let simulation: SimulationResult | null | undefined;
+    if (simulationId) {
+      simulation = await this.getSimulation(simulationId, userId, true);
+      if (simulation && simulation.rocketId !== flightLog.rocketId) {
+        throw new Error('Validation failed: the simulation is of a different rocket');
+      }
+    } else {
+      const latest = await this.simulationRepository.findByRocketId(flightLog.rocketId, {
+        limit: 1,
+        includeTelemetry: true,
+        userId
+      });
+      simulation = latest.simulations[0];
+    }
+    if (!simulation) {
+      throw new Error('Simulation not found');
+    }
+
+    try {
+      return compareFlight(flightLog, simulation);
+    } catch (error: any) {
+      throw new Error(`Validation failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Delete a flight log (owner only)
+   */
+  async deleteFlightLog(id: string, userId: string): Promise<void> {
+    const deleted = await this.simulationRepository.deleteFlightLog(id, userId);
+    if (!deleted) {
+      throw new Error('Flight log not found or access denied');
+    }
+  }
+
   /**
    * Get user's simulation history
    */
@@ -422,8 +1148,8 @@ export class RocketService {
       await this.rocketRepository.incrementLikes(id);
 
       // Clear relevant caches
-      await this.cacheService.del(`rocket:${id}`);
-      await this.cacheService.del('popular_rockets:*');
+      await this.cacheService.delete(`rocket:${id}`);
+      await this.cacheService.deletePattern('popular_rockets:*');
     } catch (error) {
       throw new Error(`Failed to like rocket: ${error.message}`);
     }
@@ -465,8 +1191,8 @@ export class RocketService {
       const copiedRocket = await this.createRocket(userId, copyData);
 
       // Clear relevant caches
-      await this.cacheService.del(`rocket:${id}`);
-      await this.cacheService.del('popular_rockets:*');
+      await this.cacheService.delete(`rocket:${id}`);
+      await this.cacheService.deletePattern('popular_rockets:*');
 
       return copiedRocket;
     } catch (error) {
@@ -475,23 +1201,28 @@ export class RocketService {
   }
 
   /**
-   * Get quick performance estimate without full simulation
+   * Get quick performance estimate without full simulation, with the
+   * signed-in user's imported motors available by designation
    */
-  async estimatePerformance(config: any): Promise<{
+  async estimatePerformance(config: any, userId?: string): Promise<{
     estimatedAltitude: number;
     estimatedVelocity: number;
     thrustToWeight: number;
     stabilityMargin: number;
+    stability: StabilityAnalysis;
+    massProperties: { launch: MassProperties; burnout: MassProperties };
+    railExit: RailExitEstimate;
     recommendations: string[];
   }> {
     // Validate configuration first
-    const configValidation = await this.validationService.validateRocketConfig(config);
+    const motors = await this.motorCatalog(userId);
+    const configValidation = await this.validationService.validateRocketConfig(config, motors);
     if (!configValidation.isValid) {
       throw new Error(`Configuration validation failed: ${configValidation.errors.join(', ')}`);
     }
 
     try {
-      const estimate = SimulationEngine.estimatePerformance(config);
+      const estimate = SimulationEngine.estimatePerformance(motors.resolveConfig(config));
       const recommendations: string[] = [];
 
       // Generate recommendations based on estimates
@@ -507,6 +1238,13 @@ export class RocketService {
         recommendations.push('Reduce rocket weight or increase engine power for higher altitude');
       }
 
+      const { railExit } = estimate;
+      if (railExit.velocity < railExit.requiredVelocity) {
+        recommendations.push(railExit.suggestedRodLength !== undefined
+          ? `Use a launch rod of at least ${railExit.suggestedRodLength.toFixed(2)} m to leave it at ${railExit.requiredVelocity.toFixed(0)} m/s`
+          : 'Use a more powerful engine to leave the launch rod at a safe speed');
+      }
+
       return {
         ...estimate,
         recommendations
@@ -516,6 +1254,55 @@ export class RocketService {
     }
   }
 
+  /**
+   * List motors in the motor database, with the user's imported motors
+   */
+  async listMotors(filter: MotorFilter = {}, userId?: string): Promise<MotorDefinition[]> {
+    return (await this.motorCatalog(userId)).list(filter);
+  }
+
+  /**
+   * Get a motor by designation, looking through the user's imported motors too
+   */
+  async getMotor(designation: string, userId?: string): Promise<MotorDefinition | null> {
+    return (await this.motorCatalog(userId)).find(designation);
+  }
+
+  /**
+   * Import motors from a RASP .eng or RockSim .rse file into the user's
+   * catalog; built-in motors cannot be replaced
+   */
+  async importMotors(userId: string, content: string, format: MotorFileFormat): Promise<MotorDefinition[]> {
+    if (!Object.values(MotorFileFormat).includes(format)) {
+      throw new Error(`Validation failed: unsupported motor file format '${format}'`);
+    }
+
+    let motors: MotorDefinition[];
+    try {
+      motors = this.motorDatabase.withImported([]).import(content, format);
+    } catch (error: any) {
+      throw new Error(`Validation failed: ${error.message}`);
+    }
+
+    try {
+      await this.rocketRepository.saveImportedMotors(userId, motors);
+      return motors;
+    } catch (error: any) {
+      throw new Error(`Failed to import motors: ${error.message}`);
+    }
+  }
+
+  /**
+   * The motors a user can reference by designation: the motor database and
+   * the motors they imported
+   */
+  private async motorCatalog(userId?: string): Promise<MotorDatabase> {
+    if (!userId) {
+      return this.motorDatabase;
+    }
+    return this.motorDatabase.withImported(await this.rocketRepository.findImportedMotors(userId));
+  }
+
   /**
    * Get user statistics
    */
@@ -558,4 +1345,77 @@ export class RocketService {
       throw new Error(`Failed to get user stats: ${error.message}`);
     }
   }
+
+  /**
+   * Get a rocket the user may launch
+   */
+  private async getLaunchableRocket(rocketId: string, userId: string): Promise<RocketDesign> {
+    const rocket = await this.getRocket(rocketId, userId);
+    if (!rocket) {
+      throw new Error('Rocket not found or access denied');
+    }
+
+    if (rocket.userId !== userId) {
+      throw new Error('Cannot launch rocket you do not own');
+    }
+
+    return rocket;
+  }
+
+  /**
+   * Motors to search for each requested impulse class: the class's first
+   * motor in the user's catalog, keeping the design's ejection delay
+   */
+  private optimizationMotors(config: RocketConfig, request: OptimizationRequest, motors: MotorDatabase): MotorConfig[] {
+    return (request.engineTypes ?? []).map(impulseClass => {
+      const motor = motors.list({ impulseClass })[0];
+      if (!motor) {
+        throw new Error(`Validation failed: no ${impulseClass} motor in the motor database`);
+      }
+      const engine = { ...config.engine, designation: motor.designation, ejectionDelay: ejectionDelay(config) };
+      return motors.resolveConfig({ ...config, engine }).engine;
+    });
+  }
+
+  /**
+   * Public view of a queued optimization
+   */
+  private toOptimizationJob(job: JobRecord<OptimizationTask, OptimizationResult, OptimizationProgress>): OptimizationJob {
+    return {
+      id: job.id,
+      rocketId: job.input.rocketId,
+      userId: job.input.userId,
+      status: job.status,
+      progress: job.progress,
+      result: job.result,
+      error: job.error,
+      createdAt: job.createdAt,
+      startedAt: job.startedAt,
+      finishedAt: job.finishedAt
+    };
+  }
+
+  /**
+   * Public view of a queued launch: its latest progress without the telemetry batch
+   */
+  private toSimulationJob(job: JobRecord<LaunchJob, SimulationResult, SimulationProgress>): SimulationJob {
+    let progress: SimulationJob['progress'];
+    if (job.progress) {
+      const { telemetry, ...summary } = job.progress;
+      progress = summary;
+    }
+
+    return {
+      id: job.id,
+      rocketId: job.input.rocketId,
+      userId: job.input.userId,
+      status: job.status,
+      progress,
+      simulationId: job.result?.id,
+      error: job.error,
+      createdAt: job.createdAt,
+      startedAt: job.startedAt,
+      finishedAt: job.finishedAt
+    };
+  }
 }
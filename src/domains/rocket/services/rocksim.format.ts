@@ -0,0 +1,534 @@
+/**
+ * RockSim Designs
+ *
+ * Reads and writes RockSim .rkt files (XML). Lengths are in millimeters and
+ * masses in grams. A part's mass is its KnownMass, else RockSim's CalcMass,
+ * else an estimate from its size and material. Stage3Parts is the top stage;
+ * Stage2Parts and Stage1Parts are the boosters below it.
+ *
+ * RockSim keeps motor choices in its simulations, which are not read: a
+ * motor mount's EngineDesignation and ClusterCount (written by the exporter)
+ * are used when present, otherwise a motor is fitted to the mount's
+ * MotorDia. Launch conditions are not in the design and take the defaults.
+ */
+
+import {
+  RocketDesign,
+  RocketConfig,
+  StageConfig,
+  MotorConfig,
+  NoseConeType,
+  RecoveryType,
+  RocketMaterial,
+  SurfaceFinish
+} from '../../../shared/types/rocket';
+import {
+  XmlElement,
+  parseXml,
+  serializeXml,
+  xmlElement,
+  childElement,
+  childText,
+  childNumber
+} from './xml.document';
+import {
+  ImportedDesign,
+  ImportNotes,
+  StageParts,
+  FinPlanform,
+  DEFAULT_LAUNCH,
+  FABRIC_DENSITY,
+  MATERIAL_NAMES,
+  emptyStage,
+  assembleConfig,
+  materialFor,
+  tubeMass,
+  noseConeMass,
+  finSetMass,
+  sweepLength,
+  trapezoidFins,
+  ellipticalFins,
+  freeformFins,
+  motorReference,
+  designationWithDelay
+} from './design.components';
+
+const STAGE_PARTS = ['Stage3Parts', 'Stage2Parts', 'Stage1Parts']; // top stage first
+
+const NOSE_SHAPES: Record<number, NoseConeType> = {
+  0: NoseConeType.CONICAL,
+  1: NoseConeType.OGIVE,
+  2: NoseConeType.PARABOLIC,
+  3: NoseConeType.ELLIPTICAL
+};
+
+// Power series and parabolic series shapes, and the closest RocketConfig has
+const APPROXIMATE_NOSE_SHAPES: Record<number, NoseConeType> = {
+  4: NoseConeType.PARABOLIC,
+  5: NoseConeType.OGIVE
+};
+
+const EXPORT_NOSE_SHAPES: Record<NoseConeType, number> = {
+  [NoseConeType.CONICAL]: 0,
+  [NoseConeType.OGIVE]: 1,
+  [NoseConeType.PARABOLIC]: 2,
+  [NoseConeType.ELLIPTICAL]: 3,
+  [NoseConeType.BLUNT]: 3
+};
+
+// FinishCode: polished, gloss, matt, unfinished
+const FINISHES: SurfaceFinish[] = [
+  SurfaceFinish.POLISHED,
+  SurfaceFinish.SMOOTH_PAINT,
+  SurfaceFinish.REGULAR_PAINT,
+  SurfaceFinish.UNFINISHED
+];
+
+const UNSUPPORTED = ['TubeFinSet', 'RingTail', 'SubAssembly', 'Pod'];
+const RECOVERY_MASS = /shock|harness|cord|recovery/i; // mass objects that belong to the recovery system
+const DEFAULT_WALL = 0.5; // mm
+const DEFAULT_NOSE_WALL = 2; // mm
+
+interface Walk {
+  stage: StageParts;
+  notes: ImportNotes;
+  radius?: number; // m, of the enclosing body tube
+  inNoseCone: boolean;
+  attached: boolean; // inside another part, where body tubes are inner tubes
+}
+
+/**
+ * Read an .rkt file
+ */
+export function readRockSim(content: Buffer, notes: ImportNotes): ImportedDesign {
+  const root = parseXml(content.toString('utf8'));
+  const design = root.name === 'RockSimDocument'
+    ? childElement(childElement(root, 'DesignInformation') ?? root, 'RocketDesign')
+    : undefined;
+  if (!design) {
+    throw new Error('Not a RockSim design: expected <RockSimDocument><DesignInformation><RocketDesign>');
+  }
+
+  const stageCount = childNumber(design, 'StageCount') ?? STAGE_PARTS.length;
+  const stages = STAGE_PARTS.slice(0, stageCount)
+    .map(tag => childElement(design, tag))
+    .filter((element): element is XmlElement => !!element && element.children.length > 0)
+    .map((element, index) => {
+      // Boosters are named after their body tube, as the exporter writes them
+      const tube = childElement(element, 'BodyTube');
+      const boosterName = (tube && childText(tube, 'Name')) || `Booster ${stageCount - index}`;
+      const stage = emptyStage(index === 0 ? 'Sustainer' : boosterName);
+      const diameter = tube ? millimeters(tube, 'OD') : undefined;
+      const radius = diameter === undefined ? undefined : diameter / 2;
+      readParts(element.children, { stage, notes, radius, inNoseCone: false, attached: false });
+      return stage;
+    });
+
+  return {
+    name: childText(design, 'Name') || 'Imported rocket',
+    description: childText(design, 'Comments') || undefined,
+    config: assembleConfig(stages, { ...DEFAULT_LAUNCH }, notes)
+  };
+}
+
+/**
+ * Write a design as an .rkt file
+ */
+export function writeRockSim(rocket: RocketDesign): Buffer {
+  const { config } = rocket;
+  const boosters = [...(config.stages ?? [])].reverse();
+  if (boosters.length + 1 > STAGE_PARTS.length) {
+    throw new Error(`RockSim designs have at most ${STAGE_PARTS.length} stages`);
+  }
+
+  const radius = config.body.diameter / 2;
+  const stages = [sustainerParts(config, radius), ...boosters.map(stage => boosterParts(stage, radius, config))];
+  const document = xmlElement('RockSimDocument', {}, [
+    xmlElement('FileVersion', {}, 4),
+    xmlElement('DesignInformation', {}, [
+      xmlElement('RocketDesign', {}, [
+        xmlElement('Name', {}, rocket.name),
+        rocket.description ? xmlElement('Comments', {}, rocket.description) : undefined,
+        xmlElement('StageCount', {}, stages.length),
+        ...STAGE_PARTS.map((tag, index) => xmlElement(tag, {}, stages[index] ?? []))
+      ])
+    ])
+  ]);
+  return Buffer.from(serializeXml(document), 'utf8');
+}
+
+function readParts(parts: XmlElement[], walk: Walk) {
+  parts.forEach(part => readPart(part, walk));
+}
+
+function readAttachedParts(element: XmlElement, walk: Walk) {
+  readParts(childElement(element, 'AttachedParts')?.children ?? [], { ...walk, attached: true });
+}
+
+function readPart(element: XmlElement, walk: Walk) {
+  const name = childText(element, 'Name') || element.name;
+
+  if (element.name === 'NoseCone') {
+    readNoseCone(element, name, walk);
+  } else if (element.name === 'BodyTube' && !walk.attached) {
+    readBodyTube(element, name, walk);
+  } else if (element.name === 'FinSet' || element.name === 'CustomFinSet') {
+    readFinSet(element, name, walk);
+  } else if (element.name === 'Parachute' || element.name === 'Streamer') {
+    readRecoveryDevice(element, name, walk);
+  } else if (UNSUPPORTED.includes(element.name)) {
+    walk.notes.dropped(name, `${element.name} is not modeled`);
+  } else {
+    readStructure(element, name, walk);
+  }
+}
+
+function isMotorMount(element: XmlElement): boolean {
+  return childText(element, 'IsMotorMount') === '1';
+}
+
+function readNoseCone(element: XmlElement, name: string, walk: Walk) {
+  const { stage, notes } = walk;
+  if (stage.noseCone) {
+    notes.dropped(name, `only one nose cone is modeled (${stage.noseCone.name})`);
+    return;
+  }
+
+  const shapeCode = childNumber(element, 'ShapeCode') ?? 1;
+  let type = NOSE_SHAPES[shapeCode];
+  if (!type) {
+    type = APPROXIMATE_NOSE_SHAPES[shapeCode] ?? NoseConeType.OGIVE;
+    notes.approximated(name, `nose cone shape ${shapeCode} treated as ${type}`);
+  }
+
+  const length = millimeters(element, 'Len') ?? 0;
+  const radius = (millimeters(element, 'BaseDia') ?? 2 * (walk.radius ?? 0)) / 2;
+  const material = readMaterial(element, name, notes);
+  const thickness = millimeters(element, 'WallThickness');
+
+  stage.noseCone = {
+    name,
+    type,
+    length,
+    mass: partMass(element) ?? noseConeMass(length, radius, thickness || undefined, material),
+    material,
+    ballastMass: 0
+  };
+  readAttachedParts(element, { ...walk, radius, inNoseCone: true });
+}
+
+function readBodyTube(element: XmlElement, name: string, walk: Walk) {
+  const { stage, notes } = walk;
+  const length = millimeters(element, 'Len') ?? 0;
+  const outer = millimeters(element, 'OD');
+  const radius = outer === undefined ? walk.radius : outer / 2;
+  const material = readMaterial(element, name, notes);
+  const finishCode = childNumber(element, 'FinishCode');
+
+  if (stage.bodyLength > 0) {
+    notes.approximated(name, 'joined end to end with the body tube above as one tube');
+  }
+  stage.bodyLength += length;
+  stage.bodyMaterial = stage.bodyMaterial ?? material;
+  stage.surfaceFinish = stage.surfaceFinish ?? (finishCode === undefined ? undefined : FINISHES[finishCode]);
+  if (radius !== undefined) {
+    stage.bodyDiameter = Math.max(stage.bodyDiameter ?? 0, 2 * radius);
+  }
+
+  const inner = (millimeters(element, 'ID') ?? 2 * ((radius ?? 0) - DEFAULT_WALL / 1000)) / 2;
+  stage.bodyMass += partMass(element) ?? (radius === undefined ? 0 : tubeMass(length, radius, inner, material));
+  readMotorMount(element, name, walk);
+  readAttachedParts(element, { ...walk, radius });
+}
+
+function readFinSet(element: XmlElement, name: string, walk: Walk) {
+  const { stage, notes } = walk;
+  const rootChord = millimeters(element, 'RootChord') ?? 0;
+  const span = millimeters(element, 'SemiSpan') ?? 0;
+  let planform: FinPlanform;
+
+  if (element.name === 'CustomFinSet') {
+    // "x,y|x,y|..." in mm from the root's leading edge
+    const points = (childText(element, 'PointList') ?? '')
+      .split('|')
+      .map(pair => pair.split(',').map(Number))
+      .filter(pair => pair.length === 2 && pair.every(isFinite))
+      .map(([x, y]) => ({ x: x / 1000, y: y / 1000 }));
+    if (points.length < 3) {
+      notes.dropped(name, 'custom fins without an outline');
+      return;
+    }
+    planform = freeformFins(points);
+    notes.approximated(name, 'custom fins as a trapezoid of the same area');
+  } else if (childNumber(element, 'ShapeCode') === 1) {
+    planform = ellipticalFins(rootChord, span);
+    notes.approximated(name, 'elliptical fins as a trapezoid of the same area');
+  } else {
+    planform = trapezoidFins(rootChord, millimeters(element, 'TipChord') ?? 0, span, millimeters(element, 'SweepDistance') ?? 0);
+  }
+
+  const count = childNumber(element, 'FinCount') ?? 3;
+  const thickness = millimeters(element, 'Thickness') ?? 0.003;
+  const material = readMaterial(element, name, notes);
+  stage.fins.push({
+    name,
+    fins: {
+      count,
+      ...planform,
+      thickness,
+      material,
+      mass: partMass(element) ?? finSetMass(planform, count, thickness, material)
+    }
+  });
+}
+
+function readRecoveryDevice(element: XmlElement, name: string, walk: Walk) {
+  if (element.name === 'Parachute') {
+    const diameter = millimeters(element, 'Dia') ?? 0;
+    walk.stage.recovery.push({
+      name,
+      kind: 'parachute',
+      size: diameter,
+      mass: partMass(element) ?? Math.PI * (diameter / 2) ** 2 * FABRIC_DENSITY
+    });
+  } else {
+    const length = millimeters(element, 'Len') ?? 0;
+    const width = millimeters(element, 'Width') ?? 0;
+    walk.stage.recovery.push({
+      name,
+      kind: 'streamer',
+      size: length,
+      width,
+      mass: partMass(element) ?? length * width * FABRIC_DENSITY
+    });
+  }
+}
+
+/**
+ * Inner tubes, rings, bulkheads, lugs and mass objects: their mass counts
+ * toward the body, the nose cone they sit in (mass objects there being nose
+ * weight) or, for shock cords, the recovery system
+ */
+function readStructure(element: XmlElement, name: string, walk: Walk) {
+  const { stage, notes } = walk;
+  const mass = partMass(element) ?? structureMass(element, name, walk);
+
+  if (mass === undefined) {
+    notes.dropped(name, 'no mass or size in the file');
+  } else if (walk.inNoseCone && stage.noseCone) {
+    if (element.name === 'MassObject') {
+      stage.noseCone.ballastMass! += mass;
+    } else {
+      stage.noseCone.mass += mass;
+    }
+  } else if (element.name === 'MassObject' && RECOVERY_MASS.test(name)) {
+    stage.recoveryMass += mass;
+  } else {
+    stage.bodyMass += mass;
+  }
+
+  readMotorMount(element, name, walk);
+  readAttachedParts(element, walk);
+}
+
+function structureMass(element: XmlElement, name: string, walk: Walk): number | undefined {
+  const length = millimeters(element, 'Len');
+  const outer = millimeters(element, 'OD');
+  const outerRadius = outer === undefined ? walk.radius : outer / 2;
+  if (length === undefined || outerRadius === undefined) {
+    return undefined;
+  }
+  const innerRadius = (millimeters(element, 'ID') ?? 0) / 2;
+  return tubeMass(length, outerRadius, innerRadius, readMaterial(element, name, walk.notes));
+}
+
+function readMotorMount(element: XmlElement, name: string, walk: Walk) {
+  if (!isMotorMount(element)) return;
+
+  walk.stage.motors.push({
+    name,
+    motor: motorReference(childText(element, 'EngineDesignation') || undefined, {
+      diameter: millimeters(element, 'MotorDia'),
+      count: (childNumber(element, 'ClusterCount') ?? 1) > 1 ? childNumber(element, 'ClusterCount') : undefined
+    })
+  });
+}
+
+function readMaterial(element: XmlElement, name: string, notes: ImportNotes): RocketMaterial {
+  return materialFor(childText(element, 'Material') || undefined, undefined, name, notes);
+}
+
+/**
+ * KnownMass, else CalcMass, in kg; a KnownMass of 0 means none was entered
+ */
+function partMass(element: XmlElement): number | undefined {
+  const grams = childNumber(element, 'KnownMass') || childNumber(element, 'CalcMass');
+  return grams === undefined ? undefined : grams / 1000;
+}
+
+function millimeters(element: XmlElement, name: string): number | undefined {
+  const value = childNumber(element, name);
+  return value === undefined ? undefined : value / 1000;
+}
+
+function sustainerParts(config: RocketConfig, radius: number): XmlElement[] {
+  const { noseCone, body } = config;
+  return [
+    xmlElement('NoseCone', {}, [
+      xmlElement('Name', {}, 'Nose cone'),
+      xmlElement('Material', {}, MATERIAL_NAMES[noseCone.material]),
+      ...massElements(noseCone.mass),
+      xmlElement('FinishCode', {}, finishCode(body.surfaceFinish)),
+      xmlElement('Len', {}, mm(noseCone.length)),
+      xmlElement('BaseDia', {}, mm(2 * radius)),
+      xmlElement('WallThickness', {}, DEFAULT_NOSE_WALL),
+      xmlElement('ShapeCode', {}, EXPORT_NOSE_SHAPES[noseCone.type]),
+      xmlElement('AttachedParts', {}, [
+        noseCone.ballastMass ? massObject('Nose weight', noseCone.ballastMass) : undefined
+      ])
+    ]),
+    bodyTube('Body tube', body.length, radius, body.mass, body.material, body.surfaceFinish, [
+      finSet(config.fins),
+      motorTube(config.engine),
+      ...recoveryParts(config)
+    ])
+  ];
+}
+
+function boosterParts(stage: StageConfig, radius: number, config: RocketConfig): XmlElement[] {
+  const [motor, ...others] = stage.motors;
+  const count = (motor.count ?? 1) + others.reduce((sum, other) => sum + (other.count ?? 1), 0);
+  const { body } = stage;
+  return [
+    bodyTube(stage.name ?? 'Booster', body.length, radius, body.mass, body.material, config.body.surfaceFinish, [
+      stage.fins ? finSet(stage.fins) : undefined,
+      motorTube({ ...motor, count })
+    ])
+  ];
+}
+
+function bodyTube(
+  name: string,
+  length: number,
+  radius: number,
+  mass: number,
+  material: RocketMaterial,
+  finish: SurfaceFinish | undefined,
+  parts: Array<XmlElement | undefined>
+): XmlElement {
+  return xmlElement('BodyTube', {}, [
+    xmlElement('Name', {}, name),
+    xmlElement('Material', {}, MATERIAL_NAMES[material]),
+    ...massElements(mass),
+    xmlElement('FinishCode', {}, finishCode(finish)),
+    xmlElement('Len', {}, mm(length)),
+    xmlElement('OD', {}, mm(2 * radius)),
+    xmlElement('ID', {}, mm(2 * radius) - 2 * DEFAULT_WALL),
+    xmlElement('IsMotorMount', {}, 0),
+    xmlElement('AttachedParts', {}, parts)
+  ]);
+}
+
+function finSet(fins: RocketConfig['fins']): XmlElement {
+  return xmlElement('FinSet', {}, [
+    xmlElement('Name', {}, 'Fins'),
+    xmlElement('Material', {}, MATERIAL_NAMES[fins.material]),
+    ...massElements(fins.mass),
+    xmlElement('FinCount', {}, fins.count),
+    xmlElement('ShapeCode', {}, 0),
+    xmlElement('RootChord', {}, mm(fins.rootChord)),
+    xmlElement('TipChord', {}, mm(fins.tipChord)),
+    xmlElement('SemiSpan', {}, mm(fins.span)),
+    xmlElement('SweepDistance', {}, mm(sweepLength(fins))),
+    xmlElement('Thickness', {}, mm(fins.thickness))
+  ]);
+}
+
+/**
+ * An inner tube holding the motor; its mass is in the body tube's KnownMass
+ */
+function motorTube(motor: MotorConfig): XmlElement {
+  const diameter = mm(motor.diameter ?? 0.018);
+  return xmlElement('BodyTube', {}, [
+    xmlElement('Name', {}, 'Motor mount'),
+    xmlElement('Material', {}, MATERIAL_NAMES[RocketMaterial.CARDBOARD]),
+    xmlElement('Len', {}, mm(motor.length ?? 0.07)),
+    xmlElement('OD', {}, diameter + 2 * DEFAULT_WALL),
+    xmlElement('ID', {}, diameter),
+    ...massElements(0),
+    xmlElement('IsMotorMount', {}, 1),
+    xmlElement('MotorDia', {}, diameter),
+    xmlElement('EngineDesignation', {}, designationWithDelay(motor)),
+    xmlElement('ClusterCount', {}, motor.count ?? 1)
+  ]);
+}
+
+function recoveryParts(config: RocketConfig): XmlElement[] {
+  const { recovery } = config;
+  const parachute = (name: string, diameter: number, mass: number) => xmlElement('Parachute', {}, [
+    xmlElement('Name', {}, name),
+    xmlElement('Material', {}, 'Rip stop nylon'),
+    ...massElements(mass),
+    xmlElement('Dia', {}, mm(diameter))
+  ]);
+
+  switch (recovery.type) {
+    case RecoveryType.PARACHUTE:
+    case RecoveryType.HELICOPTER: {
+      const count = recovery.chuteCount ?? 1;
+      const diameter = recovery.parachuteDiameter ?? 0.3;
+      return Array.from({ length: count }, (_, i) =>
+        parachute(count > 1 ? `Parachute ${i + 1}` : 'Parachute', diameter, recovery.mass / count)
+      );
+    }
+    case RecoveryType.DUAL_DEPLOY: {
+      // RockSim has no altimeter deployment; both canopies are written
+      return [
+        recovery.drogueDiameter ? parachute('Drogue', recovery.drogueDiameter, 0) : undefined,
+        parachute('Main', recovery.parachuteDiameter ?? 0.3, recovery.mass)
+      ].filter((element): element is XmlElement => !!element);
+    }
+    case RecoveryType.STREAMER: {
+      // The recovery model's defaults: two calibers wide, ten times as long
+      const width = recovery.streamerWidth ?? 2 * config.body.diameter;
+      return [
+        xmlElement('Streamer', {}, [
+          xmlElement('Name', {}, 'Streamer'),
+          xmlElement('Material', {}, 'Mylar'),
+          ...massElements(recovery.mass),
+          xmlElement('Len', {}, mm(recovery.streamerLength ?? 10 * width)),
+          xmlElement('Width', {}, mm(width))
+        ])
+      ];
+    }
+    default:
+      return [massObject('Shock cord', recovery.mass)];
+  }
+}
+
+function massObject(name: string, mass: number): XmlElement {
+  return xmlElement('MassObject', {}, [
+    xmlElement('Name', {}, name),
+    ...massElements(mass)
+  ]);
+}
+
+/**
+ * KnownMass and CalcMass in grams, so the mass reads back the same
+ */
+function massElements(mass: number): XmlElement[] {
+  return [xmlElement('KnownMass', {}, grams(mass)), xmlElement('CalcMass', {}, grams(mass))];
+}
+
+function finishCode(finish: SurfaceFinish | undefined): number {
+  const code = FINISHES.indexOf(finish ?? SurfaceFinish.REGULAR_PAINT);
+  return code === -1 ? FINISHES.indexOf(SurfaceFinish.UNFINISHED) : code; // rough
+}
+
+function mm(meters: number): number {
+  return Number((meters * 1000).toFixed(4));
+}
+
+function grams(kilograms: number): number {
+  return Number((kilograms * 1000).toFixed(4));
+}
@@ -0,0 +1,153 @@
+/**
+ * Simulation Comparison
+ *
+ * Lines up the telemetry of several simulations on one axis so their charts
+ * can be overlaid, and lists each flight metric's difference from the first
+ * simulation. On the time axis every flight is sampled from ignition until
+ * the longest one lands; on the altitude axis the ascents are sampled from
+ * the pad to the highest apogee, which shows how quickly each design climbs
+ * through the same heights.
+ */
+
+import {
+  SimulationResult,
+  FlightResults,
+  TrajectoryPoint,
+  Vector3,
+  ComparisonAxis,
+  ComparisonPoint,
+  SimulationComparison,
+  SimulationMetricDelta
+} from '../../../shared/types/rocket';
+
+export const COMPARED_METRICS: Array<keyof FlightResults> = [
+  'maxAltitude',
+  'maxVelocity',
+  'maxAcceleration',
+  'burnoutAltitude',
+  'apogeeTime',
+  'flightTime',
+  'landingDistance',
+  'stabilityMargin',
+  'maxMachNumber',
+  'railExitVelocity',
+  'descentRate',
+  'score'
+];
+
+const COMPARISON_POINTS = 300; // samples along the axis, ends included
+
+interface Sample {
+  time: number;
+  altitude: number;
+  velocity: number;
+  acceleration: number;
+}
+
+/**
+ * Compare simulations, the first being the baseline
+ */
+export function compareSimulations(
+  simulations: SimulationResult[],
+  axis: ComparisonAxis = ComparisonAxis.TIME
+): SimulationComparison {
+  for (const simulation of simulations) {
+    if (simulation.telemetry.length < 2) {
+      throw new Error(`Simulation ${simulation.id} has no telemetry to compare`);
+    }
+  }
+
+  const end = axis === ComparisonAxis.TIME
+    ? Math.max(...simulations.map(simulation => simulation.telemetry[simulation.telemetry.length - 1].time))
+    : Math.max(...simulations.map(simulation => apogeeIndexOf(simulation.telemetry).altitude));
+  const grid = Array.from({ length: COMPARISON_POINTS }, (_, i) => end * i / (COMPARISON_POINTS - 1));
+
+  const series = simulations.map(simulation => axis === ComparisonAxis.TIME
+    ? sampleByTime(simulation.telemetry, grid)
+    : sampleByAltitude(simulation.telemetry, grid));
+
+  const points: ComparisonPoint[] = grid.map((x, i) => ({
+    x,
+    time: series.map(samples => samples[i]?.time ?? null),
+    altitude: series.map(samples => samples[i]?.altitude ?? null),
+    velocity: series.map(samples => samples[i]?.velocity ?? null),
+    acceleration: series.map(samples => samples[i]?.acceleration ?? null)
+  }));
+
+  return {
+    axis,
+    simulations: simulations.map(({ id, rocketId, createdAt, results }) => ({ id, rocketId, createdAt, results })),
+    metrics: COMPARED_METRICS.map(metric => metricDelta(metric, simulations)),
+    points
+  };
+}
+
+function metricDelta(metric: keyof FlightResults, simulations: SimulationResult[]): SimulationMetricDelta {
+  const values = simulations.map(simulation => {
+    const value = simulation.results[metric];
+    return typeof value === 'number' && Number.isFinite(value) ? value : null;
+  });
+  const baseline = values[0];
+
+  return {
+    metric,
+    values,
+    differences: values.map(value => (value === null || baseline === null ? null : value - baseline)),
+    percentDifferences: values.map(value =>
+      value === null || baseline === null || baseline === 0 ? null : ((value - baseline) / baseline) * 100
+    )
+  };
+}
+
+// Undefined past the end of the flight
+function sampleByTime(telemetry: TrajectoryPoint[], grid: number[]): Array<Sample | undefined> {
+  let index = 1;
+  return grid.map(time => {
+    if (time > telemetry[telemetry.length - 1].time) return undefined;
+    while (index < telemetry.length - 1 && telemetry[index].time < time) index++;
+
+    const before = telemetry[index - 1];
+    const after = telemetry[index];
+    return interpolate(before, after, fraction(before.time, after.time, time));
+  });
+}
+
+// The first time the ascent reaches each altitude; undefined above apogee
+function sampleByAltitude(telemetry: TrajectoryPoint[], grid: number[]): Array<Sample | undefined> {
+  const apogee = apogeeIndexOf(telemetry);
+  let index = 0;
+  return grid.map(altitude => {
+    if (altitude > apogee.altitude) return undefined;
+    while (index < apogee.index && telemetry[index].altitude < altitude) index++;
+    if (index === 0) return interpolate(telemetry[0], telemetry[0], 0);
+
+    const before = telemetry[index - 1];
+    const after = telemetry[index];
+    return interpolate(before, after, fraction(before.altitude, after.altitude, altitude));
+  });
+}
+
+function apogeeIndexOf(telemetry: TrajectoryPoint[]): { index: number; altitude: number } {
+  return telemetry.reduce(
+    (highest, point, index) => (point.altitude > highest.altitude ? { index, altitude: point.altitude } : highest),
+    { index: 0, altitude: telemetry[0].altitude }
+  );
+}
+
+function fraction(from: number, to: number, value: number): number {
+  return to > from ? Math.min(Math.max((value - from) / (to - from), 0), 1) : 0;
+}
+
+function interpolate(before: TrajectoryPoint, after: TrajectoryPoint, t: number): Sample {
+  const lerp = (a: number, b: number) => a + (b - a) * t;
+  return {
+    time: lerp(before.time, after.time),
+    altitude: lerp(before.altitude, after.altitude),
+    velocity: lerp(magnitude(before.velocity), magnitude(after.velocity)),
+    acceleration: lerp(magnitude(before.acceleration), magnitude(after.acceleration))
+  };
+}
+
+function magnitude(vector: Vector3): number {
+  return Math.sqrt(vector.x ** 2 + vector.y ** 2 + vector.z ** 2);
+}
@@ -16,38 +16,172 @@ import {
   LaunchOptions, 
   FlightPhase, 
   FlightIssue,
+  FlightModel,
+  RecoveryType,
+  IntegratorType,
+  StabilityAnalysis,
+  MassProperties,
+  StagingEvent,
+  RailExitEstimate,
+  SimulationProgress,
+  FlightEvent,
+  FlightEventType,
   DEFAULT_WEATHER 
 } from '../../../shared/types/rocket';
+import {
+  BODY_AXIS,
+  add,
+  scale,
+  dot,
+  subtract,
+  magnitude,
+  vec,
+  ZERO_VECTOR,
+  rotateToWorld,
+  rotateToBody,
+  quaternionDerivative,
+  quaternionNormalize,
+  launchAttitude,
+  calculateAerodynamicLoads,
+  angularAcceleration
+} from './flight.dynamics';
+import { Integrator, createIntegrator } from './integrator';
+import { EventFunction, eventOccurs, findEventTime } from './event.detection';
+import { calculateCenterOfPressure } from './barrowman.calculator';
+import { calculateMassProperties } from './mass.properties';
+import { calculateDragCoefficient, calculateDragCurve } from './drag.model';
+import { WindModel } from './wind.model';
+import { AtmosphereModel } from './atmosphere.model';
+import { randomSeed } from './random';
+import {
+  stageTimeline,
+  stageMotors,
+  firingStage,
+  finalBurnoutTime,
+  attachedStageIndexes,
+  stackAt,
+  totalThrust,
+  liftoffThrust,
+  propellantRemaining,
+  motorPropellantMass,
+  spentStageMass
+} from './staging.model';
+import {
+  RecoveryDevice,
+  SAFE_DEPLOYMENT_VELOCITY,
+  SAFE_DESCENT_RATE,
+  ejectionTime,
+  inflationFraction,
+  recoveryDragArea
+} from './recovery.model';
+import {
+  DEFAULT_MIN_RAIL_EXIT_VELOCITY,
+  requiredRailExitVelocity,
+  estimateRailExit,
+  minimumRodLength
+} from './launch.rail';
+
+/**
+ * Version of the flight physics, stored with every simulation. Bump it with
+ * any change that alters the results of an existing configuration.
+ */
+export const ENGINE_VERSION = '1.0.0';
+
+/**
+ * Launch options used when a request leaves them out
+ */
+export const DEFAULT_LAUNCH_OPTIONS = {
+  timeStep: 0.01, // s, 10 ms
+  maxFlightTime: 300, // s, 5 minutes
+  detailedTelemetry: false,
+  flightModel: FlightModel.POINT_MASS,
+  integrator: IntegratorType.RK45,
+  integrationTolerance: 1e-6,
+  minRailExitVelocity: DEFAULT_MIN_RAIL_EXIT_VELOCITY
+};
+
+const PROGRESS_INTERVAL = 1; // s of simulated flight between progress reports
+
+/**
+ * Exact flight states captured between output samples
+ */
+interface DeploymentPoint {
+  time: number;
+  altitude: number;
+  airspeed: number;
+  descentRate: number;
+  position: { x: number; y: number; z: number };
+}
+
+interface FlightKeyPoints {
+  events: FlightEvent[];
+  drogue?: DeploymentPoint;
+  main?: DeploymentPoint;
+  staging: StagingEvent[];
+}
+
+/**
+ * Event at a known time: ignition, burnout, separation and the ejection charge
+ */
+interface ScheduledEvent {
+  type: FlightEventType;
+  time: number;
+  stage?: number;
+}
+
+/**
+ * Event found from the state between steps
+ */
+interface StateEvent {
+  type?: FlightEventType; // recorded in the timeline when set
+  condition: EventFunction;
+  terminal?: boolean; // ends the flight
+  apply?: (state: any) => void;
+}
 
 export class SimulationEngine {
   // Physical constants
   private static readonly GRAVITY = 9.80665; // m/s² (standard gravity)
-  private static readonly AIR_DENSITY_SEA_LEVEL = 1.225; // kg/m³
-  private static readonly GAS_CONSTANT = 287.05; // J/(kg·K) for dry air
-  private static readonly TEMPERATURE_LAPSE_RATE = 0.0065; // K/m
-  private static readonly DRAG_COEFFICIENT_BOOST = 0.75; // Typical for model rockets during boost
-  private static readonly DRAG_COEFFICIENT_COAST = 0.45; // Typical for model rockets during coast
 
   // Simulation parameters
   private timeStep: number;
   private maxFlightTime: number;
   private detailedTelemetry: boolean;
+  private flightModel: FlightModel;
+  private integrator: Integrator;
+  private seed?: number;
+  private siteElevation: number;
+  private minRailExitVelocity: number;
+  private wind: WindModel = new WindModel(DEFAULT_WEATHER);
+  private atmosphere: AtmosphereModel = new AtmosphereModel(DEFAULT_WEATHER);
 
   constructor(options: LaunchOptions = {}) {
-    this.timeStep = options.timeStep || 0.01; // 10ms default
-    this.maxFlightTime = options.maxFlightTime || 300; // 5 minutes max
-    this.detailedTelemetry = options.detailedTelemetry || false;
+    this.timeStep = options.timeStep || DEFAULT_LAUNCH_OPTIONS.timeStep;
+    this.maxFlightTime = options.maxFlightTime || DEFAULT_LAUNCH_OPTIONS.maxFlightTime;
+    this.detailedTelemetry = options.detailedTelemetry || DEFAULT_LAUNCH_OPTIONS.detailedTelemetry;
+    this.flightModel = options.flightModel || DEFAULT_LAUNCH_OPTIONS.flightModel;
+    this.integrator = createIntegrator(options.integrator || DEFAULT_LAUNCH_OPTIONS.integrator, {
+      relativeTolerance: options.integrationTolerance || DEFAULT_LAUNCH_OPTIONS.integrationTolerance,
+      maxStep: this.timeStep
+    });
+    this.seed = options.seed;
+    this.siteElevation = options.launchSite?.elevation ?? 0;
+    this.minRailExitVelocity = options.minRailExitVelocity ?? DEFAULT_LAUNCH_OPTIONS.minRailExitVelocity;
   }
 
   /**
-   * Run complete rocket simulation
+   * Run complete rocket simulation. `onProgress` receives the telemetry
+   * recorded so far in batches, every second of simulated flight.
    */
   async simulate(
     config: RocketConfig, 
     weather: WeatherConditions = DEFAULT_WEATHER,
-    launchOptions?: LaunchOptions
-  ): Promise<{ results: FlightResults; telemetry: TrajectoryPoint[] }> {
+    launchOptions?: LaunchOptions,
+    onProgress?: (progress: SimulationProgress) => void
+  ): Promise<{ results: FlightResults; telemetry: TrajectoryPoint[]; events: FlightEvent[] }> {
     // Initialize simulation state
+    this.wind = new WindModel(weather, this.seed ?? randomSeed());
+    this.atmosphere = new AtmosphereModel(weather, launchOptions?.launchSite?.elevation ?? this.siteElevation);
     const state = this.initializeState(config, weather);
     const telemetry: TrajectoryPoint[] = [];
     const issues: FlightIssue[] = [];
@@ -59,13 +193,31 @@ export class SimulationEngine {
     if (validationIssues.some(issue => issue.type === 'error')) {
       return {
         results: this.createFailedResults(issues),
-        telemetry: []
+        telemetry: [],
+        events: []
       };
     }
 
     // Main simulation loop
+    let step = 0;
     let time = 0;
     let phase = FlightPhase.PRELAUNCH;
+    const keyPoints: FlightKeyPoints = { events: [], staging: [] };
+    this.recordScheduledEvents(state, config, time, keyPoints);
+
+    let reportedPoints = 0;
+    let nextReport = PROGRESS_INTERVAL;
+    let fraction = 0;
+    const reportProgress = (progressTime: number, progressPhase: FlightPhase) => {
+      onProgress!({
+        fraction,
+        time: progressTime,
+        phase: progressPhase,
+        altitude: state.position.y,
+        telemetry: telemetry.slice(reportedPoints)
+      });
+      reportedPoints = telemetry.length;
+    };
     
     while (time <= this.maxFlightTime && state.position.y >= 0) {
       // Update flight phase
@@ -73,38 +225,52 @@ export class SimulationEngine {
       
       // Calculate forces
       const forces = this.calculateForces(state, config, weather, phase, time);
-      
-      // Update state using Runge-Kutta 4th order integration
-      this.updateState(state, forces, this.timeStep);
+      this.calculateAccelerations(state, forces, config, weather, phase, time);
       
       // Record telemetry point
       if (this.shouldRecordTelemetry(time)) {
-        const telemetryPoint: TrajectoryPoint = {
-          time,
-          position: { ...state.position },
-          velocity: { ...state.velocity },
-          acceleration: { ...state.acceleration },
-          mass: state.mass,
-          thrust: forces.thrust,
-          drag: forces.drag,
-          machNumber: this.calculateMachNumber(state.velocity, weather),
-          altitude: state.position.y,
-          phase
-        };
-        telemetry.push(telemetryPoint);
+        telemetry.push(this.createTelemetryPoint(time, state, forces, weather, phase));
       }
 
       // Check for flight anomalies
       const phaseIssues = this.checkFlightAnomalies(state, config, time, phase);
       issues.push(...phaseIssues);
 
-      time += this.timeStep;
+      if (onProgress && time >= nextReport) {
+        fraction = Math.max(fraction, this.estimateProgress(state, time, keyPoints));
+        reportProgress(time, phase);
+        nextReport += PROGRESS_INTERVAL;
+      }
+
+      // Advance the state to the next output time
+      const nextTime = ++step * this.timeStep;
+      const landingTime = this.advanceState(state, config, weather, time, nextTime, keyPoints);
+
+      // Ground impact: finish the trajectory exactly at the ground
+      if (landingTime !== undefined) {
+        const landingForces = this.calculateForces(state, config, weather, FlightPhase.LANDING, landingTime);
+        this.calculateAccelerations(state, landingForces, config, weather, FlightPhase.LANDING, landingTime);
+        telemetry.push(this.createTelemetryPoint(landingTime, state, landingForces, weather, FlightPhase.LANDING));
+        issues.push(...this.checkFlightAnomalies(state, config, landingTime, FlightPhase.LANDING));
+        break;
+      }
+
+      time = nextTime;
     }
 
+    if (onProgress) {
+      const lastPoint = telemetry[telemetry.length - 1];
+      fraction = 1;
+      reportProgress(lastPoint?.time ?? time, lastPoint?.phase ?? phase);
+    }
+
+    issues.push(...this.checkRailExit(keyPoints));
+    issues.push(...this.checkRecovery(telemetry, keyPoints));
+
     // Calculate final results
-    const results = this.calculateResults(telemetry, issues, config);
+    const results = this.calculateResults(telemetry, issues, config, keyPoints);
 
-    return { results, telemetry };
+    return { results, telemetry, events: keyPoints.events };
   }
 
   /**
@@ -113,18 +279,25 @@ export class SimulationEngine {
   private initializeState(config: RocketConfig, weather: WeatherConditions) {
     const totalMass = this.calculateTotalMass(config);
     const launchAngle = (config.launch.launchAngle * Math.PI) / 180; // Convert to radians
+    const launchDirection = ((config.launch.launchDirection ?? 0) * Math.PI) / 180;
 
     return {
       position: { x: 0, y: 0, z: 0 },
       velocity: { x: 0, y: 0, z: 0 },
       acceleration: { x: 0, y: 0, z: 0 },
       mass: totalMass,
-      burnoutTime: config.engine.burnTime,
+      burnoutTime: finalBurnoutTime(config),
       onLaunchRod: true,
       launchRodLength: config.launch.launchRodLength,
       launchAngle,
-      parachuteDeployed: false,
-      weather
+      deployments: {} as Partial<Record<RecoveryDevice, number>>, // deployment times
+      weather,
+
+      // Rigid-body attitude (used by the 6-DOF model)
+      orientation: launchAttitude(launchAngle, launchDirection),
+      angularVelocity: { x: 0, y: 0, z: 0 },
+      angularAcceleration: { x: 0, y: 0, z: 0 },
+      angleOfAttack: 0
     };
   }
 
@@ -136,130 +309,625 @@ export class SimulationEngine {
       thrust: 0,
       drag: 0,
       weight: state.mass * SimulationEngine.GRAVITY,
-      windForce: 0
+      recoveryDrag: 0,
+      wind: this.wind.velocityAt(state.position.y, time),
+      airVelocity: state.velocity
     };
+    forces.airVelocity = subtract(state.velocity, forces.wind);
 
-    // Thrust force (during boost phase)
-    if (phase === FlightPhase.BOOST && time <= config.engine.burnTime) {
-      forces.thrust = config.engine.thrust;
-      
-      // Update mass (propellant consumption)
-      const propellantFlowRate = config.engine.propellantMass / config.engine.burnTime;
-      state.mass -= propellantFlowRate * this.timeStep;
+    // Thrust force (while any stage is firing)
+    if (phase === FlightPhase.BOOST || phase === FlightPhase.SUSTAIN) {
+      forces.thrust = totalThrust(config, time);
     }
 
-    // Drag force
-    const velocity = Math.sqrt(
-      state.velocity.x ** 2 + state.velocity.y ** 2 + state.velocity.z ** 2
-    );
+    // Drag force (relative to the air)
+    const airspeed = magnitude(forces.airVelocity);
     
-    if (velocity > 0) {
-      const airDensity = this.calculateAirDensity(state.position.y, weather);
-      const dragCoefficient = phase === FlightPhase.BOOST 
-        ? SimulationEngine.DRAG_COEFFICIENT_BOOST 
-        : SimulationEngine.DRAG_COEFFICIENT_COAST;
+    if (airspeed > 0) {
+      const airDensity = this.calculateAirDensity(state.position.y);
+      const dragCoefficient = this.getDragCoefficient(stackAt(config, time), airspeed, state.position.y, forces.thrust > 0);
       
       const referenceArea = Math.PI * (config.body.diameter / 2) ** 2;
-      forces.drag = 0.5 * airDensity * velocity ** 2 * dragCoefficient * referenceArea;
+      forces.drag = 0.5 * airDensity * airspeed ** 2 * dragCoefficient * referenceArea;
     }
 
-    // Wind force (simplified)
-    if (weather.windSpeed > 0) {
-      const windAngle = (weather.windDirection * Math.PI) / 180;
-      forces.windForce = 0.1 * weather.windSpeed * state.velocity.y; // Simplified wind effect
+    // Recovery device drag
+    if (this.isRecoveryDeployed(state)) {
+      const dragArea = (['drogue', 'main'] as RecoveryDevice[]).reduce((sum, device) => {
+        const deployedAt = state.deployments[device];
+        return deployedAt === undefined
+          ? sum
+          : sum + recoveryDragArea(config, device) * inflationFraction(config, device, time - deployedAt);
+      }, 0);
+      forces.recoveryDrag = 0.5 * this.calculateAirDensity(state.position.y) *
+        airspeed ** 2 * dragArea;
     }
 
     return forces;
   }
 
   /**
-   * Update rocket state using numerical integration
+   * Calculate linear (and, in 6-DOF mode, angular) accelerations from the forces
    */
-  private updateState(state: any, forces: any, dt: number) {
-    // Calculate accelerations
-    const totalVerticalForce = forces.thrust - forces.weight - 
-      (forces.drag * state.velocity.y / Math.max(0.001, Math.sqrt(state.velocity.x ** 2 + state.velocity.y ** 2 + state.velocity.z ** 2)));
-    
-    const totalHorizontalForce = -forces.drag * state.velocity.x / Math.max(0.001, Math.sqrt(state.velocity.x ** 2 + state.velocity.y ** 2 + state.velocity.z ** 2));
+  private calculateAccelerations(
+    state: any,
+    forces: any,
+    config: RocketConfig,
+    weather: WeatherConditions,
+    phase: FlightPhase,
+    time: number
+  ) {
+    if (this.isRecoveryDeployed(state)) {
+      this.calculateDescentAccelerations(state, forces, config, weather, time);
+      return;
+    }
 
-    state.acceleration.y = totalVerticalForce / state.mass;
-    state.acceleration.x = totalHorizontalForce / state.mass;
-    state.acceleration.z = 0; // 2D simulation for now
+    if (this.flightModel === FlightModel.SIX_DOF) {
+      this.calculateRigidBodyAccelerations(state, forces, config, weather, phase, time);
+      return;
+    }
 
-    // Handle launch rod constraint
+    if (state.onLaunchRod && this.distanceAlongRod(state) >= state.launchRodLength) {
+      state.onLaunchRod = false;
+    }
+
+    // Off the rod a stable rocket weathercocks, so thrust follows the relative wind
+    const rodAxis = rotateToWorld(state.orientation, BODY_AXIS);
+    const airspeed = magnitude(forces.airVelocity);
+    const thrustAxis = state.onLaunchRod || airspeed === 0 ? rodAxis : scale(forces.airVelocity, 1 / airspeed);
+    const dragForce = airspeed > 0 ? scale(forces.airVelocity, -forces.drag / airspeed) : ZERO_VECTOR;
+
+    const netForce = add(add(scale(thrustAxis, forces.thrust), dragForce), vec(0, -forces.weight, 0));
+    state.acceleration = scale(netForce, 1 / state.mass);
+
+    // Constrain motion along the launch rod; the pad holds the rocket until thrust exceeds weight
     if (state.onLaunchRod) {
-      const rodDistance = Math.sqrt(state.position.x ** 2 + state.position.y ** 2);
-      if (rodDistance >= state.launchRodLength) {
+      let alongRod = dot(state.acceleration, rodAxis);
+      if (alongRod < 0 && dot(state.velocity, rodAxis) <= 0) {
+        alongRod = 0;
+      }
+      state.acceleration = scale(rodAxis, alongRod);
+    }
+  }
+
+  /**
+   * Six-degree-of-freedom accelerations: thrust along the body axis,
+   * aerodynamic drag and normal force relative to the wind, and the
+   * restoring/damping moments that rotate the rocket about its CG.
+   */
+  private calculateRigidBodyAccelerations(
+    state: any,
+    forces: any,
+    config: RocketConfig,
+    weather: WeatherConditions,
+    phase: FlightPhase,
+    time: number
+  ) {
+    const axis = rotateToWorld(state.orientation, BODY_AXIS);
+    const airVelocity = forces.airVelocity;
+    const airDensity = this.calculateAirDensity(state.position.y);
+    const airspeed = magnitude(airVelocity);
+    const stack = stackAt(config, time);
+    const aerodynamics = calculateCenterOfPressure(stack);
+    const massProperties = this.calculateMassPropertiesAt(config, time);
+
+    const loads = calculateAerodynamicLoads(
+      state.orientation,
+      airVelocity,
+      rotateToWorld(state.orientation, state.angularVelocity),
+      {
+        dynamicPressure: 0.5 * airDensity * airspeed ** 2,
+        referenceArea: Math.PI * (config.body.diameter / 2) ** 2,
+        dragCoefficient: this.getDragCoefficient(stack, airspeed, state.position.y, forces.thrust > 0),
+        normalForceSlope: aerodynamics.normalForceSlope,
+        stabilityArm: aerodynamics.centerOfPressure - massProperties.centerOfGravity,
+        airDensity
+      }
+    );
+    forces.drag = loads.drag;
+
+    const netForce = add(add(scale(axis, forces.thrust), loads.force), vec(0, -forces.weight, 0));
+    let acceleration = scale(netForce, 1 / state.mass);
+
+    if (state.onLaunchRod) {
+      if (this.distanceAlongRod(state) >= state.launchRodLength) {
         state.onLaunchRod = false;
       } else {
-        // Constrain motion along launch rod
-        const rodAngle = state.launchAngle;
-        state.acceleration.x = state.acceleration.y * Math.sin(rodAngle);
-        state.acceleration.y = state.acceleration.y * Math.cos(rodAngle);
+        // Constrain motion along the rod; the pad holds the rocket until thrust exceeds weight
+        let alongRod = dot(acceleration, axis);
+        if (alongRod < 0 && dot(state.velocity, axis) <= 0) {
+          alongRod = 0;
+        }
+        acceleration = scale(axis, alongRod);
+      }
+    }
+
+    state.acceleration = acceleration;
+    state.angleOfAttack = loads.angleOfAttack;
+
+    if (state.onLaunchRod) {
+      state.angularAcceleration = { x: 0, y: 0, z: 0 };
+    } else {
+      state.angularAcceleration = angularAcceleration(
+        state.angularVelocity,
+        rotateToBody(state.orientation, loads.moment),
+        massProperties.transverseInertia,
+        massProperties.longitudinalInertia
+      );
+    }
+  }
+
+  /**
+   * Descent under a recovery device: body and recovery drag oppose the motion
+   * through the air, so the rocket drifts with the wind. Attitude is held.
+   */
+  private calculateDescentAccelerations(
+    state: any,
+    forces: any,
+    config: RocketConfig,
+    weather: WeatherConditions,
+    time: number
+  ) {
+    const airVelocity = forces.airVelocity;
+    const airspeed = magnitude(airVelocity);
+    const airDensity = this.calculateAirDensity(state.position.y);
+
+    forces.drag = 0.5 * airDensity * airspeed ** 2 *
+      this.getDragCoefficient(stackAt(config, time), airspeed, state.position.y, false) * Math.PI * (config.body.diameter / 2) ** 2;
+
+    const dragDirection = airspeed > 0 ? scale(airVelocity, -1 / airspeed) : ZERO_VECTOR;
+    const netForce = add(scale(dragDirection, forces.drag + forces.recoveryDrag), vec(0, -forces.weight, 0));
+
+    state.acceleration = scale(netForce, 1 / state.mass);
+    state.angularAcceleration = { x: 0, y: 0, z: 0 };
+    state.angleOfAttack = 0;
+  }
+
+  /**
+   * Advance the state from `startTime` to `endTime` with the configured integrator.
+   * Steps stop exactly at every ignition, burnout, stage separation and the
+   * ejection charge; rod clearance, apogee, the deployment altitude and ground
+   * hit are located between steps by root-finding and the integration restarts
+   * from there. Returns the landing time if the rocket hit the ground.
+   */
+  private advanceState(
+    state: any,
+    config: RocketConfig,
+    weather: WeatherConditions,
+    startTime: number,
+    endTime: number,
+    keyPoints: FlightKeyPoints
+  ): number | undefined {
+    const boundaries = [
+      startTime,
+      ...new Set(
+        this.scheduledEvents(config)
+          .map(event => event.time)
+          .filter(eventTime => eventTime > startTime && eventTime < endTime)
+      ),
+      endTime
+    ].sort((a, b) => a - b);
+
+    let time = startTime;
+    for (let i = 1; i < boundaries.length; i++) {
+      const segmentEnd = boundaries[i];
+
+      while (time < segmentEnd) {
+        const template = this.cloneState(state);
+        const derivative = (t: number, y: number[]) => this.calculateDerivatives(t, y, template, config, weather);
+        const startState = this.packState(state);
+        const stepStart = time;
+        const endState = this.integrator.advance(derivative, stepStart, startState, segmentEnd).state;
+
+        // Earliest state event inside the step
+        let next: { event: StateEvent; time: number; state: number[] } | undefined;
+        for (const event of this.stateEvents(state, config, keyPoints)) {
+          if (!eventOccurs(event.condition, startState, endState)) continue;
+
+          const root = findEventTime(
+            event.condition,
+            t => this.integrator.advance(derivative, stepStart, startState, t).state,
+            stepStart,
+            startState,
+            segmentEnd,
+            endState
+          );
+          if (!next || root.time < next.time) {
+            next = { event, ...root };
+          }
+        }
+
+        time = next ? next.time : segmentEnd;
+        this.unpackState(next ? next.state : endState, state);
+        state.mass = this.calculateMass(config, time);
+
+        if (next) {
+          next.event.apply?.(state);
+          if (next.event.type) {
+            this.recordEvent(keyPoints, next.event.type, time, state);
+          }
+          if (next.event.terminal) return time;
+        } else {
+          this.recordScheduledEvents(state, config, time, keyPoints);
+        }
+
+        this.deployRecovery(state, config, time, keyPoints);
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Ignition, burnout and separation of every stage and the ejection charge,
+   * in time order (burnout before separation before the next ignition)
+   */
+  private scheduledEvents(config: RocketConfig): ScheduledEvent[] {
+    const events: ScheduledEvent[] = [];
+
+    for (const timing of stageTimeline(config)) {
+      const stage = timing.stage + 1;
+      events.push({ type: FlightEventType.IGNITION, time: timing.ignition, stage });
+      events.push({ type: FlightEventType.BURNOUT, time: timing.burnout, stage });
+      if (timing.separation !== undefined) {
+        events.push({ type: FlightEventType.STAGE_SEPARATION, time: timing.separation, stage });
+      }
+    }
+
+    const ejection = ejectionTime(config);
+    if (ejection !== undefined) {
+      events.push({ type: FlightEventType.EJECTION, time: ejection });
+    }
+
+    const order = [
+      FlightEventType.BURNOUT,
+      FlightEventType.STAGE_SEPARATION,
+      FlightEventType.IGNITION,
+      FlightEventType.EJECTION
+    ];
+    return events.sort((a, b) => a.time - b.time || order.indexOf(a.type) - order.indexOf(b.type));
+  }
+
+  /**
+   * Record the scheduled events that happen at exactly `time`
+   */
+  private recordScheduledEvents(state: any, config: RocketConfig, time: number, keyPoints: FlightKeyPoints) {
+    for (const event of this.scheduledEvents(config)) {
+      if (event.time !== time) continue;
+
+      this.recordEvent(keyPoints, event.type, time, state, { stage: event.stage });
+
+      if (event.type === FlightEventType.STAGE_SEPARATION) {
+        keyPoints.staging.push({
+          stage: event.stage!,
+          time,
+          altitude: state.position.y,
+          velocity: magnitude(state.velocity),
+          mass: spentStageMass(config.stages![event.stage! - 1])
+        });
+      }
+    }
+  }
+
+  /**
+   * State events still to come: each one fires once
+   */
+  private stateEvents(state: any, config: RocketConfig, keyPoints: FlightKeyPoints): StateEvent[] {
+    const events: StateEvent[] = [];
+    const apogeeReached = this.findEvent(keyPoints, FlightEventType.APOGEE) !== undefined;
+
+    if (state.onLaunchRod) {
+      events.push({
+        type: FlightEventType.LAUNCH_ROD_CLEARANCE,
+        condition: y => Math.hypot(y[0], y[1], y[2]) - state.launchRodLength,
+        apply: cleared => { cleared.onLaunchRod = false; }
+      });
+    }
+
+    if (!apogeeReached && state.velocity.y > 0) {
+      events.push({ type: FlightEventType.APOGEE, condition: y => -y[4] });
+    }
+
+    // Altimeter deployment on the way down
+    const altimeterDeployment = config.recovery.type === RecoveryType.DUAL_DEPLOY || ejectionTime(config) === undefined;
+    if (apogeeReached && altimeterDeployment && state.deployments.main === undefined) {
+      events.push({ condition: y => config.recovery.deploymentAltitude - y[1] });
+    }
+
+    if (state.position.y > 0) {
+      events.push({
+        type: FlightEventType.GROUND_HIT,
+        condition: y => -y[1],
+        terminal: true,
+        apply: landed => { landed.position = vec(landed.position.x, 0, landed.position.z); }
+      });
+    }
+
+    return events;
+  }
+
+  /**
+   * Rough share of the flight simulated so far: the time left to apogee from
+   * the climb rate on the way up, the time left to the ground from the sink
+   * rate on the way down
+   */
+  private estimateProgress(state: any, time: number, keyPoints: FlightKeyPoints): number {
+    const apogee = this.findEvent(keyPoints, FlightEventType.APOGEE);
+    if (!apogee) {
+      const toApogee = Math.max(0, state.velocity.y) / SimulationEngine.GRAVITY;
+      return (0.5 * time) / (time + toApogee);
+    }
+
+    const descending = time - apogee.time;
+    const toGround = state.position.y / Math.max(Math.abs(state.velocity.y), 1);
+    return 0.5 + (0.5 * descending) / (descending + toGround || 1);
+  }
+
+  /**
+   * Add an event to the flight timeline
+   */
+  private recordEvent(
+    keyPoints: FlightKeyPoints,
+    type: FlightEventType,
+    time: number,
+    state: any,
+    details: Pick<FlightEvent, 'stage' | 'device'> = {}
+  ) {
+    keyPoints.events.push({
+      type,
+      time,
+      altitude: state.position.y,
+      velocity: magnitude(state.velocity),
+      position: { ...state.position },
+      ...details
+    });
+  }
+
+  /**
+   * Last event of a type in the timeline
+   */
+  private findEvent(keyPoints: FlightKeyPoints, type: FlightEventType): FlightEvent | undefined {
+    return [...keyPoints.events].reverse().find(event => event.type === type);
+  }
+
+  /**
+   * Open recovery devices whose deployment condition has been reached: the motor
+   * ejection charge when there is one, otherwise an altimeter (drogue at apogee,
+   * main or single device at the deployment altitude on the way down)
+   */
+  private deployRecovery(
+    state: any,
+    config: RocketConfig,
+    time: number,
+    keyPoints: FlightKeyPoints
+  ) {
+    const ejection = ejectionTime(config);
+    const ejectionFired = ejection !== undefined && time >= ejection;
+    const apogeeReached = this.findEvent(keyPoints, FlightEventType.APOGEE) !== undefined;
+    const belowDeploymentAltitude = apogeeReached &&
+      state.position.y <= config.recovery.deploymentAltitude;
+
+    const open = (device: RecoveryDevice) => {
+      const airVelocity = subtract(state.velocity, this.wind.velocityAt(state.position.y, time));
+      state.deployments[device] = time;
+      state.angularVelocity = { x: 0, y: 0, z: 0 };
+      keyPoints[device] = {
+        time,
+        altitude: state.position.y,
+        airspeed: magnitude(airVelocity),
+        descentRate: Math.max(0, -state.velocity.y),
+        position: { ...state.position }
+      };
+      this.recordEvent(keyPoints, FlightEventType.DEPLOYMENT, time, state, { device });
+    };
+
+    if (config.recovery.type === RecoveryType.DUAL_DEPLOY) {
+      if (state.deployments.drogue === undefined && (ejection !== undefined ? ejectionFired : apogeeReached)) {
+        open('drogue');
+      }
+      if (state.deployments.main === undefined && belowDeploymentAltitude) {
+        open('main');
       }
+    } else if (state.deployments.main === undefined && (ejection !== undefined ? ejectionFired : belowDeploymentAltitude)) {
+      open('main');
+    }
+  }
+
+  /**
+   * Whether any recovery device has opened
+   */
+  private isRecoveryDeployed(state: any): boolean {
+    return state.deployments.drogue !== undefined || state.deployments.main !== undefined;
+  }
+
+  /**
+   * State derivative for the integrator: d/dt [position, velocity, orientation, angular velocity]
+   */
+  private calculateDerivatives(
+    time: number,
+    vector: number[],
+    template: any,
+    config: RocketConfig,
+    weather: WeatherConditions
+  ): number[] {
+    const state = this.unpackState(vector, this.cloneState(template));
+    state.mass = this.calculateMass(config, time);
+
+    const phase = this.burnPhase(time, config) ?? FlightPhase.COAST;
+    const forces = this.calculateForces(state, config, weather, phase, time);
+    this.calculateAccelerations(state, forces, config, weather, phase, time);
+
+    const derivative = [
+      state.velocity.x, state.velocity.y, state.velocity.z,
+      state.acceleration.x, state.acceleration.y, state.acceleration.z
+    ];
+
+    if (this.flightModel === FlightModel.SIX_DOF) {
+      const rate = quaternionDerivative(state.orientation, state.angularVelocity);
+      derivative.push(
+        rate.w, rate.x, rate.y, rate.z,
+        state.angularAcceleration.x, state.angularAcceleration.y, state.angularAcceleration.z
+      );
     }
 
-    // Euler integration (simple but stable for this use case)
-    state.velocity.x += state.acceleration.x * dt;
-    state.velocity.y += state.acceleration.y * dt;
-    state.velocity.z += state.acceleration.z * dt;
+    return derivative;
+  }
 
-    state.position.x += state.velocity.x * dt;
-    state.position.y += state.velocity.y * dt;
-    state.position.z += state.velocity.z * dt;
+  /**
+   * Flatten the integrated part of the state into a vector
+   */
+  private packState(state: any): number[] {
+    const vector = [
+      state.position.x, state.position.y, state.position.z,
+      state.velocity.x, state.velocity.y, state.velocity.z
+    ];
+
+    if (this.flightModel === FlightModel.SIX_DOF) {
+      vector.push(
+        state.orientation.w, state.orientation.x, state.orientation.y, state.orientation.z,
+        state.angularVelocity.x, state.angularVelocity.y, state.angularVelocity.z
+      );
+    }
+
+    return vector;
+  }
+
+  /**
+   * Write an integrated state vector back into a state object
+   */
+  private unpackState(vector: number[], state: any): any {
+    state.position = vec(vector[0], vector[1], vector[2]);
+    state.velocity = vec(vector[3], vector[4], vector[5]);
+
+    if (this.flightModel === FlightModel.SIX_DOF) {
+      state.orientation = quaternionNormalize({ w: vector[6], x: vector[7], y: vector[8], z: vector[9] });
+      state.angularVelocity = vec(vector[10], vector[11], vector[12]);
+    }
+
+    return state;
+  }
+
+  /**
+   * Shallow copy of the state with its vectors duplicated
+   */
+  private cloneState(state: any): any {
+    return {
+      ...state,
+      position: { ...state.position },
+      velocity: { ...state.velocity },
+      acceleration: { ...state.acceleration },
+      orientation: { ...state.orientation },
+      angularVelocity: { ...state.angularVelocity },
+      angularAcceleration: { ...state.angularAcceleration },
+      deployments: { ...state.deployments }
+    };
+  }
+
+  /**
+   * Distance travelled along the launch rod
+   */
+  private distanceAlongRod(state: any): number {
+    return Math.sqrt(dot(state.position, state.position));
+  }
+
+  /**
+   * Build a telemetry sample from the current state
+   */
+  private createTelemetryPoint(
+    time: number,
+    state: any,
+    forces: any,
+    weather: WeatherConditions,
+    phase: FlightPhase
+  ): TrajectoryPoint {
+    const telemetryPoint: TrajectoryPoint = {
+      time,
+      position: { ...state.position },
+      velocity: { ...state.velocity },
+      acceleration: { ...state.acceleration },
+      mass: state.mass,
+      thrust: forces.thrust,
+      drag: forces.drag + (forces.recoveryDrag || 0),
+      wind: { ...forces.wind },
+      machNumber: this.calculateMachNumber(forces.airVelocity, state.position.y),
+      altitude: state.position.y,
+      phase
+    };
+
+    if (this.flightModel === FlightModel.SIX_DOF) {
+      telemetryPoint.orientation = { ...state.orientation };
+      telemetryPoint.angularVelocity = { ...state.angularVelocity };
+      telemetryPoint.angleOfAttack = (state.angleOfAttack * 180) / Math.PI;
+    }
+
+    return telemetryPoint;
   }
 
   /**
    * Determine current flight phase
    */
   private determineFlightPhase(time: number, state: any, config: RocketConfig): FlightPhase {
-    if (time === 0) return FlightPhase.PRELAUNCH;
-    if (time <= config.engine.burnTime) return FlightPhase.BOOST;
-    if (state.velocity.y > 0) return FlightPhase.COAST;
-    if (!state.parachuteDeployed && state.position.y >= config.recovery.deploymentAltitude) {
-      state.parachuteDeployed = true;
-      return FlightPhase.RECOVERY;
-    }
-    if (state.parachuteDeployed || state.velocity.y < 0) return FlightPhase.RECOVERY;
+    const burnPhase = this.burnPhase(time, config);
+    if (burnPhase) return burnPhase;
+    if (this.isRecoveryDeployed(state)) return FlightPhase.RECOVERY;
     if (state.position.y <= 0) return FlightPhase.LANDING;
     
     return FlightPhase.COAST;
   }
 
   /**
-   * Calculate air density at altitude
+   * Powered phase until the last motor burns out: boost on the first stage,
+   * sustain on later stages and staging while waiting for the next ignition
    */
-  private calculateAirDensity(altitude: number, weather: WeatherConditions): number {
-    const temperature = weather.temperature + 273.15; // Convert to Kelvin
-    const temperatureAtAltitude = temperature - SimulationEngine.TEMPERATURE_LAPSE_RATE * altitude;
-    const pressureRatio = Math.pow(temperatureAtAltitude / temperature, 5.256);
-    const densityRatio = Math.pow(temperatureAtAltitude / temperature, 4.256);
-    
-    return SimulationEngine.AIR_DENSITY_SEA_LEVEL * densityRatio;
+  private burnPhase(time: number, config: RocketConfig): FlightPhase | undefined {
+    if (time > finalBurnoutTime(config)) return undefined;
+
+    const stage = firingStage(config, time);
+    if (!stage) return FlightPhase.STAGING;
+    return stage.stage === 0 ? FlightPhase.BOOST : FlightPhase.SUSTAIN;
+  }
+
+  /**
+   * Drag coefficient from the component buildup at the current airspeed
+   */
+  private getDragCoefficient(config: RocketConfig, airspeed: number, altitude: number, thrusting: boolean): number {
+    return calculateDragCoefficient(config, {
+      mach: this.calculateMachNumber({ x: airspeed, y: 0, z: 0 }, altitude),
+      velocity: airspeed,
+      kinematicViscosity: this.atmosphere.at(altitude).kinematicViscosity,
+      thrusting
+    });
+  }
+
+  /**
+   * Air density at an altitude (m AGL)
+   */
+  private calculateAirDensity(altitude: number): number {
+    return this.atmosphere.at(altitude).density;
   }
 
   /**
-   * Calculate Mach number
+   * Mach number of a velocity relative to the air, from the local speed of sound
    */
-  private calculateMachNumber(velocity: any, weather: WeatherConditions): number {
-    const temperature = weather.temperature + 273.15; // Kelvin
-    const speedOfSound = Math.sqrt(1.4 * SimulationEngine.GAS_CONSTANT * temperature);
+  private calculateMachNumber(velocity: any, altitude: number): number {
     const totalVelocity = Math.sqrt(velocity.x ** 2 + velocity.y ** 2 + velocity.z ** 2);
-    
-    return totalVelocity / speedOfSound;
+    return totalVelocity / this.atmosphere.at(altitude).speedOfSound;
+  }
+
+  /**
+   * Rocket mass at a point in time. Propellant burns in proportion to the
+   * impulse delivered so far (a constant rate without a thrust curve) and
+   * spent stages drop away at separation.
+   */
+  private calculateMass(config: RocketConfig, time: number): number {
+    return this.calculateMassPropertiesAt(config, time).mass;
   }
 
   /**
    * Calculate total rocket mass
    */
   private calculateTotalMass(config: RocketConfig): number {
-    return (
-      config.body.mass +
-      config.noseCone.mass +
-      config.fins.mass +
-      config.engine.totalMass +
-      config.recovery.mass
-    );
+    return calculateMassProperties(config).mass;
   }
 
   /**
@@ -279,9 +947,9 @@ export class SimulationEngine {
       });
     }
 
-    // Check thrust-to-weight ratio
+    // Check thrust-to-weight ratio (the first stage lifts the whole stack)
     const totalMass = this.calculateTotalMass(config);
-    const thrustToWeight = config.engine.thrust / (totalMass * SimulationEngine.GRAVITY);
+    const thrustToWeight = liftoffThrust(config) / (totalMass * SimulationEngine.GRAVITY);
     
     if (thrustToWeight < 5) {
       issues.push({
@@ -293,7 +961,7 @@ export class SimulationEngine {
     }
 
     // Check for unrealistic values
-    if (config.engine.thrust <= 0) {
+    if (stageMotors(config).some(motors => motors.some(motor => motor.thrust <= 0))) {
       issues.push({
         type: 'error',
         code: 'INVALID_THRUST',
@@ -315,25 +983,38 @@ export class SimulationEngine {
   }
 
   /**
-   * Calculate stability margin (simplified Barrowman method)
+   * Calculate stability margin in calibers (Barrowman center of pressure)
    */
   private calculateStabilityMargin(config: RocketConfig): number {
-    // This is a simplified calculation - real implementation would be more complex
-    const bodyLength = config.body.length;
-    const noseConeLength = config.noseCone.length;
-    const finRootChord = config.fins.rootChord;
-    const finSpan = config.fins.span;
-
-    // Center of pressure (approximate)
-    const centerOfPressure = bodyLength * 0.7 + finRootChord * 0.5;
-    
-    // Center of gravity (approximate)
-    const centerOfGravity = bodyLength * 0.4; // Simplified
+    return this.analyzeStability(config).stabilityMargin;
+  }
 
-    // Stability margin in calibers
-    const stabilityMargin = (centerOfPressure - centerOfGravity) / config.body.diameter;
+  /**
+   * Center of pressure, center of gravity and stability margin with a
+   * per-component breakdown
+   */
+  private analyzeStability(config: RocketConfig): StabilityAnalysis {
+    const aerodynamics = calculateCenterOfPressure(config);
+    const centerOfGravity = calculateMassProperties(config).centerOfGravity;
+
+    return {
+      ...aerodynamics,
+      centerOfGravity,
+      stabilityMargin: (aerodynamics.centerOfPressure - centerOfGravity) / config.body.diameter
+    };
+  }
 
-    return stabilityMargin;
+  /**
+   * Mass properties of the stages still attached, with their unburned propellant
+   */
+  private calculateMassPropertiesAt(config: RocketConfig, time: number): MassProperties {
+    const remaining = propellantRemaining(config, time);
+    const attached = attachedStageIndexes(config, time);
+    return calculateMassProperties(
+      stackAt(config, time),
+      remaining.upperStage,
+      attached.map(index => remaining.stages[index])
+    );
   }
 
   /**
@@ -366,8 +1047,8 @@ export class SimulationEngine {
       });
     }
 
-    // Check for negative altitude (ground impact)
-    if (state.position.y < 0) {
+    // Check for ground impact
+    if (phase === FlightPhase.LANDING || state.position.y < 0) {
       issues.push({
         type: 'info',
         code: 'GROUND_IMPACT',
@@ -380,16 +1061,105 @@ export class SimulationEngine {
     return issues;
   }
 
+  /**
+   * Rail exit speed check: too slow and the wind turns the rocket before the fins can hold it
+   */
+  private checkRailExit(keyPoints: FlightKeyPoints): FlightIssue[] {
+    const railExit = this.findEvent(keyPoints, FlightEventType.LAUNCH_ROD_CLEARANCE);
+    if (!railExit) {
+      return [];
+    }
+
+    const windSpeed = this.wind.speedAt(railExit.altitude);
+    const required = requiredRailExitVelocity(windSpeed, this.minRailExitVelocity);
+    if (railExit.velocity >= required) {
+      return [];
+    }
+
+    return [{
+      type: 'error',
+      code: 'LOW_RAIL_EXIT_VELOCITY',
+      message: `Left the launch rod at ${railExit.velocity.toFixed(1)} m/s, needs ${required.toFixed(1)} m/s in ${windSpeed.toFixed(1)} m/s wind (use a longer rod or a stronger motor)`,
+      time: railExit.time,
+      severity: 8
+    }];
+  }
+
+  /**
+   * Recovery safety checks once the flight is over
+   */
+  private checkRecovery(telemetry: TrajectoryPoint[], keyPoints: FlightKeyPoints): FlightIssue[] {
+    const issues: FlightIssue[] = [];
+    const landing = telemetry[telemetry.length - 1];
+    if (!landing || landing.phase !== FlightPhase.LANDING) {
+      return issues;
+    }
+
+    const firstDeployment = this.firstDeployment(keyPoints);
+    if (!firstDeployment) {
+      issues.push({
+        type: 'error',
+        code: 'NO_RECOVERY_DEPLOYMENT',
+        message: 'Recovery system did not deploy before impact',
+        time: landing.time,
+        severity: 10
+      });
+      return issues;
+    }
+
+    if (firstDeployment.airspeed > SAFE_DEPLOYMENT_VELOCITY) {
+      issues.push({
+        type: 'warning',
+        code: 'HIGH_DEPLOYMENT_VELOCITY',
+        message: `Recovery deployed at ${firstDeployment.airspeed.toFixed(1)} m/s (check the ejection delay)`,
+        time: firstDeployment.time,
+        severity: 6
+      });
+    }
+
+    const descentRate = Math.abs(landing.velocity.y);
+    if (descentRate > SAFE_DESCENT_RATE) {
+      issues.push({
+        type: 'warning',
+        code: 'HIGH_DESCENT_RATE',
+        message: `High descent rate: ${descentRate.toFixed(1)} m/s at landing`,
+        time: landing.time,
+        severity: 7
+      });
+    }
+
+    return issues;
+  }
+
+  /**
+   * Earliest recovery deployment
+   */
+  private firstDeployment(keyPoints: FlightKeyPoints): DeploymentPoint | undefined {
+    return [keyPoints.drogue, keyPoints.main]
+      .filter((point): point is DeploymentPoint => point !== undefined)
+      .sort((a, b) => a.time - b.time)[0];
+  }
+
   /**
    * Calculate final flight results
    */
-  private calculateResults(telemetry: TrajectoryPoint[], issues: FlightIssue[], config: RocketConfig): FlightResults {
+  private calculateResults(
+    telemetry: TrajectoryPoint[],
+    issues: FlightIssue[],
+    config: RocketConfig,
+    keyPoints: FlightKeyPoints = { events: [], staging: [] }
+  ): FlightResults {
     if (telemetry.length === 0) {
       return this.createFailedResults(issues);
     }
 
-    // Find key metrics
-    const maxAltitude = Math.max(...telemetry.map(p => p.altitude));
+    // Key moments come from the event timeline
+    const burnout = this.findEvent(keyPoints, FlightEventType.BURNOUT);
+    const railExit = this.findEvent(keyPoints, FlightEventType.LAUNCH_ROD_CLEARANCE);
+    const apogee = this.findEvent(keyPoints, FlightEventType.APOGEE);
+    const deployment = keyPoints.events.find(event => event.type === FlightEventType.DEPLOYMENT);
+
+    const maxAltitude = Math.max(...telemetry.map(p => p.altitude), apogee?.altitude ?? 0);
     const maxVelocity = Math.max(...telemetry.map(p => 
       Math.sqrt(p.velocity.x ** 2 + p.velocity.y ** 2 + p.velocity.z ** 2)
     ));
@@ -398,16 +1168,10 @@ export class SimulationEngine {
     ));
 
     const flightTime = telemetry[telemetry.length - 1].time;
-    const burnoutPoint = telemetry.find(p => p.phase !== FlightPhase.BOOST);
-    const apogeePoint = telemetry.find(p => p.velocity.y <= 0);
-    const recoveryPoint = telemetry.find(p => p.phase === FlightPhase.RECOVERY);
-
-    const burnoutAltitude = burnoutPoint?.altitude || 0;
-    const burnoutVelocity = burnoutPoint ? 
-      Math.sqrt(burnoutPoint.velocity.x ** 2 + burnoutPoint.velocity.y ** 2 + burnoutPoint.velocity.z ** 2) : 0;
-    
-    const apogeeTime = apogeePoint?.time || 0;
-    const recoveryTime = recoveryPoint?.time || flightTime;
+    const burnoutAltitude = burnout?.altitude ?? 0;
+    const burnoutVelocity = burnout?.velocity ?? 0;
+    const apogeeTime = apogee?.time ?? 0;
+    const recoveryTime = deployment?.time ?? flightTime;
 
     const finalPoint = telemetry[telemetry.length - 1];
     const landingDistance = Math.sqrt(finalPoint.position.x ** 2 + finalPoint.position.z ** 2);
@@ -415,10 +1179,18 @@ export class SimulationEngine {
     const maxMachNumber = Math.max(...telemetry.map(p => p.machNumber));
     const maxDynamicPressure = Math.max(...telemetry.map(p => {
       const velocity = Math.sqrt(p.velocity.x ** 2 + p.velocity.y ** 2 + p.velocity.z ** 2);
-      const airDensity = this.calculateAirDensity(p.altitude, { temperature: 20, pressure: 101325, humidity: 50, windSpeed: 0, windDirection: 0 });
+      const airDensity = this.calculateAirDensity(p.altitude);
       return 0.5 * airDensity * velocity ** 2;
     }));
 
+    const firstDeployment = this.firstDeployment(keyPoints);
+    const driftDistance = firstDeployment
+      ? Math.sqrt(
+        (finalPoint.position.x - firstDeployment.position.x) ** 2 +
+        (finalPoint.position.z - firstDeployment.position.z) ** 2
+      )
+      : 0;
+
     const stabilityMargin = this.calculateStabilityMargin(config);
     const successful = !issues.some(issue => issue.type === 'error');
 
@@ -452,9 +1224,17 @@ export class SimulationEngine {
       apogeeTime,
       recoveryTime,
       landingDistance,
+      railExitVelocity: railExit?.velocity,
+      railExitTime: railExit?.time,
       maxMachNumber,
       maxDynamicPressure,
       stabilityMargin,
+      dragCurve: calculateDragCurve(config),
+      deploymentVelocity: firstDeployment?.airspeed ?? 0,
+      drogueDescentRate: keyPoints.drogue && keyPoints.main ? keyPoints.main.descentRate : undefined,
+      descentRate: Math.abs(finalPoint.velocity.y),
+      driftDistance,
+      stagingEvents: keyPoints.staging.length > 0 ? keyPoints.staging : undefined,
       successful,
       issues,
       score
@@ -478,6 +1258,9 @@ export class SimulationEngine {
       maxMachNumber: 0,
       maxDynamicPressure: 0,
       stabilityMargin: 0,
+      deploymentVelocity: 0,
+      descentRate: 0,
+      driftDistance: 0,
       successful: false,
       issues,
       score: 0
@@ -497,29 +1280,70 @@ export class SimulationEngine {
   /**
    * Static method for quick performance estimation (without full simulation)
    */
-  static estimatePerformance(config: RocketConfig): {
+  static estimatePerformance(
+    config: RocketConfig,
+    minRailExitVelocity: number = DEFAULT_MIN_RAIL_EXIT_VELOCITY
+  ): {
     estimatedAltitude: number;
     estimatedVelocity: number;
     thrustToWeight: number;
     stabilityMargin: number;
+    stability: StabilityAnalysis;
+    massProperties: { launch: MassProperties; burnout: MassProperties };
+    railExit: RailExitEstimate;
   } {
     const engine = new SimulationEngine();
     const totalMass = engine.calculateTotalMass(config);
-    const thrustToWeight = config.engine.thrust / (totalMass * SimulationEngine.GRAVITY);
-    const stabilityMargin = engine.calculateStabilityMargin(config);
+    const thrustToWeight = liftoffThrust(config) / (totalMass * SimulationEngine.GRAVITY);
+    const stability = engine.analyzeStability(config);
+    const stabilityMargin = stability.stabilityMargin;
 
-    // Simplified altitude estimation using rocket equation
-    const deltaV = config.engine.specificImpulse * SimulationEngine.GRAVITY * 
-      Math.log(totalMass / (totalMass - config.engine.propellantMass));
+    // Simplified altitude estimation using the rocket equation for each stage in turn
+    const stages = config.stages ?? [];
+    let stackMass = totalMass;
+    const deltaV = stageMotors(config).reduce((sum, motors, index) => {
+      const propellant = motorPropellantMass(motors);
+      const specificImpulse = motors.reduce(
+        (weighted, motor) => weighted + motor.specificImpulse * motor.propellantMass * (motor.count ?? 1),
+        0
+      ) / propellant;
+      const stageDeltaV = specificImpulse * SimulationEngine.GRAVITY * Math.log(stackMass / (stackMass - propellant));
+      stackMass -= propellant + (index < stages.length ? spentStageMass(stages[index]) : 0);
+      return sum + stageDeltaV;
+    }, 0);
     
     const estimatedVelocity = deltaV * 0.7; // Account for drag and gravity losses
     const estimatedAltitude = (estimatedVelocity ** 2) / (2 * SimulationEngine.GRAVITY);
 
+    // Speed off the rod against what the forecast wind calls for
+    const rodLength = config.launch.launchRodLength;
+    const exit = estimateRailExit(config, rodLength);
+    const requiredVelocity = requiredRailExitVelocity(config.launch.windSpeed ?? 0, minRailExitVelocity);
+
     return {
       estimatedAltitude,
       estimatedVelocity,
       thrustToWeight,
-      stabilityMargin
+      stabilityMargin,
+      stability,
+      massProperties: {
+        launch: calculateMassProperties(config),
+        burnout: engine.calculateMassPropertiesAt(config, finalBurnoutTime(config))
+      },
+      railExit: {
+        rodLength,
+        velocity: exit?.velocity ?? 0,
+        time: exit?.time,
+        requiredVelocity,
+        suggestedRodLength: minimumRodLength(config, requiredVelocity)
+      }
     };
   }
+
+  /**
+   * Static stability analysis (center of pressure, center of gravity and margin)
+   */
+  static analyzeStability(config: RocketConfig): StabilityAnalysis {
+    return new SimulationEngine().analyzeStability(config);
+  }
 }
@@ -0,0 +1,58 @@
+/**
+ * Simulation Runner
+ *
+ * Where a launch gets its flight simulated: `runSimulation` works on the
+ * calling thread, `createWorkerRunner` on a pool of worker threads so that
+ * long flights do not hold up other requests.
+ */
+
+import path from 'path';
+import {
+  RocketConfig,
+  WeatherConditions,
+  LaunchOptions,
+  FlightResults,
+  TrajectoryPoint,
+  FlightEvent,
+  SimulationProgress
+} from '../../../shared/types/rocket';
+import { SimulationEngine } from './simulation.engine';
+import { WorkerPool } from '../../../infrastructure/queue/worker.pool';
+
+export interface SimulationInput {
+  config: RocketConfig;
+  weather: WeatherConditions;
+  launchOptions: LaunchOptions;
+}
+
+export interface SimulationOutput {
+  results: FlightResults;
+  telemetry: TrajectoryPoint[];
+  events: FlightEvent[];
+}
+
+export type SimulationRunner = (
+  input: SimulationInput,
+  onProgress?: (progress: SimulationProgress) => void
+) => Promise<SimulationOutput>;
+
+// Compiled and source trees both keep the worker next to this directory
+const WORKER_SCRIPT = path.join(__dirname, '../workers', `simulation.worker${path.extname(__filename)}`);
+
+/**
+ * Simulate on the calling thread
+ */
+export function runSimulation(
+  input: SimulationInput,
+  onProgress?: (progress: SimulationProgress) => void
+): Promise<SimulationOutput> {
+  return new SimulationEngine(input.launchOptions).simulate(input.config, input.weather, input.launchOptions, onProgress);
+}
+
+/**
+ * Simulate on worker threads, `size` flights at a time (one less than the CPU count by default)
+ */
+export function createWorkerRunner(size?: number): SimulationRunner {
+  const pool = new WorkerPool<SimulationInput, SimulationOutput, SimulationProgress>(WORKER_SCRIPT, size);
+  return (input, onProgress) => pool.run(input, onProgress);
+}
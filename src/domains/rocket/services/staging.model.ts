@@ -0,0 +1,233 @@
+/**
+ * Staging Model
+ *
+ * Timing and layout of multi-stage and clustered rockets. Booster `stages`
+ * hang below the airframe described by the rest of the RocketConfig (the
+ * upper stage) and fire in order: the first stage lights at launch, each
+ * later stage `ignitionDelay` seconds after the one below burns out, and a
+ * spent stage drops away `separationDelay` seconds after its own burnout.
+ * Every motor mount may hold a cluster of `count` identical motors and a
+ * stage may mix several mounts; all motors of a stage light together.
+ */
+
+import { RocketConfig, MotorConfig, StageConfig } from '../../../shared/types/rocket';
+import { thrustAt, impulseUpTo, summarizeThrustCurve } from './thrust.curve';
+
+export interface StageTiming {
+  stage: number; // firing order; the upper stage is last
+  ignition: number; // s
+  burnout: number; // s
+  separation?: number; // s, undefined for the upper stage
+}
+
+export interface FinSet {
+  name: string;
+  fins: RocketConfig['fins'];
+  aftEnd: number; // m aft of the nose tip
+}
+
+export interface PropellantRemaining {
+  upperStage: number; // kg
+  stages: number[]; // kg per booster stage
+}
+
+/**
+ * Number of motors in a mount
+ */
+export function motorCount(motor: MotorConfig): number {
+  return motor.count ?? 1;
+}
+
+/**
+ * Loaded propellant (kg) of a cluster of motors
+ */
+export function motorPropellantMass(motors: MotorConfig[]): number {
+  return motors.reduce((sum, motor) => sum + motor.propellantMass * motorCount(motor), 0);
+}
+
+/**
+ * Loaded mass (kg) of a cluster of motors
+ */
+export function motorTotalMass(motors: MotorConfig[]): number {
+  return motors.reduce((sum, motor) => sum + motor.totalMass * motorCount(motor), 0);
+}
+
+/**
+ * Mass (kg) of a burned-out booster stage dropping away at separation
+ */
+export function spentStageMass(stage: StageConfig): number {
+  return stage.body.mass + (stage.fins?.mass ?? 0) + motorTotalMass(stage.motors) - motorPropellantMass(stage.motors);
+}
+
+/**
+ * Motors of each stage in firing order, ending with the upper stage
+ */
+export function stageMotors(config: RocketConfig): MotorConfig[][] {
+  return [...(config.stages ?? []).map(stage => stage.motors), [config.engine]];
+}
+
+/**
+ * Ignition, burnout and separation times of every stage in firing order
+ */
+export function stageTimeline(config: RocketConfig): StageTiming[] {
+  const stages = config.stages ?? [];
+  const timeline: StageTiming[] = [];
+
+  stageMotors(config).forEach((motors, index) => {
+    const previous = timeline[index - 1];
+    const ignitionDelay = index < stages.length ? stages[index].ignitionDelay : config.engine.ignitionDelay;
+    const ignition = previous ? previous.burnout + (ignitionDelay ?? 0) : 0;
+    const burnout = ignition + Math.max(0, ...motors.map(motor => motor.burnTime));
+
+    timeline.push({
+      stage: index,
+      ignition,
+      burnout,
+      separation: index < stages.length ? burnout + (stages[index].separationDelay ?? 0) : undefined
+    });
+  });
+
+  return timeline;
+}
+
+/**
+ * Ignition time of the upper stage motor (0 for single-stage rockets)
+ */
+export function upperStageIgnitionTime(config: RocketConfig): number {
+  const timeline = stageTimeline(config);
+  return timeline[timeline.length - 1].ignition;
+}
+
+/**
+ * Burnout time of the last motor to fire
+ */
+export function finalBurnoutTime(config: RocketConfig): number {
+  const timeline = stageTimeline(config);
+  return timeline[timeline.length - 1].burnout;
+}
+
+/**
+ * Stage whose motors are firing at `time`, if any
+ */
+export function firingStage(config: RocketConfig, time: number): StageTiming | undefined {
+  return stageTimeline(config).find(timing => time >= timing.ignition && time <= timing.burnout);
+}
+
+/**
+ * Indexes of the booster stages still attached at `time`
+ */
+export function attachedStageIndexes(config: RocketConfig, time: number): number[] {
+  return stageTimeline(config)
+    .filter(timing => timing.separation !== undefined && time < timing.separation)
+    .map(timing => timing.stage);
+}
+
+/**
+ * The configuration still flying at `time`, with spent stages removed
+ */
+export function stackAt(config: RocketConfig, time: number): RocketConfig {
+  if (!config.stages?.length) return config;
+  return { ...config, stages: attachedStageIndexes(config, time).map(index => config.stages![index]) };
+}
+
+/**
+ * Combined thrust (N) of every firing motor
+ */
+export function totalThrust(config: RocketConfig, time: number): number {
+  const allMotors = stageMotors(config);
+
+  return stageTimeline(config).reduce((sum, timing) => {
+    const elapsed = time - timing.ignition;
+    return sum + allMotors[timing.stage].reduce((stageSum, motor) => stageSum + motorThrust(motor, elapsed), 0);
+  }, 0);
+}
+
+/**
+ * Average thrust (N) of the first stage, which has to lift the whole stack
+ */
+export function liftoffThrust(config: RocketConfig): number {
+  return stageMotors(config)[0].reduce((sum, motor) => sum + motor.thrust * motorCount(motor), 0);
+}
+
+/**
+ * Unburned propellant (kg) of the upper stage and each booster stage
+ */
+export function propellantRemaining(config: RocketConfig, time: number): PropellantRemaining {
+  const allMotors = stageMotors(config);
+  const remaining = stageTimeline(config).map(timing =>
+    allMotors[timing.stage].reduce(
+      (sum, motor) => sum + motor.propellantMass * motorCount(motor) * (1 - burnFraction(motor, time - timing.ignition)),
+      0
+    )
+  );
+
+  return {
+    upperStage: remaining[remaining.length - 1],
+    stages: remaining.slice(0, -1)
+  };
+}
+
+/**
+ * Length (m) of the body tubes from the nose shoulder to the aft end of the stack
+ */
+export function airframeLength(config: RocketConfig): number {
+  return config.body.length + (config.stages ?? []).reduce((sum, stage) => sum + stage.body.length, 0);
+}
+
+/**
+ * Aft end (m aft of the nose tip) of each booster stage. Stages stack
+ * downwards from the upper stage, so the first stage is at the bottom.
+ */
+export function stageAftPositions(config: RocketConfig): number[] {
+  const stages = config.stages ?? [];
+  const positions: number[] = new Array(stages.length);
+  let position = config.noseCone.length + config.body.length;
+
+  for (let i = stages.length - 1; i >= 0; i--) {
+    position += stages[i].body.length;
+    positions[i] = position;
+  }
+
+  return positions;
+}
+
+/**
+ * Motors at the very aft end of the stack, whose exhaust fills the base
+ */
+export function aftMotors(config: RocketConfig): MotorConfig[] {
+  return config.stages?.length ? config.stages[0].motors : [config.engine];
+}
+
+/**
+ * Fin sets with their aft end positions (m aft of the nose tip), upper stage first
+ */
+export function finSets(config: RocketConfig): FinSet[] {
+  const positions = stageAftPositions(config);
+  const sets: FinSet[] = [{ name: 'fins', fins: config.fins, aftEnd: config.noseCone.length + config.body.length }];
+
+  for (let i = (config.stages ?? []).length - 1; i >= 0; i--) {
+    const fins = config.stages![i].fins;
+    if (fins) {
+      sets.push({ name: `stage_${i + 1}_fins`, fins, aftEnd: positions[i] });
+    }
+  }
+
+  return sets;
+}
+
+function motorThrust(motor: MotorConfig, elapsed: number): number {
+  if (elapsed < 0 || elapsed > motor.burnTime) return 0;
+  const thrust = motor.thrustCurve ? thrustAt(motor.thrustCurve, elapsed) : motor.thrust;
+  return thrust * motorCount(motor);
+}
+
+/**
+ * Fraction of a motor's propellant burned: in proportion to the impulse
+ * delivered so far (a constant rate without a thrust curve)
+ */
+function burnFraction(motor: MotorConfig, elapsed: number): number {
+  if (elapsed <= 0) return 0;
+  return motor.thrustCurve
+    ? Math.min(1, impulseUpTo(motor.thrustCurve, elapsed) / summarizeThrustCurve(motor.thrustCurve).totalImpulse)
+    : Math.min(1, elapsed / motor.burnTime);
+}
@@ -0,0 +1,205 @@
+/**
+ * Telemetry Export
+ *
+ * Writes a simulation's telemetry out for spreadsheets and other tools, one
+ * line at a time so long flights can be streamed:
+ * - `csv`: a header row of column names with units, then one row per point
+ * - `jsonl`: a first line with the units, then one JSON object per point
+ * - `ork-csv`: the layout of OpenRocket's CSV export (`#` comment header with
+ *   OpenRocket's column names and units, flight events as comments)
+ */
+
+import {
+  SimulationResult,
+  TrajectoryPoint,
+  FlightEventType,
+  TelemetryExportFormat,
+  TelemetryExportOptions
+} from '../../../shared/types/rocket';
+
+export interface TelemetryColumn {
+  key: string;
+  unit: string;
+  value: (point: TrajectoryPoint) => number | string | undefined;
+  openRocket?: { name: string; scale?: number }; // OpenRocket header (name and unit) and unit conversion
+}
+
+export interface TelemetryExport {
+  filename: string;
+  contentType: string;
+  lines: Iterable<string>; // each ending in a newline
+}
+
+const magnitude = (v: { x: number; y: number; z: number }) => Math.sqrt(v.x * v.x + v.y * v.y + v.z * v.z);
+
+export const TELEMETRY_COLUMNS: TelemetryColumn[] = [
+  { key: 'time', unit: 's', value: p => p.time, openRocket: { name: 'Time (s)' } },
+  { key: 'altitude', unit: 'm', value: p => p.altitude, openRocket: { name: 'Altitude (m)' } },
+  { key: 'verticalVelocity', unit: 'm/s', value: p => p.velocity.y, openRocket: { name: 'Vertical velocity (m/s)' } },
+  {
+    key: 'verticalAcceleration',
+    unit: 'm/s²',
+    value: p => p.acceleration.y,
+    openRocket: { name: 'Vertical acceleration (m/s²)' }
+  },
+  { key: 'totalVelocity', unit: 'm/s', value: p => magnitude(p.velocity), openRocket: { name: 'Total velocity (m/s)' } },
+  {
+    key: 'totalAcceleration',
+    unit: 'm/s²',
+    value: p => magnitude(p.acceleration),
+    openRocket: { name: 'Total acceleration (m/s²)' }
+  },
+  { key: 'positionNorth', unit: 'm', value: p => p.position.x, openRocket: { name: 'Position North of launch (m)' } },
+  { key: 'positionEast', unit: 'm', value: p => p.position.z, openRocket: { name: 'Position East of launch (m)' } },
+  {
+    key: 'lateralDistance',
+    unit: 'm',
+    value: p => Math.hypot(p.position.x, p.position.z),
+    openRocket: { name: 'Lateral distance (m)' }
+  },
+  { key: 'mass', unit: 'kg', value: p => p.mass, openRocket: { name: 'Mass (g)', scale: 1000 } },
+  { key: 'thrust', unit: 'N', value: p => p.thrust, openRocket: { name: 'Thrust (N)' } },
+  { key: 'drag', unit: 'N', value: p => p.drag, openRocket: { name: 'Drag force (N)' } },
+  { key: 'machNumber', unit: '', value: p => p.machNumber, openRocket: { name: 'Mach number ()' } },
+  { key: 'angleOfAttack', unit: '°', value: p => p.angleOfAttack, openRocket: { name: 'Angle of attack (°)' } },
+  { key: 'windSpeed', unit: 'm/s', value: p => p.wind && magnitude(p.wind), openRocket: { name: 'Wind velocity (m/s)' } },
+  { key: 'phase', unit: '', value: p => p.phase }
+];
+
+// OpenRocket's names for the flight events it reports
+const OPEN_ROCKET_EVENTS: Record<FlightEventType, string> = {
+  [FlightEventType.IGNITION]: 'IGNITION',
+  [FlightEventType.LAUNCH_ROD_CLEARANCE]: 'LAUNCHROD',
+  [FlightEventType.BURNOUT]: 'BURNOUT',
+  [FlightEventType.STAGE_SEPARATION]: 'STAGE_SEPARATION',
+  [FlightEventType.APOGEE]: 'APOGEE',
+  [FlightEventType.EJECTION]: 'EJECTION_CHARGE',
+  [FlightEventType.DEPLOYMENT]: 'RECOVERY_DEVICE_DEPLOYMENT',
+  [FlightEventType.GROUND_HIT]: 'GROUND_HIT'
+};
+
+const CONTENT_TYPES: Record<TelemetryExportFormat, string> = {
+  [TelemetryExportFormat.CSV]: 'text/csv; charset=utf-8',
+  [TelemetryExportFormat.JSONL]: 'application/x-ndjson; charset=utf-8',
+  [TelemetryExportFormat.ORK_CSV]: 'text/csv; charset=utf-8'
+};
+
+const DECIMALS = 6;
+
+/**
+ * Prepare a simulation's telemetry for export. Options are checked here, so
+ * a bad column or decimation throws before anything is written.
+ */
+export function exportTelemetry(simulation: SimulationResult, options: TelemetryExportOptions): TelemetryExport {
+  const { format, decimate = 1 } = options;
+  if (!CONTENT_TYPES[format]) {
+    throw new Error(`Unsupported export format '${format}'`);
+  }
+  if (!Number.isInteger(decimate) || decimate < 1) {
+    throw new Error('Decimation must be a whole number of at least 1');
+  }
+
+  const columns = selectColumns(format, options.columns);
+  const points = decimatePoints(simulation.telemetry, decimate);
+  const extension = format === TelemetryExportFormat.JSONL ? 'jsonl' : 'csv';
+  const suffix = format === TelemetryExportFormat.ORK_CSV ? '-openrocket' : '';
+
+  let lines: Iterable<string>;
+  switch (format) {
+    case TelemetryExportFormat.CSV:
+      lines = csvLines(points, columns);
+      break;
+    case TelemetryExportFormat.JSONL:
+      lines = jsonLines(simulation, points, columns);
+      break;
+    case TelemetryExportFormat.ORK_CSV:
+      lines = openRocketLines(simulation, points, columns);
+      break;
+  }
+
+  return {
+    filename: `simulation-${simulation.id}${suffix}.${extension}`,
+    contentType: CONTENT_TYPES[format],
+    lines
+  };
+}
+
+function selectColumns(format: TelemetryExportFormat, keys?: string[]): TelemetryColumn[] {
+  const available = format === TelemetryExportFormat.ORK_CSV
+    ? TELEMETRY_COLUMNS.filter(column => column.openRocket)
+    : TELEMETRY_COLUMNS;
+  if (!keys || keys.length === 0) {
+    return available;
+  }
+
+  return keys.map(key => {
+    const column = available.find(candidate => candidate.key === key);
+    if (!column) {
+      throw new Error(`Unknown telemetry column '${key}' for ${format}`);
+    }
+    return column;
+  });
+}
+
+/**
+ * Every `decimate`-th point, always keeping the last one (landing)
+ */
+function decimatePoints(telemetry: TrajectoryPoint[], decimate: number): TrajectoryPoint[] {
+  return telemetry.filter((_, index) => index % decimate === 0 || index === telemetry.length - 1);
+}
+
+function* csvLines(points: TrajectoryPoint[], columns: TelemetryColumn[]): Generator<string> {
+  yield csvRow(columns.map(column => (column.unit ? `${column.key} (${column.unit})` : column.key)));
+  for (const point of points) {
+    yield csvRow(columns.map(column => formatValue(column.value(point))));
+  }
+}
+
+function* jsonLines(
+  simulation: SimulationResult,
+  points: TrajectoryPoint[],
+  columns: TelemetryColumn[]
+): Generator<string> {
+  const units = Object.fromEntries(columns.map(column => [column.key, column.unit]));
+  yield `${JSON.stringify({ simulationId: simulation.id, units })}\n`;
+  for (const point of points) {
+    const record = Object.fromEntries(columns.map(column => [column.key, column.value(point) ?? null]));
+    yield `${JSON.stringify(record)}\n`;
+  }
+}
+
+function* openRocketLines(
+  simulation: SimulationResult,
+  points: TrajectoryPoint[],
+  columns: TelemetryColumn[]
+): Generator<string> {
+  yield `# Simulation ${simulation.id} (${new Date(simulation.createdAt).toISOString()})\n`;
+  yield `# ${columns.map(column => column.openRocket!.name).join(',')}\n`;
+
+  // Events go in before the first point at or after them, as OpenRocket writes them
+  const events = [...(simulation.events ?? [])].sort((a, b) => a.time - b.time);
+  let nextEvent = 0;
+  for (const point of points) {
+    while (nextEvent < events.length && events[nextEvent].time <= point.time) {
+      const event = events[nextEvent++];
+      yield `# Event ${OPEN_ROCKET_EVENTS[event.type]} occurred at t=${formatValue(event.time)} seconds\n`;
+    }
+    yield csvRow(columns.map(column => {
+      const value = column.value(point);
+      return formatValue(typeof value === 'number' ? value * (column.openRocket!.scale ?? 1) : value);
+    }));
+  }
+  for (const event of events.slice(nextEvent)) {
+    yield `# Event ${OPEN_ROCKET_EVENTS[event.type]} occurred at t=${formatValue(event.time)} seconds\n`;
+  }
+}
+
+function formatValue(value: number | string | undefined): string {
+  if (value === undefined) return '';
+  if (typeof value === 'number') return String(Number(value.toFixed(DECIMALS)));
+  return value;
+}
+
+function csvRow(cells: string[]): string {
+  return `${cells.map(cell => (/[",\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell)).join(',')}\n`;
+}
@@ -0,0 +1,87 @@
+/**
+ * Telemetry Playback
+ *
+ * Releases trajectory points at the pace of the flight (or `speed` times
+ * faster) so a client can animate a launch as it happens. Points arrive in
+ * batches, usually well ahead of the clock; each frame sends the ones whose
+ * flight time has come.
+ */
+
+import { TrajectoryPoint } from '../../../shared/types/rocket';
+
+export const FRAME_INTERVAL = 50; // ms between frames (20 per second)
+export const MAX_PLAYBACK_SPEED = 100;
+
+export class TelemetryPlayback {
+  private queue: TrajectoryPoint[] = [];
+  private lastTime: number = -Infinity; // latest flight time queued
+  private startedAt?: number; // wall clock (ms) at flight time 0
+  private timer?: NodeJS.Timeout;
+  private finished?: () => void;
+
+  constructor(
+    private send: (points: TrajectoryPoint[]) => void,
+    private speed: number = 1
+  ) {
+    if (!(speed > 0 && speed <= MAX_PLAYBACK_SPEED)) {
+      throw new Error(`Playback speed must be above 0 and at most ${MAX_PLAYBACK_SPEED}`);
+    }
+  }
+
+  /**
+   * Queue points for playback; points at or before ones already queued are
+   * skipped, so overlapping batches (interim telemetry, then the full flight)
+   * can both be pushed
+   */
+  push(points: TrajectoryPoint[]): void {
+    for (const point of points) {
+      if (point.time > this.lastTime) {
+        this.queue.push(point);
+        this.lastTime = point.time;
+      }
+    }
+
+    if (this.queue.length > 0 && !this.timer) {
+      this.startedAt ??= Date.now();
+      this.timer = setInterval(() => this.frame(), FRAME_INTERVAL);
+    }
+  }
+
+  /**
+   * Resolve once every queued point has been sent
+   */
+  finish(): Promise<void> {
+    return new Promise(resolve => {
+      this.finished = resolve;
+      if (!this.timer) resolve();
+    });
+  }
+
+  /**
+   * Drop the remaining points
+   */
+  stop(): void {
+    this.queue = [];
+    this.halt();
+  }
+
+  private frame(): void {
+    const flightTime = ((Date.now() - this.startedAt!) / 1000) * this.speed;
+
+    let due = 0;
+    while (due < this.queue.length && this.queue[due].time <= flightTime) due++;
+    if (due > 0) {
+      this.send(this.queue.splice(0, due));
+    }
+
+    if (this.queue.length === 0) {
+      this.halt();
+    }
+  }
+
+  private halt(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+    this.finished?.();
+  }
+}
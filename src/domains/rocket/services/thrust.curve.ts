@@ -0,0 +1,105 @@
+/**
+ * Thrust Curve Helpers
+ *
+ * Interpolation and integration of tabulated motor thrust curves, plus the
+ * NAR/TRA impulse classification used to derive a motor's letter class.
+ */
+
+import { ThrustCurvePoint, EngineType } from '../../../shared/types/rocket';
+
+export const STANDARD_GRAVITY = 9.80665; // m/s²
+
+// Upper total impulse bound of class A; each following letter doubles it
+const CLASS_A_MAX_IMPULSE = 2.5; // N·s
+const IMPULSE_CLASSES = [
+  EngineType.A, EngineType.B, EngineType.C, EngineType.D, EngineType.E, EngineType.F, EngineType.G,
+  EngineType.H, EngineType.I, EngineType.J, EngineType.K, EngineType.L, EngineType.M, EngineType.N
+];
+
+export interface ThrustCurveSummary {
+  totalImpulse: number; // N·s
+  averageThrust: number; // N
+  peakThrust: number; // N
+  burnTime: number; // s
+}
+
+/**
+ * Thrust at a point in time by linear interpolation (zero outside the curve)
+ */
+export function thrustAt(curve: ThrustCurvePoint[], time: number): number {
+  if (curve.length === 0 || time < curve[0].time || time > curve[curve.length - 1].time) {
+    return 0;
+  }
+
+  for (let i = 1; i < curve.length; i++) {
+    const next = curve[i];
+    if (time <= next.time) {
+      const previous = curve[i - 1];
+      const span = next.time - previous.time;
+      if (span <= 0) return next.thrust;
+      return previous.thrust + (next.thrust - previous.thrust) * (time - previous.time) / span;
+    }
+  }
+
+  return curve[curve.length - 1].thrust;
+}
+
+/**
+ * Impulse delivered from ignition up to `time` (trapezoidal integration)
+ */
+export function impulseUpTo(curve: ThrustCurvePoint[], time: number): number {
+  let impulse = 0;
+
+  for (let i = 1; i < curve.length; i++) {
+    const previous = curve[i - 1];
+    if (time <= previous.time) break;
+
+    const end = Math.min(time, curve[i].time);
+    const endThrust = end === curve[i].time ? curve[i].thrust : thrustAt(curve, end);
+    impulse += (previous.thrust + endThrust) / 2 * (end - previous.time);
+  }
+
+  return impulse;
+}
+
+/**
+ * Total impulse, average and peak thrust and burn time of a curve
+ */
+export function summarizeThrustCurve(curve: ThrustCurvePoint[]): ThrustCurveSummary {
+  const burnTime = curve.length > 0 ? curve[curve.length - 1].time : 0;
+  const totalImpulse = impulseUpTo(curve, burnTime);
+
+  return {
+    totalImpulse,
+    averageThrust: burnTime > 0 ? totalImpulse / burnTime : 0,
+    peakThrust: Math.max(0, ...curve.map(point => point.thrust)),
+    burnTime
+  };
+}
+
+/**
+ * Letter class for a total impulse (anything above N is custom)
+ */
+export function classifyImpulse(totalImpulse: number): EngineType {
+  let upperBound = CLASS_A_MAX_IMPULSE;
+
+  for (const impulseClass of IMPULSE_CLASSES) {
+    if (totalImpulse <= upperBound) return impulseClass;
+    upperBound *= 2;
+  }
+
+  return EngineType.CUSTOM;
+}
+
+/**
+ * Sort a curve by time and make sure it starts at ignition with zero thrust
+ */
+export function normalizeThrustCurve(curve: ThrustCurvePoint[]): ThrustCurvePoint[] {
+  const sorted = [...curve].sort((a, b) => a.time - b.time);
+
+  if (sorted.length > 0 && sorted[0].time > 0) {
+    sorted.unshift({ time: 0, thrust: 0 });
+  }
+
+  return sorted;
+}
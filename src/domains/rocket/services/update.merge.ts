@@ -0,0 +1,163 @@
+/**
+ * Update Merge
+ *
+ * Three-way merge of a rocket update that started from an older version with
+ * the design as saved since, for answering a conflicting save. Changes made
+ * on only one side are kept; fields both sides changed to different values
+ * are conflicts, reported at the outermost path either side touched (so
+ * removing the nose ballast against changing its mass is one conflict) and
+ * resolved toward the update in the merged design. Without the base version
+ * the sides cannot be told apart, and every difference is a conflict.
+ */
+
+import {
+  RocketDesign,
+  RocketRevision,
+  RocketConfig,
+  UpdateRocketRequest,
+  RocketUpdateConflict,
+  FieldConflict,
+  ConfigChange,
+  ConfigChangeType
+} from '../../../shared/types/rocket';
+import { diffConfigs } from './config.diff';
+
+type MergedDesign = RocketUpdateConflict['merged'];
+
+/**
+ * Merge an update started from `base` (null when that version is no longer
+ * known) onto the current design
+ */
+export function mergeRocketUpdate(
+  base: RocketRevision | null,
+  current: RocketDesign,
+  update: UpdateRocketRequest
+): { merged: MergedDesign; conflicts: FieldConflict[] } {
+  const merged: MergedDesign = {
+    name: current.name,
+    description: current.description ?? '',
+    config: clone(current.config)
+  };
+  const conflicts: FieldConflict[] = [];
+
+  for (const field of ['name', 'description'] as const) {
+    const yours = update[field];
+    const theirs = merged[field];
+    const baseValue = base ? base[field] ?? '' : undefined;
+    if (yours === undefined || yours === theirs || (base && yours === baseValue)) continue;
+
+    if (!base || theirs !== baseValue) {
+      conflicts.push(withDefined({ path: field, base: baseValue, yours, theirs }));
+    }
+    merged[field] = yours;
+  }
+
+  if (update.config) {
+    const configConflicts = base
+      ? mergeConfig(base.config, update.config, merged.config)
+      : diffConfigs(current.config, update.config).map(change =>
+          withDefined({ path: change.path, yours: change.after, theirs: change.before })
+        );
+
+    if (!base) {
+      applyChanges(merged.config, configConflicts.map(toChange));
+    }
+    conflicts.push(...configConflicts.map(conflict => ({ ...conflict, path: `config.${conflict.path}` })));
+  }
+
+  return { merged, conflicts };
+}
+
+// Applies the update's side to `merged` (a copy of the current config) and
+// returns the conflicts, with paths relative to the config
+function mergeConfig(base: RocketConfig, yours: RocketConfig, merged: RocketConfig): FieldConflict[] {
+  const yourChanges = diffConfigs(base, yours);
+  const theirChanges = diffConfigs(base, merged);
+
+  // The outermost path of every place both sides touched
+  const touched = new Set<string>();
+  for (const mine of yourChanges) {
+    for (const other of theirChanges) {
+      if (isWithin(mine.path, other.path)) touched.add(mine.path);
+      else if (isWithin(other.path, mine.path)) touched.add(other.path);
+    }
+  }
+  const contested = [...touched].filter(path =>
+    ![...touched].some(outer => outer !== path && isWithin(outer, path))
+  );
+
+  const conflicts = contested
+    .map(path => withDefined({
+      path,
+      base: valueAt(base, path),
+      yours: valueAt(yours, path),
+      theirs: valueAt(merged, path)
+    }))
+    .filter(conflict => !isSameValue(conflict.yours, conflict.theirs));
+
+  applyChanges(merged, [
+    ...yourChanges.filter(change => !contested.some(path => isWithin(path, change.path))),
+    ...conflicts.map(toChange)
+  ]);
+
+  return conflicts;
+}
+
+function toChange(conflict: FieldConflict): ConfigChange {
+  return conflict.yours === undefined
+    ? { path: conflict.path, type: ConfigChangeType.REMOVED }
+    : { path: conflict.path, type: ConfigChangeType.CHANGED, after: conflict.yours };
+}
+
+// Removals go last and from the back, so array items keep their indexes
+function applyChanges(config: RocketConfig, changes: ConfigChange[]): void {
+  const removals = changes
+    .filter(change => change.type === ConfigChangeType.REMOVED)
+    .sort((a, b) => b.path.localeCompare(a.path, undefined, { numeric: true }));
+
+  for (const change of [...changes.filter(change => change.type !== ConfigChangeType.REMOVED), ...removals]) {
+    const keys = change.path.split('.');
+    const last = keys.pop()!;
+    const parent = keys.reduce<any>((value, key) => value[key], config);
+
+    if (change.type !== ConfigChangeType.REMOVED) {
+      parent[last] = clone(change.after);
+    } else if (Array.isArray(parent)) {
+      parent.splice(Number(last), 1);
+    } else {
+      delete parent[last];
+    }
+  }
+}
+
+// The path is `outer` or lies inside it
+function isWithin(outer: string, path: string): boolean {
+  return path === outer || path.startsWith(`${outer}.`);
+}
+
+function valueAt(config: unknown, path: string): unknown {
+  return path.split('.').reduce<any>((value, key) => (value === null || value === undefined ? undefined : value[key]), config);
+}
+
+function withDefined(conflict: FieldConflict): FieldConflict {
+  return Object.fromEntries(
+    Object.entries(conflict).filter(([, value]) => value !== undefined)
+  ) as unknown as FieldConflict;
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (!isRecord(a) || !isRecord(b)) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].every(key => isSameValue(a[key], b[key]));
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object';
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
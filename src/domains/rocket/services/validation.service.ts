@@ -9,16 +9,150 @@ import Joi from 'joi';
 import { 
   CreateRocketRequest, 
   UpdateRocketRequest, 
+  DispersionRequest,
+  DragCalibrationRequest,
+  OptimizationRequest,
+  SweepRequest,
+  SweepMode,
+  OptimizationObjective,
+  OptimizationParameter,
+  ImportFlightLogRequest,
+  FlightLogFormat,
   RocketConfig,
   RocketMaterial,
   NoseConeType,
   EngineType,
   RecoveryType,
   ComplexityLevel,
+  SurfaceFinish,
+  WindProfile,
+  FlightModel,
+  IntegratorType,
+  StabilityAnalysis,
   ROCKET_CONSTRAINTS
 } from '../../../shared/types/rocket';
+import { MotorDatabase } from './motor.database';
+import { SimulationEngine } from './simulation.engine';
+import { calculateMassProperties } from './mass.properties';
+import { SAFE_DESCENT_RATE, recoveryDragArea, terminalDescentRate } from './recovery.model';
+import { stageMotors, motorCount, liftoffThrust } from './staging.model';
+import { estimateRailExit, minimumRodLength, requiredRailExitVelocity } from './launch.rail';
+
+// Engine fields that can be filled in from the motor database
+const motorField = (schema: Joi.Schema) =>
+  schema.when('designation', { is: Joi.exist(), then: Joi.optional() });
+
+const finsSchema = Joi.object({
+  count: Joi.number()
+    .integer()
+    .min(ROCKET_CONSTRAINTS.MIN_FINS)
+    .max(ROCKET_CONSTRAINTS.MAX_FINS)
+    .required()
+    .messages({
+      'number.min': `Must have at least ${ROCKET_CONSTRAINTS.MIN_FINS} fins`,
+      'number.max': `Cannot have more than ${ROCKET_CONSTRAINTS.MAX_FINS} fins`
+    }),
+  span: Joi.number().min(0.01).max(0.5).required(),
+  rootChord: Joi.number().min(0.01).max(0.3).required(),
+  tipChord: Joi.number().min(0.005).max(0.2).required(),
+  sweepAngle: Joi.number().min(0).max(60).required(),
+  thickness: Joi.number().min(0.001).max(0.02).required(),
+  material: Joi.string().valid(...Object.values(RocketMaterial)).required(),
+  mass: Joi.number().min(ROCKET_CONSTRAINTS.MIN_MASS).max(ROCKET_CONSTRAINTS.MAX_MASS).required()
+});
+
+// One motor mount: a single motor or a cluster of identical motors
+const motorSchema = Joi.object({
+  designation: Joi.string().trim().max(50).optional(),
+  type: motorField(Joi.string().valid(...Object.values(EngineType)).required()),
+  thrust: motorField(Joi.number()
+    .min(ROCKET_CONSTRAINTS.MIN_THRUST)
+    .max(ROCKET_CONSTRAINTS.MAX_THRUST)
+    .required()
+    .messages({
+      'number.min': `Thrust must be at least ${ROCKET_CONSTRAINTS.MIN_THRUST}N`,
+      'number.max': `Thrust cannot exceed ${ROCKET_CONSTRAINTS.MAX_THRUST}N`
+    })),
+  burnTime: motorField(Joi.number()
+    .min(ROCKET_CONSTRAINTS.MIN_BURN_TIME)
+    .max(ROCKET_CONSTRAINTS.MAX_BURN_TIME)
+    .required()
+    .messages({
+      'number.min': `Burn time must be at least ${ROCKET_CONSTRAINTS.MIN_BURN_TIME}s`,
+      'number.max': `Burn time cannot exceed ${ROCKET_CONSTRAINTS.MAX_BURN_TIME}s`
+    })),
+  specificImpulse: motorField(Joi.number().min(50).max(500).required()),
+  propellantMass: motorField(Joi.number().min(ROCKET_CONSTRAINTS.MIN_MASS).max(ROCKET_CONSTRAINTS.MAX_MASS).required()),
+  totalMass: motorField(Joi.number().min(ROCKET_CONSTRAINTS.MIN_MASS).max(ROCKET_CONSTRAINTS.MAX_MASS).required()),
+  length: Joi.number().min(0.01).max(2).optional(),
+  diameter: Joi.number().min(0.005).max(0.2).optional(),
+  ejectionDelay: Joi.number().min(0).max(30).optional(),
+  count: Joi.number()
+    .integer()
+    .min(1)
+    .max(ROCKET_CONSTRAINTS.MAX_CLUSTER_MOTORS)
+    .optional()
+    .messages({
+      'number.max': `Cannot cluster more than ${ROCKET_CONSTRAINTS.MAX_CLUSTER_MOTORS} motors in one mount`
+    }),
+  ignitionDelay: Joi.number().min(0).max(30).optional(),
+  thrustCurve: Joi.array()
+    .items(Joi.object({
+      time: Joi.number().min(0).required(),
+      thrust: Joi.number().min(0).max(ROCKET_CONSTRAINTS.MAX_THRUST * 5).required()
+    }))
+    .min(2)
+    .max(500)
+    .optional()
+});
+
+const stageSchema = Joi.object({
+  name: Joi.string().trim().max(50).optional(),
+  body: Joi.object({
+    length: Joi.number().min(0.05).max(ROCKET_CONSTRAINTS.MAX_BODY_LENGTH).required(),
+    mass: Joi.number().min(ROCKET_CONSTRAINTS.MIN_MASS).max(ROCKET_CONSTRAINTS.MAX_MASS).required(),
+    material: Joi.string().valid(...Object.values(RocketMaterial)).required()
+  }).required(),
+  fins: finsSchema.optional(),
+  motors: Joi.array().items(motorSchema).min(1).max(ROCKET_CONSTRAINTS.MAX_CLUSTER_MOTORS).required(),
+  ignitionDelay: Joi.number().min(0).max(30).optional(),
+  separationDelay: Joi.number().min(0).max(30).optional()
+});
+
+// Simulation options sent with analysis requests; the bounds keep one request
+// from asking for an unbounded amount of simulation
+const launchOptionsSchema = Joi.object({
+  weather: Joi.object({
+    temperature: Joi.number().min(-60).max(60).optional(),
+    pressure: Joi.number().min(50000).max(110000).optional(),
+    humidity: Joi.number().min(0).max(100).optional(),
+    windSpeed: Joi.number().min(0).max(30).optional(),
+    windDirection: Joi.number().min(0).max(360).optional(),
+    windGustSpeed: Joi.number().min(0).max(50).optional(),
+    windProfile: Joi.string().valid(...Object.values(WindProfile)).optional(),
+    windReferenceHeight: Joi.number().min(1).max(100).optional(),
+    windShearExponent: Joi.number().min(0).max(1).optional(),
+    surfaceRoughness: Joi.number().min(0).max(2).optional()
+  }).optional(),
+  launchSite: Joi.object({
+    name: Joi.string().trim().max(100).required(),
+    latitude: Joi.number().min(-90).max(90).required(),
+    longitude: Joi.number().min(-180).max(180).required(),
+    elevation: Joi.number().min(-500).max(5000).required(),
+    timezone: Joi.string().max(50).required()
+  }).optional(),
+  timeStep: Joi.number().min(ROCKET_CONSTRAINTS.MIN_TIME_STEP).max(ROCKET_CONSTRAINTS.MAX_TIME_STEP).optional(),
+  maxFlightTime: Joi.number().positive().max(ROCKET_CONSTRAINTS.MAX_FLIGHT_TIME).optional(),
+  detailedTelemetry: Joi.boolean().optional(),
+  flightModel: Joi.string().valid(...Object.values(FlightModel)).optional(),
+  integrator: Joi.string().valid(...Object.values(IntegratorType)).optional(),
+  integrationTolerance: Joi.number().min(1e-9).max(1e-2).optional(),
+  seed: Joi.number().integer().min(0).max(4294967295).optional(),
+  minRailExitVelocity: Joi.number().min(0).max(50).optional()
+});
 
 export class ValidationService {
+  constructor(private motorDatabase: MotorDatabase = new MotorDatabase()) {}
   
   // Joi schemas for validation
   private readonly rocketConfigSchema = Joi.object({
@@ -50,72 +184,60 @@ export class ValidationService {
       material: Joi.string()
         .valid(...Object.values(RocketMaterial))
         .required(),
-      fineness: Joi.number().min(1).max(50).required()
+      fineness: Joi.number().min(1).max(50).required(),
+      surfaceFinish: Joi.string().valid(...Object.values(SurfaceFinish)).optional()
     }).required(),
 
     noseCone: Joi.object({
       type: Joi.string().valid(...Object.values(NoseConeType)).required(),
       length: Joi.number().min(0.01).max(2).required(),
       mass: Joi.number().min(ROCKET_CONSTRAINTS.MIN_MASS).max(ROCKET_CONSTRAINTS.MAX_MASS).required(),
-      material: Joi.string().valid(...Object.values(RocketMaterial)).required()
-    }).required(),
-
-    fins: Joi.object({
-      count: Joi.number()
-        .integer()
-        .min(ROCKET_CONSTRAINTS.MIN_FINS)
-        .max(ROCKET_CONSTRAINTS.MAX_FINS)
-        .required()
-        .messages({
-          'number.min': `Must have at least ${ROCKET_CONSTRAINTS.MIN_FINS} fins`,
-          'number.max': `Cannot have more than ${ROCKET_CONSTRAINTS.MAX_FINS} fins`
-        }),
-      span: Joi.number().min(0.01).max(0.5).required(),
-      rootChord: Joi.number().min(0.01).max(0.3).required(),
-      tipChord: Joi.number().min(0.005).max(0.2).required(),
-      sweepAngle: Joi.number().min(0).max(60).required(),
-      thickness: Joi.number().min(0.001).max(0.02).required(),
       material: Joi.string().valid(...Object.values(RocketMaterial)).required(),
-      mass: Joi.number().min(ROCKET_CONSTRAINTS.MIN_MASS).max(ROCKET_CONSTRAINTS.MAX_MASS).required()
+      ballastMass: Joi.number().min(0).max(ROCKET_CONSTRAINTS.MAX_MASS).optional()
     }).required(),
 
-    engine: Joi.object({
-      type: Joi.string().valid(...Object.values(EngineType)).required(),
-      thrust: Joi.number()
-        .min(ROCKET_CONSTRAINTS.MIN_THRUST)
-        .max(ROCKET_CONSTRAINTS.MAX_THRUST)
-        .required()
-        .messages({
-          'number.min': `Thrust must be at least ${ROCKET_CONSTRAINTS.MIN_THRUST}N`,
-          'number.max': `Thrust cannot exceed ${ROCKET_CONSTRAINTS.MAX_THRUST}N`
-        }),
-      burnTime: Joi.number()
-        .min(ROCKET_CONSTRAINTS.MIN_BURN_TIME)
-        .max(ROCKET_CONSTRAINTS.MAX_BURN_TIME)
-        .required()
-        .messages({
-          'number.min': `Burn time must be at least ${ROCKET_CONSTRAINTS.MIN_BURN_TIME}s`,
-          'number.max': `Burn time cannot exceed ${ROCKET_CONSTRAINTS.MAX_BURN_TIME}s`
-        }),
-      specificImpulse: Joi.number().min(50).max(500).required(),
-      propellantMass: Joi.number().min(ROCKET_CONSTRAINTS.MIN_MASS).max(ROCKET_CONSTRAINTS.MAX_MASS).required(),
-      totalMass: Joi.number().min(ROCKET_CONSTRAINTS.MIN_MASS).max(ROCKET_CONSTRAINTS.MAX_MASS).required()
-    }).required(),
+    fins: finsSchema.required(),
+
+    engine: motorSchema.required(),
 
     recovery: Joi.object({
       type: Joi.string().valid(...Object.values(RecoveryType)).required(),
       deploymentAltitude: Joi.number().min(10).max(1000).required(),
       parachuteDiameter: Joi.number().min(0.1).max(5).optional(),
       chuteCount: Joi.number().integer().min(1).max(3).optional(),
+      drogueDiameter: Joi.number().min(0.05).max(3).optional(),
+      streamerLength: Joi.number().min(0.1).max(10).optional(),
+      streamerWidth: Joi.number().min(0.01).max(1).optional(),
       mass: Joi.number().min(ROCKET_CONSTRAINTS.MIN_MASS).max(ROCKET_CONSTRAINTS.MAX_MASS).required()
     }).required(),
 
+    stages: Joi.array()
+      .items(stageSchema)
+      .max(ROCKET_CONSTRAINTS.MAX_STAGES)
+      .optional()
+      .messages({
+        'array.max': `Cannot have more than ${ROCKET_CONSTRAINTS.MAX_STAGES} booster stages`
+      }),
+
     launch: Joi.object({
       launchAngle: Joi.number().min(0).max(15).required(),
+      launchDirection: Joi.number().min(0).max(360).optional(),
       launchRodLength: Joi.number().min(0.3).max(5).required(),
       windSpeed: Joi.number().min(0).max(30).optional(),
       windDirection: Joi.number().min(0).max(360).optional()
-    }).required()
+    }).required(),
+
+    aerodynamics: Joi.object({
+      dragMultiplier: Joi.number()
+        .min(ROCKET_CONSTRAINTS.MIN_DRAG_MULTIPLIER)
+        .max(ROCKET_CONSTRAINTS.MAX_DRAG_MULTIPLIER)
+        .required(),
+      calibration: Joi.object({
+        flights: Joi.number().integer().min(1).required(),
+        residual: Joi.number().min(0).required(),
+        calibratedAt: Joi.string().isoDate().required()
+      }).optional()
+    }).optional()
   });
 
   private readonly createRocketSchema = Joi.object({
@@ -170,7 +292,84 @@ export class ValidationService {
       complexity: Joi.string().valid(...Object.values(ComplexityLevel)).optional(),
       estimatedCost: Joi.number().min(0).max(10000).optional(),
       buildTime: Joi.number().integer().min(0).max(1000).optional()
-    }).optional()
+    }).optional(),
+
+    version: Joi.number().integer().min(1).optional()
+  });
+
+  private readonly dispersionRequestSchema = Joi.object({
+    runs: Joi.number().integer().min(2).max(ROCKET_CONSTRAINTS.MAX_DISPERSION_RUNS).optional(),
+    seed: Joi.number().integer().min(0).max(4294967295).optional(),
+    tolerances: Joi.object({
+      windSpeed: Joi.number().min(0).max(20).optional(),
+      windDirection: Joi.number().min(0).max(180).optional(),
+      motorImpulse: Joi.number().min(0).max(0.5).optional(),
+      launchAngle: Joi.number().min(0).max(15).optional(),
+      mass: Joi.number().min(0).max(0.5).optional()
+    }).optional(),
+    fieldRadius: Joi.number().positive().optional(),
+    options: launchOptionsSchema.optional()
+  });
+
+  private readonly dragCalibrationSchema = Joi.object({
+    observations: Joi.array()
+      .items(Joi.object({
+        apogee: Joi.number().positive().max(100000).optional(),
+        apogeeTime: Joi.number().positive().max(ROCKET_CONSTRAINTS.MAX_BURN_TIME).optional(),
+        flightLogId: Joi.string().optional(),
+        weather: Joi.object().unknown(true).optional(),
+        launchAngle: Joi.number().min(0).max(15).optional()
+      }).or('apogee', 'apogeeTime', 'flightLogId'))
+      .min(1)
+      .max(ROCKET_CONSTRAINTS.MAX_CALIBRATION_FLIGHTS)
+      .required(),
+    options: launchOptionsSchema.optional()
+  });
+
+  private readonly optimizationSchema = Joi.object({
+    objective: Joi.string().valid(...Object.values(OptimizationObjective)).required(),
+    targetApogee: Joi.number().positive().max(100000)
+      .when('objective', { is: OptimizationObjective.TARGET_APOGEE, then: Joi.required() }),
+    variables: Joi.array()
+      .items(Joi.object({
+        parameter: Joi.string().valid(...Object.values(OptimizationParameter)).required(),
+        min: Joi.number().min(0).required(),
+        max: Joi.number().greater(Joi.ref('min')).required()
+      }))
+      .unique('parameter')
+      .optional(),
+    engineTypes: Joi.array()
+      .items(Joi.string().valid(...Object.values(EngineType)))
+      .unique()
+      .min(1)
+      .optional(),
+    minStabilityMargin: Joi.number().min(0).max(10).optional(),
+    maxEvaluations: Joi.number().integer().min(1).max(ROCKET_CONSTRAINTS.MAX_OPTIMIZATION_EVALUATIONS).optional(),
+    results: Joi.number().integer().min(1).max(ROCKET_CONSTRAINTS.MAX_OPTIMIZATION_RESULTS).optional(),
+    options: launchOptionsSchema.optional()
+  }).or('variables', 'engineTypes');
+
+  private readonly sweepSchema = Joi.object({
+    axes: Joi.array()
+      .items(Joi.object({
+        path: Joi.string().pattern(/^[A-Za-z0-9]+(\.[A-Za-z0-9]+)*$/).required(),
+        from: Joi.number().required(),
+        to: Joi.number().required(),
+        steps: Joi.number().integer().min(2).max(ROCKET_CONSTRAINTS.MAX_SWEEP_STEPS).required()
+      }))
+      .min(1)
+      .max(2)
+      .unique('path')
+      .required(),
+    mode: Joi.string().valid(...Object.values(SweepMode)).optional(),
+    options: launchOptionsSchema.optional()
+  });
+
+  private readonly flightLogImportSchema = Joi.object({
+    content: Joi.string().required(),
+    format: Joi.string().valid(...Object.values(FlightLogFormat)).optional(),
+    name: Joi.string().trim().min(1).max(ROCKET_CONSTRAINTS.NAME_MAX_LENGTH).optional(),
+    flownAt: Joi.date().iso().max('now').optional()
   });
 
   /**
@@ -242,12 +441,149 @@ export class ValidationService {
   }
 
   /**
-   * Validate rocket configuration with physics checks
+   * Validate dispersion analysis request
+   */
+  async validateDispersionRequest(data: DispersionRequest): Promise<{
+    isValid: boolean;
+    errors: string[];
+    sanitizedData?: DispersionRequest;
+  }> {
+    const { error, value } = this.dispersionRequestSchema.validate(data, {
+      abortEarly: false,
+      stripUnknown: true
+    });
+
+    if (error) {
+      return {
+        isValid: false,
+        errors: error.details.map(detail => detail.message)
+      };
+    }
+
+    return {
+      isValid: true,
+      errors: [],
+      sanitizedData: value
+    };
+  }
+
+  /**
+   * Validate drag calibration request
+   */
+  async validateDragCalibration(data: DragCalibrationRequest): Promise<{
+    isValid: boolean;
+    errors: string[];
+    sanitizedData?: DragCalibrationRequest;
+  }> {
+    const { error, value } = this.dragCalibrationSchema.validate(data, {
+      abortEarly: false,
+      stripUnknown: true
+    });
+
+    if (error) {
+      return {
+        isValid: false,
+        errors: error.details.map(detail => detail.message)
+      };
+    }
+
+    return {
+      isValid: true,
+      errors: [],
+      sanitizedData: value
+    };
+  }
+
+  /**
+   * Validate design optimization request
+   */
+  async validateOptimizationRequest(data: OptimizationRequest): Promise<{
+    isValid: boolean;
+    errors: string[];
+    sanitizedData?: OptimizationRequest;
+  }> {
+    const { error, value } = this.optimizationSchema.validate(data, {
+      abortEarly: false,
+      stripUnknown: true
+    });
+
+    if (error) {
+      return {
+        isValid: false,
+        errors: error.details.map(detail => detail.message)
+      };
+    }
+
+    return {
+      isValid: true,
+      errors: [],
+      sanitizedData: value
+    };
+  }
+
+  /**
+   * Validate parameter sweep request
+   */
+  async validateSweepRequest(data: SweepRequest): Promise<{
+    isValid: boolean;
+    errors: string[];
+    sanitizedData?: SweepRequest;
+  }> {
+    const { error, value } = this.sweepSchema.validate(data, {
+      abortEarly: false,
+      stripUnknown: true
+    });
+
+    if (error) {
+      return {
+        isValid: false,
+        errors: error.details.map(detail => detail.message)
+      };
+    }
+
+    return {
+      isValid: true,
+      errors: [],
+      sanitizedData: value
+    };
+  }
+
+  /**
+   * Validate flight log import request
+   */
+  async validateFlightLogImport(data: ImportFlightLogRequest): Promise<{
+    isValid: boolean;
+    errors: string[];
+    sanitizedData?: ImportFlightLogRequest;
+  }> {
+    const { error, value } = this.flightLogImportSchema.validate(data, {
+      abortEarly: false,
+      stripUnknown: true
+    });
+
+    if (error) {
+      return {
+        isValid: false,
+        errors: error.details.map(detail => detail.message)
+      };
+    }
+
+    return {
+      isValid: true,
+      errors: [],
+      sanitizedData: value
+    };
+  }
+
+  /**
+   * Validate rocket configuration with physics checks, resolving motor
+   * designations against `motorDatabase` (a user's catalog, say)
    */
-  async validateRocketConfig(config: RocketConfig): Promise<{
+  async validateRocketConfig(config: RocketConfig, motorDatabase: MotorDatabase = this.motorDatabase): Promise<{
     isValid: boolean;
     errors: string[];
     warnings: string[];
+    stability?: StabilityAnalysis;
   }> {
     const errors: string[] = [];
     const warnings: string[] = [];
@@ -262,15 +598,25 @@ export class ValidationService {
         errors.push(...error.details.map(detail => detail.message));
       }
 
+      // Fill in motor data referenced by designation
+      let resolvedConfig = config;
+      try {
+        resolvedConfig = motorDatabase.resolveConfig(config);
+      } catch (motorError: any) {
+        errors.push(motorError.message);
+        return { isValid: false, errors, warnings };
+      }
+
       // Physics-based validation
-      const physicsValidation = this.validatePhysics(config);
+      const physicsValidation = this.validatePhysics(resolvedConfig);
       errors.push(...physicsValidation.errors);
       warnings.push(...physicsValidation.warnings);
 
       return {
         isValid: errors.length === 0,
         errors,
-        warnings
+        warnings,
+        stability: physicsValidation.stability
       };
     } catch (err) {
       return {
@@ -287,60 +633,86 @@ export class ValidationService {
   private validatePhysics(config: RocketConfig): {
     errors: string[];
     warnings: string[];
+    stability: StabilityAnalysis;
   } {
     const errors: string[] = [];
     const warnings: string[] = [];
 
     // Calculate total mass
-    const totalMass = config.body.mass + config.noseCone.mass + 
-                     config.fins.mass + config.engine.totalMass + config.recovery.mass;
+    const totalMass = calculateMassProperties(config).mass;
 
-    // Thrust-to-weight ratio check
-    const thrustToWeight = config.engine.thrust / (totalMass * 9.81);
+    // Thrust-to-weight ratio check (the first stage lifts the whole stack)
+    const thrustToWeight = liftoffThrust(config) / (totalMass * 9.81);
     if (thrustToWeight < 3) {
       errors.push(`Thrust-to-weight ratio too low: ${thrustToWeight.toFixed(2)} (minimum 3.0)`);
     } else if (thrustToWeight < 5) {
       warnings.push(`Low thrust-to-weight ratio: ${thrustToWeight.toFixed(2)} (recommended minimum 5.0)`);
     }
 
+    const allMotors = stageMotors(config).flat();
+
     // Mass consistency checks
-    if (config.engine.propellantMass >= config.engine.totalMass) {
+    if (allMotors.some(motor => motor.propellantMass >= motor.totalMass)) {
       errors.push('Propellant mass cannot be greater than or equal to total engine mass');
     }
 
+    // Thrust curve must end at burnout
+    allMotors.forEach(motor => {
+      const thrustCurve = motor.thrustCurve;
+      if (thrustCurve && thrustCurve.length > 0) {
+        const curveEnd = Math.max(...thrustCurve.map(point => point.time));
+        if (Math.abs(curveEnd - motor.burnTime) > 0.01) {
+          errors.push(`Burn time (${motor.burnTime}s) does not match the end of the thrust curve (${curveEnd}s)`);
+        }
+      }
+    });
+
     // Fin geometry checks
     if (config.fins.tipChord >= config.fins.rootChord) {
       warnings.push('Tip chord should typically be smaller than root chord for better aerodynamics');
     }
 
     // Recovery system checks
-    if (config.recovery.type === RecoveryType.PARACHUTE) {
+    const canopyRecovery = [RecoveryType.PARACHUTE, RecoveryType.DUAL_DEPLOY, RecoveryType.HELICOPTER];
+    if (canopyRecovery.includes(config.recovery.type)) {
       if (!config.recovery.parachuteDiameter) {
-        errors.push('Parachute diameter is required for parachute recovery');
+        errors.push(`Parachute diameter is required for ${config.recovery.type} recovery`);
       } else {
-        // Check descent rate (rough calculation)
-        const parachuteArea = Math.PI * (config.recovery.parachuteDiameter / 2) ** 2;
-        const descentRate = Math.sqrt((2 * totalMass * 9.81) / (1.225 * 1.3 * parachuteArea));
+        // Steady descent rate of the empty upper stage under the (main) canopy
+        const burnoutMass = calculateMassProperties({ ...config, stages: undefined }, 0).mass;
+        const descentRate = terminalDescentRate(burnoutMass, recoveryDragArea(config, 'main'));
         
-        if (descentRate > 7) { // 7 m/s is generally considered maximum safe descent rate
+        if (descentRate > SAFE_DESCENT_RATE) {
           warnings.push(`High descent rate: ${descentRate.toFixed(1)} m/s (recommend larger parachute)`);
         }
       }
     }
 
-    // Stability checks (simplified)
+    // Stability checks (Barrowman center of pressure)
     const bodyLength = config.body.length;
     const bodyDiameter = config.body.diameter;
-    const finSpan = config.fins.span;
+    const stability = SimulationEngine.analyzeStability(config);
+    const margin = stability.stabilityMargin;
+
+    if (margin < 0) {
+      errors.push(`Unstable rocket: center of pressure is ${(-margin).toFixed(2)} calibers ahead of center of gravity`);
+    } else if (margin < 1) {
+      warnings.push(`Low stability margin: ${margin.toFixed(2)} calibers (recommended 1-2)`);
+    } else if (margin > 3) {
+      warnings.push(`Overstable rocket (${margin.toFixed(2)} calibers), will turn strongly into the wind`);
+    }
 
-    // Check if fins are large enough for stability
-    const finArea = config.fins.count * config.fins.rootChord * config.fins.span;
-    const bodyArea = Math.PI * (bodyDiameter / 2) ** 2;
-    const finToBodyRatio = finArea / bodyArea;
+    // The stack left after each separation has to be stable on its own
+    (config.stages ?? []).forEach((stage, index) => {
+      const remaining = { ...config, stages: config.stages!.slice(index + 1) };
+      const stageMargin = SimulationEngine.analyzeStability(remaining).stabilityMargin;
 
-    if (finToBodyRatio < 0.5) {
-      warnings.push('Fins may be too small for adequate stability');
-    }
+      if (stageMargin < 0) {
+        errors.push(`Unstable after stage ${index + 1} separation: center of pressure is ${(-stageMargin).toFixed(2)} calibers ahead of center of gravity`);
+      } else if (stageMargin < 1) {
+        warnings.push(`Low stability margin after stage ${index + 1} separation: ${stageMargin.toFixed(2)} calibers`);
+      }
+    });
 
     // Length-to-diameter ratio check
     const lengthToDiameter = bodyLength / bodyDiameter;
@@ -368,6 +740,21 @@ export class ValidationService {
       errors.push(`Body diameter (${bodyDiameterMm}mm) too small for ${config.engine.type} engine (needs ${expectedDiameter}mm)`);
     }
 
+    // Clustered motors have to fit side by side: their combined cross-section within the body's
+    stageMotors(config).forEach((motors, index) => {
+      const motorsInMount = motors.reduce((sum, motor) => sum + motorCount(motor), 0);
+      if (motorsInMount < 2) return;
+
+      const clusterArea = motors.reduce((sum, motor) => {
+        const diameterMm = motor.diameter ? motor.diameter * 1000 : engineDiameters[motor.type] || 0;
+        return sum + motorCount(motor) * diameterMm ** 2;
+      }, 0);
+      if (clusterArea > bodyDiameterMm ** 2) {
+        const mount = index < (config.stages ?? []).length ? `stage ${index + 1}` : 'the upper stage';
+        errors.push(`Cluster of ${motorsInMount} motors does not fit in ${mount} (body diameter ${bodyDiameterMm}mm)`);
+      }
+    });
+
     // Launch angle check
     if (config.launch.launchAngle > 5) {
       warnings.push(`High launch angle (${config.launch.launchAngle}°) may reduce altitude performance`);
@@ -378,7 +765,18 @@ export class ValidationService {
       warnings.push('Launch rod should be longer than rocket body for good guidance');
     }
 
-    return { errors, warnings };
+    // Rail exit speed with the forecast wind
+    const requiredExitVelocity = requiredRailExitVelocity(config.launch.windSpeed ?? 0);
+    const exitVelocity = estimateRailExit(config, config.launch.launchRodLength)?.velocity ?? 0;
+    if (exitVelocity < requiredExitVelocity) {
+      const rodLength = minimumRodLength(config, requiredExitVelocity);
+      const suggestion = rodLength !== undefined
+        ? `use a rod of at least ${rodLength.toFixed(2)} m`
+        : 'the motor cannot reach it';
+      warnings.push(`Low launch rod exit velocity: ${exitVelocity.toFixed(1)} m/s (needs ${requiredExitVelocity.toFixed(1)} m/s, ${suggestion})`);
+    }
+
+    return { errors, warnings, stability };
   }
 
   /**
@@ -413,9 +811,8 @@ export class ValidationService {
     const concerns: string[] = [];
     const recommendations: string[] = [];
 
-    const totalMass = config.body.mass + config.noseCone.mass + 
-                     config.fins.mass + config.engine.totalMass + config.recovery.mass;
-    const thrustToWeight = config.engine.thrust / (totalMass * 9.81);
+    const totalMass = calculateMassProperties(config).mass;
+    const thrustToWeight = liftoffThrust(config) / (totalMass * 9.81);
 
     // Check engine class
     const engineClass = config.engine.type;
@@ -437,6 +834,11 @@ export class ValidationService {
       recommendations.push('Use single parachute recovery for first rockets');
     }
 
+    if (config.stages?.length || motorCount(config.engine) > 1) {
+      concerns.push('Multi-stage and clustered motors are advanced');
+      recommendations.push('Fly single-motor rockets before staging or clustering');
+    }
+
     // Check materials
     const advancedMaterials = [RocketMaterial.CARBON_FIBER, RocketMaterial.FIBERGLASS];
     const hasAdvancedMaterials = [
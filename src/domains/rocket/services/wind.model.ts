@@ -0,0 +1,135 @@
+/**
+ * Wind Model
+ *
+ * Horizontal wind as a function of altitude and time. The mean wind follows a
+ * power-law or logarithmic boundary-layer profile scaled from the speed
+ * measured at `windReferenceHeight`; gusts are a seeded sum of sinusoids with
+ * a turbulence-like spectrum, sized so that peaks reach `windGustSpeed`.
+ * Gusts depend only on time, so the integrator can evaluate any instant.
+ *
+ * World axes: x points north, z points east and the wind direction is the
+ * meteorological direction the wind blows FROM.
+ */
+
+import { Vector3, WeatherConditions, WindProfile } from '../../../shared/types/rocket';
+import { RandomSource, createRandom } from './random';
+import { windVelocity } from './flight.dynamics';
+
+export const DEFAULT_WIND_REFERENCE_HEIGHT = 10; // m, standard anemometer height
+export const DEFAULT_WIND_SHEAR_EXPONENT = 1 / 7; // open terrain
+export const DEFAULT_SURFACE_ROUGHNESS = 0.03; // m, short grass
+
+// Typical ratio of peak gust excess to the turbulence standard deviation
+const GUST_PEAK_FACTOR = 2.5;
+const LATERAL_TURBULENCE_RATIO = 0.75;
+
+const GUST_COMPONENTS = 12;
+const GUST_MIN_FREQUENCY = 0.02; // Hz
+const GUST_MAX_FREQUENCY = 2; // Hz
+
+// Below this height the profile is held constant (the launch pad itself)
+const MIN_PROFILE_HEIGHT = 1; // m
+
+interface GustComponent {
+  frequency: number; // rad/s
+  amplitude: number; // normalised so the sum has unit RMS
+  phase: number;
+}
+
+export class WindModel {
+  private readonly speed: number;
+  private readonly direction: Vector3; // unit vector the wind blows towards
+  private readonly crossDirection: Vector3;
+  private readonly turbulence: number; // m/s standard deviation at the reference height
+  private readonly longitudinalGusts: GustComponent[];
+  private readonly lateralGusts: GustComponent[];
+
+  constructor(private weather: WeatherConditions, seed: number = 0) {
+    this.speed = Math.max(0, weather.windSpeed);
+    this.direction = windVelocity(1, weather.windDirection);
+    this.crossDirection = { x: -this.direction.z, y: 0, z: this.direction.x };
+    this.turbulence = weather.windGustSpeed && weather.windGustSpeed > this.speed
+      ? (weather.windGustSpeed - this.speed) / GUST_PEAK_FACTOR
+      : 0;
+
+    const random = createRandom(seed);
+    this.longitudinalGusts = createGustComponents(random);
+    this.lateralGusts = createGustComponents(random);
+  }
+
+  /**
+   * Mean wind speed at an altitude (m AGL)
+   */
+  speedAt(altitude: number): number {
+    return this.speed * this.profileFactor(altitude);
+  }
+
+  /**
+   * Wind velocity (m/s) at an altitude and time, including gusts
+   */
+  velocityAt(altitude: number, time: number): Vector3 {
+    const factor = this.profileFactor(altitude);
+    const sigma = this.turbulence * factor;
+    let along = this.speed * factor;
+    let across = 0;
+
+    if (sigma > 0) {
+      along += sigma * sumGusts(this.longitudinalGusts, time);
+      across = sigma * LATERAL_TURBULENCE_RATIO * sumGusts(this.lateralGusts, time);
+    }
+
+    return {
+      x: this.direction.x * along + this.crossDirection.x * across,
+      y: 0,
+      z: this.direction.z * along + this.crossDirection.z * across
+    };
+  }
+
+  /**
+   * Ratio of the mean wind at `altitude` to the measured wind
+   */
+  private profileFactor(altitude: number): number {
+    const referenceHeight = this.weather.windReferenceHeight || DEFAULT_WIND_REFERENCE_HEIGHT;
+    const height = Math.max(MIN_PROFILE_HEIGHT, altitude);
+
+    switch (this.weather.windProfile ?? WindProfile.POWER_LAW) {
+      case WindProfile.CONSTANT:
+        return 1;
+      case WindProfile.LOGARITHMIC: {
+        const roughness = this.weather.surfaceRoughness || DEFAULT_SURFACE_ROUGHNESS;
+        return Math.max(0, Math.log(height / roughness) / Math.log(referenceHeight / roughness));
+      }
+      case WindProfile.POWER_LAW:
+      default:
+        return (height / referenceHeight) ** (this.weather.windShearExponent ?? DEFAULT_WIND_SHEAR_EXPONENT);
+    }
+  }
+}
+
+/**
+ * Random frequencies across the gust band with a -5/3 power spectrum
+ */
+function createGustComponents(random: RandomSource): GustComponent[] {
+  const components: GustComponent[] = [];
+  const logRange = Math.log(GUST_MAX_FREQUENCY / GUST_MIN_FREQUENCY);
+
+  for (let i = 0; i < GUST_COMPONENTS; i++) {
+    const frequency = GUST_MIN_FREQUENCY * Math.exp(logRange * (i + random()) / GUST_COMPONENTS);
+    components.push({
+      frequency: 2 * Math.PI * frequency,
+      // Amplitude² ∝ PSD × bandwidth, with bandwidth ∝ frequency on a log grid
+      amplitude: Math.sqrt(frequency ** (-5 / 3) * frequency),
+      phase: 2 * Math.PI * random()
+    });
+  }
+
+  const rms = Math.sqrt(components.reduce((sum, component) => sum + component.amplitude ** 2 / 2, 0));
+  return components.map(component => ({ ...component, amplitude: component.amplitude / rms }));
+}
+
+function sumGusts(components: GustComponent[], time: number): number {
+  return components.reduce(
+    (sum, component) => sum + component.amplitude * Math.sin(component.frequency * time + component.phase),
+    0
+  );
+}
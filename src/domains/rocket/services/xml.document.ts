@@ -0,0 +1,149 @@
+/**
+ * XML Documents
+ *
+ * A small element-tree reader and writer for the design file formats
+ * (OpenRocket, RockSim). Covers elements, attributes, text, comments, CDATA
+ * and the predefined and numeric entities; DTDs and namespaces are not
+ * interpreted.
+ */
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string; // concatenated, trimmed character data
+}
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+const ESCAPES: Record<string, string> = { '<': 'lt', '>': 'gt', '&': 'amp', '"': 'quot' };
+
+/**
+ * Parse a document and return its root element
+ */
+export function parseXml(source: string): XmlElement {
+  const tokenPattern = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<\/([^\s>]+)\s*>|<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+  const stack: Array<{ element: XmlElement; text: string[] }> = [];
+  let root: XmlElement | null = null;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokenPattern.exec(source)) !== null) {
+    const [, cdata, closing, opening, attributes, selfClosing, text] = match;
+    const current = stack[stack.length - 1];
+
+    if (opening) {
+      const element: XmlElement = { name: opening, attributes: parseAttributes(attributes), children: [], text: '' };
+      if (current) {
+        current.element.children.push(element);
+      } else if (root) {
+        throw new Error('Invalid XML: more than one root element');
+      } else {
+        root = element;
+      }
+      if (!selfClosing) stack.push({ element, text: [] });
+    } else if (closing) {
+      const open = stack.pop();
+      if (!open || open.element.name !== closing) {
+        throw new Error(`Invalid XML: unexpected </${closing}>`);
+      }
+      open.element.text = open.text.join('').trim();
+    } else if (cdata !== undefined) {
+      current?.text.push(cdata);
+    } else if (text !== undefined) {
+      current?.text.push(decodeEntities(text));
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new Error(`Invalid XML: <${stack[stack.length - 1].element.name}> is not closed`);
+  }
+  if (!root) {
+    throw new Error('Invalid XML: no root element');
+  }
+  return root;
+}
+
+/**
+ * Write an element tree as an indented document
+ */
+export function serializeXml(root: XmlElement): string {
+  return `<?xml version="1.0" encoding="utf-8"?>\n${serializeElement(root, '')}`;
+}
+
+/**
+ * Build an element; string and number children become text
+ */
+export function xmlElement(
+  name: string,
+  attributes: Record<string, string | number> = {},
+  content: Array<XmlElement | undefined> | string | number = []
+): XmlElement {
+  const isText = typeof content === 'string' || typeof content === 'number';
+  return {
+    name,
+    attributes: Object.fromEntries(Object.entries(attributes).map(([key, value]) => [key, String(value)])),
+    children: isText ? [] : (content as Array<XmlElement | undefined>).filter((child): child is XmlElement => !!child),
+    text: isText ? String(content) : ''
+  };
+}
+
+export function childElement(element: XmlElement, name: string): XmlElement | undefined {
+  return element.children.find(child => child.name.toLowerCase() === name.toLowerCase());
+}
+
+export function childElements(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter(child => child.name.toLowerCase() === name.toLowerCase());
+}
+
+export function childText(element: XmlElement, name: string): string | undefined {
+  return childElement(element, name)?.text;
+}
+
+/**
+ * Numeric child value; undefined when missing or not a number (e.g. "auto")
+ */
+export function childNumber(element: XmlElement, name: string): number | undefined {
+  const text = childText(element, name);
+  const value = text === undefined || text === '' ? NaN : Number(text);
+  return isFinite(value) ? value : undefined;
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const attributePattern = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = attributePattern.exec(source)) !== null) {
+    attributes[match[1]] = decodeEntities(match[2] ?? match[3]);
+  }
+
+  return attributes;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return String.fromCodePoint(value);
+    }
+    return ENTITIES[code] ?? entity;
+  });
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"]/g, character => `&${ESCAPES[character]};`);
+}
+
+function serializeElement(element: XmlElement, indent: string): string {
+  const attributes = Object.entries(element.attributes)
+    .map(([key, value]) => ` ${key}="${escapeXml(value)}"`)
+    .join('');
+
+  if (element.children.length > 0) {
+    const children = element.children.map(child => serializeElement(child, `${indent}  `)).join('');
+    return `${indent}<${element.name}${attributes}>\n${children}${indent}</${element.name}>\n`;
+  }
+  if (element.text !== '') {
+    return `${indent}<${element.name}${attributes}>${escapeXml(element.text)}</${element.name}>\n`;
+  }
+  return `${indent}<${element.name}${attributes}/>\n`;
+}
@@ -0,0 +1,11 @@
+/**
+ * Simulation Worker
+ *
+ * Worker thread entry point for createWorkerRunner: runs the simulations the
+ * pool sends and streams their progress back.
+ */
+
+import { serveWorkerTasks } from '../../../infrastructure/queue/worker.pool';
+import { runSimulation } from '../services/simulation.runner';
+
+serveWorkerTasks(runSimulation);
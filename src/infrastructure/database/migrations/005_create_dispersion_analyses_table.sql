@@ -0,0 +1,45 @@
+-- Migration: Create dispersion analyses table
+-- Description: Store aggregate Monte Carlo landing dispersion results for rockets
+-- Dependencies: 001_create_users_table.sql, 003_create_rockets_table.sql
+
+CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+
+CREATE TABLE IF NOT EXISTS dispersion_analyses (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    rocket_id UUID NOT NULL REFERENCES rockets(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    
+    -- Nominal inputs the runs were drawn around
+    rocket_config JSONB NOT NULL,
+    weather JSONB NOT NULL,
+    launch_options JSONB,
+    
+    -- Monte Carlo setup
+    runs INTEGER NOT NULL CHECK (runs > 0),
+    failed_runs INTEGER NOT NULL DEFAULT 0 CHECK (failed_runs >= 0),
+    seed BIGINT NOT NULL,
+    tolerances JSONB NOT NULL,
+    
+    -- Aggregate results (statistics, landing points and ellipses)
+    results JSONB NOT NULL,
+    
+    -- Performance Summary (denormalized for quick queries)
+    mean_apogee DECIMAL(10,3) NOT NULL, -- meters AGL
+    
+    -- Timestamps
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Indexes for performance
+CREATE INDEX idx_dispersion_analyses_rocket_id ON dispersion_analyses(rocket_id, created_at DESC);
+CREATE INDEX idx_dispersion_analyses_user_id ON dispersion_analyses(user_id);
+
+-- Comments for documentation
+COMMENT ON TABLE dispersion_analyses IS 'Stores aggregate Monte Carlo dispersion results instead of one simulation row per run';
+
+COMMENT ON COLUMN dispersion_analyses.rocket_config IS 'Snapshot of the nominal rocket configuration';
+COMMENT ON COLUMN dispersion_analyses.weather IS 'Nominal weather conditions';
+COMMENT ON COLUMN dispersion_analyses.seed IS 'Random seed that reproduces every run of the analysis';
+COMMENT ON COLUMN dispersion_analyses.tolerances IS 'One standard deviation of each varied parameter';
+COMMENT ON COLUMN dispersion_analyses.results IS 'Apogee and landing distance statistics, landing points and 1/2/3 sigma landing ellipses';
+COMMENT ON COLUMN dispersion_analyses.mean_apogee IS 'Mean apogee (meters AGL) - denormalized for performance';
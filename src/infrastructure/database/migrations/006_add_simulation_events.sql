@@ -0,0 +1,20 @@
+-- Migration: Add flight events to simulations
+-- Description: Store the discrete flight event timeline (rod clearance, burnout, apogee, deployment...) with each simulation
+-- Dependencies: 004_create_simulations_table.sql
+
+ALTER TABLE simulations
+    ADD COLUMN IF NOT EXISTS events JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN simulations.events IS 'Flight events in time order, each with an exact time, altitude, velocity and position';
+
+/*
+Example events JSONB structure:
+[
+  { "type": "ignition", "time": 0, "altitude": 0, "velocity": 0, "position": { "x": 0, "y": 0, "z": 0 }, "stage": 1 },
+  { "type": "launch_rod_clearance", "time": 0.21, "altitude": 1.2, "velocity": 11.4, "position": { "x": 0.02, "y": 1.2, "z": 0 } },
+  { "type": "burnout", "time": 2.5, "altitude": 78.2, "velocity": 67.1, "position": { "x": 3.1, "y": 78.2, "z": 0.4 }, "stage": 1 },
+  { "type": "apogee", "time": 6.83, "altitude": 245.7, "velocity": 4.2, "position": { "x": 12.5, "y": 245.7, "z": 1.9 } },
+  { "type": "deployment", "time": 18.2, "altitude": 150, "velocity": 31.8, "position": { "x": 20.4, "y": 150, "z": 3.3 }, "device": "main" },
+  { "type": "ground_hit", "time": 41.6, "altitude": 0, "velocity": 5.1, "position": { "x": 118.7, "y": 0, "z": 16.2 } }
+]
+*/
@@ -0,0 +1,15 @@
+-- Migration: Add reproducibility metadata to simulations
+-- Description: Record the gust seed, physics engine version and a hash of the inputs so a simulation can be replayed
+-- Dependencies: 004_create_simulations_table.sql
+
+ALTER TABLE simulations
+    ADD COLUMN IF NOT EXISTS seed BIGINT,
+    ADD COLUMN IF NOT EXISTS engine_version VARCHAR(20),
+    ADD COLUMN IF NOT EXISTS input_hash CHAR(64);
+
+-- Find earlier runs of the same inputs
+CREATE INDEX IF NOT EXISTS idx_simulations_input_hash ON simulations(input_hash);
+
+COMMENT ON COLUMN simulations.seed IS 'Random seed for wind gusts (NULL for simulations recorded before replay support)';
+COMMENT ON COLUMN simulations.engine_version IS 'Physics engine version that produced the results';
+COMMENT ON COLUMN simulations.input_hash IS 'SHA-256 of the canonical JSON of rocket_config, weather and launch_options';
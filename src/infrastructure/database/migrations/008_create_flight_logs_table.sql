@@ -0,0 +1,40 @@
+-- Migration: Create flight logs table
+-- Description: Store altimeter logs of real flights so they can be compared with simulations
+-- Dependencies: 001_create_users_table.sql, 003_create_rockets_table.sql
+
+CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+
+CREATE TABLE IF NOT EXISTS flight_logs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    rocket_id UUID NOT NULL REFERENCES rockets(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    
+    -- Flight details
+    name VARCHAR(100) NOT NULL,
+    format VARCHAR(20) NOT NULL,
+    flown_at DATE,
+    
+    -- Samples in meters, m/s and seconds on the altimeter's clock
+    samples JSONB NOT NULL,
+    velocity_source VARCHAR(10) NOT NULL CHECK (velocity_source IN ('logged', 'derived')),
+    
+    -- Summary (denormalized for lists)
+    apogee DECIMAL(10,3) NOT NULL, -- meters AGL
+    apogee_time DECIMAL(10,3) NOT NULL, -- seconds
+    max_velocity DECIMAL(10,3) NOT NULL, -- m/s
+    
+    -- Timestamps
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Indexes for performance
+CREATE INDEX idx_flight_logs_rocket_id ON flight_logs(rocket_id, created_at DESC);
+CREATE INDEX idx_flight_logs_user_id ON flight_logs(user_id);
+
+-- Comments for documentation
+COMMENT ON TABLE flight_logs IS 'Altimeter logs of real flights, compared against simulations of the same rocket';
+
+COMMENT ON COLUMN flight_logs.format IS 'Altimeter format the log was read as (jolly-logic, perfectflite, eggtimer, csv)';
+COMMENT ON COLUMN flight_logs.samples IS 'Array of {time, altitude, velocity} converted to seconds, meters AGL and m/s';
+COMMENT ON COLUMN flight_logs.velocity_source IS 'Whether velocities came from the log or were derived from altitude';
+COMMENT ON COLUMN flight_logs.apogee IS 'Highest logged altitude (meters AGL) - denormalized for performance';
@@ -0,0 +1,52 @@
+-- Migration: Create rocket revisions table
+-- Description: Keep every saved version of a rocket design so it can be compared and restored, and link simulations to the version they flew
+-- Dependencies: 001_create_users_table.sql, 003_create_rockets_table.sql, 004_create_simulations_table.sql
+
+CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+
+CREATE TABLE IF NOT EXISTS rocket_revisions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    rocket_id UUID NOT NULL REFERENCES rockets(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+
+    -- Design as saved
+    name VARCHAR(100) NOT NULL,
+    description TEXT,
+    config JSONB NOT NULL,
+    restored_from INTEGER,
+
+    -- Timestamps
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE (rocket_id, version)
+);
+
+-- Revisions are only ever appended
+CREATE OR REPLACE FUNCTION prevent_rocket_revision_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'rocket_revisions is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER rocket_revisions_append_only_trigger
+    BEFORE UPDATE ON rocket_revisions
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_rocket_revision_changes();
+
+-- Existing designs start their history at their current version
+INSERT INTO rocket_revisions (rocket_id, version, user_id, name, description, config, created_at)
+SELECT id, version, user_id, name, description, config, updated_at
+FROM rockets
+ON CONFLICT (rocket_id, version) DO NOTHING;
+
+ALTER TABLE simulations
+    ADD COLUMN IF NOT EXISTS rocket_version INTEGER;
+
+COMMENT ON TABLE rocket_revisions IS 'Append-only history of rocket designs, one row per saved version';
+
+COMMENT ON COLUMN rocket_revisions.version IS 'Matches rockets.version at the time the revision was saved';
+COMMENT ON COLUMN rocket_revisions.user_id IS 'User who saved the revision';
+COMMENT ON COLUMN rocket_revisions.restored_from IS 'Version copied when the revision was saved by a restore (NULL otherwise)';
+COMMENT ON COLUMN simulations.rocket_version IS 'Version of the rocket design flown (NULL for simulations recorded before revisions)';
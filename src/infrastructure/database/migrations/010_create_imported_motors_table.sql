@@ -0,0 +1,25 @@
+-- Migration: Create imported motors table
+-- Description: Keep the motors each user imports from RASP .eng or RockSim .rse files
+-- Dependencies: 001_create_users_table.sql
+
+CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+
+CREATE TABLE IF NOT EXISTS imported_motors (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+
+    -- Motor as parsed, thrust curve included
+    designation VARCHAR(50) NOT NULL,
+    definition JSONB NOT NULL,
+
+    -- Timestamps
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE (user_id, designation)
+);
+
+COMMENT ON TABLE imported_motors IS 'Motors imported by a user, seen only in that user''s motor catalog alongside the built-in motors';
+
+COMMENT ON COLUMN imported_motors.designation IS 'Upper-case designation without delay; a re-import of the same designation replaces the row';
+COMMENT ON COLUMN imported_motors.definition IS 'MotorDefinition as parsed from the imported file';
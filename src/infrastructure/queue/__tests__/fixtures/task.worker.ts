@@ -0,0 +1,28 @@
+/**
+ * Task Worker
+ *
+ * Worker script for the WorkerPool tests: counts up to `steps` reporting each
+ * step, fails with `fail`, or stops the thread outright with `crash`.
+ */
+
+import { serveWorkerTasks } from '../../worker.pool';
+
+export interface TestTask {
+  steps?: number;
+  fail?: string;
+  crash?: boolean;
+}
+
+serveWorkerTasks<TestTask, number, number>(async (task, reportProgress) => {
+  if (task.crash) {
+    process.exit(3);
+  }
+  if (task.fail) {
+    throw new Error(task.fail);
+  }
+
+  for (let step = 1; step <= (task.steps ?? 0); step++) {
+    reportProgress(step);
+  }
+  return task.steps ?? 0;
+});
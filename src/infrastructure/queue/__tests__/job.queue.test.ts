@@ -0,0 +1,151 @@
+/**
+ * Job Queue Tests
+ *
+ * Unit tests for job status transitions, progress events and concurrency of
+ * the in-memory job queue.
+ */
+
+import { InMemoryJobQueue, JobProcessor } from '../job.queue';
+import { JobStatus, JobEvent } from '../../../shared/types/common';
+
+describe('InMemoryJobQueue', () => {
+  // A processor whose jobs finish when the test says so
+  const controlledProcessor = () => {
+    const running: Array<{
+      input: string;
+      reportProgress: (progress: number) => void;
+      resolve: (result: string) => void;
+      reject: (error: Error) => void;
+    }> = [];
+    const processor: JobProcessor<string, string, number> = (input, reportProgress) =>
+      new Promise((resolve, reject) => running.push({ input, reportProgress, resolve, reject }));
+    return { processor, running };
+  };
+
+  // Let the queue react to a settled job
+  const flush = () => new Promise(resolve => setImmediate(resolve));
+
+  it('should move a job from queued through running to completed', async () => {
+    // Arrange
+    const { processor, running } = controlledProcessor();
+    const queue = new InMemoryJobQueue(processor);
+
+    // Act
+    const queued = await queue.enqueue('flight');
+    const started = await queue.get(queued.id);
+    running[0].resolve('landed');
+    await flush();
+    const finished = await queue.get(queued.id);
+
+    // Assert
+    expect(queued.status).toBe(JobStatus.QUEUED);
+    expect(queued.startedAt).toBeUndefined();
+    expect(started!.status).toBe(JobStatus.RUNNING);
+    expect(started!.startedAt).toBeInstanceOf(Date);
+    expect(finished).toMatchObject({ status: JobStatus.COMPLETED, input: 'flight', result: 'landed' });
+    expect(finished!.finishedAt).toBeInstanceOf(Date);
+  });
+
+  it('should mark a job failed with the processor error', async () => {
+    // Arrange
+    const { processor, running } = controlledProcessor();
+    const queue = new InMemoryJobQueue(processor);
+    const job = await queue.enqueue('flight');
+    const events: JobEvent<string, number>[] = [];
+    queue.subscribe(job.id, event => events.push(event));
+
+    // Act
+    running[0].reject(new Error('Motor not found: Z99'));
+    await flush();
+
+    // Assert
+    expect(await queue.get(job.id)).toMatchObject({ status: JobStatus.FAILED, error: 'Motor not found: Z99' });
+    expect(events).toEqual([{ type: 'failed', error: 'Motor not found: Z99' }]);
+  });
+
+  it('should send started, progress in the order reported, then completed', async () => {
+    // Arrange
+    const { processor, running } = controlledProcessor();
+    const queue = new InMemoryJobQueue(processor, { concurrency: 1 });
+    await queue.enqueue('first');
+    const job = await queue.enqueue('second');
+    const events: JobEvent<string, number>[] = [];
+    queue.subscribe(job.id, event => events.push(event));
+
+    // Act
+    running[0].resolve('done');
+    await flush();
+    [0.25, 0.5, 1].forEach(progress => running[1].reportProgress(progress));
+    running[1].resolve('landed');
+    await flush();
+
+    // Assert
+    expect(events).toEqual([
+      { type: 'started' },
+      { type: 'progress', progress: 0.25 },
+      { type: 'progress', progress: 0.5 },
+      { type: 'progress', progress: 1 },
+      { type: 'completed', result: 'landed' }
+    ]);
+    expect((await queue.get(job.id))!.progress).toBe(1);
+  });
+
+  it('should hold jobs beyond the concurrency until a running one finishes', async () => {
+    // Arrange
+    const { processor, running } = controlledProcessor();
+    const queue = new InMemoryJobQueue(processor, { concurrency: 2 });
+
+    // Act
+    const jobs = await Promise.all(['a', 'b', 'c'].map(input => queue.enqueue(input)));
+    const waiting = await queue.get(jobs[2].id);
+    running[1].reject(new Error('Crashed'));
+    await flush();
+
+    // Assert
+    expect(waiting!.status).toBe(JobStatus.QUEUED);
+    expect(running.map(job => job.input)).toEqual(['a', 'b', 'c']);
+    expect((await queue.get(jobs[2].id))!.status).toBe(JobStatus.RUNNING);
+  });
+
+  it('should stop sending events to an unsubscribed listener', async () => {
+    // Arrange
+    const { processor, running } = controlledProcessor();
+    const queue = new InMemoryJobQueue(processor);
+    const job = await queue.enqueue('flight');
+    const listener = jest.fn();
+    const unsubscribe = queue.subscribe(job.id, listener);
+
+    // Act
+    running[0].reportProgress(0.5);
+    unsubscribe();
+    running[0].resolve('landed');
+    await flush();
+
+    // Assert
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ type: 'progress', progress: 0.5 });
+  });
+
+  it('should forget a finished job after the retention period', async () => {
+    // Arrange
+    jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+    const { processor, running } = controlledProcessor();
+    const queue = new InMemoryJobQueue(processor, { retention: 1000 });
+    const job = await queue.enqueue('flight');
+
+    try {
+      // Act
+      running[0].resolve('landed');
+      await flush();
+      jest.advanceTimersByTime(999);
+      const kept = await queue.get(job.id);
+      jest.advanceTimersByTime(1);
+
+      // Assert
+      expect(kept!.status).toBe(JobStatus.COMPLETED);
+      expect(await queue.get(job.id)).toBeNull();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
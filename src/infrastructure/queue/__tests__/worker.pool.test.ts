@@ -0,0 +1,69 @@
+/**
+ * Worker Pool Tests
+ *
+ * Tests for running tasks on worker threads: results, progress order, task
+ * errors and replacing a worker that crashed.
+ */
+
+import path from 'path';
+import { WorkerPool } from '../worker.pool';
+import { TestTask } from './fixtures/task.worker';
+
+const TASK_WORKER = path.join(__dirname, 'fixtures', 'task.worker.ts');
+
+// Worker threads load their TypeScript through tsx, which takes a while on first start
+jest.setTimeout(30000);
+
+describe('WorkerPool', () => {
+  let pool: WorkerPool<TestTask, number, number>;
+
+  afterEach(async () => {
+    await pool.close();
+  });
+
+  it('should report progress in order before the result', async () => {
+    // Arrange
+    pool = new WorkerPool(TASK_WORKER, 1);
+    const progress: number[] = [];
+
+    // Act
+    const result = await pool.run({ steps: 5 }, step => progress.push(step));
+
+    // Assert
+    expect(result).toBe(5);
+    expect(progress).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('should run more tasks than workers one after another', async () => {
+    // Arrange
+    pool = new WorkerPool(TASK_WORKER, 2);
+
+    // Act
+    const results = await Promise.all([1, 2, 3, 4, 5].map(steps => pool.run({ steps })));
+
+    // Assert
+    expect(results).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('should reject a task that throws and keep the worker serving', async () => {
+    // Arrange
+    pool = new WorkerPool(TASK_WORKER, 1);
+
+    // Act & Assert
+    await expect(pool.run({ fail: 'Simulation diverged' })).rejects.toThrow('Simulation diverged');
+    await expect(pool.run({ steps: 2 })).resolves.toBe(2);
+  });
+
+  it('should fail the task of a crashed worker and replace the worker', async () => {
+    // Arrange
+    pool = new WorkerPool(TASK_WORKER, 1);
+
+    // Act
+    const crashed = pool.run({ crash: true });
+    const next = pool.run({ steps: 3 });
+
+    // Assert
+    await expect(crashed).rejects.toThrow('Worker stopped with exit code 3');
+    await expect(next).resolves.toBe(3);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Job Queue
+ *
+ * Background jobs with status tracking and progress events. `JobQueue` is the
+ * contract the API depends on; `InMemoryJobQueue` keeps the jobs in this
+ * process and runs up to `concurrency` of them at a time. A Redis-backed
+ * queue implementing the same interface (a job list consumed by workers,
+ * events over pub/sub) lets several servers share the work.
+ */
+
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { JobStatus, JobRecord, JobEvent } from '../../shared/types/common';
+
+export type JobProcessor<TInput, TResult, TProgress> = (
+  input: TInput,
+  reportProgress: (progress: TProgress) => void
+) => Promise<TResult>;
+
+export type JobListener<TResult, TProgress> = (event: JobEvent<TResult, TProgress>) => void;
+
+export interface JobQueue<TInput, TResult, TProgress> {
+  enqueue(input: TInput): Promise<JobRecord<TInput, TResult, TProgress>>;
+  get(id: string): Promise<JobRecord<TInput, TResult, TProgress> | null>;
+  /** Listen to a job's events until the returned function is called */
+  subscribe(id: string, listener: JobListener<TResult, TProgress>): () => void;
+}
+
+export type JobQueueFactory<TInput, TResult, TProgress> = (
+  processor: JobProcessor<TInput, TResult, TProgress>
+) => JobQueue<TInput, TResult, TProgress>;
+
+export interface InMemoryJobQueueOptions {
+  concurrency?: number; // jobs running at once
+  retention?: number; // ms a finished job stays available
+}
+
+export class InMemoryJobQueue<TInput, TResult, TProgress> implements JobQueue<TInput, TResult, TProgress> {
+  private jobs: Map<string, JobRecord<TInput, TResult, TProgress>> = new Map();
+  private pending: string[] = [];
+  private running: number = 0;
+  private events: EventEmitter = new EventEmitter();
+  private concurrency: number;
+  private retention: number;
+
+  constructor(
+    private processor: JobProcessor<TInput, TResult, TProgress>,
+    options: InMemoryJobQueueOptions = {}
+  ) {
+    this.concurrency = options.concurrency ?? 4;
+    this.retention = options.retention ?? 60 * 60 * 1000; // 1 hour
+    this.events.setMaxListeners(0); // one per streaming client
+  }
+
+  async enqueue(input: TInput): Promise<JobRecord<TInput, TResult, TProgress>> {
+    const job: JobRecord<TInput, TResult, TProgress> = {
+      id: randomUUID(),
+      status: JobStatus.QUEUED,
+      input,
+      createdAt: new Date()
+    };
+
+    this.jobs.set(job.id, job);
+    this.pending.push(job.id);
+    const queued = { ...job }; // as enqueued, before drain() may start it
+    this.drain();
+
+    return queued;
+  }
+
+  async get(id: string): Promise<JobRecord<TInput, TResult, TProgress> | null> {
+    const job = this.jobs.get(id);
+    return job ? { ...job } : null;
+  }
+
+  subscribe(id: string, listener: JobListener<TResult, TProgress>): () => void {
+    this.events.on(id, listener);
+    return () => {
+      this.events.off(id, listener);
+    };
+  }
+
+  /**
+   * Start queued jobs while there is capacity
+   */
+  private drain(): void {
+    while (this.running < this.concurrency && this.pending.length > 0) {
+      const job = this.jobs.get(this.pending.shift()!)!;
+      this.running++;
+      this.run(job).finally(() => {
+        this.running--;
+        this.drain();
+      });
+    }
+  }
+
+  private async run(job: JobRecord<TInput, TResult, TProgress>): Promise<void> {
+    job.status = JobStatus.RUNNING;
+    job.startedAt = new Date();
+    this.emit(job, { type: 'started' });
+
+    try {
+      job.result = await this.processor(job.input, progress => {
+        job.progress = progress;
+        this.emit(job, { type: 'progress', progress });
+      });
+      job.status = JobStatus.COMPLETED;
+      job.finishedAt = new Date();
+      this.emit(job, { type: 'completed', result: job.result });
+    } catch (error: any) {
+      job.status = JobStatus.FAILED;
+      job.error = error.message;
+      job.finishedAt = new Date();
+      this.emit(job, { type: 'failed', error: error.message });
+    }
+
+    // Forget finished jobs once nobody is likely to ask about them
+    setTimeout(() => this.jobs.delete(job.id), this.retention).unref();
+  }
+
+  private emit(job: JobRecord<TInput, TResult, TProgress>, event: JobEvent<TResult, TProgress>): void {
+    this.events.emit(job.id, event);
+  }
+}
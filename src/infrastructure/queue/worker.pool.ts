@@ -0,0 +1,132 @@
+/**
+ * Worker Pool
+ *
+ * Runs CPU-heavy tasks on worker_threads so they do not block the event loop.
+ * Workers start on first use and stay up for later tasks, one task at a time
+ * each; a worker that crashes fails its task and is replaced on demand.
+ * Worker scripts answer the pool with `serveWorkerTasks`.
+ */
+
+import { Worker, parentPort } from 'worker_threads';
+import { cpus } from 'os';
+
+type WorkerReply<TResult, TProgress> =
+  | { taskId: number; type: 'progress'; progress: TProgress }
+  | { taskId: number; type: 'result'; result: TResult }
+  | { taskId: number; type: 'error'; error: string };
+
+interface WorkerTask<TInput, TResult, TProgress> {
+  id: number;
+  input: TInput;
+  onProgress?: (progress: TProgress) => void;
+  resolve: (result: TResult) => void;
+  reject: (error: Error) => void;
+}
+
+export class WorkerPool<TInput, TResult, TProgress = never> {
+  private workers: Set<Worker> = new Set();
+  private idle: Worker[] = [];
+  private busy: Map<Worker, WorkerTask<TInput, TResult, TProgress>> = new Map();
+  private pending: WorkerTask<TInput, TResult, TProgress>[] = [];
+  private nextTaskId: number = 1;
+
+  constructor(
+    private script: string,
+    private size: number = Math.max(1, cpus().length - 1)
+  ) {}
+
+  /**
+   * Run a task on the next free worker
+   */
+  run(input: TInput, onProgress?: (progress: TProgress) => void): Promise<TResult> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ id: this.nextTaskId++, input, onProgress, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Stop every worker; tasks still running fail
+   */
+  async close(): Promise<void> {
+    const workers = [...this.workers];
+    await Promise.all(workers.map(worker => worker.terminate()));
+  }
+
+  private dispatch(): void {
+    while (this.pending.length > 0) {
+      const worker = this.idle.pop() ?? (this.workers.size < this.size ? this.startWorker() : undefined);
+      if (!worker) return;
+
+      const task = this.pending.shift()!;
+      this.busy.set(worker, task);
+      worker.ref();
+      worker.postMessage({ taskId: task.id, input: task.input });
+    }
+  }
+
+  private startWorker(): Worker {
+    // TypeScript sources (development) load through tsx like the main thread
+    const worker = this.script.endsWith('.ts')
+      ? new Worker(`require('tsx/cjs'); require(${JSON.stringify(this.script)});`, { eval: true })
+      : new Worker(this.script);
+    this.workers.add(worker);
+
+    worker.on('message', (reply: WorkerReply<TResult, TProgress>) => this.handleReply(worker, reply));
+    worker.on('error', error => this.handleExit(worker, error));
+    worker.on('exit', code => this.handleExit(worker, new Error(`Worker stopped with exit code ${code}`)));
+
+    return worker;
+  }
+
+  private handleReply(worker: Worker, reply: WorkerReply<TResult, TProgress>): void {
+    const task = this.busy.get(worker);
+    if (!task || task.id !== reply.taskId) return;
+
+    if (reply.type === 'progress') {
+      task.onProgress?.(reply.progress);
+      return;
+    }
+
+    this.busy.delete(worker);
+    this.idle.push(worker);
+    worker.unref(); // idle workers should not keep the process alive
+    if (reply.type === 'result') {
+      task.resolve(reply.result);
+    } else {
+      task.reject(new Error(reply.error));
+    }
+    this.dispatch();
+  }
+
+  private handleExit(worker: Worker, error: Error): void {
+    if (!this.workers.delete(worker)) return; // 'error' is followed by 'exit'
+
+    this.idle = this.idle.filter(candidate => candidate !== worker);
+    const task = this.busy.get(worker);
+    this.busy.delete(worker);
+    task?.reject(error);
+    this.dispatch();
+  }
+}
+
+/**
+ * Answer tasks from a WorkerPool inside a worker script
+ */
+export function serveWorkerTasks<TInput, TResult, TProgress>(
+  handler: (input: TInput, reportProgress: (progress: TProgress) => void) => Promise<TResult>
+): void {
+  const port = parentPort;
+  if (!port) {
+    throw new Error('serveWorkerTasks must be called from a worker thread');
+  }
+
+  port.on('message', async ({ taskId, input }: { taskId: number; input: TInput }) => {
+    try {
+      const result = await handler(input, progress => port.postMessage({ taskId, type: 'progress', progress }));
+      port.postMessage({ taskId, type: 'result', result });
+    } catch (error: any) {
+      port.postMessage({ taskId, type: 'error', error: error.message });
+    }
+  });
+}
@@ -243,6 +243,35 @@ export interface WebSocketMessage {
   requestId?: string;
 }
 
+// ============================================================================
+// Background Job Types
+// ============================================================================
+
+export enum JobStatus {
+  QUEUED = 'queued',
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed'
+}
+
+export interface JobRecord<TInput = any, TResult = any, TProgress = any> {
+  id: string;
+  status: JobStatus;
+  input: TInput;
+  progress?: TProgress; // latest progress report while running
+  result?: TResult;
+  error?: string;
+  createdAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+}
+
+export type JobEvent<TResult = any, TProgress = any> =
+  | { type: 'started' }
+  | { type: 'progress'; progress: TProgress }
+  | { type: 'completed'; result: TResult }
+  | { type: 'failed'; error: string };
+
 // ============================================================================
 // Cache Types
 // ============================================================================
@@ -5,6 +5,8 @@
  * the clean architecture pattern established in the Auth module.
  */
 
+import { JobStatus } from './common';
+
 export interface RocketDesign {
   id: string;
   userId: string;
@@ -17,6 +19,50 @@ export interface RocketDesign {
   updatedAt: Date;
 }
 
+export interface RocketRevision {
+  id: string;
+  rocketId: string;
+  version: number;
+  userId: string; // who saved it
+  name: string;
+  description?: string;
+  config: RocketConfig;
+  restoredFrom?: number; // version this one copies, when saved by a restore
+  createdAt: Date;
+}
+
+export interface ConfigChange {
+  path: string; // dotted, e.g. 'fins.span' or 'stages.0.motors.1'
+  type: ConfigChangeType;
+  before?: unknown; // absent when added
+  after?: unknown; // absent when removed
+}
+
+export interface RevisionDiff {
+  rocketId: string;
+  from: number;
+  to: number;
+  changes: ConfigChange[]; // in config order
+}
+
+export interface FieldConflict {
+  path: string; // 'name', 'description' or a config path such as 'config.fins.span'
+  base?: unknown; // value in the version the update started from (absent when unknown or absent there)
+  yours?: unknown; // value the update wanted (absent when it removed the field)
+  theirs?: unknown; // value saved since (absent when it was removed)
+}
+
+export interface RocketUpdateConflict {
+  current: RocketDesign; // the design as now saved
+  baseVersion: number; // version the update started from
+  merged: { // the current design with the update's non-conflicting changes, conflicts taking the update's side
+    name: string;
+    description: string;
+    config: RocketConfig;
+  };
+  conflicts: FieldConflict[]; // fields changed both ways, in config order
+}
+
 export interface RocketConfig {
   // Body Configuration
   body: {
@@ -25,6 +71,7 @@ export interface RocketConfig {
     mass: number; // kg (dry mass)
     material: RocketMaterial;
     fineness: number; // length/diameter ratio for aerodynamics
+    surfaceFinish?: SurfaceFinish; // skin friction roughness (default: regular paint)
   };
   
   // Nose Cone Configuration
@@ -33,6 +80,7 @@ export interface RocketConfig {
     length: number; // meters
     mass: number; // kg
     material: RocketMaterial;
+    ballastMass?: number; // kg of nose weight
   };
   
   // Fins Configuration
@@ -47,32 +95,71 @@ export interface RocketConfig {
     mass: number; // kg
   };
   
-  // Engine Configuration
-  engine: {
-    type: EngineType;
-    thrust: number; // Newtons
-    burnTime: number; // seconds
-    specificImpulse: number; // seconds (Isp)
-    propellantMass: number; // kg
-    totalMass: number; // kg (including casing)
-  };
+  // Engine Configuration (upper stage motor mount)
+  engine: MotorConfig;
   
   // Recovery System
   recovery: {
     type: RecoveryType;
-    deploymentAltitude: number; // meters AGL
-    parachuteDiameter?: number; // meters (if parachute)
+    deploymentAltitude: number; // meters AGL (main parachute, or altimeter deployment without an ejection charge)
+    parachuteDiameter?: number; // meters (parachute, dual-deploy main or helicopter rotor)
     chuteCount?: number;
+    drogueDiameter?: number; // meters (dual deploy; tumbles until the main opens when omitted)
+    streamerLength?: number; // meters
+    streamerWidth?: number; // meters
     mass: number; // kg
   };
   
+  // Booster stages below the airframe, in firing order (first stage first)
+  stages?: StageConfig[];
+  
   // Launch Configuration
   launch: {
     launchAngle: number; // degrees from vertical
+    launchDirection?: number; // degrees clockwise from north the rod tilts toward (north by default)
     launchRodLength: number; // meters
     windSpeed?: number; // m/s
     windDirection?: number; // degrees
   };
+
+  // Corrections fitted to real flights
+  aerodynamics?: {
+    dragMultiplier: number; // scales the component drag buildup (1 = as modeled)
+    calibration?: {
+      flights: number; // observations fitted
+      residual: number; // RMS relative error after fitting (0.05 = 5%)
+      calibratedAt: string; // ISO 8601
+    };
+  };
+}
+
+export interface MotorConfig {
+  type: EngineType;
+  thrust: number; // Newtons (average when a thrust curve is present)
+  burnTime: number; // seconds
+  specificImpulse: number; // seconds (Isp)
+  propellantMass: number; // kg
+  totalMass: number; // kg (including casing)
+  length?: number; // meters (motor casing)
+  diameter?: number; // meters (motor casing)
+  designation?: string; // motor database designation (e.g. 'C6'), fills in the fields above
+  thrustCurve?: ThrustCurvePoint[]; // replaces the constant thrust when present
+  ejectionDelay?: number; // seconds after burnout (defaults to the designation suffix, e.g. 'C6-5')
+  count?: number; // identical motors clustered in this mount (default: 1)
+  ignitionDelay?: number; // seconds after the stage below burns out (upper stage of a multi-stage rocket)
+}
+
+export interface StageConfig {
+  name?: string;
+  body: {
+    length: number; // meters (same diameter as the airframe)
+    mass: number; // kg (dry mass, including the interstage coupler)
+    material: RocketMaterial;
+  };
+  fins?: RocketConfig['fins'];
+  motors: MotorConfig[]; // cluster, all lit together
+  ignitionDelay?: number; // seconds after the stage below burns out (ignored for the first stage)
+  separationDelay?: number; // seconds after burnout until the spent stage drops away (default: 0)
 }
 
 export interface RocketMetadata {
@@ -91,10 +178,282 @@ export interface SimulationResult {
   rocketId: string;
   userId: string;
   config: RocketConfig; // Snapshot of config used
+  rocketVersion?: number; // design revision flown (unknown for older simulations)
   results: FlightResults;
   telemetry: TrajectoryPoint[];
+  events: FlightEvent[]; // discrete flight events in time order
   weather: WeatherConditions;
+  launchOptions?: LaunchOptions; // with every default filled in
+  seed?: number; // wind gust seed
+  engineVersion?: string; // physics engine version that produced the results
+  inputHash?: string; // SHA-256 of the canonical config, weather and launch options
+  createdAt: Date;
+}
+
+export interface ResultDifference {
+  field: string; // FlightResults field, or 'issues' for the issue codes
+  stored: number | boolean | string | null;
+  replayed: number | boolean | string | null;
+}
+
+export interface SimulationReplay {
+  simulationId: string;
+  reproduced: boolean; // replayed results match the stored ones
+  inputHash: string; // recomputed from the stored inputs
+  inputHashMatches: boolean; // false for older simulations recorded without a hash
+  engineVersion: { stored?: string; current: string };
+  differences: ResultDifference[];
+  results: FlightResults; // from the replay
+}
+
+export interface SimulationProgress {
+  fraction: number; // 0-1, estimated share of the flight simulated so far
+  time: number; // seconds of flight simulated
+  phase: FlightPhase;
+  altitude: number; // meters AGL
+  telemetry: TrajectoryPoint[]; // points recorded since the previous report
+}
+
+export interface SimulationJob {
+  id: string;
+  rocketId: string;
+  userId: string;
+  status: JobStatus;
+  progress?: Omit<SimulationProgress, 'telemetry'>;
+  simulationId?: string; // once completed
+  error?: string; // once failed
   createdAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+}
+
+export interface DispersionAnalysis {
+  id: string;
+  rocketId: string;
+  userId: string;
+  config: RocketConfig; // Snapshot of the nominal config
+  weather: WeatherConditions; // nominal weather
+  runs: number;
+  failedRuns: number;
+  seed: number;
+  tolerances: DispersionTolerances;
+  apogee: DispersionStatistics; // runs that landed
+  landingDistance: DispersionStatistics;
+  landingPoints: LandingPoint[];
+  landingEllipses: LandingEllipse[]; // 1σ, 2σ and 3σ
+  fieldRadius?: number; // meters
+  landingsOutsideField?: number;
+  createdAt: Date;
+}
+
+export interface DispersionTolerances {
+  windSpeed: number; // m/s (1σ)
+  windDirection: number; // degrees (1σ)
+  motorImpulse: number; // fraction of total impulse (1σ)
+  launchAngle: number; // degrees (1σ)
+  mass: number; // fraction of dry mass (1σ)
+}
+
+export interface DispersionStatistics {
+  mean: number;
+  standardDeviation: number;
+  min: number;
+  max: number;
+}
+
+export interface LandingPoint {
+  x: number; // meters north of the pad
+  z: number; // meters east of the pad
+}
+
+export interface LandingEllipse {
+  sigma: number;
+  probability: number; // expected fraction of landings inside
+  center: LandingPoint;
+  semiMajorAxis: number; // meters
+  semiMinorAxis: number; // meters
+  orientation: number; // degrees clockwise from north of the major axis
+}
+
+export interface FlightLogSample {
+  time: number; // seconds on the altimeter's clock
+  altitude: number; // meters AGL
+  velocity?: number; // m/s vertical
+}
+
+export interface FlightLog {
+  id: string;
+  rocketId: string;
+  userId: string;
+  name: string;
+  format: FlightLogFormat; // as detected when imported with 'auto'
+  flownAt?: Date;
+  samples: FlightLogSample[]; // empty in lists
+  velocitySource: 'logged' | 'derived'; // derived from altitude when the log has none
+  apogee: number; // meters AGL
+  apogeeTime: number; // seconds on the altimeter's clock
+  maxVelocity: number; // m/s
+  createdAt: Date;
+}
+
+export interface FlightMetricComparison {
+  actual: number;
+  simulated: number;
+  difference: number; // simulated - actual
+  percentDifference: number; // of the actual value
+}
+
+export interface FlightOverlayPoint {
+  time: number; // seconds on the simulation's clock
+  actualAltitude: number; // meters AGL
+  simulatedAltitude: number; // meters AGL
+}
+
+export interface FlightComparison {
+  flightLogId: string;
+  simulationId: string;
+  timeOffset: number; // seconds added to the log's times to line them up with the simulation
+  apogee: FlightMetricComparison; // meters AGL
+  apogeeTime: FlightMetricComparison; // seconds on the simulation's clock
+  maxVelocity: FlightMetricComparison; // m/s vertical
+  rmsAltitudeError: number; // meters, over the samples both cover
+  maxAltitudeError: { value: number; time: number }; // meters (simulated - actual), seconds
+  samplesCompared: number;
+  overlay: FlightOverlayPoint[];
+}
+
+export interface ApogeeObservation {
+  apogee?: number; // meters AGL, from an altimeter or an observer's estimate
+  apogeeTime?: number; // seconds from ignition, e.g. timed with a stopwatch
+  flightLogId?: string; // take the apogee from an imported altimeter log
+  weather?: Partial<WeatherConditions>; // conditions on the day (standard when omitted)
+  launchAngle?: number; // degrees, when flown at another angle than the design's
+}
+
+export interface CalibratedFlight {
+  observed: { apogee?: number; apogeeTime?: number };
+  before: { apogee: number; apogeeTime: number }; // simulated with the previous multiplier
+  after: { apogee: number; apogeeTime: number }; // simulated with the fitted multiplier
+}
+
+export interface DragCalibration {
+  dragMultiplier: number;
+  previousMultiplier: number;
+  residual: number; // RMS relative error after fitting (0.05 = 5%)
+  flights: CalibratedFlight[];
+}
+
+export interface OptimizationVariable {
+  parameter: OptimizationParameter;
+  min: number; // meters or kg
+  max: number;
+}
+
+export interface OptimizationCandidate {
+  config: RocketConfig; // the base design with these values and motor
+  values: Partial<Record<OptimizationParameter, number>>;
+  motor: string; // designation (or impulse class) flown
+  apogee: number; // meters AGL
+  stabilityMargin: number; // calibers
+  landingDistance: number; // meters from launch pad
+  objectiveValue: number; // meters: distance from the target, apogee or landing distance
+}
+
+export interface OptimizationResult {
+  objective: OptimizationObjective;
+  targetApogee?: number;
+  minStabilityMargin: number;
+  evaluations: number; // simulations run
+  candidates: OptimizationCandidate[]; // best first, all meeting the stability margin
+}
+
+export interface OptimizationProgress {
+  evaluations: number;
+  maxEvaluations: number;
+  fraction: number; // 0-1, share of the evaluation budget used
+  motor: string; // being searched
+  bestObjectiveValue?: number; // best stable candidate so far
+}
+
+export type SweepMetric =
+  | 'maxAltitude'
+  | 'maxVelocity'
+  | 'maxAcceleration'
+  | 'apogeeTime'
+  | 'flightTime'
+  | 'landingDistance'
+  | 'stabilityMargin'
+  | 'maxMachNumber'
+  | 'railExitVelocity'
+  | 'descentRate'
+  | 'score'
+  | 'estimatedAltitude' // fast mode
+  | 'estimatedVelocity' // fast mode
+  | 'thrustToWeight'; // fast mode
+
+export interface SweepAxis {
+  path: string; // dotted config path, e.g. 'fins.span' or 'stages.0.body.length'
+  from: number;
+  to: number;
+  steps: number; // values from `from` to `to` inclusive
+}
+
+export interface SweepPoint {
+  values: number[]; // one per axis
+  metrics: Partial<Record<SweepMetric, number>>;
+  successful: boolean;
+  error?: string; // when the point could not be simulated
+}
+
+export interface SweepResult {
+  mode: SweepMode;
+  axes: Array<SweepAxis & { values: number[] }>;
+  metrics: SweepMetric[];
+  points: SweepPoint[]; // row-major: the last axis varies fastest
+}
+
+export interface ComparedSimulation {
+  id: string;
+  rocketId: string;
+  createdAt: Date;
+  results: FlightResults;
+}
+
+export interface SimulationMetricDelta {
+  metric: keyof FlightResults;
+  values: Array<number | null>; // one per simulation, null when not recorded
+  differences: Array<number | null>; // value - the first simulation's
+  percentDifferences: Array<number | null>; // of the first simulation's value
+}
+
+export interface ComparisonPoint {
+  x: number; // seconds, or meters AGL on the altitude axis
+  // One value per simulation, null once its flight has ended (or, on the
+  // altitude axis, above its apogee)
+  time: Array<number | null>; // seconds
+  altitude: Array<number | null>; // meters AGL
+  velocity: Array<number | null>; // m/s speed
+  acceleration: Array<number | null>; // m/s² magnitude
+}
+
+export interface SimulationComparison {
+  axis: ComparisonAxis;
+  simulations: ComparedSimulation[]; // in the requested order, the first is the baseline
+  metrics: SimulationMetricDelta[];
+  points: ComparisonPoint[];
+}
+
+export interface OptimizationJob {
+  id: string;
+  rocketId: string;
+  userId: string;
+  status: JobStatus;
+  progress?: OptimizationProgress;
+  result?: OptimizationResult; // once completed
+  error?: string; // once failed
+  createdAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
 }
 
 export interface FlightResults {
@@ -108,11 +467,23 @@ export interface FlightResults {
   apogeeTime: number; // seconds
   recoveryTime: number; // seconds
   landingDistance: number; // meters from launch pad
+  railExitVelocity?: number; // m/s when leaving the launch rod
+  railExitTime?: number; // seconds
   
   // Safety & Performance
   maxMachNumber: number;
   maxDynamicPressure: number; // Pa
   stabilityMargin: number; // calibers
+  dragCurve?: DragCurvePoint[]; // Cd vs Mach for this configuration
+  
+  // Recovery
+  deploymentVelocity?: number; // m/s airspeed when the first recovery device opened
+  drogueDescentRate?: number; // m/s under the drogue (dual deploy)
+  descentRate?: number; // m/s vertical speed at landing
+  driftDistance?: number; // meters drifted from first deployment to landing
+  
+  // Staging
+  stagingEvents?: StagingEvent[]; // booster separations, first stage first
   
   // Success Indicators
   successful: boolean;
@@ -120,12 +491,49 @@ export interface FlightResults {
   score: number; // 0-100 performance score
 }
 
+export interface StagingEvent {
+  stage: number; // 1 = first stage
+  time: number; // seconds
+  altitude: number; // meters AGL
+  velocity: number; // m/s
+  mass: number; // kg dropped
+}
+
+export interface RailExitEstimate {
+  rodLength: number; // meters
+  velocity: number; // m/s leaving the rod (0 if the motors cannot lift the rocket off it)
+  time?: number; // seconds after ignition
+  requiredVelocity: number; // m/s for the forecast wind
+  suggestedRodLength?: number; // meters to reach the required velocity, if the motors can
+}
+
+export enum FlightEventType {
+  IGNITION = 'ignition',
+  LAUNCH_ROD_CLEARANCE = 'launch_rod_clearance',
+  BURNOUT = 'burnout',
+  STAGE_SEPARATION = 'stage_separation',
+  APOGEE = 'apogee',
+  EJECTION = 'ejection',
+  DEPLOYMENT = 'deployment',
+  GROUND_HIT = 'ground_hit'
+}
+
+export interface FlightEvent {
+  type: FlightEventType;
+  time: number; // seconds, exact rather than the nearest telemetry sample
+  altitude: number; // meters AGL
+  velocity: number; // m/s
+  position: Vector3; // meters, same axes as telemetry
+  stage?: number; // 1 = first stage (ignition, burnout and separation)
+  device?: 'drogue' | 'main'; // recovery device (deployment)
+}
+
 export interface TrajectoryPoint {
   time: number; // seconds
   position: {
-    x: number; // meters (downrange)
+    x: number; // meters (downrange, north; the launch rod tilts this way)
     y: number; // meters (altitude AGL)
-    z: number; // meters (crossrange)
+    z: number; // meters (crossrange, east)
   };
   velocity: {
     x: number; // m/s
@@ -143,23 +551,110 @@ export interface TrajectoryPoint {
   machNumber: number;
   altitude: number; // meters AGL
   phase: FlightPhase;
+  wind?: Vector3; // m/s wind velocity at the rocket's altitude (x north, z east)
+
+  // Rigid-body attitude (six-degree-of-freedom model only)
+  orientation?: Quaternion; // body-to-world rotation, body axis +y = nose
+  angularVelocity?: Vector3; // rad/s (body frame)
+  angleOfAttack?: number; // degrees
+}
+
+export interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface Quaternion {
+  w: number;
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface AerodynamicComponent {
+  name: string; // e.g. 'nose_cone', 'body', 'fins'
+  normalForceSlope: number; // CNα per radian, referenced to the body cross-section
+  centerOfPressure: number; // meters aft of the nose tip
+}
+
+export interface CenterOfPressureAnalysis {
+  centerOfPressure: number; // meters aft of the nose tip
+  normalForceSlope: number; // total CNα per radian
+  components: AerodynamicComponent[];
+}
+
+export interface StabilityAnalysis extends CenterOfPressureAnalysis {
+  centerOfGravity: number; // meters aft of the nose tip
+  stabilityMargin: number; // calibers, (CP - CG) / body diameter
+}
+
+export interface MassComponent {
+  name: string; // e.g. 'nose_cone', 'body', 'motor'
+  mass: number; // kg
+  centerOfGravity: number; // meters aft of the nose tip
+}
+
+export interface MassProperties {
+  mass: number; // kg
+  centerOfGravity: number; // meters aft of the nose tip
+  transverseInertia: number; // kg·m², pitch/yaw about the CG
+  longitudinalInertia: number; // kg·m², roll
+  components: MassComponent[];
+}
+
+export interface ThrustCurvePoint {
+  time: number; // seconds since ignition
+  thrust: number; // Newtons
+}
+
+export interface MotorDefinition {
+  designation: string; // e.g. 'C6'
+  manufacturer: string;
+  diameter: number; // mm
+  length: number; // mm
+  delays: number[]; // available ejection delays in seconds (empty if plugged)
+  propellantMass: number; // kg
+  totalMass: number; // kg
+  thrustCurve: ThrustCurvePoint[];
+  totalImpulse: number; // N·s
+  averageThrust: number; // N
+  peakThrust: number; // N
+  burnTime: number; // seconds
+  specificImpulse: number; // seconds
+  impulseClass: EngineType;
+}
+
+export interface DragCurvePoint {
+  mach: number;
+  dragCoefficient: number; // motor off
+  poweredDragCoefficient: number; // motor firing (reduced base drag)
 }
 
 export interface WeatherConditions {
-  temperature: number; // Celsius
-  pressure: number; // Pa
-  humidity: number; // %
+  temperature: number; // Celsius at the launch site
+  pressure: number; // Pa, reduced to sea level (QNH)
+  humidity: number; // % relative humidity
   windSpeed: number; // m/s
   windDirection: number; // degrees
-  windGustSpeed?: number; // m/s
+  windGustSpeed?: number; // m/s peak gust at the reference height
+  windProfile?: WindProfile; // variation with altitude (default: power law)
+  windReferenceHeight?: number; // meters AGL where windSpeed is measured (default: 10)
+  windShearExponent?: number; // power-law exponent (default: 1/7)
+  surfaceRoughness?: number; // meters, logarithmic profile roughness length (default: 0.03)
 }
 
 export interface LaunchOptions {
   weather?: Partial<WeatherConditions>;
-  launchSite?: LaunchSite;
+  launchSite?: LaunchSite; // site elevation offsets the atmosphere (sea level when omitted)
   timeStep?: number; // simulation time step in seconds
   maxFlightTime?: number; // maximum simulation time in seconds
   detailedTelemetry?: boolean; // high-resolution trajectory data
+  flightModel?: FlightModel; // point mass (default) or full 6-DOF rigid body
+  integrator?: IntegratorType; // numerical integration method (default: rk45)
+  integrationTolerance?: number; // relative error tolerance for adaptive integrators
+  seed?: number; // random seed for wind gusts (random when omitted)
+  minRailExitVelocity?: number; // m/s needed off the launch rod (default 15, raised in wind)
 }
 
 export interface LaunchSite {
@@ -217,6 +712,8 @@ export enum ComplexityLevel {
 export enum FlightPhase {
   PRELAUNCH = 'prelaunch',
   BOOST = 'boost',
+  STAGING = 'staging', // between a stage burning out and the next igniting
+  SUSTAIN = 'sustain', // motors of a later stage firing
   COAST = 'coast',
   APOGEE = 'apogee',
   RECOVERY = 'recovery',
@@ -224,6 +721,117 @@ export enum FlightPhase {
   ABORT = 'abort'
 }
 
+export enum FlightModel {
+  POINT_MASS = 'point_mass',
+  SIX_DOF = 'six_dof'
+}
+
+export enum IntegratorType {
+  EULER = 'euler',
+  RK4 = 'rk4',
+  RK45 = 'rk45' // adaptive Dormand–Prince
+}
+
+export enum WindProfile {
+  CONSTANT = 'constant',
+  POWER_LAW = 'power_law',
+  LOGARITHMIC = 'logarithmic'
+}
+
+export enum SurfaceFinish {
+  ROUGH = 'rough',
+  UNFINISHED = 'unfinished',
+  REGULAR_PAINT = 'regular_paint',
+  SMOOTH_PAINT = 'smooth_paint',
+  POLISHED = 'polished'
+}
+
+export enum MotorFileFormat {
+  ENG = 'eng', // RASP
+  RSE = 'rse' // RockSim
+}
+
+export enum TelemetryExportFormat {
+  CSV = 'csv',
+  JSONL = 'jsonl', // JSON Lines
+  ORK_CSV = 'ork-csv' // OpenRocket's CSV export layout
+}
+
+export enum DesignFileFormat {
+  ORK = 'ork', // OpenRocket (zipped or plain XML)
+  RKT = 'rkt' // RockSim XML
+}
+
+export enum FlightLogFormat {
+  AUTO = 'auto', // detect from the file
+  JOLLY_LOGIC = 'jolly-logic', // AltimeterThree CSV export
+  PERFECTFLITE = 'perfectflite', // StratoLogger CSV from DataCap
+  EGGTIMER = 'eggtimer',
+  CSV = 'csv' // any CSV with time and altitude columns
+}
+
+export enum ConfigChangeType {
+  ADDED = 'added',
+  REMOVED = 'removed',
+  CHANGED = 'changed'
+}
+
+export enum ComparisonAxis {
+  TIME = 'time', // the whole flight, from ignition
+  ALTITUDE = 'altitude' // the ascent, from the pad to the highest apogee
+}
+
+export enum OptimizationObjective {
+  TARGET_APOGEE = 'target_apogee', // closest apogee to targetApogee
+  MAX_ALTITUDE = 'max_altitude',
+  MIN_DRIFT = 'min_drift' // shortest landing distance
+}
+
+export enum SweepMode {
+  FULL = 'full', // a simulated flight per point
+  FAST = 'fast' // the closed-form performance estimate
+}
+
+export enum OptimizationParameter {
+  FIN_SPAN = 'fins.span',
+  FIN_ROOT_CHORD = 'fins.rootChord',
+  BODY_LENGTH = 'body.length',
+  NOSE_LENGTH = 'noseCone.length',
+  NOSE_BALLAST = 'noseCone.ballastMass',
+  PARACHUTE_DIAMETER = 'recovery.parachuteDiameter'
+}
+
+export interface DesignImportNote {
+  component: string; // name of the part in the imported file
+  action: 'approximated' | 'dropped';
+  detail: string;
+}
+
+export interface ImportRocketRequest {
+  content: string; // base64-encoded file
+  format: DesignFileFormat;
+  name?: string; // defaults to the design's name in the file
+  metadata?: Partial<RocketMetadata>;
+}
+
+export interface DesignImportResult {
+  rocket: RocketDesign;
+  notes: DesignImportNote[]; // parts that did not map exactly onto RocketConfig
+}
+
+export interface ImportFlightLogRequest {
+  content: string; // CSV text as exported by the altimeter
+  format?: FlightLogFormat; // detected when omitted
+  name?: string;
+  flownAt?: string; // ISO 8601 date of the flight
+}
+
+export interface TelemetryExportOptions {
+  format: TelemetryExportFormat;
+  columns?: string[]; // column keys in output order (all by default)
+  decimate?: number; // keep every nth point (and the last)
+}
+
 export interface FlightIssue {
   type: 'warning' | 'error' | 'info';
   code: string;
@@ -241,13 +849,48 @@ export interface CreateRocketRequest {
 }
 
 export interface UpdateRocketRequest extends Partial<CreateRocketRequest> {
-  version?: number;
+  version?: number; // version the edit started from; refused with a conflict once the rocket has moved past it
 }
 
 export interface LaunchRocketRequest {
   options?: LaunchOptions;
 }
 
+export interface DispersionRequest {
+  runs?: number; // number of Monte Carlo runs
+  seed?: number; // random seed for the whole analysis (random when omitted)
+  tolerances?: Partial<DispersionTolerances>;
+  fieldRadius?: number; // meters, counts landings outside the recovery field
+  options?: LaunchOptions;
+}
+
+export interface DragCalibrationRequest {
+  observations: ApogeeObservation[];
+  options?: LaunchOptions; // flight model and integrator for the fitting simulations
+}
+
+export interface DragCalibrationResult {
+  rocket: RocketDesign; // with the fitted multiplier saved in its config
+  calibration: DragCalibration;
+}
+
+export interface SweepRequest {
+  axes: SweepAxis[]; // one for a table, two for a grid
+  mode?: SweepMode; // default: full
+  options?: LaunchOptions;
+}
+
+export interface OptimizationRequest {
+  objective: OptimizationObjective;
+  targetApogee?: number; // meters AGL (target_apogee)
+  variables?: OptimizationVariable[]; // free dimensions and their bounds
+  engineTypes?: EngineType[]; // impulse classes to try (the design's motor when omitted)
+  minStabilityMargin?: number; // calibers (default: 1.5)
+  maxEvaluations?: number; // simulations across all motors (default: 150)
+  results?: number; // best candidates to return (default: 5)
+  options?: LaunchOptions;
+}
+
 export interface RocketListResponse {
   rockets: RocketDesign[];
   total: number;
@@ -279,6 +922,20 @@ export const ROCKET_CONSTRAINTS = {
   MIN_THRUST: 0.1, // N
   MAX_BURN_TIME: 300, // seconds
   MIN_BURN_TIME: 0.1, // seconds
+  MAX_DISPERSION_RUNS: 500, // Monte Carlo runs per analysis
+  MAX_STAGES: 3, // booster stages below the upper stage
+  MAX_CLUSTER_MOTORS: 9, // motors in one mount
+  MIN_DRAG_MULTIPLIER: 0.3, // drag calibration search range
+  MAX_DRAG_MULTIPLIER: 3,
+  MAX_CALIBRATION_FLIGHTS: 20,
+  MAX_OPTIMIZATION_EVALUATIONS: 1000, // simulations per optimization
+  MAX_OPTIMIZATION_RESULTS: 20,
+  MAX_SWEEP_STEPS: 50, // values per sweep axis
+  MAX_SWEEP_SIMULATIONS: 400, // points in a full sweep
+  MAX_COMPARED_SIMULATIONS: 6,
+  MIN_TIME_STEP: 0.001, // seconds, simulation options sent with requests
+  MAX_TIME_STEP: 0.1,
+  MAX_FLIGHT_TIME: 600, // seconds
 } as const;
 
 // Default Values